@@ -0,0 +1,325 @@
+// scripts/carrier-mock-server.mjs
+// Mock local de las APIs de Andreani y Correo Argentino (lo que usan src/lib/carriers/*).
+// Cotiza por peso y distancia de CP, crea envíos (idempotentes por pedido),
+// devuelve etiquetas PDF y trazas que avanzan con el tiempo.
+//
+// Uso:
+//   node scripts/carrier-mock-server.mjs            (puerto 4010)
+//   CARRIER_MOCK_PORT=4020 node scripts/carrier-mock-server.mjs
+//
+// En .env.local: SHIPPING_CARRIERS=andreani,correo_argentino (las URLs por default apuntan acá)
+//
+// Webhooks: con CARRIER_MOCK_WEBHOOK_URL=http://localhost:3000 y CARRIER_WEBHOOK_SECRET=... avisa a
+// /api/carriers/<correo>/webhook cada vez que un envío avanza (como haría el correo real).
+import http from "http";
+
+const port = Number(process.env.CARRIER_MOCK_PORT || 4010);
+const ORIGIN_CP = Number(process.env.SHIPPING_ORIGIN_POSTAL_CODE || 3260);
+
+// trackingNumber -> { carrier, orderNumber, createdAt, recipient, city }
+const shipments = new Map();
+// `${carrier}:${orderNumber}` -> trackingNumber
+const byOrder = new Map();
+
+// Cada paso de la traza se "cumple" cada STEP_MS desde que se creó el envío
+const STEP_MS = Number(process.env.CARRIER_MOCK_STEP_MS || 60_000);
+
+const STEPS = {
+  andreani: [
+    { estado: "Pendiente de ingreso", sucursal: "Concepción del Uruguay" },
+    { estado: "Ingresado", sucursal: "Concepción del Uruguay" },
+    { estado: "En viaje", sucursal: "Centro de distribución Benavídez" },
+    { estado: "En distribución", sucursal: null },
+    { estado: "Entregado", sucursal: null },
+  ],
+  correo_argentino: [
+    { event: "PREIMPOSICION", branch: "CONCEPCION DEL URUGUAY" },
+    { event: "IMPOSICION", branch: "CONCEPCION DEL URUGUAY" },
+    { event: "EN TRANSITO", branch: "CTP MONTE GRANDE" },
+    { event: "EN PODER DEL DISTRIBUIDOR", branch: null },
+    { event: "ENTREGADO", branch: null },
+  ],
+};
+
+function cpNumber(v) {
+  const m = /(\d{4})/.exec(String(v ?? ""));
+  return m ? Number(m[1]) : null;
+}
+
+/** Tarifa de mentira: base + por kilo + distancia (diferencia de CP) */
+function rate({ carrier, cp, grams }) {
+  const kilos = Math.max(1, Math.ceil(grams / 1000));
+  const far = cp == null ? 1 : Math.min(1, Math.abs(cp - ORIGIN_CP) / 6000);
+  const base = carrier === "andreani" ? 5200 : 4300;
+  const perKilo = carrier === "andreani" ? 950 : 800;
+  const price = Math.round(base + perKilo * kilos + 4000 * far);
+  const etaMin = carrier === "andreani" ? 2 + Math.round(far * 2) : 3 + Math.round(far * 3);
+  return { price, etaMin, etaMax: etaMin + (carrier === "andreani" ? 2 : 3) };
+}
+
+function trackingNumberFor(carrier) {
+  const n = String(Date.now()).slice(-9) + String(Math.floor(Math.random() * 100)).padStart(2, "0");
+  return carrier === "andreani" ? `3600000${n}` : `CP${n}AR`;
+}
+
+function createShipment(carrier, orderNumber, extra) {
+  const key = `${carrier}:${orderNumber}`;
+  const existing = byOrder.get(key);
+  if (existing) return existing;
+
+  const trackingNumber = trackingNumberFor(carrier);
+  shipments.set(trackingNumber, { carrier, orderNumber, createdAt: Date.now(), ...extra });
+  byOrder.set(key, trackingNumber);
+  return trackingNumber;
+}
+
+function events(trackingNumber) {
+  const s = shipments.get(trackingNumber);
+  if (!s) return null;
+  const done = Math.min(STEPS[s.carrier].length, 1 + Math.floor((Date.now() - s.createdAt) / STEP_MS));
+  return STEPS[s.carrier].slice(0, done).map((step, i) => ({
+    ...step,
+    at: new Date(s.createdAt + i * STEP_MS).toISOString(),
+    city: s.city,
+  }));
+}
+
+/** PDF de una página con texto (sin dependencias) */
+function labelPdf(lines) {
+  const esc = (t) => String(t).replace(/[\\()]/g, (c) => `\\${c}`).replace(/[^\x20-\x7e]/g, "?");
+  const content = [
+    "BT /F1 14 Tf 40 250 Td 18 TL",
+    ...lines.map((l) => `(${esc(l)}) Tj T*`),
+    "ET",
+    "0.5 w 30 40 m 30 280 l 390 280 l 390 40 l h S",
+  ].join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 420 300] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+
+  let out = "%PDF-1.4\n";
+  const offsets = [];
+  objects.forEach((obj, i) => {
+    offsets.push(Buffer.byteLength(out));
+    out += `${i + 1} 0 obj\n${obj}\nendobj\n`;
+  });
+  const xref = Buffer.byteLength(out);
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(out, "latin1");
+}
+
+function send(res, status, body, type = "application/json") {
+  const payload = Buffer.isBuffer(body) ? body : Buffer.from(JSON.stringify(body));
+  res.writeHead(status, { "Content-Type": type, "Content-Length": payload.byteLength });
+  res.end(payload);
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const c of req) chunks.push(c);
+  const raw = Buffer.concat(chunks).toString("utf8");
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return null;
+  }
+}
+
+/* ---------------- Andreani ---------------- */
+
+async function andreani(req, res, path, url) {
+  if (req.method === "GET" && path === "/v1/tarifas") {
+    const cp = cpNumber(url.searchParams.get("cpDestino"));
+    if (cp == null) return send(res, 400, { message: "cpDestino requerido" });
+
+    let kilos = 0;
+    for (const [k, v] of url.searchParams) if (/^bultos\[\d+\]\[kilos\]$/.test(k)) kilos += Number(v) || 0;
+
+    const r = rate({ carrier: "andreani", cp, grams: kilos * 1000 });
+    return send(res, 200, {
+      pesoAforado: String(kilos),
+      tarifaSinIva: { total: String(Math.round(r.price / 1.21)) },
+      tarifaConIva: { total: String(r.price) },
+      plazoEntrega: { minimo: r.etaMin, maximo: r.etaMax },
+      servicio: "Estándar a domicilio",
+    });
+  }
+
+  if (req.method === "POST" && path === "/v2/ordenes-de-envio") {
+    const body = await readBody(req);
+    if (!body?.idPedido || !body?.destino?.postal?.codigoPostal) {
+      return send(res, 400, { message: "idPedido y destino.postal.codigoPostal requeridos" });
+    }
+    const numero = createShipment("andreani", body.idPedido, {
+      recipient: body?.destinatario?.[0]?.nombreCompleto ?? "",
+      city: body.destino.postal.localidad ?? "",
+      address: `${body.destino.postal.calle ?? ""} ${body.destino.postal.numero ?? ""}`.trim(),
+      cp: body.destino.postal.codigoPostal,
+    });
+    return send(res, 202, {
+      estado: "Pendiente",
+      agrupadorDeBultos: `AGR${numero.slice(-8)}`,
+      bultos: [{ numeroDeBulto: "1", numeroDeEnvio: numero, linking: [] }],
+    });
+  }
+
+  let m = /^\/v2\/ordenes-de-envio\/([^/]+)\/etiquetas$/.exec(path);
+  if (req.method === "GET" && m) {
+    const s = shipments.get(decodeURIComponent(m[1]));
+    if (!s) return send(res, 404, { message: "Envío inexistente" });
+    return send(
+      res,
+      200,
+      labelPdf(["ANDREANI", `Envio ${m[1]}`, `Pedido ${s.orderNumber}`, s.recipient, s.address, `${s.city} (${s.cp})`]),
+      "application/pdf"
+    );
+  }
+
+  m = /^\/v2\/envios\/([^/]+)\/trazas$/.exec(path);
+  if (req.method === "GET" && m) {
+    const ev = events(decodeURIComponent(m[1]));
+    if (!ev) return send(res, 404, { message: "Envío inexistente" });
+    return send(res, 200, {
+      eventos: ev.map((e) => ({
+        Fecha: e.at,
+        Estado: e.estado,
+        Traduccion: e.estado,
+        Sucursal: { Nombre: e.sucursal ?? e.city },
+      })),
+    });
+  }
+
+  return send(res, 404, { message: "Not found" });
+}
+
+/* ---------------- Correo Argentino (MiCorreo) ---------------- */
+
+async function correoArgentino(req, res, path, url) {
+  if (req.method === "POST" && path === "/rates") {
+    const body = await readBody(req);
+    const cp = cpNumber(body?.postalCodeDestination);
+    if (cp == null) return send(res, 400, { message: "postalCodeDestination requerido" });
+
+    const r = rate({ carrier: "correo_argentino", cp, grams: Number(body?.dimensions?.weight) || 0 });
+    return send(res, 200, {
+      customerId: body?.customerId ?? "",
+      validTo: new Date(Date.now() + 86_400_000).toISOString(),
+      rates: [
+        {
+          deliveredType: "D",
+          productType: "CP",
+          productName: "Clásico a domicilio",
+          price: r.price,
+          deliveryTimeMin: String(r.etaMin),
+          deliveryTimeMax: String(r.etaMax),
+        },
+        {
+          deliveredType: "S",
+          productType: "CP",
+          productName: "Clásico a sucursal",
+          price: Math.round(r.price * 0.8),
+          deliveryTimeMin: String(r.etaMin),
+          deliveryTimeMax: String(r.etaMax),
+        },
+      ],
+    });
+  }
+
+  if (req.method === "POST" && path === "/shipping/import") {
+    const body = await readBody(req);
+    if (!body?.extOrderId || !body?.shipping?.address?.postalCode) {
+      return send(res, 400, { message: "extOrderId y shipping.address.postalCode requeridos" });
+    }
+    const a = body.shipping.address;
+    const trackingNumber = createShipment("correo_argentino", body.extOrderId, {
+      recipient: body?.recipient?.name ?? "",
+      city: a.city ?? "",
+      address: `${a.streetName ?? ""} ${a.streetNumber ?? ""}`.trim(),
+      cp: a.postalCode,
+    });
+    return send(res, 200, { createdAt: new Date().toISOString(), trackingNumber });
+  }
+
+  if (req.method === "GET" && path === "/shipping/label") {
+    const tn = url.searchParams.get("trackingNumber") || "";
+    const s = shipments.get(tn);
+    if (!s) return send(res, 404, { message: "Envío inexistente" });
+    return send(
+      res,
+      200,
+      labelPdf(["CORREO ARGENTINO", `Envio ${tn}`, `Pedido ${s.orderNumber}`, s.recipient, s.address, `${s.city} (${s.cp})`]),
+      "application/pdf"
+    );
+  }
+
+  if (req.method === "GET" && path === "/shipping/tracking") {
+    const tn = url.searchParams.get("shippingId") || "";
+    const ev = events(tn);
+    if (!ev) return send(res, 404, { message: "Envío inexistente" });
+    return send(res, 200, [
+      {
+        trackingNumber: tn,
+        events: ev.map((e) => ({ event: e.event, date: e.at, branch: e.branch ?? e.city, status: e.event })),
+      },
+    ]);
+  }
+
+  return send(res, 404, { message: "Not found" });
+}
+
+/* ---------------- Webhooks ---------------- */
+
+const webhookBase = String(process.env.CARRIER_MOCK_WEBHOOK_URL || "").replace(/\/$/, "");
+const webhookSecret = process.env.CARRIER_WEBHOOK_SECRET || "";
+const notified = new Map(); // trackingNumber -> cantidad de eventos avisados
+
+async function notifyProgress() {
+  for (const [tn, s] of shipments) {
+    const count = events(tn)?.length ?? 0;
+    if (count <= (notified.get(tn) ?? 0)) continue;
+    notified.set(tn, count);
+
+    const slug = s.carrier === "andreani" ? "andreani" : "correo-argentino";
+    const body = s.carrier === "andreani" ? { numeroDeEnvio: tn } : { trackingNumber: tn };
+    try {
+      const r = await fetch(`${webhookBase}/api/carriers/${slug}/webhook`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-webhook-secret": webhookSecret },
+        body: JSON.stringify(body),
+      });
+      console.log(`[carrier-mock] webhook ${slug} ${tn} → ${r.status}`);
+    } catch (e) {
+      console.error(`[carrier-mock] webhook ${slug} ${tn} falló:`, e?.message || e);
+    }
+  }
+}
+
+if (webhookBase) setInterval(notifyProgress, 5000).unref();
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || "/", `http://localhost:${port}`);
+  const [, prefix, ...rest] = url.pathname.split("/");
+  const path = `/${rest.join("/")}`;
+
+  console.log(`[carrier-mock] ${req.method} ${url.pathname}${url.search}`);
+
+  try {
+    if (prefix === "andreani") return await andreani(req, res, path, url);
+    if (prefix === "correo-argentino") return await correoArgentino(req, res, path, url);
+    return send(res, 404, { message: "Usá /andreani/... o /correo-argentino/..." });
+  } catch (e) {
+    console.error("[carrier-mock] error:", e);
+    return send(res, 500, { message: String(e?.message || e) });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`[carrier-mock] escuchando en http://localhost:${port} (/andreani, /correo-argentino)`);
+});
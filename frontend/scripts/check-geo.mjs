@@ -0,0 +1,81 @@
+// scripts/check-geo.mjs
+// Chequeo de la validación de direcciones (src/lib/geo) sin Strapi ni Next:
+// ciudades con varios CP, CP de otra provincia, letra del CPA y CABA.
+//
+// Uso:
+//   npm run check:geo
+import assert from "node:assert/strict";
+import { createChecker, loadTsModule } from "./load-ts-module.mjs";
+
+const { validateArAddress, addressInvalidMessage } = loadTsModule("lib/geo/index.ts");
+const { check, done } = createChecker();
+
+function reasonOf(input) {
+  try {
+    validateArAddress(input);
+  } catch (e) {
+    assert.equal(e?.code, "ADDRESS_INVALID");
+    assert.ok(addressInvalidMessage(e), "el rechazo trae mensaje para el cliente");
+    return e.reason;
+  }
+  return null;
+}
+
+// El dataset guarda un CP por localidad; estas ciudades tienen varios
+const multiCp = [
+  ["Córdoba", "cordoba", "5009", "Córdoba"],
+  ["Santa Fe", "Rosario", "2013", "Rosario"],
+  ["Buenos Aires", "La Plata", "1904", "La Plata"],
+  ["Buenos Aires", "MAR DEL PLATA", "7602", "Mar del Plata"],
+];
+
+for (const [province, city, postalCode, expected] of multiCp) {
+  check(`${expected} con ${postalCode}: vale y devuelve el nombre del dataset`, () => {
+    const out = validateArAddress({ province, city, postalCode });
+    assert.equal(out.city, expected);
+    assert.equal(out.postalCode, postalCode);
+  });
+}
+
+check("CP del dataset: vale con su localidad", () => {
+  assert.deepEqual(validateArAddress({ province: "cordoba", city: "Villa  María", postalCode: "5900" }), {
+    province: "Córdoba",
+    city: "Villa María",
+    postalCode: "5900",
+  });
+});
+
+check("localidad fuera del dataset: queda como la escribieron", () => {
+  const out = validateArAddress({ province: "Córdoba", city: "Barrio General Paz", postalCode: "5004" });
+  assert.equal(out.city, "Barrio General Paz");
+});
+
+check("rangos superpuestos: CP del dataset de otra provincia que cae en los de esta", () => {
+  const out = validateArAddress({ province: "Santa Fe", city: "Cañada de Gómez", postalCode: "2400" });
+  assert.equal(out.province, "Santa Fe");
+});
+
+const rejections = [
+  ["CP de otra provincia (Rosario en Córdoba)", { province: "Córdoba", city: "Rosario", postalCode: "2013" }, "postal_code_province"],
+  ["CP del dataset de otra provincia", { province: "Jujuy", city: "Salta", postalCode: "4400" }, "postal_code_province"],
+  ["CP fuera de los rangos", { province: "Buenos Aires", city: "La Plata", postalCode: "5009" }, "postal_code_province"],
+  ["letra del CPA de otra provincia", { province: "Córdoba", city: "Córdoba", postalCode: "C5009ABC" }, "postal_code_province"],
+  ["CABA con CP de provincia", { province: "CABA", city: "Palermo", postalCode: "1900" }, "postal_code_province"],
+  ["CP inválido", { province: "Córdoba", city: "Córdoba", postalCode: "12" }, "postal_code"],
+  ["provincia inexistente", { province: "Narnia", city: "Córdoba", postalCode: "5009" }, "province"],
+  ["sin localidad", { province: "Córdoba", city: " ", postalCode: "5009" }, "city"],
+];
+
+for (const [name, input, reason] of rejections) {
+  check(`rechazo: ${name} → ${reason}`, () => {
+    assert.equal(reasonOf(input), reason);
+  });
+}
+
+check("CABA: los barrios comparten CP y se devuelve CABA con el CPA", () => {
+  const out = validateArAddress({ province: "Capital Federal", city: "Palermo", postalCode: "c1425abc" });
+  assert.equal(out.city, out.province);
+  assert.equal(out.postalCode, "C1425ABC");
+});
+
+done();
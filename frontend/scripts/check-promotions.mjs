@@ -0,0 +1,315 @@
+// scripts/check-promotions.mjs
+// Chequeo del motor de promociones (src/lib/promotion-engine.ts) sin Strapi ni Next:
+// prioridad y combinables, cupones (políticas, listas, vigencia y usos), combos / 3x2 y ofertas relámpago.
+//
+// Uso:
+//   npm run check:promotions
+import assert from "node:assert/strict";
+import { createChecker, loadTsModule } from "./load-ts-module.mjs";
+
+const { evaluatePromotions, readPromotionRule, allocateQuoteLines, needsLocalQuote } =
+  loadTsModule("lib/promotion-engine.ts");
+const { check, done } = createChecker();
+
+const byId = (rows) => Object.fromEntries(rows.map((r) => [r.id, r]));
+const inSeason = new Date("2026-02-10T12:00:00.000Z");
+
+/* ---------- percent / fixed, prioridad y combinables ---------- */
+
+// Promos como las devuelve Strapi (v4 con attributes / v5 plano)
+const fixed = readPromotionRule({
+  id: 4,
+  attributes: {
+    name: "$300 desde $2000",
+    enabled: true,
+    discountType: "fixed",
+    discountValue: 300,
+    minSubtotal: 2000,
+    combinable: true,
+    priority: 1,
+  },
+});
+const tenPercent = readPromotionRule({
+  id: 5,
+  name: "10% en todo",
+  enabled: true,
+  discountType: "percent",
+  discountValue: 10,
+  combinable: true,
+  priority: 2,
+});
+const exclusive = readPromotionRule({
+  id: 6,
+  name: "20% solo",
+  enabled: true,
+  discountType: "percent",
+  discountValue: 20,
+  combinable: false,
+  priority: 3,
+});
+
+const basicCart = [
+  { id: 1, qty: 2, unitPrice: 1000 },
+  { id: 2, qty: 1, unitPrice: 600 },
+];
+
+check("fixed y % en orden de `priority`, el % sobre lo que queda", () => {
+  const q = evaluatePromotions({ lines: basicCart, promotions: [tenPercent, fixed], now: inSeason });
+  assert.equal(q.subtotal, 2600);
+  assert.deepEqual(
+    q.appliedPromotions.map((p) => [p.id, p.amount]),
+    [
+      [4, 300],
+      [5, 230], // 10% de 2300
+    ]
+  );
+  assert.equal(q.total, 2070);
+});
+
+check("no combinable después de otra promo: no aplica (not_combinable)", () => {
+  const q = evaluatePromotions({ lines: basicCart, promotions: [fixed, exclusive], now: inSeason });
+  assert.deepEqual(
+    q.appliedPromotions.map((p) => p.id),
+    [4]
+  );
+  assert.equal(byId(q.explanation)[6].reason, "not_combinable");
+});
+
+check("no combinable primero: va sola (blocked_by_exclusive)", () => {
+  const first = readPromotionRule({ ...exclusive, priority: 0 });
+  const q = evaluatePromotions({ lines: basicCart, promotions: [first, fixed, tenPercent], now: inSeason });
+  assert.deepEqual(
+    q.appliedPromotions.map((p) => [p.id, p.amount]),
+    [[6, 520]]
+  );
+  const reasons = byId(q.explanation);
+  assert.equal(reasons[4].reason, "blocked_by_exclusive");
+  assert.equal(reasons[5].reason, "blocked_by_exclusive");
+});
+
+check("mínimo no alcanzado: queda en la explicación con mensaje", () => {
+  const q = evaluatePromotions({ lines: [basicCart[1]], promotions: [fixed, tenPercent], now: inSeason });
+  const row = byId(q.explanation)[4];
+  assert.equal(row.applied, false);
+  assert.equal(row.reason, "min_subtotal");
+  assert.ok(row.message);
+  assert.equal(q.discountTotal, 60);
+});
+
+/* ---------- cupones: políticas, listas, vigencia y usos ---------- */
+
+const coupon = readPromotionRule({
+  id: 10,
+  name: "Cupón VERANO",
+  enabled: true,
+  requiresCoupon: true,
+  code: "VERANO",
+  discountType: "percent",
+  discountValue: 15,
+  minSubtotal: 1000,
+  startsAt: "2026-01-01T00:00:00.000Z",
+  endsAt: "2026-03-31T23:59:59.000Z",
+  maxUses: 5,
+  maxUsesPerUser: 1,
+});
+const couponCafe = readPromotionRule({
+  id: 11,
+  name: "Cupón CAFE",
+  enabled: true,
+  requiresCoupon: true,
+  code: "CAFE",
+  discountType: "fixed",
+  discountValue: 100,
+  allowedProducts: ["cafe-molido"],
+});
+const couponSoloLleno = readPromotionRule({
+  id: 12,
+  name: "Cupón LLENO",
+  enabled: true,
+  requiresCoupon: true,
+  code: "LLENO",
+  discountType: "percent",
+  discountValue: 10,
+  couponPolicy: "exclude_discounted",
+});
+
+const cart = [
+  { id: 1, slug: "alfajor", category: "dulces", qty: 3, unitPrice: 1000 },
+  { id: 2, slug: "cafe", category: "bebidas", qty: 1, unitPrice: 600 },
+  { id: 3, slug: "te", category: "bebidas", qty: 2, unitPrice: 400 },
+];
+const withOff = [...cart, { id: 4, slug: "yerba", category: "almacen", qty: 1, unitPrice: 900, off: 10 }];
+const usageOk = { total: 0, byUser: 0 };
+const coupons = [tenPercent, coupon, couponCafe, couponSoloLleno];
+
+check("cupón válido: va solo y descuenta sobre el carrito", () => {
+  const q = evaluatePromotions({
+    lines: cart,
+    promotions: coupons,
+    coupon: "verano",
+    couponUsage: usageOk,
+    now: inSeason,
+  });
+  assert.equal(q.couponRejection, null);
+  assert.deepEqual(
+    q.appliedPromotions.map((p) => [p.id, p.amount]),
+    [[10, 660]]
+  );
+  assert.equal(byId(q.explanation)[5].reason, "coupon_exclusive");
+});
+
+check("exclude_discounted: el cupón descuenta solo los productos sin off", () => {
+  const q = evaluatePromotions({ lines: withOff, promotions: coupons, coupon: "LLENO", now: inSeason });
+  assert.equal(q.couponRejection, null);
+  assert.deepEqual(
+    q.appliedPromotions.map((p) => [p.id, p.amount]),
+    [[12, 440]] // 10% de 4400, la yerba queda afuera
+  );
+});
+
+const rejections = [
+  ["cupón que no existe", { coupon: "NOEXISTE" }, "COUPON_NOT_FOUND"],
+  ["antes de startsAt", { now: new Date("2025-12-31T12:00:00.000Z") }, "COUPON_NOT_STARTED"],
+  ["después de endsAt", { now: new Date("2026-04-01T12:00:00.000Z") }, "COUPON_EXPIRED"],
+  ["sin poder contar usos", { couponUsage: null }, "COUPON_UNAVAILABLE"],
+  ["maxUses agotado", { couponUsage: { total: 5, byUser: 0 } }, "COUPON_USAGE_LIMIT"],
+  ["maxUsesPerUser agotado", { couponUsage: { total: 1, byUser: 1 } }, "COUPON_USER_LIMIT"],
+  ["producto con off (política block)", { lines: withOff }, "DISCOUNTED_ITEMS"],
+  ["exclude_discounted sin productos sin off", { coupon: "LLENO", lines: [withOff[3]] }, "DISCOUNTED_ITEMS"],
+  ["ningún producto participa", { coupon: "cafe" }, "NO_ELIGIBLE_ITEMS"],
+  ["no llega al mínimo", { lines: [cart[2]] }, "MIN_NOT_MET"],
+];
+
+for (const [name, override, code] of rejections) {
+  check(`cupón rechazado: ${name} → ${code}`, () => {
+    const input = {
+      lines: cart,
+      promotions: coupons,
+      coupon: "VERANO",
+      couponUsage: usageOk,
+      now: inSeason,
+      ...override,
+    };
+    const q = evaluatePromotions(input);
+
+    assert.equal(q.couponRejection?.code, code);
+    assert.ok(q.couponRejection.message, "el rechazo trae mensaje para el cliente");
+    assert.ok(!q.appliedPromotions.some((p) => p.id >= 10), "el cupón no aplica");
+
+    // Las promos automáticas siguen valiendo sin el cupón
+    const withoutCoupon = evaluatePromotions({ ...input, coupon: null });
+    assert.equal(q.discountTotal, withoutCoupon.discountTotal);
+  });
+}
+
+/* ---------- combos y 3x2, reparto por producto ---------- */
+
+const bundle = readPromotionRule({
+  id: 1,
+  attributes: {
+    name: "Combo 2 alfajores",
+    enabled: true,
+    discountType: "bundle",
+    bundleItems: [{ product: "alfajor", qty: 2 }],
+    bundlePrice: 1500,
+    combinable: true,
+    priority: 1,
+  },
+});
+const bogo = readPromotionRule({
+  id: 2,
+  name: "3x2 en bebidas",
+  enabled: true,
+  discountType: "bogo",
+  buyQty: 2,
+  getQty: 1,
+  allowedCategories: "bebidas",
+  combinable: true,
+  priority: 2,
+});
+const percent = readPromotionRule({ ...tenPercent, id: 3, priority: 3 });
+
+const autoPromos = [percent, bogo, bundle]; // desordenadas a propósito: manda `priority`
+
+check("combo, 3x2 entre productos distintos y % sobre lo que queda", () => {
+  const q = evaluatePromotions({ lines: cart, promotions: autoPromos, now: inSeason });
+
+  assert.equal(q.subtotal, 4400);
+  assert.deepEqual(
+    q.appliedPromotions.map((p) => [p.id, p.amount]),
+    [
+      [1, 500], // 2 alfajores (2000) a 1500
+      [2, 400], // café + 2 tés: el té más barato gratis
+      [3, 350], // 10% de 2500 + 600 + 400
+    ]
+  );
+  assert.equal(q.discountTotal, 1250);
+  assert.equal(q.total, 3150);
+
+  const [comboRow, bogoRow, percentRow] = q.appliedPromotions;
+  assert.deepEqual(comboRow.lines, [{ id: 1, amount: 500, units: 2 }]);
+  assert.deepEqual(bogoRow.lines, [{ id: 3, amount: 400, units: 2 }]);
+  assert.equal(bogoRow.meta.groups, 1);
+  assert.deepEqual(percentRow.lines, [
+    { id: 1, amount: 250 },
+    { id: 2, amount: 60 },
+    { id: 3, amount: 40 },
+  ]);
+
+  const lines = byId(q.lineDiscounts);
+  assert.equal(lines[1].discount, 750);
+  assert.equal(lines[2].discount, 60);
+  assert.equal(lines[3].discount, 440);
+  assert.equal(q.lineDiscounts.reduce((acc, l) => acc + l.discount, 0), q.discountTotal);
+});
+
+check("3x2 sin unidades suficientes no aplica (missing_units)", () => {
+  const q = evaluatePromotions({ lines: [cart[1]], promotions: [bogo], now: inSeason });
+  assert.equal(q.discountTotal, 0);
+  assert.equal(q.explanation[0].reason, "missing_units");
+});
+
+check("mismo resultado para la misma entrada", () => {
+  const a = evaluatePromotions({ lines: cart, promotions: autoPromos, now: inSeason });
+  const b = evaluatePromotions({ lines: cart, promotions: [...autoPromos].reverse(), now: inSeason });
+  assert.deepEqual(a, b);
+});
+
+check("quote de Strapi sin `lines`: se reparte por producto", () => {
+  const { appliedPromotions, lineDiscounts } = allocateQuoteLines(cart, [{ id: 99, name: "Strapi", amount: 440 }]);
+  assert.deepEqual(appliedPromotions[0].lines, [
+    { id: 1, amount: 300 },
+    { id: 2, amount: 60 },
+    { id: 3, amount: 80 },
+  ]);
+  assert.equal(lineDiscounts.reduce((acc, l) => acc + l.discount, 0), 440);
+});
+
+/* ---------- ofertas relámpago ---------- */
+
+// Como las arma promotion-quote: alfajor a 1000 con 30% de oferta → 700
+const flashCart = [{ ...cart[0], unitPrice: 700, off: 30, flashSale: true }, cart[1]];
+
+check("oferta relámpago: el quote lo hace el motor local y cobra el precio con la oferta", () => {
+  assert.equal(needsLocalQuote(flashCart, [tenPercent]), true);
+  assert.equal(needsLocalQuote(cart, [tenPercent]), false);
+  assert.equal(needsLocalQuote(cart, [bogo]), true);
+
+  const q = evaluatePromotions({ lines: flashCart, promotions: [tenPercent], now: inSeason });
+  assert.equal(q.subtotal, 2700); // 3 × 700 + 600
+  assert.equal(q.discountTotal, 270);
+  assert.equal(q.total, 2430);
+});
+
+check("oferta relámpago: cuenta como producto con descuento para el cupón", () => {
+  const q = evaluatePromotions({
+    lines: flashCart,
+    promotions: coupons,
+    coupon: "VERANO",
+    couponUsage: usageOk,
+    now: inSeason,
+  });
+  assert.equal(q.couponRejection?.code, "DISCOUNTED_ITEMS");
+});
+
+done();
@@ -0,0 +1,101 @@
+// scripts/load-ts-module.mjs
+// Carga un módulo de src/ desde los scripts de chequeo, sin Next ni build:
+// lo transpila con el `typescript` del proyecto a CommonJS en un directorio temporal, junto con sus imports
+// `@/…` y relativos (los .json se copian), y lo requiere. Solo sirve para módulos puros (sin imports de paquetes).
+import fs from "fs";
+import { createRequire } from "module";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import ts from "typescript";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const srcDir = path.join(root, "src");
+
+function resolveSource(spec, fromFile) {
+  const base = spec.startsWith("@/")
+    ? path.join(srcDir, spec.slice(2))
+    : spec.startsWith(".")
+      ? path.resolve(path.dirname(fromFile), spec)
+      : null;
+  if (!base) throw new Error(`${path.relative(root, fromFile)}: import de paquete no soportado (${spec})`);
+  for (const file of [base, `${base}.ts`, path.join(base, "index.ts")]) {
+    if ((file.endsWith(".ts") || file.endsWith(".json")) && fs.existsSync(file)) return file;
+  }
+  throw new Error(`${path.relative(root, fromFile)}: no encuentro ${spec}`);
+}
+
+function outPath(tmpDir, file) {
+  const rel = path.relative(srcDir, file);
+  return path.join(tmpDir, rel.endsWith(".ts") ? rel.replace(/\.ts$/, ".cjs") : rel);
+}
+
+/**
+ * Carga `src/<relPath>` y devuelve sus exports. El directorio temporal se borra antes de devolver:
+ * todo queda en el cache de `require`.
+ */
+export function loadTsModule(relPath) {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "ts-module-"));
+  try {
+    const pending = [path.join(srcDir, relPath)];
+    const done = new Set();
+
+    while (pending.length) {
+      const file = pending.pop();
+      if (done.has(file)) continue;
+      done.add(file);
+
+      const target = outPath(tmpDir, file);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      if (file.endsWith(".json")) {
+        fs.copyFileSync(file, target);
+        continue;
+      }
+
+      const { outputText } = ts.transpileModule(fs.readFileSync(file, "utf8"), {
+        fileName: file,
+        compilerOptions: {
+          module: ts.ModuleKind.CommonJS,
+          target: ts.ScriptTarget.ES2022,
+          esModuleInterop: true,
+          resolveJsonModule: true,
+        },
+      });
+      const code = outputText.replace(/require\("([^"]+)"\)/g, (_, spec) => {
+        const dep = resolveSource(spec, file);
+        pending.push(dep);
+        let rel = path.relative(path.dirname(target), outPath(tmpDir, dep));
+        if (!rel.startsWith(".")) rel = `./${rel}`;
+        return `require(${JSON.stringify(rel)})`;
+      });
+      fs.writeFileSync(target, code);
+    }
+
+    return createRequire(import.meta.url)(outPath(tmpDir, path.join(srcDir, relPath)));
+  } finally {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+/** `check(nombre, fn)` que junta resultados; `done()` imprime el resumen y sale con 1 si algo falló. */
+export function createChecker() {
+  let failed = 0;
+  let passed = 0;
+
+  return {
+    check(name, fn) {
+      try {
+        fn();
+        passed += 1;
+        console.log(`✅ ${name}`);
+      } catch (e) {
+        failed += 1;
+        console.error(`❌ ${name}\n   ${String(e?.message || e).split("\n").join("\n   ")}`);
+      }
+    },
+    done() {
+      console.log(`\n${passed} ok, ${failed} con error`);
+      if (failed) process.exit(1);
+    },
+  };
+}
@@ -0,0 +1,219 @@
+// scripts/mp-mock-server.mjs
+// Stub local de la API de Mercado Pago (todo lo que pasa por mpApiBase()):
+// leer un pago, reembolsarlo (idempotente por X-Idempotency-Key), cancelar uno pendiente,
+// buscar pagos por external_reference (conciliación) y preferencias (crear, buscar y vencer).
+// El checkout del stub aprueba directo: GET /checkout/:prefId crea el pago y vuelve al back_url de success
+// (si la preferencia no venció).
+//
+// Uso:
+//   node scripts/mp-mock-server.mjs            (puerto 4020)
+//   MP_MOCK_PORT=4030 node scripts/mp-mock-server.mjs
+//
+// En .env.local: MP_API_URL=http://localhost:4020
+//
+// Los pagos que no existen se crean "approved" la primera vez que se consultan (con el id que pidan),
+// así sirve el mpPaymentId que ya tiene la orden. Para fijar monto o estado:
+//   curl -X POST localhost:4020/v1/payments -d '{"id":"123","transaction_amount":25000,"status":"approved"}'
+// Después del reembolso, `node scripts/mp-webhook-sign.mjs <paymentId>` arma el aviso del webhook.
+import http from "http";
+
+const port = Number(process.env.MP_MOCK_PORT || 4020);
+
+// id -> pago (forma de /v1/payments/:id)
+const payments = new Map();
+// X-Idempotency-Key -> refund ya hecho
+const refundsByKey = new Map();
+// id -> preferencia creada
+const preferences = new Map();
+
+let seq = 1000;
+
+function createPayment({
+  id,
+  transaction_amount = null,
+  status = "approved",
+  external_reference = null,
+  merchant_order_id = null,
+} = {}) {
+  const payment = {
+    id: String(id ?? `${Date.now()}${seq++}`),
+    status,
+    status_detail: status === "approved" ? "accredited" : status,
+    transaction_amount: transaction_amount == null ? null : Number(transaction_amount),
+    transaction_amount_refunded: 0,
+    external_reference,
+    merchant_order_id: merchant_order_id == null ? null : String(merchant_order_id),
+    payment_type_id: "credit_card",
+    installments: 1,
+    date_created: new Date().toISOString(),
+    refunds: [],
+  };
+  payments.set(payment.id, payment);
+  return payment;
+}
+
+function getPayment(id) {
+  return payments.get(id) ?? createPayment({ id });
+}
+
+function send(res, status, body) {
+  const payload = Buffer.from(JSON.stringify(body));
+  res.writeHead(status, { "Content-Type": "application/json", "Content-Length": payload.byteLength });
+  res.end(payload);
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const c of req) chunks.push(c);
+  const raw = Buffer.concat(chunks).toString("utf8");
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return null;
+  }
+}
+
+function refund(payment, body, key) {
+  if (key && refundsByKey.has(key)) return { status: 201, body: refundsByKey.get(key) };
+
+  if (payment.status !== "approved") {
+    return { status: 400, body: { message: `Payment not refundable (status ${payment.status})`, status: 400 } };
+  }
+
+  const remaining =
+    payment.transaction_amount == null ? null : payment.transaction_amount - payment.transaction_amount_refunded;
+  const amount = body?.amount != null ? Number(body.amount) : remaining;
+  if (remaining != null && (!(amount > 0) || amount > remaining)) {
+    return { status: 400, body: { message: "Invalid refund amount", status: 400 } };
+  }
+
+  const r = {
+    id: Number(`${Date.now()}`.slice(-9)) + seq++,
+    payment_id: Number(payment.id) || payment.id,
+    amount,
+    status: "approved",
+    date_created: new Date().toISOString(),
+  };
+
+  payment.refunds.push(r);
+  payment.transaction_amount_refunded += amount ?? 0;
+  // Total (o sin monto conocido): MP pasa el pago a refunded; parcial queda approved
+  if (remaining == null || amount >= remaining) payment.status = "refunded";
+  payment.status_detail = payment.status === "refunded" ? "refunded" : payment.status_detail;
+
+  if (key) refundsByKey.set(key, r);
+  return { status: 201, body: r };
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url || "/", `http://localhost:${port}`);
+  const path = url.pathname.replace(/\/$/, "");
+
+  console.log(`[mp-mock] ${req.method} ${path}`);
+
+  try {
+    if (req.method === "POST" && path === "/v1/payments") {
+      const body = await readBody(req);
+      if (!body) return send(res, 400, { message: "JSON inválido" });
+      return send(res, 201, createPayment(body));
+    }
+
+    // Antes que /v1/payments/:id ("search" no es un id)
+    if (req.method === "GET" && path === "/v1/payments/search") {
+      const ref = url.searchParams.get("external_reference");
+      const results = Array.from(payments.values())
+        .filter((p) => !ref || p.external_reference === ref)
+        .sort((a, b) => b.date_created.localeCompare(a.date_created));
+      return send(res, 200, { results, paging: { total: results.length, limit: results.length, offset: 0 } });
+    }
+
+    if (req.method === "POST" && path === "/checkout/preferences") {
+      const body = await readBody(req);
+      if (!body) return send(res, 400, { message: "JSON inválido" });
+      const id = `pref-${Date.now()}${seq++}`;
+      preferences.set(id, body);
+      const initPoint = `http://localhost:${port}/checkout/${id}`;
+      return send(res, 201, { id, init_point: initPoint, sandbox_init_point: initPoint });
+    }
+
+    // Antes que /checkout/preferences/:id ("search" no es un id)
+    if (req.method === "GET" && path === "/checkout/preferences/search") {
+      const ref = url.searchParams.get("external_reference");
+      const elements = Array.from(preferences.entries())
+        .filter(([, p]) => !ref || p.external_reference === ref)
+        .map(([id, p]) => ({ id, external_reference: p.external_reference ?? null, expires: Boolean(p.expires) }));
+      return send(res, 200, { elements, total: elements.length, next_offset: elements.length });
+    }
+
+    let m = /^\/checkout\/preferences\/([^/]+)$/.exec(path);
+    if (req.method === "PUT" && m) {
+      const id = decodeURIComponent(m[1]);
+      const pref = preferences.get(id);
+      if (!pref) return send(res, 404, { message: "Preferencia inexistente" });
+      Object.assign(pref, (await readBody(req)) ?? {});
+      return send(res, 200, { id, ...pref });
+    }
+
+    m = /^\/checkout\/([^/]+)$/.exec(path);
+    if (req.method === "GET" && m) {
+      const pref = preferences.get(decodeURIComponent(m[1]));
+      if (!pref) return send(res, 404, { message: "Preferencia inexistente" });
+      if (pref.expires && pref.expiration_date_to && Date.parse(pref.expiration_date_to) <= Date.now()) {
+        return send(res, 400, { message: "La preferencia venció" });
+      }
+
+      const items = Array.isArray(pref.items) ? pref.items : [];
+      const amount =
+        items.reduce((acc, it) => acc + Number(it.unit_price || 0) * Number(it.quantity || 1), 0) +
+        Number(pref.shipments?.cost || 0);
+      const payment = createPayment({
+        transaction_amount: Math.round(amount * 100) / 100,
+        external_reference: pref.external_reference ?? null,
+      });
+
+      const back = pref.back_urls?.success;
+      if (!back) return send(res, 200, payment);
+      const to = new URL(back);
+      to.searchParams.set("payment_id", payment.id);
+      to.searchParams.set("collection_status", "approved");
+      to.searchParams.set("external_reference", String(pref.external_reference ?? ""));
+      res.writeHead(302, { Location: to.toString() });
+      return res.end();
+    }
+
+    m = /^\/v1\/payments\/([^/]+)\/refunds$/.exec(path);
+    if (m) {
+      const payment = getPayment(decodeURIComponent(m[1]));
+      if (req.method === "GET") return send(res, 200, payment.refunds);
+      if (req.method === "POST") {
+        const r = refund(payment, await readBody(req), req.headers["x-idempotency-key"]);
+        return send(res, r.status, r.body);
+      }
+    }
+
+    m = /^\/v1\/payments\/([^/]+)$/.exec(path);
+    if (m) {
+      const payment = getPayment(decodeURIComponent(m[1]));
+      if (req.method === "GET") return send(res, 200, payment);
+      if (req.method === "PUT") {
+        const body = await readBody(req);
+        if (body?.status !== "cancelled") return send(res, 400, { message: "Solo se soporta status=cancelled" });
+        if (!["pending", "in_process", "authorized"].includes(payment.status)) {
+          return send(res, 400, { message: `Payment not cancellable (status ${payment.status})` });
+        }
+        payment.status = "cancelled";
+        payment.status_detail = "by_collector";
+        return send(res, 200, payment);
+      }
+    }
+
+    return send(res, 404, { message: "Not found" });
+  } catch (e) {
+    console.error("[mp-mock] error:", e);
+    return send(res, 500, { message: String(e?.message || e) });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`[mp-mock] escuchando en http://localhost:${port} (/v1/payments, /checkout)`);
+});
@@ -0,0 +1,36 @@
+// scripts/mp-webhook-sign.mjs
+// Genera headers x-signature / x-request-id como los manda Mercado Pago,
+// para probar /api/mp/webhook en local.
+//
+// Uso:
+//   MP_WEBHOOK_SECRET=... node scripts/mp-webhook-sign.mjs <paymentId> [siteUrl]
+import crypto from "crypto";
+
+const secret = process.env.MP_WEBHOOK_SECRET || "";
+const dataId = String(process.argv[2] || "").trim();
+const siteUrl = String(process.argv[3] || "http://localhost:3000").replace(/\/$/, "");
+
+if (!secret || !dataId) {
+  console.error("Uso: MP_WEBHOOK_SECRET=... node scripts/mp-webhook-sign.mjs <paymentId> [siteUrl]");
+  process.exit(1);
+}
+
+const ts = Math.floor(Date.now() / 1000);
+const requestId = crypto.randomUUID();
+const id = /^[a-z0-9]+$/i.test(dataId) ? dataId.toLowerCase() : dataId;
+
+// Mismo manifest que src/lib/mp/webhook-signature.ts
+const manifest = `id:${id};request-id:${requestId};ts:${ts};`;
+const v1 = crypto.createHmac("sha256", secret).update(manifest).digest("hex");
+
+const body = JSON.stringify({ type: "payment", data: { id: dataId } });
+
+console.log(
+  [
+    `curl -X POST '${siteUrl}/api/mp/webhook?data.id=${encodeURIComponent(dataId)}&type=payment'`,
+    `  -H 'Content-Type: application/json'`,
+    `  -H 'x-request-id: ${requestId}'`,
+    `  -H 'x-signature: ts=${ts},v1=${v1}'`,
+    `  -d '${body}'`,
+  ].join(" \\\n")
+);
@@ -7,6 +7,7 @@ import Image from "next/image";
 import { Container } from "@/components/layout/Container";
 import { Minus, Plus, Trash2, ShoppingCart } from "lucide-react";
 import { useCartStore } from "@/store/cart.store";
+import { SaleCountdown } from "@/components/products/SaleCountdown";
 
 function formatARS(n: number) {
   return n.toLocaleString("es-AR", { style: "currency", currency: "ARS" });
@@ -28,6 +29,10 @@ type Quote = {
     amount: number;
     meta?: any;
   }>;
+  // ✅ descuento de promos por producto (bogo, combos...)
+  lineDiscounts: Array<{ id: number; discount: number; promotions: Array<{ id: number; name: string; amount: number }> }>;
+  // ✅ cupón que no aplica (código + mensaje, ver lib/promotion-engine)
+  couponRejection: { code: string; message: string } | null;
 };
 
 function normalizeQty(v: any) {
@@ -48,6 +53,10 @@ export default function CarritoPage() {
   const inc = useCartStore((s) => s.inc);
   const dec = useCartStore((s) => s.dec);
   const removeItem = useCartStore((s) => s.removeItem);
+  // ✅ el cupón queda guardado con el carrito y el checkout lo usa tal cual
+  const coupon = useCartStore((s) => s.coupon);
+  const setCoupon = useCartStore((s) => s.setCoupon);
+  const syncPrices = useCartStore((s) => s.syncPrices);
 
   // ✅ alerta simple (sin librerías)
   const [alertMsg, setAlertMsg] = useState<string | null>(null);
@@ -71,12 +80,14 @@ export default function CarritoPage() {
     return acc + unit * normalizeQty(it.qty);
   }, 0);
 
-  // ✅ Quote desde backend (reglas PRO) — SIN cupón en carrito
+  // ✅ Quote desde backend (reglas PRO) con el cupón del carrito
   const [quote, setQuote] = useState<Quote>({
     subtotal: 0,
     discountTotal: 0,
     total: 0,
     appliedPromotions: [],
+    lineDiscounts: [],
+    couponRejection: null,
   });
   const [isQuoting, setIsQuoting] = useState(false);
 
@@ -90,11 +101,64 @@ export default function CarritoPage() {
       .filter((x) => Number.isFinite(x.id) && x.id > 0);
   }, [items]);
 
+  // ✅ Precios vigentes (ofertas relámpago que empezaron/terminaron desde que se agregó al carrito).
+  // Solo cuando cambian los productos (no la cantidad) y otra vez cuando termina la oferta más próxima.
+  const priceItemsKey = (items as any[])
+    .map((it) => `${Number(it.id)}:${it.documentId ?? ""}`)
+    .sort()
+    .join(",");
+  const nextSaleEnd = (items as any[])
+    .map((it) => new Date(it.saleEndsAt ?? "").getTime())
+    .filter((t) => Number.isFinite(t) && t > Date.now())
+    .sort((a, b) => a - b)[0];
+  const [priceTick, setPriceTick] = useState(0);
+
+  useEffect(() => {
+    if (!nextSaleEnd) return;
+    // setTimeout no banca más de ~24 días
+    const t = setTimeout(() => setPriceTick((n) => n + 1), Math.min(nextSaleEnd - Date.now() + 1000, 2 ** 31 - 1));
+    return () => clearTimeout(t);
+  }, [nextSaleEnd]);
+
+  useEffect(() => {
+    let alive = true;
+    const list = priceItemsKey
+      ? priceItemsKey.split(",").map((k) => {
+          const [id, documentId] = k.split(":");
+          return { id: Number(id), documentId: documentId || null };
+        })
+      : [];
+    if (!list.length) return;
+
+    (async () => {
+      try {
+        const res = await fetch("/api/products/prices", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ items: list }),
+          cache: "no-store",
+        });
+        const data = await res.json().catch(() => null);
+        if (!alive || !res.ok || !Array.isArray(data?.prices)) return;
+        syncPrices(data.prices);
+      } catch {
+        // ✅ sin precios nuevos seguimos con los guardados (el server recalcula al crear la orden)
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [priceItemsKey, priceTick, syncPrices]);
+
+  // ✅ chocolate en verano: aviso antes de calcular el envío (las reglas las aplica el server)
+  const hasHeatSensitive = items.some((it) => it.heatSensitive);
+
   useEffect(() => {
     let alive = true;
 
     if (!payloadItems.length) {
-      setQuote({ subtotal: 0, discountTotal: 0, total: 0, appliedPromotions: [] });
+      setQuote({ subtotal: 0, discountTotal: 0, total: 0, appliedPromotions: [], lineDiscounts: [], couponRejection: null });
       setIsQuoting(false);
       return;
     }
@@ -108,7 +172,7 @@ export default function CarritoPage() {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             items: payloadItems,
-            coupon: "",
+            coupon: coupon.trim(),
             shipping: 0,
           }),
           cache: "no-store",
@@ -119,7 +183,7 @@ export default function CarritoPage() {
 
         if (!res.ok || !data) {
           const s = Math.round(uiSubtotal);
-          setQuote({ subtotal: s, discountTotal: 0, total: s, appliedPromotions: [] });
+          setQuote({ subtotal: s, discountTotal: 0, total: s, appliedPromotions: [], lineDiscounts: [], couponRejection: null });
           return;
         }
 
@@ -128,11 +192,13 @@ export default function CarritoPage() {
           discountTotal: Number(data?.discountTotal) || 0,
           total: Number(data?.total) || 0,
           appliedPromotions: Array.isArray(data?.appliedPromotions) ? data.appliedPromotions : [],
+          lineDiscounts: Array.isArray(data?.lineDiscounts) ? data.lineDiscounts : [],
+          couponRejection: data?.couponRejection?.message ? data.couponRejection : null,
         });
       } catch {
         if (!alive) return;
         const s = Math.round(uiSubtotal);
-        setQuote({ subtotal: s, discountTotal: 0, total: s, appliedPromotions: [] });
+        setQuote({ subtotal: s, discountTotal: 0, total: s, appliedPromotions: [], lineDiscounts: [], couponRejection: null });
       } finally {
         if (alive) setIsQuoting(false);
       }
@@ -142,7 +208,7 @@ export default function CarritoPage() {
       alive = false;
       clearTimeout(t);
     };
-  }, [payloadItems, uiSubtotal]);
+  }, [payloadItems, uiSubtotal, coupon]);
 
   const effectiveSubtotal = payloadItems.length ? (quote.subtotal || Math.round(uiSubtotal)) : 0;
   const effectiveDiscount = payloadItems.length ? quote.discountTotal : 0;
@@ -150,6 +216,70 @@ export default function CarritoPage() {
     ? quote.total || Math.max(0, effectiveSubtotal - effectiveDiscount)
     : 0;
 
+  const couponRejectionMessage = coupon.trim() && !isQuoting ? quote.couponRejection?.message ?? null : null;
+
+  // ✅ Estimador de envío por código postal (mismas zonas que checkout, ver lib/shipping)
+  const [postalCode, setPostalCode] = useState("");
+  const [shipping, setShipping] = useState<{
+    cost: number;
+    zoneName: string | null;
+    missingForFreeShipping: number | null;
+    refrigeratedSurcharge: number;
+  } | null>(null);
+  const [shippingError, setShippingError] = useState<string | null>(null);
+  const [isShippingQuoting, setIsShippingQuoting] = useState(false);
+
+  useEffect(() => {
+    let alive = true;
+    const cp = postalCode.trim();
+
+    if (!payloadItems.length || cp.replace(/\D/g, "").length < 4) {
+      setShipping(null);
+      setShippingError(null);
+      return;
+    }
+
+    const t = setTimeout(async () => {
+      try {
+        setIsShippingQuoting(true);
+        const res = await fetch("/api/shipping/quote", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ method: "delivery", postalCode: cp, subtotal: effectiveTotal, items: payloadItems }),
+          cache: "no-store",
+        });
+        const data = await res.json().catch(() => null);
+        if (!alive) return;
+
+        if (!res.ok) {
+          setShipping(null);
+          setShippingError(data?.error || "No pudimos calcular el envío.");
+          return;
+        }
+
+        const missing = Number(data?.quote?.missingForFreeShipping);
+        setShipping({
+          cost: Math.max(0, Math.round(Number(data?.quote?.cost) || 0)),
+          zoneName: data?.quote?.zoneName ? String(data.quote.zoneName) : null,
+          missingForFreeShipping: Number.isFinite(missing) && missing > 0 ? missing : null,
+          refrigeratedSurcharge: Math.max(0, Math.round(Number(data?.quote?.refrigeratedSurcharge) || 0)),
+        });
+        setShippingError(null);
+      } catch {
+        if (!alive) return;
+        setShipping(null);
+        setShippingError("No pudimos calcular el envío.");
+      } finally {
+        if (alive) setIsShippingQuoting(false);
+      }
+    }, 400);
+
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+  }, [postalCode, effectiveTotal, payloadItems]);
+
   return (
     <main>
       <Container>
@@ -187,6 +317,7 @@ export default function CarritoPage() {
             ) : (
               items.map((it: any) => {
                 const unit = priceWithOff(it.price, it.off);
+                const lineDiscount = quote.lineDiscounts.find((l) => l.id === Number(it.id)) ?? null;
                 const hasOff = typeof it.off === "number" && it.off > 0;
 
                 const qty = Math.max(1, normalizeQty(it.qty) || 1);
@@ -244,6 +375,21 @@ export default function CarritoPage() {
                               </div>
                             ) : null}
 
+                            {hasOff && it.saleEndsAt ? (
+                              <div className="mt-2 text-xs font-semibold text-red-700">
+                                {it.saleName ? `${it.saleName} · ` : ""}
+                                <SaleCountdown endsAt={it.saleEndsAt} />
+                              </div>
+                            ) : null}
+
+                            {it.heatSensitive ? (
+                              <div className="mt-2 text-xs">
+                                <span className="rounded-full bg-amber-50 px-2 py-1 font-semibold text-amber-800">
+                                  Sensible al calor
+                                </span>
+                              </div>
+                            ) : null}
+
                             {/* ✅ stock badge + hint */}
                             {hasStock && (
                               <div className="mt-2 text-xs">
@@ -320,9 +466,15 @@ export default function CarritoPage() {
                             </button>
                           </div>
 
-                          {/* Precio total del item */}
-                          <div className="text-sm font-bold text-neutral-900">
-                            {formatARS(unit * qty)}
+                          {/* Precio total del item (+ promo que cae en esta línea) */}
+                          <div className="text-right">
+                            <div className="text-sm font-bold text-neutral-900">{formatARS(unit * qty)}</div>
+                            {lineDiscount ? (
+                              <div className="text-xs font-semibold text-green-700">
+                                {lineDiscount.promotions.map((p) => p.name).join(" + ")}: -
+                                {formatARS(lineDiscount.discount)}
+                              </div>
+                            ) : null}
                           </div>
                         </div>
 
@@ -370,11 +522,81 @@ export default function CarritoPage() {
                 </span>
               </div>
 
+              {quote.appliedPromotions.map((p) => (
+                <div key={p.id} className="flex justify-between text-green-700">
+                  <span>{p.code ? `Cupón ${p.code}` : p.name}</span>
+                  <span className="font-semibold">-{formatARS(p.amount)}</span>
+                </div>
+              ))}
+
+              <div className="pt-2">
+                <label className="text-xs font-semibold text-neutral-700" htmlFor="carrito-cupon">
+                  Cupón
+                </label>
+                <input
+                  id="carrito-cupon"
+                  value={coupon}
+                  onChange={(e) => setCoupon(e.target.value)}
+                  placeholder="Código (opcional)"
+                  className="mt-1 w-full rounded-lg border border-neutral-200 px-3 py-2 text-sm"
+                />
+                {couponRejectionMessage ? (
+                  <div className="mt-1 text-xs text-red-600">{couponRejectionMessage}</div>
+                ) : null}
+              </div>
+
+              <div className="pt-2">
+                <label className="text-xs font-semibold text-neutral-700" htmlFor="carrito-cp">
+                  Calculá el envío
+                </label>
+                <input
+                  id="carrito-cp"
+                  value={postalCode}
+                  onChange={(e) => setPostalCode(e.target.value)}
+                  placeholder="Código postal"
+                  inputMode="numeric"
+                  className="mt-1 w-full rounded-lg border border-neutral-200 px-3 py-2 text-sm"
+                />
+                {isShippingQuoting ? (
+                  <div className="mt-1 text-xs text-neutral-500">Calculando envío…</div>
+                ) : shipping ? (
+                  <div className="mt-1 flex justify-between text-neutral-700">
+                    <span>Envío{shipping.zoneName ? ` (${shipping.zoneName})` : ""}</span>
+                    <span className="font-semibold text-neutral-900">
+                      {shipping.cost === 0 ? "GRATIS" : formatARS(shipping.cost)}
+                    </span>
+                  </div>
+                ) : shippingError ? (
+                  <div className="mt-1 text-xs text-red-600">{shippingError}</div>
+                ) : (
+                  <div className="mt-1 text-xs text-neutral-500">Retiro en sucursal: GRATIS.</div>
+                )}
+                {shipping?.refrigeratedSurcharge ? (
+                  <div className="mt-1 text-xs text-amber-800">
+                    Incluye envío refrigerado obligatorio ({formatARS(shipping.refrigeratedSurcharge)}) por productos
+                    sensibles al calor.
+                  </div>
+                ) : null}
+                {shipping?.missingForFreeShipping ? (
+                  <div className="mt-1 text-xs text-neutral-600">
+                    Te faltan {formatARS(shipping.missingForFreeShipping)} para envío gratis.
+                  </div>
+                ) : null}
+                {hasHeatSensitive && !shipping && !shippingError ? (
+                  <div className="mt-1 text-xs text-amber-800">
+                    Tenés productos sensibles al calor: en verano algunos destinos llevan envío refrigerado o solo
+                    retiro en sucursal.
+                  </div>
+                ) : null}
+              </div>
+
               <div className="my-3 h-px bg-neutral-200" />
 
               <div className="flex justify-between text-base">
                 <span className="font-extrabold text-neutral-900">Total</span>
-                <span className="font-extrabold text-neutral-900">{formatARS(effectiveTotal)}</span>
+                <span className="font-extrabold text-neutral-900">
+                  {formatARS(effectiveTotal + (shipping?.cost ?? 0))}
+                </span>
               </div>
 
               {isQuoting ? (
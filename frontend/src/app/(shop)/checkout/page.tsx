@@ -6,6 +6,9 @@ import Link from "next/link";
 import { useSearchParams, useRouter } from "next/navigation";
 import { Container } from "@/components/layout/Container";
 import { useCartStore } from "@/store/cart.store";
+import { TransferPaymentBox } from "@/components/orders/TransferPaymentBox";
+import { cashOnPickupEnabled, transferDetails } from "@/lib/offline-payments";
+import { GIFT_MESSAGE_MAX_LENGTH, giftWrapPrice } from "@/lib/gift-options";
 
 /* ================= helpers ================= */
 
@@ -25,6 +28,17 @@ function makeOrderNumber(numericId: number | string) {
   return `AMG-${String(n).padStart(4, "0")}`;
 }
 
+// ✅ /api/geo (CP → provincias y localidades posibles)
+type GeoProvince = { code: string; name: string };
+type GeoLocality = { name: string; postalCode: string; provinceCode: string; province: string };
+type GeoLookup = { postalCode: string; known: boolean; provinces: GeoProvince[]; localities: GeoLocality[] };
+
+/** "1425" / "c1425abc" → lo que mandamos a /api/geo; "" si todavía no tiene forma de CP */
+function postalCodeKey(v: any) {
+  const s = String(v ?? "").toUpperCase().replace(/[\s.-]+/g, "");
+  return /^[A-Z]?\d{4}([A-Z]{3})?$/.test(s) ? s : "";
+}
+
 function pickErrorMessage(payload: any, fallback: string) {
   if (!payload) return fallback;
   if (typeof payload.error === "string") return payload.error;
@@ -36,39 +50,135 @@ function pickErrorMessage(payload: any, fallback: string) {
   return fallback;
 }
 
-function safeUUID() {
-  const c: any = typeof window !== "undefined" ? window.crypto : null;
-  if (c?.randomUUID) return c.randomUUID();
-  return `ref_${Date.now()}_${Math.random().toString(16).slice(2)}`;
-}
-
 function safeText(v: any) {
   return String(v ?? "").trim();
 }
 
-function hasCartDiscount(items: any[]) {
-  return (items || []).some((it) => {
-    const off = Number(it?.off ?? 0);
-    return Number.isFinite(off) && off > 0;
-  });
-}
-
 type ShippingMethod = "delivery" | "pickup";
 
-function calcShippingARS(baseTotal: number, method: ShippingMethod) {
-  if (method === "pickup") return 0;
+// ✅ Cotización de /api/shipping/quote (zonas de Strapi + correos, ver lib/shipping)
+type ShippingQuoteUi = {
+  cost: number;
+  zoneName: string | null;
+  freeShippingThreshold: number | null;
+  freeShippingApplied: boolean;
+  missingForFreeShipping: number | null;
+  refrigeratedSurcharge: number; // envío refrigerado obligatorio (incluido en cost)
+  carrierId: string | null;
+  carrierName: string | null;
+  service: string | null;
+  etaDays: { min: number; max: number } | null;
+};
+
+const PICKUP_SHIPPING: ShippingQuoteUi = {
+  cost: 0,
+  zoneName: null,
+  freeShippingThreshold: null,
+  freeShippingApplied: false,
+  missingForFreeShipping: null,
+  refrigeratedSurcharge: 0,
+  carrierId: null,
+  carrierName: null,
+  service: null,
+  etaDays: null,
+};
 
-  // Delivery según tu política
-  if (baseTotal > 65000) return 0;
-  if (baseTotal > 40000) return 4500;
-  return 9000;
+function normalizeShippingQuote(raw: any): ShippingQuoteUi {
+  const q = raw?.quote ?? raw ?? {};
+  const threshold = Number(q?.freeShippingThreshold);
+  const missing = Number(q?.missingForFreeShipping);
+  const etaMin = Number(q?.etaDays?.min);
+  const etaMax = Number(q?.etaDays?.max);
+  return {
+    cost: Math.max(0, Math.round(Number(q?.cost) || 0)),
+    zoneName: q?.zoneName ? String(q.zoneName) : null,
+    freeShippingThreshold: Number.isFinite(threshold) && threshold > 0 ? threshold : null,
+    freeShippingApplied: Boolean(q?.freeShippingApplied),
+    missingForFreeShipping: Number.isFinite(missing) && missing > 0 ? missing : null,
+    refrigeratedSurcharge: Math.max(0, Math.round(Number(q?.refrigeratedSurcharge) || 0)),
+    carrierId: q?.carrierId ? String(q.carrierId) : null,
+    carrierName: q?.carrierName ? String(q.carrierName) : null,
+    service: q?.service ? String(q.service) : null,
+    etaDays: Number.isFinite(etaMin) && Number.isFinite(etaMax) ? { min: etaMin, max: etaMax } : null,
+  };
+}
+
+function normalizeShippingOptions(raw: any): ShippingQuoteUi[] {
+  const list = Array.isArray(raw?.options) ? raw.options : [];
+  return list.length ? list.map(normalizeShippingQuote) : [normalizeShippingQuote(raw)];
 }
 
-const PICKUP_POINT = {
-  name: "Amargo y Dulce",
-  address: "Gascón 349 - Concepción del Uruguay",
+function formatEta(eta: ShippingQuoteUi["etaDays"]) {
+  if (!eta) return null;
+  if (eta.max <= 1) return "llega en 1 día hábil";
+  return eta.min === eta.max ? `llega en ${eta.max} días hábiles` : `llega en ${eta.min} a ${eta.max} días hábiles`;
+}
+
+// ✅ Sucursales de retiro con turnos (GET /api/pickup-points, ver lib/pickup-points)
+type PickupSlotUi = {
+  start: string;
+  end: string;
+  date: string;
+  label: string;
+  remaining: number;
 };
 
+type PickupPointUi = {
+  id: string;
+  name: string;
+  address: string;
+  city: string | null;
+  mapUrl: string | null;
+  instructions: string | null;
+  hoursLabel: string | null;
+  slots: PickupSlotUi[];
+};
+
+function normalizePickupPoints(raw: any): PickupPointUi[] {
+  const list = Array.isArray(raw?.points) ? raw.points : [];
+  return list
+    .map((p: any) => ({
+      id: String(p?.id ?? ""),
+      name: String(p?.name ?? ""),
+      address: String(p?.address ?? ""),
+      city: p?.city ? String(p.city) : null,
+      mapUrl: p?.mapUrl ? String(p.mapUrl) : null,
+      instructions: p?.instructions ? String(p.instructions) : null,
+      hoursLabel: p?.hoursLabel ? String(p.hoursLabel) : null,
+      slots: (Array.isArray(p?.slots) ? p.slots : []).map((sl: any) => ({
+        start: String(sl?.start ?? ""),
+        end: String(sl?.end ?? ""),
+        date: String(sl?.date ?? ""),
+        label: String(sl?.label ?? ""),
+        remaining: Math.max(0, Math.floor(toNum(sl?.remaining, 0))),
+      })),
+    }))
+    .filter((p: PickupPointUi) => p.id && p.name);
+}
+
+const WEEKDAYS = ["dom", "lun", "mar", "mié", "jue", "vie", "sáb"];
+
+// ✅ Entrega programada (GET /api/delivery-dates, ver lib/delivery-dates)
+type DeliveryDateUi = { date: string; remaining: number | null };
+
+function normalizeDeliveryDates(raw: any): DeliveryDateUi[] {
+  const list = Array.isArray(raw?.dates) ? raw.dates : [];
+  return list
+    .map((d: any) => ({
+      date: String(d?.date ?? ""),
+      remaining: d?.remaining == null ? null : Math.max(0, Math.floor(toNum(d.remaining, 0))),
+    }))
+    .filter((d: DeliveryDateUi) => /^\d{4}-\d{2}-\d{2}$/.test(d.date));
+}
+
+/** "2026-10-24" → "sáb 24/10" */
+function formatSlotDay(date: string) {
+  const d = new Date(`${date}T12:00:00-03:00`);
+  if (Number.isNaN(d.getTime())) return date;
+  const [, month, day] = date.split("-");
+  return `${WEEKDAYS[d.getUTCDay()]} ${day}/${month}`;
+}
+
 /* ================= types ================= */
 
 type UiState =
@@ -76,7 +186,15 @@ type UiState =
   | { kind: "checking"; orderId: string; status?: string }
   | { kind: "paid"; orderId: string }
   | { kind: "failed"; orderId: string; reason: string }
-  | { kind: "timeout"; orderId: string };
+  | { kind: "timeout"; orderId: string }
+  | { kind: "offline"; orderId: string; orderNumber: string; provider: OfflineProvider; total: number };
+
+// ✅ Pagos fuera de MP: la orden queda awaiting_payment hasta que el staff confirma
+type OfflineProvider = "transfer" | "cash";
+type PaymentProviderChoice = "mercadopago" | OfflineProvider;
+
+// Reglas de promos: transferencia = bank_transfer, efectivo = ticket (ver lib/payment-methods)
+const OFFLINE_RULE_TYPE: Record<OfflineProvider, string> = { transfer: "bank_transfer", cash: "ticket" };
 
 type Quote = {
   subtotal: number;
@@ -89,6 +207,19 @@ type Quote = {
     amount: number;
     meta?: any;
   }>;
+  paymentOptions: PaymentOption[];
+  // ✅ Cupón que no aplica: código + mensaje para mostrar (ver lib/promotion-engine)
+  couponRejection: { code: string; message: string } | null;
+};
+
+// ✅ Medios de pago que permiten las promos aplicadas (lo arma /api/promotions/quote)
+const PAYMENT_TYPES_COUNT = 5; // crédito, débito, dinero en cuenta, efectivo, transferencia
+
+type PaymentOption = {
+  type: string;
+  label: string;
+  adjustmentPct: number;
+  installments: number[];
 };
 
 type StockProblem = {
@@ -98,6 +229,17 @@ type StockProblem = {
   available: number;
 };
 
+type PriceProblem = {
+  productDocumentId: string | null;
+  productId: number | null;
+  title: string;
+  reason: "price_changed" | "not_found";
+  clientUnitPrice: number | null;
+  serverUnitPrice: number | null;
+  price: number | null;
+  off: number | null;
+};
+
 type Address = {
   id: string; // documentId (v5)
   documentId?: string | null;
@@ -114,6 +256,16 @@ type Address = {
   isDefault?: boolean | null;
 };
 
+// ✅ /api/gift-cards/balance (lo que usamos del saldo en el checkout)
+type VerifiedGiftCard = { code: string; balance: number; expiresAt: string | null };
+
+/** "AYD-ABCD-EFGH-JKLM" → "AYD-****-****-JKLM" (mismo formato que lib/gift-cards) */
+function maskGiftCode(code: string) {
+  const parts = String(code ?? "").split("-");
+  if (parts.length < 2) return code;
+  return [parts[0], ...parts.slice(1, -1).map((p) => "*".repeat(p.length)), parts[parts.length - 1]].join("-");
+}
+
 // ✅ auth/me (ahora incluye dni)
 type MeResponse = {
   user: { email?: string | null; name?: string | null; dni?: string | null } | null;
@@ -133,9 +285,32 @@ function normalizeQuote(data: any, fallbackSubtotal: number): Quote {
     discountTotal: d,
     total: tot,
     appliedPromotions: Array.isArray(data?.appliedPromotions) ? data.appliedPromotions : [],
+    paymentOptions: Array.isArray(data?.paymentOptions)
+      ? data.paymentOptions
+          .filter((o: any) => typeof o?.type === "string")
+          .map((o: any) => ({
+            type: String(o.type),
+            label: String(o.label ?? o.type),
+            adjustmentPct: toNum(o.adjustmentPct, 0),
+            installments: Array.isArray(o.installments) && o.installments.length ? o.installments.map(Number) : [1],
+          }))
+      : [],
+    couponRejection:
+      data?.couponRejection && typeof data.couponRejection.message === "string"
+        ? { code: String(data.couponRejection.code ?? ""), message: data.couponRejection.message }
+        : null,
   };
 }
 
+function paymentAdjustmentARS(base: number, pct: number) {
+  if (!pct) return 0;
+  return Math.round((Math.max(0, base) * pct) / 100);
+}
+
+function formatPct(pct: number) {
+  return `${pct > 0 ? "+" : ""}${pct}%`;
+}
+
 function isEmptyish(v: string) {
   return String(v ?? "").trim().length === 0;
 }
@@ -148,6 +323,16 @@ export default function CheckoutPage() {
 
   const cartItems = useCartStore((s) => s.items);
   const clear = useCartStore((s) => s.clear);
+  const syncPrices = useCartStore((s) => s.syncPrices);
+  // ✅ cupón compartido con /carrito (persistido con el carrito)
+  const coupon = useCartStore((s) => s.coupon);
+  const setCoupon = useCartStore((s) => s.setCoupon);
+
+  // ✅ Gift card: se verifica el saldo antes de usarla (orders/create la debita de verdad)
+  const [giftCardInput, setGiftCardInput] = useState("");
+  const [giftCard, setGiftCard] = useState<VerifiedGiftCard | null>(null);
+  const [giftCardError, setGiftCardError] = useState<string | null>(null);
+  const [giftCardChecking, setGiftCardChecking] = useState(false);
 
   const [name, setName] = useState("");
   const [email, setEmail] = useState("");
@@ -171,6 +356,12 @@ export default function CheckoutPage() {
   const [postalCode, setPostalCode] = useState("");
   const [notes, setNotes] = useState("");
 
+  // ✅ provincia / localidad según el código postal
+  const [geoProvinces, setGeoProvinces] = useState<GeoProvince[]>([]);
+  const [zipLookup, setZipLookup] = useState<GeoLookup | null>(null);
+  const [zipError, setZipError] = useState<string | null>(null);
+  const [cityOther, setCityOther] = useState(false);
+
   // ✅ direcciones guardadas
   const [addrLoading, setAddrLoading] = useState(true);
   const [addrError, setAddrError] = useState<string | null>(null);
@@ -180,9 +371,10 @@ export default function CheckoutPage() {
   // ✅ usuario (para autocompletar email/nombre/dni)
   const [me, setMe] = useState<MeResponse>({ user: null });
 
-  // cupón
-  const [coupon, setCoupon] = useState("");
-  const [couponTouched, setCouponTouched] = useState(false);
+  // ✅ medio de pago + cuotas (se guardan en la orden)
+  const [provider, setProvider] = useState<PaymentProviderChoice>("mercadopago");
+  const [paymentType, setPaymentType] = useState("");
+  const [installments, setInstallments] = useState(1);
 
   const [loading, setLoading] = useState(false);
   const [quoting, setQuoting] = useState(false);
@@ -191,6 +383,8 @@ export default function CheckoutPage() {
   const [error, setError] = useState<string | null>(null);
   // ✅ errores de stock
   const [stockProblems, setStockProblems] = useState<StockProblem[]>([]);
+  // ✅ precios que cambiaron (el server recalcula todo)
+  const [priceProblems, setPriceProblems] = useState<PriceProblem[]>([]);
 
   const trimmedName = name.trim();
   const trimmedEmail = email.trim();
@@ -207,8 +401,8 @@ export default function CheckoutPage() {
   const redirectedStatus = sp.get("status") || "";
   const redirectedOrderId = sp.get("orderId") || "";
 
-  // ✅ Si el carrito tiene items con descuento, no permitimos cupón
-  const cartHasDiscount = useMemo(() => hasCartDiscount(cartItems as any[]), [cartItems]);
+  // ✅ Email para el límite de usos del cupón por cliente (solo si hay cupón, así no recotizamos al tipear)
+  const couponEmail = coupon.trim() && trimmedEmail.includes("@") ? trimmedEmail.toLowerCase() : "";
 
   // Redirigir si vuelve con query
   useEffect(() => {
@@ -368,6 +562,7 @@ export default function CheckoutPage() {
   }, [addresses, selectedAddressId]);
 
   function applyAddressToForm(a: Address) {
+    setCityOther(false);
     if (a.street) setStreet(a.street);
     if (a.number) setNumber(a.number);
     if (a.city) setCity(a.city);
@@ -428,6 +623,8 @@ export default function CheckoutPage() {
     discountTotal: 0,
     total: 0,
     appliedPromotions: [],
+    paymentOptions: [],
+    couponRejection: null,
   });
 
   useEffect(() => {
@@ -440,6 +637,8 @@ export default function CheckoutPage() {
         discountTotal: 0,
         total: 0,
         appliedPromotions: [],
+        paymentOptions: [],
+        couponRejection: null,
       });
       setQuoting(false);
       return;
@@ -454,7 +653,8 @@ export default function CheckoutPage() {
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
             items: payloadItems,
-            coupon: cartHasDiscount ? "" : coupon.trim(),
+            coupon: coupon.trim(),
+            email: couponEmail || null,
             shipping: 0, // promos no dependen del shipping por ahora
           }),
           cache: "no-store",
@@ -470,6 +670,8 @@ export default function CheckoutPage() {
             discountTotal: 0,
             total: fallbackS,
             appliedPromotions: [],
+            paymentOptions: [],
+            couponRejection: null,
           });
           return;
         }
@@ -482,6 +684,8 @@ export default function CheckoutPage() {
           discountTotal: 0,
           total: fallbackS,
           appliedPromotions: [],
+          paymentOptions: [],
+          couponRejection: null,
         });
       } finally {
         if (alive) setQuoting(false);
@@ -492,7 +696,7 @@ export default function CheckoutPage() {
       alive = false;
       clearTimeout(t);
     };
-  }, [payloadItems, coupon, uiSubtotal, cartHasDiscount]);
+  }, [payloadItems, coupon, couponEmail, uiSubtotal]);
 
   const effectiveSubtotal = payloadItems.length ? quote.subtotal || Math.round(uiSubtotal) : 0;
   const effectiveDiscount = payloadItems.length ? quote.discountTotal : 0;
@@ -500,12 +704,358 @@ export default function CheckoutPage() {
     ? quote.total || Math.max(0, effectiveSubtotal - effectiveDiscount)
     : 0;
 
-  // ✅ Envío y total final (usamos effectiveTotal como base)
-  const shippingCost = useMemo(
-    () => calcShippingARS(effectiveTotal, shippingMethod),
-    [effectiveTotal, shippingMethod]
+  // ✅ Envío por zona (provincia + CP) sobre effectiveTotal; con correos habilitados, una opción por correo
+  const [shippingOptions, setShippingOptions] = useState<ShippingQuoteUi[]>([]);
+  const [shippingCarrier, setShippingCarrier] = useState<string | null>(null);
+  const [shippingError, setShippingError] = useState<string | null>(null);
+  const [shippingQuoting, setShippingQuoting] = useState(false);
+
+  const shippingQuote: ShippingQuoteUi | null = useMemo(
+    () => shippingOptions.find((o) => o.carrierId && o.carrierId === shippingCarrier) ?? shippingOptions[0] ?? null,
+    [shippingOptions, shippingCarrier]
   );
-  const grandTotal = useMemo(() => Math.max(0, effectiveTotal + shippingCost), [effectiveTotal, shippingCost]);
+  const carrierOptions = shippingOptions.filter((o) => o.carrierId);
+
+  useEffect(() => {
+    if (shippingMethod !== "delivery" || geoProvinces.length) return;
+    let alive = true;
+    fetch("/api/geo")
+      .then((r) => r.json())
+      .then((j) => {
+        if (alive && Array.isArray(j?.provinces)) setGeoProvinces(j.provinces);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [shippingMethod, geoProvinces.length]);
+
+  const zipKey = postalCodeKey(postalCode);
+
+  useEffect(() => {
+    if (shippingMethod !== "delivery" || !zipKey) {
+      setZipLookup(null);
+      setZipError(null);
+      return;
+    }
+
+    let alive = true;
+    const t = setTimeout(async () => {
+      try {
+        const r = await fetch(`/api/geo?postalCode=${encodeURIComponent(zipKey)}`, { cache: "no-store" });
+        const j = await r.json().catch(() => null);
+        if (!alive) return;
+
+        if (!r.ok || !j?.ok) {
+          setZipLookup(null);
+          setZipError(j?.error || null);
+          return;
+        }
+
+        const lookup = j as GeoLookup;
+        setZipLookup(lookup);
+        setZipError(lookup.provinces.length ? null : "No encontramos ese código postal.");
+
+        // Si el CP es de una sola provincia (o una sola localidad) la elegimos
+        const nextProvince =
+          lookup.provinces.length === 1
+            ? lookup.provinces[0]
+            : lookup.provinces.find((x) => x.name === province.trim()) ?? null;
+        setProvince(nextProvince?.name ?? "");
+
+        const options = lookup.localities.filter((l) => l.provinceCode === nextProvince?.code);
+        if (nextProvince?.code === "C") setCity(nextProvince.name);
+        else if (!city.trim() && options.length === 1) setCity(options[0].name);
+      } catch {
+        if (alive) setZipLookup(null);
+      }
+    }, 300);
+
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [zipKey, shippingMethod]);
+
+  const provinceOptions = zipLookup?.provinces.length ? zipLookup.provinces : geoProvinces;
+  const selectedProvince = provinceOptions.find((p) => p.name === province) ?? null;
+  const isCaba = selectedProvince?.code === "C";
+  const cityOptions = useMemo(
+    () => (zipLookup?.localities ?? []).filter((l) => l.province === province).map((l) => l.name),
+    [zipLookup, province]
+  );
+  // Localidad que no está en la lista (barrio, paraje): texto libre
+  const cityFree = cityOther || (Boolean(city.trim()) && !cityOptions.includes(city));
+
+  async function requestShippingQuote(subtotal: number): Promise<ShippingQuoteUi[]> {
+    if (shippingMethod === "pickup") return [PICKUP_SHIPPING];
+
+    const res = await fetch("/api/shipping/quote", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        method: shippingMethod,
+        province: trimmedProvince,
+        postalCode: trimmedPostalCode,
+        subtotal,
+        items: payloadItems,
+      }),
+      cache: "no-store",
+    });
+
+    const data = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(pickErrorMessage(data, "No pudimos calcular el envío."));
+    return normalizeShippingOptions(data);
+  }
+
+  useEffect(() => {
+    let alive = true;
+
+    if (shippingMethod === "pickup") {
+      setShippingOptions([PICKUP_SHIPPING]);
+      setShippingError(null);
+      setShippingQuoting(false);
+      return;
+    }
+
+    // Sin destino todavía: esperamos a que complete provincia o CP
+    if (trimmedProvince.length < 2 && trimmedPostalCode.length < 4) {
+      setShippingOptions([]);
+      setShippingError(null);
+      return;
+    }
+
+    const t = setTimeout(async () => {
+      try {
+        setShippingQuoting(true);
+        const options = await requestShippingQuote(effectiveTotal);
+        if (!alive) return;
+        setShippingOptions(options);
+        setShippingError(null);
+      } catch (e: any) {
+        if (!alive) return;
+        setShippingOptions([]);
+        setShippingError(e?.message || "No pudimos calcular el envío.");
+      } finally {
+        if (alive) setShippingQuoting(false);
+      }
+    }, 300);
+
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shippingMethod, trimmedProvince, trimmedPostalCode, effectiveTotal, payloadItems]);
+
+  const shippingCost = shippingQuote?.cost ?? 0;
+
+  // ✅ Fecha de entrega (opcional; "" = lo antes posible). Depende de la demora del correo elegido
+  const [deliveryDates, setDeliveryDates] = useState<DeliveryDateUi[]>([]);
+  const [deliveryDatesEnabled, setDeliveryDatesEnabled] = useState(false);
+  const [deliveryDate, setDeliveryDate] = useState("");
+  const etaMax = shippingQuote?.etaDays?.max ?? 0;
+
+  useEffect(() => {
+    let alive = true;
+    if (shippingMethod !== "delivery") return;
+
+    (async () => {
+      try {
+        const res = await fetch(`/api/delivery-dates?etaMax=${etaMax}`, { cache: "no-store" });
+        const data = await res.json().catch(() => null);
+        if (!alive) return;
+        if (!res.ok) throw new Error(pickErrorMessage(data, "No pudimos cargar las fechas de entrega."));
+
+        const dates = normalizeDeliveryDates(data);
+        setDeliveryDatesEnabled(Boolean(data?.enabled));
+        setDeliveryDates(dates);
+        // Si la fecha elegida dejó de estar disponible (ej: cambió el correo), volvemos a "lo antes posible"
+        setDeliveryDate((cur) => (cur && !dates.some((d) => d.date === cur && d.remaining !== 0) ? "" : cur));
+      } catch {
+        if (!alive) return;
+        setDeliveryDatesEnabled(false);
+        setDeliveryDates([]);
+        setDeliveryDate("");
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [shippingMethod, etaMax]);
+
+  // ✅ Retiro: sucursal + turno (se cargan al elegir retiro)
+  const [pickupPoints, setPickupPoints] = useState<PickupPointUi[]>([]);
+  const [pickupLoading, setPickupLoading] = useState(false);
+  const [pickupError, setPickupError] = useState<string | null>(null);
+  const [pickupPointId, setPickupPointId] = useState("");
+  const [pickupSlotStart, setPickupSlotStart] = useState("");
+
+  const selectedPickupPoint = useMemo(
+    () => pickupPoints.find((p) => p.id === pickupPointId) ?? null,
+    [pickupPoints, pickupPointId]
+  );
+
+  // Turnos del punto elegido agrupados por día
+  const pickupDays = useMemo(() => {
+    const out: Array<{ date: string; slots: PickupSlotUi[] }> = [];
+    for (const slot of selectedPickupPoint?.slots ?? []) {
+      const last = out[out.length - 1];
+      if (last && last.date === slot.date) last.slots.push(slot);
+      else out.push({ date: slot.date, slots: [slot] });
+    }
+    return out;
+  }, [selectedPickupPoint]);
+
+  async function loadPickupPoints() {
+    try {
+      setPickupLoading(true);
+      const res = await fetch("/api/pickup-points", { cache: "no-store" });
+      const data = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(pickErrorMessage(data, "No pudimos cargar las sucursales de retiro."));
+
+      const points = normalizePickupPoints(data);
+      setPickupPoints(points);
+      setPickupError(points.length ? null : "Por ahora no hay sucursales de retiro disponibles.");
+
+      // Mantener la elección si sigue disponible
+      const point = points.find((p) => p.id === pickupPointId) ?? points[0] ?? null;
+      setPickupPointId(point?.id ?? "");
+      const slotOk = point?.slots.some((sl) => sl.start === pickupSlotStart && sl.remaining > 0);
+      if (!slotOk) setPickupSlotStart("");
+    } catch (e: any) {
+      setPickupPoints([]);
+      setPickupError(e?.message || "No pudimos cargar las sucursales de retiro.");
+    } finally {
+      setPickupLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (shippingMethod === "pickup") loadPickupPoints();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [shippingMethod]);
+
+  // ✅ Regalo: destinatario + tarjeta + papel de regalo (se cobra aparte)
+  const [isGift, setIsGift] = useState(false);
+  const [giftRecipientName, setGiftRecipientName] = useState("");
+  const [giftRecipientPhone, setGiftRecipientPhone] = useState("");
+  const [giftMessage, setGiftMessage] = useState("");
+  const [giftWrap, setGiftWrap] = useState(false);
+  const giftWrapPriceUi = giftWrapPrice();
+  const giftWrapCost = isGift && giftWrap ? giftWrapPriceUi ?? 0 : 0;
+
+  // ✅ Si cambian las promos, el medio elegido puede dejar de estar permitido
+  const paymentOptions = useMemo(
+    () => (payloadItems.length ? quote.paymentOptions : []),
+    [payloadItems.length, quote.paymentOptions]
+  );
+  const selectedPayment = useMemo(
+    () => paymentOptions.find((o) => o.type === paymentType) ?? paymentOptions[0] ?? null,
+    [paymentOptions, paymentType]
+  );
+
+  useEffect(() => {
+    if (!selectedPayment) return;
+    if (selectedPayment.type !== paymentType) setPaymentType(selectedPayment.type);
+
+    const max = Math.max(...selectedPayment.installments);
+    if (!selectedPayment.installments.includes(installments)) {
+      setInstallments(installments > max ? max : selectedPayment.installments[0] ?? 1);
+    }
+  }, [selectedPayment, paymentType, installments]);
+
+  // ✅ Offline disponible si está configurado y las promos permiten el tipo equivalente
+  const offlineOptions = useMemo(() => {
+    const out: Array<{ provider: OfflineProvider; label: string; detail: string; adjustmentPct: number }> = [];
+    const rule = (p: OfflineProvider) => paymentOptions.find((o) => o.type === OFFLINE_RULE_TYPE[p]);
+
+    const transferRule = rule("transfer");
+    if (transferDetails() && transferRule) {
+      out.push({
+        provider: "transfer",
+        label: "Transferencia bancaria",
+        detail: "Te mostramos el CBU/alias y podés subir el comprobante.",
+        adjustmentPct: transferRule.adjustmentPct,
+      });
+    }
+
+    const cashRule = rule("cash");
+    if (cashOnPickupEnabled() && shippingMethod === "pickup" && cashRule) {
+      out.push({
+        provider: "cash",
+        label: "Efectivo al retirar",
+        detail: `Pagás en ${selectedPickupPoint?.name ?? "la sucursal"} cuando retirás el pedido.`,
+        adjustmentPct: cashRule.adjustmentPct,
+      });
+    }
+
+    return out;
+  }, [paymentOptions, shippingMethod, selectedPickupPoint]);
+
+  const selectedOffline = useMemo(
+    () => (provider === "mercadopago" ? null : offlineOptions.find((o) => o.provider === provider) ?? null),
+    [provider, offlineOptions]
+  );
+
+  // Si deja de estar disponible (ej: pasó a envío a domicilio con efectivo), volvemos a MP
+  useEffect(() => {
+    if (provider !== "mercadopago" && !selectedOffline) setProvider("mercadopago");
+  }, [provider, selectedOffline]);
+
+  const paymentAdjustment = useMemo(
+    () =>
+      paymentAdjustmentARS(
+        effectiveTotal,
+        (selectedOffline ? selectedOffline.adjustmentPct : selectedPayment?.adjustmentPct) ?? 0
+      ),
+    [effectiveTotal, selectedPayment, selectedOffline]
+  );
+
+  const grandTotal = useMemo(
+    () => Math.max(0, effectiveTotal + paymentAdjustment + shippingCost + giftWrapCost),
+    [effectiveTotal, paymentAdjustment, shippingCost, giftWrapCost]
+  );
+
+  // ✅ La gift card cubre hasta el total; el resto se paga con el medio elegido
+  const giftCardAmount = giftCard ? Math.min(giftCard.balance, grandTotal) : 0;
+  const amountDue = Math.max(0, grandTotal - giftCardAmount);
+
+  async function applyGiftCard() {
+    const code = giftCardInput.trim();
+    if (!code) return setGiftCardError("Ingresá el código de la gift card.");
+
+    setGiftCardChecking(true);
+    setGiftCardError(null);
+    try {
+      const r = await fetch("/api/gift-cards/balance", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ code }),
+      });
+      const j = await r.json().catch(() => null);
+      if (!r.ok) throw new Error(pickErrorMessage(j, "No pudimos verificar la gift card."));
+
+      const balance = Math.round(toNum(j?.giftCard?.balance, 0));
+      if (j?.giftCard?.expired) throw new Error("La gift card está vencida.");
+      if (balance <= 0) throw new Error("La gift card no tiene saldo.");
+
+      setGiftCard({ code: String(j.giftCard.code), balance, expiresAt: j.giftCard.expiresAt ?? null });
+      setGiftCardInput("");
+    } catch (err: any) {
+      setGiftCard(null);
+      setGiftCardError(err?.message || "No pudimos verificar la gift card.");
+    } finally {
+      setGiftCardChecking(false);
+    }
+  }
+
+  function removeGiftCard() {
+    setGiftCard(null);
+    setGiftCardError(null);
+  }
 
   /* ================= polling ================= */
 
@@ -563,7 +1113,8 @@ export default function CheckoutPage() {
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
           items: payloadItems,
-          coupon: cartHasDiscount ? "" : coupon.trim(),
+          coupon: coupon.trim(),
+          email: trimmedEmail.toLowerCase(),
           shipping: 0,
         }),
         cache: "no-store",
@@ -571,12 +1122,26 @@ export default function CheckoutPage() {
 
       const data = await res.json().catch(() => null);
       if (!res.ok) {
-        return { subtotal: fallbackS, discountTotal: 0, total: fallbackS, appliedPromotions: [] };
+        return {
+        subtotal: fallbackS,
+        discountTotal: 0,
+        total: fallbackS,
+        appliedPromotions: [],
+        paymentOptions: [],
+        couponRejection: null,
+      };
       }
 
       return normalizeQuote(data, fallbackS);
     } catch {
-      return { subtotal: fallbackS, discountTotal: 0, total: fallbackS, appliedPromotions: [] };
+      return {
+        subtotal: fallbackS,
+        discountTotal: 0,
+        total: fallbackS,
+        appliedPromotions: [],
+        paymentOptions: [],
+        couponRejection: null,
+      };
     }
   }
 
@@ -584,6 +1149,7 @@ export default function CheckoutPage() {
     e.preventDefault();
     setError(null);
     setStockProblems([]);
+    setPriceProblems([]);
 
     try {
       localStorage.setItem("amg_dni", safeText(dni));
@@ -603,9 +1169,21 @@ export default function CheckoutPage() {
     if (shippingMethod === "delivery") {
       if (trimmedStreet.length < 2) return setError("Ingresá la calle.");
       if (trimmedNumber.length < 1) return setError("Ingresá el número/altura.");
-      if (trimmedCity.length < 2) return setError("Ingresá la ciudad.");
-      if (trimmedProvince.length < 2) return setError("Ingresá la provincia.");
-      if (trimmedPostalCode.length < 4) return setError("Ingresá un código postal válido.");
+      if (!postalCodeKey(trimmedPostalCode)) return setError("Ingresá un código postal válido (ej: 1425).");
+      if (trimmedProvince.length < 2) return setError("Elegí la provincia.");
+      if (trimmedCity.length < 2) return setError("Ingresá la localidad.");
+    } else if (!selectedPickupPoint || !pickupSlotStart) {
+      return setError("Elegí la sucursal y el horario de retiro.");
+    }
+
+    if (isGift) {
+      if (giftRecipientName.trim().length < 2) return setError("Ingresá el nombre de quien recibe el regalo.");
+      if (giftRecipientPhone.replace(/\D/g, "").length < 6) {
+        return setError("Ingresá un teléfono válido de quien recibe el regalo.");
+      }
+      if (giftMessage.trim().length > GIFT_MESSAGE_MAX_LENGTH) {
+        return setError(`El mensaje del regalo puede tener hasta ${GIFT_MESSAGE_MAX_LENGTH} caracteres.`);
+      }
     }
 
     localStorage.setItem("amg_email", trimmedEmail.toLowerCase());
@@ -616,15 +1194,43 @@ export default function CheckoutPage() {
       await persistDniIfLogged(trimmedDni);
 
       const finalQuote = await fetchFinalQuote();
-      const mpExternalReference = safeUUID();
+
+      // ✅ Cupón que ya no aplica: avisamos antes de crear la orden (el server igual lo rechaza con COUPON_REJECTED)
+      if (coupon.trim() && finalQuote.couponRejection) {
+        throw new Error(finalQuote.couponRejection.message);
+      }
 
       const totalNum = Math.round(toNum(finalQuote?.total, 0));
       if (!Number.isFinite(totalNum) || totalNum <= 0) {
         throw new Error("Total inválido. Revisá tu carrito o promociones.");
       }
 
-      const shippingFinal = calcShippingARS(totalNum, shippingMethod);
-      const grandTotalFinal = Math.max(0, totalNum + shippingFinal);
+      // ✅ El medio elegido tiene que seguir permitido con el quote final
+      const offlineFinal: OfflineProvider | null = selectedOffline?.provider ?? null;
+      const ruleType = offlineFinal ? OFFLINE_RULE_TYPE[offlineFinal] : selectedPayment?.type;
+      const paymentFinal = finalQuote.paymentOptions.length
+        ? finalQuote.paymentOptions.find((o) => o.type === ruleType) ?? null
+        : null;
+      if (finalQuote.paymentOptions.length && !paymentFinal) {
+        throw new Error("El medio de pago elegido no está disponible para las promociones de tu carrito.");
+      }
+
+      const installmentsFinal =
+        !offlineFinal && paymentFinal && paymentFinal.installments.includes(installments) ? installments : 1;
+      const paymentAdjustmentFinal = paymentAdjustmentARS(totalNum, paymentFinal?.adjustmentPct ?? 0);
+
+      // ✅ El correo elegido tiene que seguir cotizando para esta dirección
+      const shippingOptionsFinal = await requestShippingQuote(totalNum);
+      const shippingQuoteFinal = shippingQuote?.carrierId
+        ? shippingOptionsFinal.find((o) => o.carrierId === shippingQuote.carrierId) ?? null
+        : shippingOptionsFinal[0] ?? null;
+      if (!shippingQuoteFinal) {
+        setShippingOptions(shippingOptionsFinal);
+        throw new Error("El correo elegido ya no está disponible para esa dirección. Elegí otra opción de envío.");
+      }
+      const shippingFinal = shippingQuoteFinal.cost;
+      const grandTotalFinal = Math.max(0, totalNum + paymentAdjustmentFinal + shippingFinal + giftWrapCost);
+      const giftCardAmountFinal = giftCard ? Math.min(giftCard.balance, grandTotalFinal) : 0;
 
       /* 1️⃣ Crear orden */
       const createRes = await fetch("/api/orders/create", {
@@ -639,7 +1245,12 @@ export default function CheckoutPage() {
           // ✅ Shipping policy snapshot
           shippingMethod,
           shippingCost: shippingFinal,
-          pickupPoint: shippingMethod === "pickup" ? `${PICKUP_POINT.name} (${PICKUP_POINT.address})` : null,
+          shippingCarrier: shippingMethod === "delivery" ? shippingQuoteFinal.carrierId : null,
+          deliveryDate: shippingMethod === "delivery" && deliveryDate ? deliveryDate : null,
+          pickup:
+            shippingMethod === "pickup" && selectedPickupPoint
+              ? { pointId: selectedPickupPoint.id, slotStart: pickupSlotStart }
+              : null,
 
           // ✅ shippingAddress: solo si es delivery
           shippingAddress:
@@ -654,7 +1265,7 @@ export default function CheckoutPage() {
                   province: null,
                   postalCode: null,
                   notes: null,
-                  text: `Retiro en sucursal ${PICKUP_POINT.name} - ${PICKUP_POINT.address}`,
+                  text: `Retiro en sucursal ${selectedPickupPoint?.name ?? ""} - ${selectedPickupPoint?.address ?? ""}`,
                 }
               : {
                   source: selectedAddress?.id ? "saved_address" : "manual",
@@ -672,12 +1283,33 @@ export default function CheckoutPage() {
           subtotal: Math.round(toNum(finalQuote.subtotal, 0)),
           discountTotal: Math.round(toNum(finalQuote.discountTotal, 0)),
           appliedPromotions: finalQuote.appliedPromotions,
-          coupon: cartHasDiscount ? null : coupon.trim() || null,
+          coupon: coupon.trim() || null,
+
+          // ✅ Medio de pago (el server valida contra las promos y recalcula el ajuste)
+          paymentMethod: offlineFinal
+            ? { provider: offlineFinal }
+            : paymentFinal
+            ? { provider: "mercadopago", type: paymentFinal.type, installments: installmentsFinal }
+            : null,
+          paymentAdjustment: paymentAdjustmentFinal,
+
+          // ✅ Regalo (el server valida y vuelve a calcular el papel de regalo)
+          gift: isGift
+            ? {
+                isGift: true,
+                recipientName: giftRecipientName.trim(),
+                recipientPhone: giftRecipientPhone.trim(),
+                message: giftMessage.trim() || null,
+                giftWrap: giftWrap && giftWrapPriceUi != null,
+              }
+            : null,
+          giftWrapCost,
 
           // ✅ Total final con envío
           total: grandTotalFinal,
 
-          mpExternalReference,
+          // ✅ Gift card: el server vuelve a chequear el saldo y debita lo que esperamos usar
+          giftCard: giftCard ? { code: giftCard.code, amount: giftCardAmountFinal } : null,
 
           items: cartItems.map((it: any) => ({
             productId: Number(it.id),
@@ -693,22 +1325,113 @@ export default function CheckoutPage() {
       });
 
       const created = await createRes.json().catch(() => null);
+
+      if (createRes.status === 409 && created?.code === "PRICE_MISMATCH") {
+        const lines: PriceProblem[] = Array.isArray(created?.lines) ? created.lines : [];
+        setPriceProblems(lines);
+
+        // ✅ actualizamos el carrito con los precios vigentes (el quote se recalcula solo)
+        syncPrices(
+          lines
+            .filter((l) => l.reason === "price_changed" && l.price != null)
+            .map((l) => ({
+              productDocumentId: l.productDocumentId,
+              productId: l.productId,
+              price: Number(l.price),
+              off: l.off,
+            }))
+        );
+
+        throw new Error(pickErrorMessage(created, "Los precios de tu carrito cambiaron."));
+      }
+
+      if (createRes.status === 409 && created?.code === "COUPON_REJECTED") {
+        throw new Error(pickErrorMessage(created, "El cupón no se puede usar."));
+      }
+
+      // ✅ La gift card cambió mientras completaba el form (la usaron en otro pedido, venció...)
+      if (createRes.status === 409 && created?.code === "GIFT_CARD_REJECTED") {
+        if (created?.reason === "not_found" || created?.reason === "expired" || created?.reason === "empty") {
+          setGiftCard(null);
+        } else if (giftCard && created?.balance != null) {
+          setGiftCard({ ...giftCard, balance: Math.round(toNum(created.balance, 0)) });
+        }
+        throw new Error(pickErrorMessage(created, "La gift card no se puede usar."));
+      }
+
+      // ✅ La reserva de stock se hace al crear la orden
+      if (createRes.status === 409 && created?.code === "OUT_OF_STOCK") {
+        const probs = Array.isArray(created?.problems) ? created.problems : [];
+        setStockProblems(
+          probs.map((p: any) => ({
+            productDocumentId: String(p?.productDocumentId ?? p?.documentId ?? ""),
+            title: String(p?.title ?? "Producto"),
+            requested: Number(p?.requested ?? 0),
+            available: Number(p?.available ?? 0),
+          }))
+        );
+        throw new Error("No hay stock suficiente para completar la compra.");
+      }
+
+      if (createRes.status === 409 && created?.code === "DELIVERY_DATE_UNAVAILABLE") {
+        setDeliveryDate("");
+        throw new Error(pickErrorMessage(created, "La fecha de entrega elegida ya no está disponible."));
+      }
+
+      // ✅ El turno se llenó (o cerró la sucursal) mientras completaba el form
+      if (createRes.status === 409 && created?.code === "PICKUP_SLOT_UNAVAILABLE") {
+        loadPickupPoints();
+        throw new Error(pickErrorMessage(created, "El horario de retiro elegido ya no está disponible."));
+      }
+
+      // ✅ Provincia / localidad / CP que no coinciden (el server valida contra lib/geo)
+      if (createRes.status === 400 && created?.code === "ADDRESS_INVALID") {
+        if (created?.reason === "city") setCityOther(false);
+        throw new Error(pickErrorMessage(created, "Revisá la dirección de envío."));
+      }
+
+      if (createRes.status === 409 && created?.code === "PAYMENT_METHOD_NOT_ALLOWED") {
+        throw new Error(pickErrorMessage(created, "Ese medio de pago no está disponible."));
+      }
+
       if (!createRes.ok) {
         throw new Error(pickErrorMessage(created, "No se pudo crear la orden"));
       }
 
       const orderId: string | undefined = created?.orderDocumentId || created?.orderId;
       const orderNumericId: string | undefined = created?.orderNumericId;
-      const mpExtFromServer: string | undefined = created?.mpExternalReference;
 
       if (!orderId) {
         throw new Error("No se recibió orderDocumentId/orderId desde /api/orders/create");
       }
 
-      const mpExternalReferenceFinal = mpExtFromServer || mpExternalReference;
-      const orderNumber = makeOrderNumber(orderNumericId || orderId);
+      const orderNumber = created?.orderNumber
+        ? String(created.orderNumber)
+        : makeOrderNumber(orderNumericId || orderId);
+
+      // ✅ Pagado entero con gift card: el server ya lo confirmó (o lo está terminando)
+      if (created?.paidWithGiftCard) {
+        clear();
+        setGiftCard(null);
+        setUi(created?.orderStatus === "paid" ? { kind: "paid", orderId } : { kind: "checking", orderId });
+        return;
+      }
+
+      /* 2️⃣ Pago offline: no hay preferencia, mostramos instrucciones */
+      if (created?.paymentProvider === "transfer" || created?.paymentProvider === "cash") {
+        clear();
+        setGiftCard(null);
+        setUi({
+          kind: "offline",
+          orderId,
+          orderNumber,
+          provider: created.paymentProvider,
+          total: Math.round(toNum(created?.amountDue, grandTotalFinal)),
+        });
+        return;
+      }
 
-      /* 2️⃣ Preferencia MP */
+      /* 3️⃣ Preferencia MP */
       const mpItems = cartItems
         .map((it: any) => ({
           title: it.title,
@@ -726,7 +1449,6 @@ export default function CheckoutPage() {
         body: JSON.stringify({
           orderId,
           orderNumber,
-          mpExternalReference: mpExternalReferenceFinal,
           items: mpItems,
 
           // 👇 enviamos el shipping para que el server lo cobre en MP
@@ -737,7 +1459,7 @@ export default function CheckoutPage() {
           total: grandTotalFinal,
           subtotal: Math.round(toNum(finalQuote.subtotal, 0)),
           discountTotal: Math.round(toNum(finalQuote.discountTotal, 0)),
-          coupon: cartHasDiscount ? null : coupon.trim() || null,
+          coupon: coupon.trim() || null,
           appliedPromotions: finalQuote.appliedPromotions,
         }),
       });
@@ -776,13 +1498,13 @@ export default function CheckoutPage() {
 
   /* ================= UI ================= */
 
-  const showInvalidCoupon =
-    payloadItems.length > 0 &&
-    (quote.subtotal || Math.round(uiSubtotal)) > 0 &&
-    couponTouched &&
-    coupon.trim().length > 0 &&
-    !quoting &&
-    (quote.appliedPromotions?.length ?? 0) === 0;
+  // ✅ Motivo tipado del quote (vencido, agotado, no aplica a estos productos...)
+  const couponRejectionMessage =
+    payloadItems.length > 0 && coupon.trim().length > 0 && !quoting ? quote.couponRejection?.message ?? null : null;
+  const couponAppliedPromo =
+    coupon.trim().length > 0 && !couponRejectionMessage
+      ? quote.appliedPromotions.find((p) => p.code && p.code.toLowerCase() === coupon.trim().toLowerCase()) ?? null
+      : null;
 
   const showAddressFields = shippingMethod === "delivery";
 
@@ -791,7 +1513,7 @@ export default function CheckoutPage() {
       <Container>
         <h1 className="text-3xl font-extrabold py-8">Checkout</h1>
 
-        {(error || stockProblems.length > 0) && (
+        {(error || stockProblems.length > 0 || priceProblems.length > 0) && (
           <div className="mb-4 rounded bg-red-50 p-3 text-sm text-red-700">
             {error ? <div className="font-semibold">{error}</div> : null}
 
@@ -810,6 +1532,27 @@ export default function CheckoutPage() {
                 </div>
               </div>
             )}
+
+            {priceProblems.length > 0 && (
+              <div className="mt-2">
+                <div className="font-semibold">Cambios de precio:</div>
+                <ul className="mt-1 list-disc pl-5 text-red-700">
+                  {priceProblems.map((p) => (
+                    <li key={p.productDocumentId || p.productId || p.title}>
+                      <b>{p.title}</b>:{" "}
+                      {p.reason === "not_found"
+                        ? "ya no está disponible."
+                        : `antes ${formatARS(Number(p.clientUnitPrice ?? 0))}, ahora ${formatARS(
+                            Number(p.serverUnitPrice ?? 0)
+                          )}.`}
+                    </li>
+                  ))}
+                </ul>
+                <div className="mt-2 text-xs text-red-700/80">
+                  Actualizamos tu carrito con los precios vigentes. Revisá el total y volvé a intentar.
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -831,8 +1574,17 @@ export default function CheckoutPage() {
                   <div>
                     <div className="font-semibold">Envío a domicilio</div>
                     <div className="text-xs text-neutral-600">
-                      Estándar {formatARS(9000)} · &gt; {formatARS(40000)}: {formatARS(4500)} · &gt;{" "}
-                      {formatARS(65000)}: GRATIS
+                      {shippingMethod === "delivery" && carrierOptions.length
+                        ? `${shippingQuote?.zoneName ?? "Tu zona"}: elegí el correo más abajo`
+                        : shippingMethod === "delivery" && shippingQuote
+                        ? `${shippingQuote.zoneName ?? "Tu zona"}: ${
+                            shippingQuote.cost === 0 ? "GRATIS" : formatARS(shippingQuote.cost)
+                          }${
+                            shippingQuote.freeShippingThreshold && !shippingQuote.freeShippingApplied
+                              ? ` · GRATIS desde ${formatARS(shippingQuote.freeShippingThreshold)}`
+                              : ""
+                          }`
+                        : "El costo depende de tu provincia y código postal."}
                     </div>
                   </div>
                 </label>
@@ -848,7 +1600,9 @@ export default function CheckoutPage() {
                   <div>
                     <div className="font-semibold">Retiro en sucursal</div>
                     <div className="text-xs text-neutral-600">
-                      {PICKUP_POINT.name} ({PICKUP_POINT.address}) · GRATIS
+                      {pickupPoints.length === 1
+                        ? `${pickupPoints[0].name} (${pickupPoints[0].address}) · GRATIS`
+                        : "Elegí sucursal y horario · GRATIS"}
                     </div>
                   </div>
                 </label>
@@ -908,14 +1662,85 @@ export default function CheckoutPage() {
               </div>
             )}
 
-            {/* Info de retiro */}
+            {/* ✅ Sucursal y turno de retiro */}
             {!showAddressFields && (
               <div className="rounded border p-3 text-sm">
                 <div className="font-semibold">Retiro en sucursal</div>
-                <div className="mt-1 text-neutral-700">
-                  {PICKUP_POINT.name} — {PICKUP_POINT.address}
-                </div>
-                <div className="mt-1 text-xs text-neutral-600">
+
+                {pickupLoading && !pickupPoints.length ? (
+                  <div className="mt-2 text-xs opacity-70">Cargando sucursales…</div>
+                ) : pickupError ? (
+                  <div className="mt-2 text-xs text-red-600">{pickupError}</div>
+                ) : (
+                  <>
+                    <div className="mt-2 space-y-2">
+                      {pickupPoints.map((p) => (
+                        <label key={p.id} className="flex cursor-pointer items-start gap-3">
+                          <input
+                            type="radio"
+                            name="pickupPoint"
+                            value={p.id}
+                            checked={pickupPointId === p.id}
+                            onChange={() => {
+                              setPickupPointId(p.id);
+                              setPickupSlotStart("");
+                            }}
+                          />
+                          <div>
+                            <div className="font-semibold">{p.name}</div>
+                            <div className="text-xs text-neutral-600">
+                              {p.address}
+                              {p.city ? `, ${p.city}` : ""}
+                              {p.mapUrl ? (
+                                <>
+                                  {" · "}
+                                  <a href={p.mapUrl} target="_blank" rel="noreferrer" className="underline">
+                                    Ver mapa
+                                  </a>
+                                </>
+                              ) : null}
+                            </div>
+                            {p.hoursLabel ? <div className="text-xs text-neutral-500">{p.hoursLabel}</div> : null}
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+
+                    {selectedPickupPoint ? (
+                      <div className="mt-3">
+                        <div className="text-xs font-semibold">Horario de retiro</div>
+                        {pickupDays.length ? (
+                          <select
+                            className="mt-1 w-full border p-2 text-sm"
+                            value={pickupSlotStart}
+                            onChange={(e) => setPickupSlotStart(e.target.value)}
+                          >
+                            <option value="">Elegí un horario</option>
+                            {pickupDays.map((day) => (
+                              <optgroup key={day.date} label={formatSlotDay(day.date)}>
+                                {day.slots.map((sl) => (
+                                  <option key={sl.start} value={sl.start} disabled={sl.remaining <= 0}>
+                                    {formatSlotDay(day.date)} · {sl.label}
+                                    {sl.remaining <= 0 ? " (completo)" : ""}
+                                  </option>
+                                ))}
+                              </optgroup>
+                            ))}
+                          </select>
+                        ) : (
+                          <div className="mt-1 text-xs text-red-600">
+                            No hay horarios disponibles en esta sucursal. Probá con otra.
+                          </div>
+                        )}
+                        {selectedPickupPoint.instructions ? (
+                          <div className="mt-2 text-xs text-neutral-600">{selectedPickupPoint.instructions}</div>
+                        ) : null}
+                      </div>
+                    ) : null}
+                  </>
+                )}
+
+                <div className="mt-2 text-xs text-neutral-600">
                   Te vamos a avisar por email cuando tu pedido esté listo para retirar.
                 </div>
               </div>
@@ -938,6 +1763,14 @@ export default function CheckoutPage() {
               required
             />
 
+            {/* ✅ Invitado: no hace falta login para comprar */}
+            {!me.user && (
+              <p className="-mt-2 text-xs text-neutral-500">
+                Comprás como invitado: te mandamos a este email un link para seguir tu pedido. Si después
+                entrás con Google con el mismo email, el pedido queda en tu cuenta.
+              </p>
+            )}
+
             {/* ✅ DNI */}
             <div>
               <input
@@ -986,28 +1819,138 @@ export default function CheckoutPage() {
                   className="w-full border p-2"
                   required
                 />
-                <input
-                  value={city}
-                  onChange={(e) => setCity(e.target.value)}
-                  placeholder="Ciudad"
-                  className="w-full border p-2"
-                  required
-                />
-                <input
-                  value={province}
-                  onChange={(e) => setProvince(e.target.value)}
-                  placeholder="Provincia"
-                  className="w-full border p-2"
-                  required
-                />
-                <input
-                  value={postalCode}
-                  onChange={(e) => setPostalCode(e.target.value)}
-                  placeholder="Código postal"
-                  className="w-full border p-2"
-                  inputMode="numeric"
+                <div>
+                  <input
+                    value={postalCode}
+                    onChange={(e) => setPostalCode(e.target.value)}
+                    placeholder="Código postal"
+                    className="w-full border p-2"
+                    autoComplete="postal-code"
+                    required
+                  />
+                  {zipError ? (
+                    <p className="mt-1 text-xs text-red-600">{zipError}</p>
+                  ) : zipLookup && !zipLookup.known ? (
+                    <p className="mt-1 text-xs text-neutral-500">No tenemos las localidades de ese CP: escribí la tuya.</p>
+                  ) : null}
+                </div>
+                <select
+                  value={selectedProvince ? province : ""}
+                  onChange={(e) => {
+                    const next = provinceOptions.find((p) => p.name === e.target.value) ?? null;
+                    setProvince(e.target.value);
+                    setCity(next?.code === "C" ? next.name : "");
+                    setCityOther(false);
+                  }}
+                  className="w-full border bg-white p-2"
                   required
-                />
+                >
+                  <option value="">Provincia</option>
+                  {provinceOptions.map((p) => (
+                    <option key={p.code} value={p.name}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+                {isCaba ? (
+                  <input value={province} disabled className="w-full border bg-neutral-50 p-2 text-neutral-600" />
+                ) : cityOptions.length && !cityFree ? (
+                  <select
+                    value={city}
+                    onChange={(e) => {
+                      if (e.target.value === "__other__") {
+                        setCityOther(true);
+                        setCity("");
+                        return;
+                      }
+                      setCity(e.target.value);
+                    }}
+                    className="w-full border bg-white p-2"
+                    required
+                  >
+                    <option value="">Localidad</option>
+                    {cityOptions.map((c) => (
+                      <option key={c} value={c}>
+                        {c}
+                      </option>
+                    ))}
+                    <option value="__other__">Otra localidad…</option>
+                  </select>
+                ) : (
+                  <div>
+                    <input
+                      value={city}
+                      onChange={(e) => setCity(e.target.value)}
+                      placeholder="Localidad"
+                      className="w-full border p-2"
+                      required
+                    />
+                    {cityOptions.length ? (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setCityOther(false);
+                          setCity("");
+                        }}
+                        className="mt-1 text-xs font-semibold underline"
+                      >
+                        Elegir de la lista
+                      </button>
+                    ) : null}
+                  </div>
+                )}
+
+                {/* ✅ Correos que cotizaron para esta dirección */}
+                {carrierOptions.length ? (
+                  <div className="rounded border p-3">
+                    <div className="text-sm font-semibold">Correo</div>
+                    <div className="mt-2 space-y-2 text-sm">
+                      {carrierOptions.map((o) => (
+                        <label key={o.carrierId} className="flex cursor-pointer items-start gap-3">
+                          <input
+                            type="radio"
+                            name="shippingCarrier"
+                            value={o.carrierId ?? ""}
+                            checked={shippingQuote?.carrierId === o.carrierId}
+                            onChange={() => setShippingCarrier(o.carrierId)}
+                          />
+                          <div className="flex-1">
+                            <div className="flex justify-between gap-2">
+                              <span className="font-semibold">{o.carrierName}</span>
+                              <span>{o.cost === 0 ? "GRATIS" : formatARS(o.cost)}</span>
+                            </div>
+                            <div className="text-xs text-neutral-600">
+                              {[o.service, formatEta(o.etaDays)].filter(Boolean).join(" · ")}
+                            </div>
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
+
+                {/* ✅ Entrega programada (regalos) */}
+                {deliveryDatesEnabled && (
+                  <div className="rounded border p-3">
+                    <div className="text-sm font-semibold">Fecha de entrega</div>
+                    <select
+                      className="mt-2 w-full border p-2 text-sm"
+                      value={deliveryDate}
+                      onChange={(e) => setDeliveryDate(e.target.value)}
+                    >
+                      <option value="">Lo antes posible</option>
+                      {deliveryDates.map((d) => (
+                        <option key={d.date} value={d.date} disabled={d.remaining === 0}>
+                          {formatSlotDay(d.date)}
+                          {d.remaining === 0 ? " (sin lugar)" : ""}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-neutral-500">
+                      ¿Es un regalo? Elegí el día y lo entregamos esa fecha.
+                    </p>
+                  </div>
+                )}
 
                 <div>
                   <textarea
@@ -1024,34 +1967,213 @@ export default function CheckoutPage() {
               </>
             )}
 
+            {/* ✅ Es para regalo */}
+            <div className="rounded border p-3">
+              <label className="flex cursor-pointer items-center gap-2 text-sm font-semibold">
+                <input type="checkbox" checked={isGift} onChange={(e) => setIsGift(e.target.checked)} />
+                Es para regalo
+              </label>
+
+              {isGift && (
+                <div className="mt-3 space-y-3">
+                  <p className="text-xs text-neutral-600">
+                    {shippingMethod === "pickup"
+                      ? "Quien retira puede ser la persona que recibe el regalo."
+                      : "El correo le entrega el pedido a esta persona."}{" "}
+                    El remito que va en el paquete no muestra precios.
+                  </p>
+
+                  <input
+                    value={giftRecipientName}
+                    onChange={(e) => setGiftRecipientName(e.target.value)}
+                    placeholder="Nombre de quien recibe"
+                    className="w-full border p-2"
+                  />
+                  <input
+                    value={giftRecipientPhone}
+                    onChange={(e) => setGiftRecipientPhone(e.target.value)}
+                    placeholder="Teléfono de quien recibe"
+                    className="w-full border p-2"
+                    inputMode="tel"
+                  />
+
+                  <div>
+                    <textarea
+                      value={giftMessage}
+                      onChange={(e) => setGiftMessage(e.target.value.slice(0, GIFT_MESSAGE_MAX_LENGTH))}
+                      placeholder="Mensaje para la tarjeta (opcional)"
+                      className="w-full border p-2"
+                      rows={3}
+                      maxLength={GIFT_MESSAGE_MAX_LENGTH}
+                    />
+                    <div className="mt-1 text-right text-xs text-neutral-500">
+                      {giftMessage.length}/{GIFT_MESSAGE_MAX_LENGTH}
+                    </div>
+                  </div>
+
+                  {giftWrapPriceUi != null && (
+                    <label className="flex cursor-pointer items-center gap-2 text-sm">
+                      <input type="checkbox" checked={giftWrap} onChange={(e) => setGiftWrap(e.target.checked)} />
+                      Papel de regalo ({giftWrapPriceUi === 0 ? "GRATIS" : `+${formatARS(giftWrapPriceUi)}`})
+                    </label>
+                  )}
+                </div>
+              )}
+            </div>
+
             {/* Cupón */}
             <div>
               <input
                 value={coupon}
-                onChange={(e) => {
-                  setCouponTouched(true);
-                  setCoupon(e.target.value);
-                }}
+                onChange={(e) => setCoupon(e.target.value)}
                 placeholder="Cupón (opcional)"
                 className="w-full border p-2"
-                disabled={cartHasDiscount}
               />
 
-              <p className="mt-1 text-xs text-neutral-500">
-                El cupón aplica solo a productos sin descuento.
-              </p>
-
-              {cartHasDiscount && (
-                <p className="mt-1 text-xs text-amber-700">
-                  Tu carrito tiene productos con descuento, por eso el cupón no se puede usar.
+              {couponAppliedPromo && (
+                <p className="mt-1 text-xs text-green-700">
+                  Cupón {couponAppliedPromo.code} aplicado: -{formatARS(couponAppliedPromo.amount)}
                 </p>
               )}
             </div>
 
-            {showInvalidCoupon ? (
-              <div className="text-xs text-red-600">Cupón inválido o no aplicable.</div>
+            {couponRejectionMessage ? (
+              <div className="text-xs text-red-600">{couponRejectionMessage}</div>
             ) : null}
 
+            {/* ✅ Gift card */}
+            <div>
+              {giftCard ? (
+                <div className="flex items-center justify-between gap-3 rounded border p-2 text-sm">
+                  <div>
+                    <div className="font-semibold">Gift card {maskGiftCode(giftCard.code)}</div>
+                    <div className="text-xs text-neutral-600">
+                      Saldo {formatARS(giftCard.balance)} · usás {formatARS(giftCardAmount)}
+                      {giftCard.balance > giftCardAmount
+                        ? ` (te quedan ${formatARS(giftCard.balance - giftCardAmount)})`
+                        : ""}
+                    </div>
+                  </div>
+                  <button type="button" onClick={removeGiftCard} className="text-xs underline">
+                    Quitar
+                  </button>
+                </div>
+              ) : (
+                <div className="flex gap-2">
+                  <input
+                    value={giftCardInput}
+                    onChange={(e) => setGiftCardInput(e.target.value)}
+                    placeholder="Código de gift card (opcional)"
+                    className="w-full border p-2"
+                  />
+                  <button
+                    type="button"
+                    onClick={applyGiftCard}
+                    disabled={giftCardChecking || !giftCardInput.trim()}
+                    className="rounded border px-3 text-sm disabled:opacity-60"
+                  >
+                    {giftCardChecking ? "…" : "Usar"}
+                  </button>
+                </div>
+              )}
+
+              {giftCardError ? <p className="mt-1 text-xs text-red-600">{giftCardError}</p> : null}
+            </div>
+
+            {/* ✅ Medio de pago */}
+            {paymentOptions.length > 0 && (
+              <div className="rounded border p-3">
+                <div className="text-sm font-semibold">Medio de pago</div>
+
+                {offlineOptions.length > 0 && (
+                  <div className="mt-3 space-y-2 border-b pb-3 text-sm">
+                    <label className="flex cursor-pointer items-start gap-3">
+                      <input
+                        type="radio"
+                        name="paymentProvider"
+                        value="mercadopago"
+                        checked={provider === "mercadopago"}
+                        onChange={() => setProvider("mercadopago")}
+                      />
+                      <div className="font-semibold">Mercado Pago</div>
+                    </label>
+
+                    {offlineOptions.map((o) => (
+                      <label key={o.provider} className="flex cursor-pointer items-start gap-3">
+                        <input
+                          type="radio"
+                          name="paymentProvider"
+                          value={o.provider}
+                          checked={provider === o.provider}
+                          onChange={() => setProvider(o.provider)}
+                        />
+                        <div>
+                          <div className="font-semibold">{o.label}</div>
+                          <div className="text-xs text-neutral-600">{o.detail}</div>
+                          {o.adjustmentPct !== 0 ? (
+                            <div className={`text-xs ${o.adjustmentPct < 0 ? "text-green-700" : "text-amber-700"}`}>
+                              {o.adjustmentPct < 0 ? "Descuento" : "Recargo"} {formatPct(o.adjustmentPct)}
+                            </div>
+                          ) : null}
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                <div className={`mt-3 space-y-2 text-sm ${provider === "mercadopago" ? "" : "hidden"}`}>
+                  {paymentOptions.map((o) => (
+                    <label key={o.type} className="flex cursor-pointer items-start gap-3">
+                      <input
+                        type="radio"
+                        name="paymentType"
+                        value={o.type}
+                        checked={selectedPayment?.type === o.type}
+                        onChange={() => setPaymentType(o.type)}
+                      />
+                      <div>
+                        <div className="font-semibold">{o.label}</div>
+                        {o.adjustmentPct !== 0 ? (
+                          <div className={`text-xs ${o.adjustmentPct < 0 ? "text-green-700" : "text-amber-700"}`}>
+                            {o.adjustmentPct < 0 ? "Descuento" : "Recargo"} {formatPct(o.adjustmentPct)}
+                          </div>
+                        ) : null}
+                      </div>
+                    </label>
+                  ))}
+                </div>
+
+                {provider === "mercadopago" && selectedPayment && selectedPayment.installments.length > 1 ? (
+                  <div className="mt-3">
+                    <label className="text-xs font-semibold" htmlFor="installments">
+                      Cuotas
+                    </label>
+                    <select
+                      id="installments"
+                      className="mt-1 w-full border p-2 text-sm"
+                      value={installments}
+                      onChange={(e) => setInstallments(Number(e.target.value) || 1)}
+                    >
+                      {selectedPayment.installments.map((n) => (
+                        <option key={n} value={n}>
+                          {n === 1 ? "1 pago" : `${n} cuotas`} de {formatARS(Math.round(amountDue / n))}
+                        </option>
+                      ))}
+                    </select>
+                    <p className="mt-1 text-xs text-neutral-500">
+                      El interés de las cuotas (si corresponde) lo informa Mercado Pago según tu tarjeta.
+                    </p>
+                  </div>
+                ) : null}
+
+                {paymentOptions.length < PAYMENT_TYPES_COUNT ? (
+                  <p className="mt-2 text-xs text-amber-700">
+                    Las promociones de tu carrito limitan los medios de pago disponibles.
+                  </p>
+                ) : null}
+              </div>
+            )}
+
             {/* Resumen */}
             <div className="rounded border p-3 text-sm">
               <div className="flex items-center justify-between">
@@ -1064,16 +2186,79 @@ export default function CheckoutPage() {
                 <span>-{formatARS(effectiveDiscount)}</span>
               </div>
 
+              {paymentAdjustment !== 0 ? (
+                <div className="mt-2 flex items-center justify-between">
+                  <span>
+                    {paymentAdjustment < 0 ? "Descuento" : "Recargo"} por medio de pago (
+                    {formatPct((selectedOffline ? selectedOffline.adjustmentPct : selectedPayment?.adjustmentPct) ?? 0)})
+                  </span>
+                  <span>
+                    {paymentAdjustment < 0 ? "-" : "+"}
+                    {formatARS(Math.abs(paymentAdjustment))}
+                  </span>
+                </div>
+              ) : null}
+
               <div className="mt-2 flex items-center justify-between">
-                <span>Envío</span>
-                <span>{shippingCost === 0 ? "GRATIS" : formatARS(shippingCost)}</span>
+                <span>
+                  Envío
+                  {shippingQuote?.carrierName
+                    ? ` (${shippingQuote.carrierName})`
+                    : shippingQuote?.zoneName
+                    ? ` (${shippingQuote.zoneName})`
+                    : ""}
+                </span>
+                <span>
+                  {shippingQuoting
+                    ? "…"
+                    : !shippingQuote
+                    ? "A calcular"
+                    : shippingCost === 0
+                    ? "GRATIS"
+                    : formatARS(shippingCost)}
+                </span>
               </div>
 
+              {shippingQuote?.refrigeratedSurcharge ? (
+                <div className="mt-1 text-xs text-amber-800">
+                  Incluye envío refrigerado obligatorio ({formatARS(shippingQuote.refrigeratedSurcharge)}): tu pedido
+                  tiene productos sensibles al calor.
+                </div>
+              ) : null}
+
+              {shippingQuote?.missingForFreeShipping ? (
+                <div className="mt-1 text-xs text-neutral-600">
+                  Te faltan {formatARS(shippingQuote.missingForFreeShipping)} para envío gratis.
+                </div>
+              ) : null}
+
+              {shippingError ? <div className="mt-1 text-xs text-red-600">{shippingError}</div> : null}
+
+              {isGift && giftWrap && giftWrapPriceUi != null ? (
+                <div className="mt-2 flex items-center justify-between">
+                  <span>Papel de regalo</span>
+                  <span>{giftWrapCost === 0 ? "GRATIS" : formatARS(giftWrapCost)}</span>
+                </div>
+              ) : null}
+
               <div className="mt-2 flex items-center justify-between font-semibold">
                 <span>Total</span>
                 <span>{formatARS(grandTotal)}</span>
               </div>
 
+              {giftCard && giftCardAmount > 0 ? (
+                <>
+                  <div className="mt-2 flex items-center justify-between">
+                    <span>Gift card {maskGiftCode(giftCard.code)}</span>
+                    <span>-{formatARS(giftCardAmount)}</span>
+                  </div>
+                  <div className="mt-2 flex items-center justify-between font-semibold">
+                    <span>A pagar</span>
+                    <span>{formatARS(amountDue)}</span>
+                  </div>
+                </>
+              ) : null}
+
               {quoting ? <div className="mt-2 text-xs opacity-70">Calculando promociones…</div> : null}
 
               {quote.appliedPromotions?.length ? (
@@ -1096,10 +2281,16 @@ export default function CheckoutPage() {
 
             <button
               type="submit"
-              disabled={loading || quoting}
+              disabled={loading || quoting || shippingQuoting}
               className="w-full rounded bg-red-600 py-3 text-white disabled:opacity-60"
             >
-              {loading ? "Redirigiendo…" : "Pagar con MercadoPago"}
+              {loading
+                ? provider === "mercadopago" && amountDue > 0
+                  ? "Redirigiendo…"
+                  : "Confirmando…"
+                : provider === "mercadopago" && amountDue > 0
+                ? "Pagar con MercadoPago"
+                : "Confirmar pedido"}
             </button>
 
             <Link href="/carrito" className="block text-sm underline">
@@ -1135,6 +2326,29 @@ export default function CheckoutPage() {
           </div>
         )}
 
+        {ui.kind === "offline" && (
+          <div className="max-w-md space-y-4">
+            <div className="rounded border p-4">
+              <p className="font-semibold">¡Recibimos tu pedido {ui.orderNumber}!</p>
+              <p className="mt-1 text-sm opacity-80">
+                {ui.provider === "transfer"
+                  ? "Lo confirmamos cuando veamos la transferencia. Te avisamos por email."
+                  : `Pagás ${formatARS(ui.total)} en efectivo al retirar en ${
+                      selectedPickupPoint ? `${selectedPickupPoint.name} (${selectedPickupPoint.address})` : "la sucursal"
+                    }.`}
+              </p>
+            </div>
+
+            {ui.provider === "transfer" && (
+              <TransferPaymentBox orderId={ui.orderId} orderNumber={ui.orderNumber} total={ui.total} />
+            )}
+
+            <Link href={`/mis-pedidos/${encodeURIComponent(ui.orderId)}`} className="inline-block text-sm underline">
+              Ver mi pedido
+            </Link>
+          </div>
+        )}
+
         {ui.kind === "timeout" && (
           <div className="max-w-md rounded border p-4">
             <p className="font-semibold">No pudimos confirmar el pago todavía.</p>
@@ -275,6 +275,15 @@ export default function GraciasPage() {
                   Ver mi pedido →
                 </Link>
               )}
+
+              {(status === "failure" || status === "pending") && orderId && (
+                <Link
+                  href={`/mis-pedidos/${encodeURIComponent(orderId)}`}
+                  className="rounded-full border px-5 py-2.5 text-sm font-semibold text-neutral-900 hover:bg-neutral-50"
+                >
+                  Reintentar pago →
+                </Link>
+              )}
             </div>
 
             {status === "pending" && (
@@ -2,8 +2,11 @@
 
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
-import { useParams } from "next/navigation";
+import { useParams, useSearchParams } from "next/navigation";
 import { Container } from "@/components/layout/Container";
+import { TransferPaymentBox } from "@/components/orders/TransferPaymentBox";
+import { OrderTimeline, type TimelineEvent, type TimelinePickup } from "@/components/orders/OrderTimeline";
+import { CANCEL_COMMENT_MAX, CUSTOMER_CANCEL_REASONS, customerCancelState } from "@/lib/order-cancellation";
 
 type Order = {
   documentId?: string | null;
@@ -17,12 +20,45 @@ type Order = {
   items?: any[] | null;
   shippingAddress?: any | null;
   createdAt?: string | null;
+  refundedAmount?: number | string | null;
+  refundedAt?: string | null;
+  refunds?: Array<{ id: string; amount: number; date?: string | null; creditNotePdfUrl?: string | null }> | null;
+  paymentMethod?: {
+    provider?: string;
+    type?: string;
+    label?: string;
+    installments?: number;
+    adjustmentAmount?: number;
+  } | null;
+  cancelReason?: string | null;
+  transferReceiptUrl?: string | null;
+  shippingMethod?: string | null;
+  shippingQuote?: { carrierName?: string | null; service?: string | null } | null;
+  trackingNumber?: string | null;
+  trackingUrl?: string | null;
+  shipmentId?: string | null;
+  cancelRefundPending?: boolean | null;
+  giftCardAmount?: number | string | null;
+  pickup?: TimelinePickup | null;
+  deliveryDate?: string | null;
+  gift?: { recipientName?: string; recipientPhone?: string; message?: string | null; giftWrap?: boolean } | null;
+  giftWrapCost?: number | string | null;
 };
 
 function formatARS(n: number) {
   return n.toLocaleString("es-AR", { style: "currency", currency: "ARS" });
 }
 
+// "2026-10-24" → "sábado 24/10" (entrega programada)
+function formatDeliveryDate(date?: string | null) {
+  const d = String(date ?? "").slice(0, 10);
+  const t = new Date(`${d}T12:00:00-03:00`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(d) || Number.isNaN(t.getTime())) return "";
+  const days = ["domingo", "lunes", "martes", "miércoles", "jueves", "viernes", "sábado"];
+  const [, month, day] = d.split("-");
+  return `${days[t.getUTCDay()]} ${day}/${month}`;
+}
+
 function normalizeOrderPayload(json: any): Order | null {
   // ✅ Nuevo endpoint devuelve: { data: { ...flat } }
   const data = json?.data ?? null;
@@ -48,6 +84,23 @@ function normalizeOrderPayload(json: any): Order | null {
     items: Array.isArray(row.items) ? row.items : null,
     shippingAddress: row.shippingAddress ?? null,
     createdAt: row.createdAt ?? null,
+    refundedAmount: row.refundedAmount ?? null,
+    refundedAt: row.refundedAt ?? null,
+    refunds: Array.isArray(row.refunds) ? row.refunds : null,
+    paymentMethod: row.paymentMethod && typeof row.paymentMethod === "object" ? row.paymentMethod : null,
+    cancelReason: row.cancelReason ?? null,
+    transferReceiptUrl: row.transferReceiptUrl ?? null,
+    shippingMethod: row.shippingMethod ?? null,
+    shippingQuote: row.shippingQuote && typeof row.shippingQuote === "object" ? row.shippingQuote : null,
+    trackingNumber: row.trackingNumber ?? null,
+    trackingUrl: row.trackingUrl ?? null,
+    shipmentId: row.shipmentId ?? null,
+    cancelRefundPending: row.cancelRefundPending === true,
+    giftCardAmount: row.giftCardAmount ?? null,
+    pickup: row.pickup && typeof row.pickup === "object" ? row.pickup : null,
+    deliveryDate: row.deliveryDate ?? null,
+    gift: row.gift && typeof row.gift === "object" && row.gift.recipientName ? row.gift : null,
+    giftWrapCost: row.giftWrapCost ?? null,
   };
 }
 
@@ -55,10 +108,14 @@ function normalizeStatus(s?: string | null) {
   const v = String(s || "").toLowerCase();
   if (v === "paid") return "paid";
   if (v === "pending") return "pending";
+  if (v === "awaiting_payment") return "awaiting_payment";
   if (v === "shipped") return "shipped";
   if (v === "delivered") return "delivered";
   if (v === "failed") return "failed";
   if (v === "cancelled") return "cancelled";
+  if (v === "refunded") return "refunded";
+  if (v === "partially_refunded") return "partially_refunded";
+  if (v === "chargeback") return "chargeback";
   return "unknown";
 }
 
@@ -67,14 +124,16 @@ function StatusPill({ status }: { status: string }) {
   const cls =
     s === "paid"
       ? "bg-emerald-50 text-emerald-700 ring-emerald-200"
-      : s === "pending"
+      : s === "pending" || s === "awaiting_payment"
       ? "bg-amber-50 text-amber-700 ring-amber-200"
       : s === "shipped"
       ? "bg-blue-50 text-blue-700 ring-blue-200"
       : s === "delivered"
       ? "bg-violet-50 text-violet-700 ring-violet-200"
-      : s === "failed" || s === "cancelled"
+      : s === "failed" || s === "cancelled" || s === "chargeback"
       ? "bg-red-50 text-red-700 ring-red-200"
+      : s === "refunded" || s === "partially_refunded"
+      ? "bg-sky-50 text-sky-700 ring-sky-200"
       : "bg-neutral-50 text-neutral-700 ring-neutral-200";
 
   const label =
@@ -82,6 +141,8 @@ function StatusPill({ status }: { status: string }) {
       ? "Pagado"
       : s === "pending"
       ? "Pendiente"
+      : s === "awaiting_payment"
+      ? "Esperando pago"
       : s === "shipped"
       ? "Enviado"
       : s === "delivered"
@@ -90,6 +151,12 @@ function StatusPill({ status }: { status: string }) {
       ? "Fallido"
       : s === "cancelled"
       ? "Cancelado"
+      : s === "refunded"
+      ? "Reembolsado"
+      : s === "partially_refunded"
+      ? "Reembolso parcial"
+      : s === "chargeback"
+      ? "Contracargo"
       : "—";
 
   return (
@@ -99,55 +166,6 @@ function StatusPill({ status }: { status: string }) {
   );
 }
 
-function Tracking({ status }: { status: string }) {
-  const s = normalizeStatus(status);
-
-  const steps = [
-    { key: "pending", label: "Pendiente" },
-    { key: "paid", label: "Pagado" },
-    { key: "shipped", label: "Enviado" },
-    { key: "delivered", label: "Entregado" },
-  ] as const;
-
-  const activeIndex = useMemo(() => {
-    const idx = steps.findIndex((x) => x.key === s);
-    return idx >= 0 ? idx : 0;
-  }, [s]);
-
-  const isBad = s === "failed" || s === "cancelled";
-
-  return (
-    <div className="rounded-2xl border bg-white p-5">
-      <div className="flex items-center justify-between gap-3">
-        <div>
-          <div className="text-sm font-extrabold text-neutral-900">Tracking</div>
-          <div className="mt-1 text-sm text-neutral-600">
-            {isBad ? "Este pedido no pudo completarse." : "Seguimiento simple del estado del pedido."}
-          </div>
-        </div>
-        <StatusPill status={status} />
-      </div>
-
-      <div className="mt-5 grid grid-cols-4 gap-2">
-        {steps.map((step, i) => {
-          const done = !isBad && i <= activeIndex;
-          const ring = done ? "ring-neutral-900" : "ring-neutral-200";
-          const bg = done ? "bg-neutral-900 text-white" : "bg-white text-neutral-700";
-
-          return (
-            <div key={step.key} className="text-center">
-              <div className={`mx-auto grid h-8 w-8 place-items-center rounded-full ring-2 ${ring} ${bg}`}>
-                {i + 1}
-              </div>
-              <div className="mt-2 text-xs font-semibold text-neutral-700">{step.label}</div>
-            </div>
-          );
-        })}
-      </div>
-    </div>
-  );
-}
-
 /* ================== LINKS a productos ================== */
 
 function getProductHrefFromItem(it: any) {
@@ -171,11 +189,32 @@ export default function PedidoDetallePage() {
   const params = useParams<{ id: string }>();
   const id = params?.id ? String(params.id) : "";
 
+  // ✅ Invitado: token firmado del link del email (si no viene, la API usa la cookie del checkout)
+  const sp = useSearchParams();
+  const guestToken = sp.get("token") || "";
+  const guestHeaders: Record<string, string> = guestToken ? { "x-guest-token": guestToken } : {};
+
   const [loading, setLoading] = useState(true);
   const [order, setOrder] = useState<Order | null>(null);
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
 
   const [error, setError] = useState<string | null>(null);
   const [authError, setAuthError] = useState<"unauth" | "forbidden" | null>(null);
+  const [isGuestView, setIsGuestView] = useState(false);
+
+  // ✅ Reintentar pago (orden pending/failed)
+  const [retrying, setRetrying] = useState(false);
+  const [retryError, setRetryError] = useState<string | null>(null);
+  const [retryNeedsCart, setRetryNeedsCart] = useState(false);
+
+  // ✅ Cancelar pedido (pending / paid sin despachar)
+  const [cancelOpen, setCancelOpen] = useState(false);
+  const [cancelReason, setCancelReason] = useState("");
+  const [cancelComment, setCancelComment] = useState("");
+  const [cancelling, setCancelling] = useState(false);
+  const [cancelError, setCancelError] = useState<string | null>(null);
+  const [cancelDone, setCancelDone] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
 
   useEffect(() => {
     if (!id) return;
@@ -188,7 +227,10 @@ export default function PedidoDetallePage() {
       setAuthError(null);
 
       try {
-        const r = await fetch(`/api/orders/${encodeURIComponent(id)}`, { cache: "no-store" });
+        const r = await fetch(`/api/orders/${encodeURIComponent(id)}`, {
+          cache: "no-store",
+          headers: guestToken ? { "x-guest-token": guestToken } : {},
+        });
         const json = await r.json().catch(() => null);
 
         if (!r.ok) {
@@ -212,6 +254,8 @@ export default function PedidoDetallePage() {
 
         if (!alive) return;
         setOrder(o);
+        setEvents(Array.isArray(json?.events) ? json.events : []);
+        setIsGuestView(Boolean(json?.guest));
       } catch (err: any) {
         if (!alive) return;
         setOrder(null);
@@ -226,13 +270,120 @@ export default function PedidoDetallePage() {
     return () => {
       alive = false;
     };
-  }, [id]);
+  }, [id, guestToken, reloadKey]);
 
   const totalNum = useMemo(() => {
     if (!order) return 0;
     return typeof order.total === "number" ? order.total : Number(order.total || 0);
   }, [order]);
 
+  const refundedNum = useMemo(() => {
+    if (!order) return 0;
+    const n = typeof order.refundedAmount === "number" ? order.refundedAmount : Number(order.refundedAmount || 0);
+    return Number.isFinite(n) ? n : 0;
+  }, [order]);
+
+  const refundedLabel = useMemo(() => {
+    if (!order?.refundedAt) return "";
+    const d = new Date(order.refundedAt);
+    return d.toLocaleString("es-AR", { dateStyle: "medium", timeStyle: "short" });
+  }, [order?.refundedAt]);
+
+  const canRetryPayment = useMemo(() => {
+    const s = normalizeStatus(order?.orderStatus);
+    return s === "pending" || s === "failed";
+  }, [order?.orderStatus]);
+
+  const awaitingOfflinePayment = normalizeStatus(order?.orderStatus) === "awaiting_payment";
+
+  async function retryPayment() {
+    if (!order || retrying) return;
+    setRetrying(true);
+    setRetryError(null);
+    setRetryNeedsCart(false);
+
+    try {
+      const orderKey = String(order.documentId || order.orderNumber || order.id || id);
+      const r = await fetch(`/api/orders/${encodeURIComponent(orderKey)}/retry-payment`, {
+        method: "POST",
+        cache: "no-store",
+        headers: guestHeaders,
+      });
+      const json = await r.json().catch(() => null);
+
+      if (!r.ok) {
+        const code = String(json?.code ?? "");
+        if (
+          code === "PRICE_MISMATCH" ||
+          code === "COUPON_REJECTED" ||
+          code === "OUT_OF_STOCK" ||
+          code === "PAYMENT_METHOD_NOT_ALLOWED" ||
+          code === "SHIPPING_NOT_AVAILABLE"
+        ) {
+          setRetryNeedsCart(true);
+        }
+        if (code === "OUT_OF_STOCK") {
+          const titles = (Array.isArray(json?.problems) ? json.problems : [])
+            .map((p: any) => String(p?.title ?? ""))
+            .filter(Boolean);
+          throw new Error(
+            `No hay stock suficiente${titles.length ? ` de: ${titles.join(", ")}` : ""}. Armá el pedido de nuevo.`
+          );
+        }
+        throw new Error(json?.error || `HTTP ${r.status}`);
+      }
+
+      const redirectUrl = json?.init_point || json?.sandbox_init_point;
+      if (!redirectUrl) throw new Error("MercadoPago no devolvió el link de pago.");
+      window.location.href = String(redirectUrl);
+    } catch (err: any) {
+      setRetryError(err?.message || "No se pudo reintentar el pago.");
+      setRetrying(false);
+    }
+  }
+
+  const cancelState = order ? customerCancelState(order) : "not_allowed";
+
+  async function cancelOrder() {
+    if (!order || cancelling) return;
+    if (!cancelReason) {
+      setCancelError("Elegí el motivo de la cancelación.");
+      return;
+    }
+
+    setCancelling(true);
+    setCancelError(null);
+
+    try {
+      const orderKey = String(order.documentId || order.orderNumber || order.id || id);
+      const r = await fetch(`/api/orders/${encodeURIComponent(orderKey)}/cancel`, {
+        method: "POST",
+        cache: "no-store",
+        headers: { "Content-Type": "application/json", ...guestHeaders },
+        body: JSON.stringify({ reason: cancelReason, comment: cancelComment.trim() || null }),
+      });
+      const json = await r.json().catch(() => null);
+      if (!r.ok) {
+        // Quedó cancelada con el reembolso pendiente: recargamos para mostrar "Reintentar reembolso"
+        if (json?.retryable) setReloadKey((k) => k + 1);
+        throw new Error(json?.error || `HTTP ${r.status}`);
+      }
+
+      const refundAmount = Number(json?.refund?.amount ?? 0);
+      setCancelDone(
+        refundAmount > 0
+          ? `Cancelamos el pedido y te devolvimos ${formatARS(refundAmount)} por Mercado Pago. Te mandamos la confirmación por email.`
+          : "Cancelamos el pedido. Te mandamos la confirmación por email."
+      );
+      setCancelOpen(false);
+      setReloadKey((k) => k + 1);
+    } catch (err: any) {
+      setCancelError(err?.message || "No se pudo cancelar el pedido.");
+    } finally {
+      setCancelling(false);
+    }
+  }
+
   const createdLabel = useMemo(() => {
     if (!order?.createdAt) return "";
     const d = new Date(order.createdAt);
@@ -261,7 +412,16 @@ export default function PedidoDetallePage() {
 
           {authError === "unauth" && (
             <div className="mt-6 rounded-2xl border bg-white p-6 text-sm text-neutral-800">
-              Tenés que <b>iniciar sesión</b> para ver este pedido.
+              {guestToken ? (
+                <>
+                  El link de este pedido venció o no es válido. Iniciá sesión con Google usando el email
+                  de la compra para verlo en <b>Mis pedidos</b>.
+                </>
+              ) : (
+                <>
+                  Tenés que <b>iniciar sesión</b> para ver este pedido.
+                </>
+              )}
               <div className="mt-4">
                 <Link href="/" className="text-sm font-semibold text-red-700 hover:underline">
                   Ir a la tienda →
@@ -285,9 +445,26 @@ export default function PedidoDetallePage() {
             <div className="mt-6 rounded-2xl border bg-white p-6 text-sm text-red-700">{error}</div>
           )}
 
+          {!error && !loading && order && isGuestView && (
+            <div className="mt-6 rounded-2xl bg-neutral-50 p-4 text-sm text-neutral-700 ring-1 ring-neutral-200">
+              Compraste como invitado. Si entrás con Google usando <b>{order.email || "el email de la compra"}</b>,
+              este pedido queda guardado en tu cuenta.
+            </div>
+          )}
+
           {!error && !loading && order && (
             <div className="mt-8 grid gap-6 lg:grid-cols-2">
-              <Tracking status={String(order.orderStatus || "")} />
+              <OrderTimeline
+                status={String(order.orderStatus || "")}
+                cancelReason={order.cancelReason}
+                shippingMethod={order.shippingMethod}
+                events={events}
+                carrierName={order.shippingQuote?.carrierName ?? null}
+                trackingNumber={order.trackingNumber ?? null}
+                trackingUrl={order.trackingUrl ?? null}
+                pickup={order.pickup}
+                badge={<StatusPill status={String(order.orderStatus || "")} />}
+              />
 
               <div className="rounded-2xl border bg-white p-5">
                 <div className="flex items-start justify-between gap-3">
@@ -307,6 +484,194 @@ export default function PedidoDetallePage() {
                     <span className="font-extrabold text-neutral-900">{formatARS(totalNum)}</span>
                   </div>
 
+                  {formatDeliveryDate(order.deliveryDate) && (
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-neutral-600">Entrega programada</span>
+                      <span className="font-semibold text-neutral-900">{formatDeliveryDate(order.deliveryDate)}</span>
+                    </div>
+                  )}
+
+                  {canRetryPayment && (
+                    <div className="rounded-xl bg-amber-50 p-3 ring-1 ring-amber-200">
+                      <div className="text-amber-900">
+                        {normalizeStatus(order.orderStatus) === "failed"
+                          ? "El pago no se pudo completar."
+                          : "Todavía no recibimos el pago de este pedido."}
+                      </div>
+                      <button
+                        type="button"
+                        onClick={retryPayment}
+                        disabled={retrying}
+                        className="mt-3 rounded-full bg-red-600 px-5 py-2 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-60"
+                      >
+                        {retrying ? "Redirigiendo…" : "Reintentar pago"}
+                      </button>
+                      {retryError && <div className="mt-2 text-xs text-red-700">{retryError}</div>}
+                      {retryNeedsCart && (
+                        <Link href="/carrito" className="mt-2 inline-block text-xs font-semibold text-red-700 hover:underline">
+                          Ir al carrito →
+                        </Link>
+                      )}
+                    </div>
+                  )}
+
+                  {awaitingOfflinePayment && order.paymentMethod?.provider === "transfer" && (
+                    <TransferPaymentBox
+                      orderId={String(order.documentId || order.orderNumber || id)}
+                      orderNumber={order.orderNumber}
+                      total={totalNum}
+                      receiptUrl={order.transferReceiptUrl}
+                      guestToken={guestToken || null}
+                    />
+                  )}
+
+                  {awaitingOfflinePayment && order.paymentMethod?.provider === "cash" && (
+                    <div className="rounded-xl bg-amber-50 p-3 text-amber-900 ring-1 ring-amber-200">
+                      Pagás {formatARS(totalNum)} en efectivo cuando retirás el pedido.
+                    </div>
+                  )}
+
+                  {cancelDone && (
+                    <div className="rounded-xl bg-emerald-50 p-3 text-emerald-900 ring-1 ring-emerald-200">{cancelDone}</div>
+                  )}
+
+                  {cancelState === "manual_refund" && (
+                    <div className="rounded-xl bg-neutral-50 p-3 text-xs text-neutral-700 ring-1 ring-neutral-200">
+                      ¿Querés cancelar el pedido? Escribinos: como lo pagaste por transferencia o en efectivo, el
+                      reintegro lo hacemos a mano.
+                    </div>
+                  )}
+
+                  {cancelState === "shipment_created" && (
+                    <div className="rounded-xl bg-neutral-50 p-3 text-xs text-neutral-700 ring-1 ring-neutral-200">
+                      ¿Querés cancelar el pedido? Escribinos: el envío ya está generado en el correo y hay que
+                      anularlo antes de devolverte la plata.
+                    </div>
+                  )}
+
+                  {cancelState === "allowed" && order.cancelRefundPending && (
+                    <div className="rounded-xl bg-amber-50 p-3 text-xs text-amber-900 ring-1 ring-amber-200">
+                      Cancelamos el pedido pero el reembolso de Mercado Pago no se pudo hacer. Reintentalo con
+                      &quot;Reintentar reembolso&quot;.
+                    </div>
+                  )}
+
+                  {cancelState === "allowed" && !cancelOpen && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (order.cancelRefundPending) setCancelReason(order.cancelReason ?? "");
+                        setCancelOpen(true);
+                        setCancelError(null);
+                      }}
+                      className="text-xs font-semibold text-neutral-600 hover:text-red-700 hover:underline"
+                    >
+                      {order.cancelRefundPending ? "Reintentar reembolso" : "Cancelar pedido"}
+                    </button>
+                  )}
+
+                  {cancelState === "allowed" && cancelOpen && (
+                    <div className="rounded-xl bg-neutral-50 p-3 ring-1 ring-neutral-200">
+                      <div className="font-semibold text-neutral-900">Cancelar pedido</div>
+                      <div className="mt-1 text-xs text-neutral-600">
+                        {normalizeStatus(order.orderStatus) === "paid" || order.cancelRefundPending
+                          ? `Te devolvemos ${formatARS(totalNum - refundedNum)} por Mercado Pago (puede demorar unos días según tu banco).`
+                          : "Como todavía no está pagado, no se te va a cobrar nada."}
+                      </div>
+
+                      <label className="mt-3 block text-xs font-semibold text-neutral-700" htmlFor="cancel-reason">
+                        Motivo
+                      </label>
+                      <select
+                        id="cancel-reason"
+                        value={cancelReason}
+                        onChange={(e) => setCancelReason(e.target.value)}
+                        className="mt-1 w-full rounded-xl border bg-white px-3 py-2 text-sm"
+                      >
+                        <option value="">Elegí un motivo…</option>
+                        {CUSTOMER_CANCEL_REASONS.map((r) => (
+                          <option key={r.code} value={r.code}>
+                            {r.label}
+                          </option>
+                        ))}
+                      </select>
+
+                      <textarea
+                        value={cancelComment}
+                        onChange={(e) => setCancelComment(e.target.value.slice(0, CANCEL_COMMENT_MAX))}
+                        placeholder="Comentario (opcional)"
+                        rows={2}
+                        className="mt-2 w-full rounded-xl border bg-white px-3 py-2 text-sm"
+                      />
+
+                      <div className="mt-3 flex flex-wrap items-center gap-3">
+                        <button
+                          type="button"
+                          onClick={cancelOrder}
+                          disabled={cancelling}
+                          className="rounded-full bg-red-600 px-5 py-2 text-sm font-semibold text-white hover:bg-red-700 disabled:opacity-60"
+                        >
+                          {cancelling ? "Cancelando…" : "Confirmar cancelación"}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setCancelOpen(false)}
+                          disabled={cancelling}
+                          className="text-sm font-semibold text-neutral-700 hover:underline"
+                        >
+                          Volver
+                        </button>
+                      </div>
+                      {cancelError && <div className="mt-2 text-xs text-red-700">{cancelError}</div>}
+                    </div>
+                  )}
+
+                  {refundedNum > 0 && (
+                    <div className="rounded-xl bg-sky-50 p-3 ring-1 ring-sky-200">
+                      <div className="flex items-center justify-between gap-3">
+                        <span className="text-sky-800">Reembolsado</span>
+                        <span className="font-extrabold text-sky-900">-{formatARS(refundedNum)}</span>
+                      </div>
+                      {refundedLabel && <div className="mt-1 text-xs text-sky-800">{refundedLabel}</div>}
+
+                      {(order.refunds || []).some((r) => r?.creditNotePdfUrl) && (
+                        <div className="mt-2 flex flex-wrap gap-3">
+                          {(order.refunds || [])
+                            .filter((r) => r?.creditNotePdfUrl)
+                            .map((r, i) => (
+                              <a
+                                key={r.id}
+                                href={String(r.creditNotePdfUrl)}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="text-xs font-semibold text-sky-800 hover:underline"
+                              >
+                                Nota de crédito {i + 1} →
+                              </a>
+                            ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {order.paymentMethod?.label && (
+                    <div>
+                      <div className="text-neutral-600">Medio de pago</div>
+                      <div className="mt-1 font-semibold text-neutral-900">
+                        {String(order.paymentMethod.label)}
+                        {Number(order.paymentMethod.installments) > 1
+                          ? ` · ${Number(order.paymentMethod.installments)} cuotas`
+                          : ""}
+                      </div>
+                      {Number(order.paymentMethod.adjustmentAmount) ? (
+                        <div className="mt-1 text-xs text-neutral-600">
+                          {Number(order.paymentMethod.adjustmentAmount) < 0 ? "Descuento" : "Recargo"} por medio de
+                          pago: {formatARS(Math.abs(Number(order.paymentMethod.adjustmentAmount)))}
+                        </div>
+                      ) : null}
+                    </div>
+                  )}
+
                   {order.shippingAddress?.text && (
                     <div>
                       <div className="text-neutral-600">Dirección</div>
@@ -316,6 +681,25 @@ export default function PedidoDetallePage() {
                     </div>
                   )}
 
+                  {order.gift && (
+                    <div className="rounded-xl bg-rose-50 p-3 ring-1 ring-rose-200">
+                      <div className="text-rose-800">Es para regalo</div>
+                      <div className="mt-1 font-semibold text-rose-900">
+                        Para {order.gift.recipientName}
+                        {order.gift.recipientPhone ? ` · ${order.gift.recipientPhone}` : ""}
+                      </div>
+                      {order.gift.message && (
+                        <div className="mt-1 whitespace-pre-line text-xs italic text-rose-800">“{order.gift.message}”</div>
+                      )}
+                      {order.gift.giftWrap && (
+                        <div className="mt-1 text-xs text-rose-800">
+                          Con papel de regalo
+                          {Number(order.giftWrapCost) > 0 ? ` (${formatARS(Number(order.giftWrapCost))})` : ""}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {(order.name || order.email) && (
                     <div>
                       <div className="text-neutral-600">Cliente</div>
@@ -11,6 +11,7 @@ type OrderRow = {
   orderStatus?: string | null;
   total?: number | string | null;
   createdAt?: string | null;
+  deliveryDate?: string | null;
   shippingAddress?: any;
   items?: any;
 };
@@ -19,14 +20,28 @@ function formatARS(n: number) {
   return n.toLocaleString("es-AR", { style: "currency", currency: "ARS" });
 }
 
+// "2026-10-24" → "sábado 24/10" (entrega programada)
+function formatDeliveryDate(date?: string | null) {
+  const d = String(date ?? "").slice(0, 10);
+  const t = new Date(`${d}T12:00:00-03:00`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(d) || Number.isNaN(t.getTime())) return "";
+  const days = ["domingo", "lunes", "martes", "miércoles", "jueves", "viernes", "sábado"];
+  const [, month, day] = d.split("-");
+  return `${days[t.getUTCDay()]} ${day}/${month}`;
+}
+
 function normalizeStatus(s?: string | null) {
   const v = String(s || "").toLowerCase();
   if (v === "paid") return "paid";
   if (v === "pending") return "pending";
+  if (v === "awaiting_payment") return "awaiting_payment";
   if (v === "shipped") return "shipped";
   if (v === "delivered") return "delivered";
   if (v === "failed") return "failed";
   if (v === "cancelled") return "cancelled";
+  if (v === "refunded") return "refunded";
+  if (v === "partially_refunded") return "partially_refunded";
+  if (v === "chargeback") return "chargeback";
   return "unknown";
 }
 
@@ -35,14 +50,16 @@ function StatusPill({ status }: { status: string }) {
   const cls =
     s === "paid"
       ? "bg-emerald-50 text-emerald-700 ring-emerald-200"
-      : s === "pending"
+      : s === "pending" || s === "awaiting_payment"
       ? "bg-amber-50 text-amber-700 ring-amber-200"
       : s === "shipped"
       ? "bg-blue-50 text-blue-700 ring-blue-200"
       : s === "delivered"
       ? "bg-violet-50 text-violet-700 ring-violet-200"
-      : s === "failed" || s === "cancelled"
+      : s === "failed" || s === "cancelled" || s === "chargeback"
       ? "bg-red-50 text-red-700 ring-red-200"
+      : s === "refunded" || s === "partially_refunded"
+      ? "bg-sky-50 text-sky-700 ring-sky-200"
       : "bg-neutral-50 text-neutral-700 ring-neutral-200";
 
   const label =
@@ -50,6 +67,8 @@ function StatusPill({ status }: { status: string }) {
       ? "Pagado"
       : s === "pending"
       ? "Pendiente"
+      : s === "awaiting_payment"
+      ? "Esperando pago"
       : s === "shipped"
       ? "Enviado"
       : s === "delivered"
@@ -58,6 +77,12 @@ function StatusPill({ status }: { status: string }) {
       ? "Fallido"
       : s === "cancelled"
       ? "Cancelado"
+      : s === "refunded"
+      ? "Reembolsado"
+      : s === "partially_refunded"
+      ? "Reembolso parcial"
+      : s === "chargeback"
+      ? "Contracargo"
       : "—";
 
   return (
@@ -192,6 +217,11 @@ export default function MisPedidosPage() {
                         {dateLabel && (
                           <div className="mt-1 text-sm text-neutral-600">{dateLabel}</div>
                         )}
+                        {o.deliveryDate && formatDeliveryDate(o.deliveryDate) && (
+                          <div className="mt-1 text-sm font-semibold text-neutral-800">
+                            Entrega programada: {formatDeliveryDate(o.deliveryDate)}
+                          </div>
+                        )}
                       </div>
 
                       <div className="flex items-center gap-3">
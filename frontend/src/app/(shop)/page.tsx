@@ -4,6 +4,7 @@ import { InfoStrip } from "@/components/home/InfoStrip";
 import { HomeBestSellers } from "@/components/home/HomeBestSellers";
 import { strapiGet } from "@/lib/strapi";
 import { toCardItem } from "@/lib/strapi-mappers";
+import { fetchFlashSales } from "@/lib/flash-sales";
 import { HeroCarousel } from "@/components/home/HeroCarousel";
 
 import fs from "fs";
@@ -88,7 +89,10 @@ export default async function HomePage() {
     const home = (res?.data?.attributes ?? res?.data) as HomePageAttributes | undefined;
 
     const raw = home?.bestSellers ?? [];
-    bestSellers = Array.isArray(raw) ? raw.map(toCardItem) : [];
+    // ✅ ofertas relámpago vigentes (toCardItem pone el `off` y la cuenta regresiva)
+    const sales = Array.isArray(raw) && raw.length ? await fetchFlashSales() : [];
+    const now = new Date();
+    bestSellers = Array.isArray(raw) ? raw.map((p: any) => toCardItem(p, sales, now)) : [];
   } catch {
     bestSellers = [];
   }
@@ -5,6 +5,11 @@ import { Container } from "@/components/layout/Container";
 import { fetcher } from "@/lib/fetcher";
 import { AddToCartButton } from "@/components/cart/AddToCartButton";
 import { ProductReviews } from "@/components/products/ProductReviews";
+import { hasDimensions, readProductDimensions } from "@/lib/packing";
+import { readHeatSensitive } from "@/lib/heat-rules";
+import { activeHeatRestrictions, type HeatRestriction } from "@/lib/shipping";
+import { applyFlashSale, fetchFlashSales } from "@/lib/flash-sales";
+import { SaleCountdown } from "@/components/products/SaleCountdown";
 
 export const dynamic = "force-dynamic";
 
@@ -112,8 +117,17 @@ export default async function ProductDetailPage({ params }: { params: { id: stri
 
   const price = asNum(attr?.price ?? row?.price, 0);
 
+  // slug puede ser null -> fallback seguro
+  const slug = String(attr?.slug ?? row?.slug ?? "").trim() || String(id);
+
+  // ✅ off fijo o el de la oferta relámpago vigente (el mayor; mismo criterio que el server, ver lib/flash-sales)
   const offRaw = attr?.off ?? row?.off ?? 0;
-  const off = asNum(offRaw, 0);
+  const flash = applyFlashSale(
+    { id, documentId, slug: toStrOrNull(attr?.slug ?? row?.slug), category: toStrOrNull(category) },
+    asNum(offRaw, 0),
+    await fetchFlashSales()
+  );
+  const off = flash.off ?? 0;
   const hasOff = off > 0;
   const finalPrice = hasOff ? Math.round(price * (1 - off / 100)) : price;
 
@@ -121,9 +135,20 @@ export default async function ProductDetailPage({ params }: { params: { id: stri
   const stock = stockRaw == null ? null : asNum(stockRaw, 0);
 
   const imageUrl = pickImage(row);
-
-  // slug puede ser null -> fallback seguro
-  const slug = String(attr?.slug ?? row?.slug ?? "").trim() || String(id);
+  const dims = readProductDimensions(row);
+  const heatSensitive = readHeatSensitive(row);
+
+  // ✅ Sensible al calor: avisamos qué zonas hoy tienen envío refrigerado o no reciben envíos
+  let heatRestrictions: HeatRestriction[] = [];
+  if (heatSensitive) {
+    try {
+      heatRestrictions = await activeHeatRestrictions();
+    } catch {
+      heatRestrictions = [];
+    }
+  }
+  const heatBlocked = heatRestrictions.filter((r) => r.action === "block");
+  const heatRefrigerated = heatRestrictions.filter((r) => r.action === "refrigerated");
 
   const outOfStock = stock != null && stock <= 0;
 
@@ -192,6 +217,13 @@ export default async function ProductDetailPage({ params }: { params: { id: stri
                     Ahorrás {formatARS(price - finalPrice)}
                   </div>
                 )}
+
+                {flash.sale && (
+                  <div className="mt-2 inline-flex flex-wrap items-center gap-2 rounded-full bg-red-50 px-3 py-1 text-xs font-bold text-red-700">
+                    <span>{flash.sale.name}</span>
+                    <SaleCountdown endsAt={flash.sale.endsAt} />
+                  </div>
+                )}
               </div>
 
               {stock != null && (
@@ -205,6 +237,33 @@ export default async function ProductDetailPage({ params }: { params: { id: stri
               )}
             </div>
 
+            {heatSensitive && (
+              <div className="mt-5 rounded-xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
+                <div className="font-bold">Sensible al calor</div>
+                {heatRestrictions.length ? (
+                  <ul className="mt-2 space-y-1 text-xs">
+                    {heatRefrigerated.map((r) => (
+                      <li key={`cold-${r.zoneName}`}>
+                        {r.zoneName}: envío refrigerado obligatorio
+                        {r.surcharge > 0 ? ` (+${formatARS(r.surcharge)})` : ""}
+                        {r.until ? ` hasta el ${r.until}` : ""}.
+                      </li>
+                    ))}
+                    {heatBlocked.map((r) => (
+                      <li key={`block-${r.zoneName}`}>
+                        {r.zoneName}: sin envíos{r.until ? ` hasta el ${r.until}` : ""}, solo retiro en sucursal.
+                      </li>
+                    ))}
+                  </ul>
+                ) : (
+                  <p className="mt-1 text-xs">
+                    En verano algunos destinos pueden requerir envío refrigerado o solo retiro en sucursal; lo vas a
+                    ver al calcular el envío.
+                  </p>
+                )}
+              </div>
+            )}
+
             {description && (
               <div className="mt-5">
                 <h2 className="text-sm font-extrabold text-neutral-900">Descripción</h2>
@@ -224,6 +283,19 @@ export default async function ProductDetailPage({ params }: { params: { id: stri
                   <span className="mt-0.5">•</span>
                   <span>Pagá con MercadoPago.</span>
                 </li>
+                {dims.weightGrams || hasDimensions(dims) ? (
+                  <li className="flex items-start gap-2">
+                    <span className="mt-0.5">•</span>
+                    <span>
+                      {[
+                        dims.weightGrams ? `Peso: ${dims.weightGrams} g` : null,
+                        hasDimensions(dims) ? `Medidas: ${dims.lengthCm} × ${dims.widthCm} × ${dims.heightCm} cm` : null,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </span>
+                  </li>
+                ) : null}
               </ul>
             </div>
 
@@ -236,8 +308,12 @@ export default async function ProductDetailPage({ params }: { params: { id: stri
                   title,
                   price,
                   off: hasOff ? off : undefined,
+                  saleName: flash.sale?.name ?? null,
+                  saleEndsAt: flash.sale?.endsAt ?? null,
                   imageUrl,
                   stock, // ✅ IMPORTANTE
+                  ...dims,
+                  heatSensitive,
                 }}
               />
               
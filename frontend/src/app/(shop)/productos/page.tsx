@@ -3,6 +3,8 @@ import Image from "next/image";
 import { Container } from "@/components/layout/Container";
 import { fetcher } from "@/lib/fetcher";
 import { toCardItem } from "@/lib/strapi-mappers";
+import { fetchFlashSales } from "@/lib/flash-sales";
+import { SaleCountdown } from "@/components/products/SaleCountdown";
 
 export const dynamic = "force-dynamic";
 
@@ -45,15 +47,17 @@ export default async function ProductosPage({
     }
 
     // ✅ IMPORTANTE: pedir a Strapi con auth:true (Bearer token server-side)
-    const res = await fetcher<StrapiListResponse<ProductAttributes>>(
-      `/api/products?${sp.toString()}`,
-      { auth: true }
-    );
+    // ✅ ofertas relámpago en paralelo (si fallan, [] y queda el `off` fijo)
+    const [res, sales] = await Promise.all([
+      fetcher<StrapiListResponse<ProductAttributes>>(`/api/products?${sp.toString()}`, { auth: true }),
+      fetchFlashSales(),
+    ]);
 
     const raw = Array.isArray(res?.data) ? res.data : [];
 
-    // ✅ mapper devuelve imageUrl listo
-    products = raw.map((item: any) => toCardItem(item));
+    // ✅ mapper devuelve imageUrl listo (y el `off` de la oferta vigente)
+    const now = new Date();
+    products = raw.map((item: any) => toCardItem(item, sales, now));
   } catch (err: any) {
     errorMsg = err?.message || "No se pudieron cargar los productos.";
     products = [];
@@ -153,6 +157,13 @@ export default async function ProductosPage({
                           -{p.off}%
                         </span>
                       )}
+
+                      {hasOff && p.saleEndsAt ? (
+                        <SaleCountdown
+                          endsAt={p.saleEndsAt}
+                          className="absolute bottom-3 left-3 rounded-full bg-neutral-900/80 px-2 py-1 text-xs font-semibold text-white"
+                        />
+                      ) : null}
                     </div>
 
                     <div className="p-5">
@@ -1,6 +1,14 @@
 import Link from "next/link";
 import { Container } from "@/components/layout/Container";
 import { fetcher } from "@/lib/fetcher";
+import {
+  fetchFlashSales,
+  formatFlashSaleStart,
+  liveFlashSales,
+  upcomingFlashSales,
+  type FlashSale,
+} from "@/lib/flash-sales";
+import { SaleCountdown } from "@/components/products/SaleCountdown";
 
 export const dynamic = "force-dynamic";
 
@@ -20,6 +28,9 @@ type PromotionAttributes = {
   minItems?: number | null;
   combinable?: boolean;
   priority?: number;
+  buyQty?: number | null;
+  getQty?: number | null;
+  bundlePrice?: number | null;
 };
 
 type PromotionV4 = { id: number; attributes: PromotionAttributes };
@@ -40,6 +51,18 @@ function pickPromo(p: any): { id: number; a: PromotionAttributes } | null {
   return { id, a };
 }
 
+/** "Bombones, Tabletas · 3 productos" (a qué aplica la oferta) */
+function flashSaleScope(sale: FlashSale) {
+  const parts: string[] = [];
+  if (sale.categories.length) {
+    parts.push(sale.categories.map((c) => c.charAt(0).toUpperCase() + c.slice(1)).join(", "));
+  }
+  if (sale.products.length) {
+    parts.push(`${sale.products.length} producto${sale.products.length === 1 ? "" : "s"}`);
+  }
+  return parts.join(" · ");
+}
+
 export default async function PromocionesPage() {
   const qs = new URLSearchParams();
   qs.set("pagination[pageSize]", "50");
@@ -48,9 +71,17 @@ export default async function PromocionesPage() {
   qs.set("filters[publishedAt][$notNull]", "true");
 
   // ✅ con el fetcher nuevo podés usar con o sin /api; dejo sin /api para evitar confusiones
-  const res = await fetcher<StrapiList<PromotionAny>>(`/promotions?${qs.toString()}`, {
-    cache: "no-store",
-  });
+  const [res, sales] = await Promise.all([
+    fetcher<StrapiList<PromotionAny>>(`/promotions?${qs.toString()}`, {
+      cache: "no-store",
+    }),
+    fetchFlashSales(),
+  ]);
+
+  // ✅ ofertas relámpago (lib/flash-sales): vigentes con cuenta regresiva y las que vienen
+  const now = new Date();
+  const liveSales = liveFlashSales(sales, now).sort((a, b) => a.endsAt.localeCompare(b.endsAt));
+  const upcomingSales = upcomingFlashSales(sales, now).slice(0, 6);
 
   const promosRaw = Array.isArray(res?.data) ? res.data : [];
   const promos = promosRaw.map(pickPromo).filter(Boolean) as Array<{
@@ -68,13 +99,78 @@ export default async function PromocionesPage() {
           </p>
         </div>
 
+        {liveSales.length || upcomingSales.length ? (
+          <section className="pb-10">
+            <h2 className="text-xl font-extrabold text-neutral-900">Ofertas relámpago</h2>
+            <p className="mt-1 text-sm text-neutral-600">
+              Precios con descuento por tiempo limitado. El descuento ya se ve en cada producto.
+            </p>
+
+            {liveSales.length ? (
+              <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+                {liveSales.map((s) => (
+                  <div key={`live-${s.id}`} className="rounded-xl border border-red-200 bg-red-50 p-5 shadow-sm">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="text-lg font-extrabold text-neutral-900">{s.name}</div>
+                      <span className="rounded-full bg-red-600 px-2 py-1 text-xs font-bold text-white">
+                        {s.off}% OFF
+                      </span>
+                    </div>
+                    {flashSaleScope(s) ? (
+                      <div className="mt-1 text-sm text-neutral-700">{flashSaleScope(s)}</div>
+                    ) : null}
+                    <SaleCountdown endsAt={s.endsAt} className="mt-3 block text-sm font-bold text-red-700" />
+                    <Link
+                      href="/productos#listado"
+                      className="mt-4 inline-flex rounded-full bg-red-600 px-5 py-2 text-sm font-semibold text-white"
+                    >
+                      Ver productos
+                    </Link>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+
+            {upcomingSales.length ? (
+              <div className="mt-6">
+                <h3 className="text-sm font-extrabold text-neutral-900">Próximas</h3>
+                <ul className="mt-2 divide-y rounded-xl border border-neutral-200 bg-white text-sm shadow-sm">
+                  {upcomingSales.map((s) => (
+                    <li key={`next-${s.id}`} className="flex flex-wrap items-center justify-between gap-2 px-5 py-3">
+                      <div>
+                        <span className="font-semibold text-neutral-900">{s.name}</span>
+                        {flashSaleScope(s) ? <span className="text-neutral-500"> · {flashSaleScope(s)}</span> : null}
+                      </div>
+                      <div className="text-neutral-700">
+                        <span className="font-bold text-red-700">{s.off}% OFF</span> desde el{" "}
+                        {formatFlashSaleStart(s.startsAt)}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+          </section>
+        ) : null}
+
         <div className="grid grid-cols-1 gap-6 pb-14 md:grid-cols-2">
           {promos.map(({ id, a }) => {
             const isCoupon = !!a?.requiresCoupon && !!a?.code;
 
+            // ✅ bogo: "llevá 3, pagá 2" (buyQty se paga, getQty con descuento); bundle: combo a precio fijo
+            const buy = Math.max(1, Number(a?.buyQty ?? 1) || 1);
+            const get = Math.max(1, Number(a?.getQty ?? 1) || 1);
             const discountLabel =
               a?.discountType === "percent"
                 ? `${Number(a?.discountValue ?? 0)}% OFF`
+                : a?.discountType === "bogo"
+                ? Number(a?.discountValue ?? 0) > 0 && Number(a?.discountValue) < 100
+                  ? `Llevá ${buy + get}: ${get === 1 ? "la más barata" : `las ${get} más baratas`} con ${Number(
+                      a?.discountValue
+                    )}% OFF`
+                  : `Llevá ${buy + get}, pagá ${buy}`
+                : a?.discountType === "bundle"
+                ? `Combo a ${formatARS(Number(a?.bundlePrice ?? a?.discountValue ?? 0))}`
                 : a?.discountType ?? "—";
 
             return (
@@ -0,0 +1,180 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { Container } from "@/components/layout/Container";
+import { OrderTimeline, type TimelineEvent, type TimelinePickup } from "@/components/orders/OrderTimeline";
+
+type PublicOrder = {
+  orderNumber: string | null;
+  orderStatus: string | null;
+  cancelReason: string | null;
+  createdAt: string | null;
+  shippingMethod: "delivery" | "pickup";
+  pickupPoint: string | null;
+  pickup: TimelinePickup | null;
+  destination: string | null;
+  carrierName: string | null;
+  service: string | null;
+  etaDays: { min: number; max: number } | null;
+  deliveryDate: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  items: Array<{ title: string; qty: number }>;
+};
+
+const inputClass =
+  "w-full rounded-md border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900 outline-none placeholder:text-neutral-400 focus:border-neutral-500";
+
+// "2026-10-24" → "sábado 24/10"
+function formatDeliveryDate(date: string) {
+  const d = date.slice(0, 10);
+  const t = new Date(`${d}T12:00:00-03:00`);
+  if (Number.isNaN(t.getTime())) return d;
+  const days = ["domingo", "lunes", "martes", "miércoles", "jueves", "viernes", "sábado"];
+  const [, month, day] = d.split("-");
+  return `${days[t.getUTCDay()]} ${day}/${month}`;
+}
+
+function formatDate(iso?: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? "" : d.toLocaleDateString("es-AR", { dateStyle: "medium" });
+}
+
+export default function SeguiTuPedidoPage() {
+  const [orderNumber, setOrderNumber] = useState("");
+  const [email, setEmail] = useState("");
+
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [order, setOrder] = useState<PublicOrder | null>(null);
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+
+  async function search(num: string, mail: string) {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const res = await fetch("/api/orders/track", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderNumber: num.trim(), email: mail.trim() }),
+        cache: "no-store",
+      });
+      const json = await res.json().catch(() => null);
+      if (!res.ok) throw new Error(json?.error || "No pudimos buscar el pedido.");
+
+      setOrder(json?.data ?? null);
+      setEvents(Array.isArray(json?.events) ? json.events : []);
+    } catch (err: any) {
+      setOrder(null);
+      setEvents([]);
+      setError(err?.message || "No pudimos buscar el pedido.");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // ✅ Link directo desde el email: /segui-tu-pedido?pedido=AMG-0051&email=...
+  useEffect(() => {
+    const sp = new URLSearchParams(window.location.search);
+    const num = sp.get("pedido") || "";
+    const mail = sp.get("email") || "";
+    if (num) setOrderNumber(num);
+    if (mail) setEmail(mail);
+    if (num && mail) search(num, mail);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  function onSubmit(e: React.FormEvent<HTMLFormElement>) {
+    e.preventDefault();
+    if (loading) return;
+    search(orderNumber, email);
+  }
+
+  return (
+    <main className="py-14">
+      <Container>
+        <h1 className="mb-2 text-center text-3xl font-extrabold tracking-wide">SEGUÍ TU PEDIDO</h1>
+        <p className="mb-8 text-center text-sm text-neutral-600">
+          Ingresá el número de pedido y el email con el que compraste. No hace falta iniciar sesión.
+        </p>
+
+        <form onSubmit={onSubmit} className="mx-auto max-w-md space-y-3">
+          <input
+            value={orderNumber}
+            onChange={(e) => setOrderNumber(e.target.value)}
+            placeholder="Número de pedido (ej: AMG-0051)"
+            className={inputClass}
+            required
+          />
+          <input
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            placeholder="Email de la compra"
+            type="email"
+            className={inputClass}
+            required
+          />
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full rounded-md bg-neutral-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-60"
+          >
+            {loading ? "Buscando…" : "Ver estado"}
+          </button>
+
+          {error ? <div className="text-sm text-red-600">{error}</div> : null}
+        </form>
+
+        {order ? (
+          <div className="mx-auto mt-10 max-w-2xl space-y-4">
+            <div className="rounded-2xl border bg-white p-5 text-sm">
+              <div className="text-lg font-extrabold text-neutral-900">Pedido {order.orderNumber}</div>
+              <div className="mt-1 text-neutral-600">
+                {[
+                  order.createdAt ? `Hecho el ${formatDate(order.createdAt)}` : null,
+                  order.deliveryDate ? `Entrega programada: ${formatDeliveryDate(order.deliveryDate)}` : null,
+                  order.shippingMethod === "pickup"
+                    ? `Retiro en ${order.pickupPoint || "sucursal"}`
+                    : order.destination
+                    ? `Envío a ${order.destination}`
+                    : "Envío a domicilio",
+                ]
+                  .filter(Boolean)
+                  .join(" · ")}
+              </div>
+
+              {order.items.length ? (
+                <ul className="mt-3 list-disc pl-5 text-neutral-700">
+                  {order.items.map((it, i) => (
+                    <li key={i}>
+                      {it.qty} × {it.title}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
+
+            <OrderTimeline
+              status={String(order.orderStatus || "")}
+              cancelReason={order.cancelReason}
+              shippingMethod={order.shippingMethod}
+              events={events}
+              carrierName={order.carrierName}
+              trackingNumber={order.trackingNumber}
+              trackingUrl={order.trackingUrl}
+              pickup={order.pickup}
+            />
+
+            <p className="text-center text-xs text-neutral-500">
+              ¿Tenés cuenta? En <Link href="/mis-pedidos" className="underline">Mis pedidos</Link> ves el detalle completo
+              y tus comprobantes.
+            </p>
+          </div>
+        ) : null}
+      </Container>
+    </main>
+  );
+}
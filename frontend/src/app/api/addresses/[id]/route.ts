@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import { addressInvalidMessage, validateArAddress } from "@/lib/geo";
 
 export const dynamic = "force-dynamic";
 
@@ -36,6 +37,22 @@ export async function PUT(req: Request, ctx: { params: { id: string } }) {
     const id = ctx.params.id;
     const body = await req.json().catch(() => ({}));
 
+    // ✅ Si cambia la dirección, provincia / localidad / CP tienen que ser consistentes
+    const patch: Record<string, any> = { ...body };
+    if ("province" in body || "city" in body || "zip" in body) {
+      try {
+        const geo = validateArAddress({ province: body.province, city: body.city, postalCode: body.zip });
+        patch.province = geo.province;
+        patch.city = geo.city;
+        patch.zip = geo.postalCode;
+      } catch (e: any) {
+        return NextResponse.json(
+          { ok: false, error: addressInvalidMessage(e), code: "ADDRESS_INVALID", reason: e?.reason ?? null },
+          { status: 400 }
+        );
+      }
+    }
+
     const res = await fetch(getStrapiUrl(`/addresses/${encodeURIComponent(id)}`), {
       method: "PUT",
       headers: {
@@ -43,7 +60,7 @@ export async function PUT(req: Request, ctx: { params: { id: string } }) {
         "Content-Type": "application/json",
         Accept: "application/json",
       },
-      body: JSON.stringify({ data: { ...body } }),
+      body: JSON.stringify({ data: patch }),
       cache: "no-store",
     });
 
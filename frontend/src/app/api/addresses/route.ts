@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import { addressInvalidMessage, validateArAddress } from "@/lib/geo";
 
 export const dynamic = "force-dynamic";
 
@@ -97,6 +98,17 @@ export async function POST(req: Request) {
   try {
     const body = await req.json().catch(() => ({}));
 
+    // ✅ Provincia / localidad / CP consistentes (los usan las zonas de envío)
+    let geo: ReturnType<typeof validateArAddress>;
+    try {
+      geo = validateArAddress({ province: body.province, city: body.city, postalCode: body.zip });
+    } catch (e: any) {
+      return NextResponse.json(
+        { ok: false, error: addressInvalidMessage(e), code: "ADDRESS_INVALID", reason: e?.reason ?? null },
+        { status: 400 }
+      );
+    }
+
     const res = await fetch(getStrapiUrl("/addresses"), {
       method: "POST",
       headers: {
@@ -113,9 +125,9 @@ export async function POST(req: Request) {
           number: body.number ?? null,
           floor: body.floor ?? null,
           apartment: body.apartment ?? null,
-          city: body.city ?? null,
-          province: body.province ?? null,
-          zip: body.zip ?? null,
+          city: geo.city,
+          province: geo.province,
+          zip: geo.postalCode,
           notes: body.notes ?? null,
           isDefault: Boolean(body.isDefault),
           // ⚠️ NO mandamos user acá: lo fuerza Strapi (controller) o lo setea tu backend
@@ -0,0 +1,74 @@
+// src/app/api/admin/orders/[id]/confirm-payment/route.ts
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/server-auth";
+import {
+  WEBHOOK_STEPS,
+  isWebhookStepName,
+  runOfflinePaymentPipeline,
+  type WebhookStepName,
+} from "@/lib/mp/webhook-pipeline";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * POST /api/admin/orders/:documentId/confirm-payment
+ * Body opcional: { confirmedBy?, reference?, note?, step? }
+ *
+ * El staff confirma un pago offline (transferencia recibida / efectivo cobrado al retirar).
+ * Corre los mismos pasos que el webhook de MP: stock → paid → comprobante → gift cards → envío → email.
+ * Si un paso falló (ej: email), se puede reintentar con { step: "email" } sobre la orden ya paid.
+ */
+export async function POST(req: Request, ctx: { params: { id: string } }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const id = String(ctx?.params?.id ?? "").trim();
+  if (!id) return NextResponse.json({ error: "Falta id" }, { status: 400 });
+
+  let body: any = null;
+  try {
+    body = await req.json();
+  } catch {
+    // body opcional
+  }
+
+  const stepRaw = body?.step != null ? String(body.step).trim() : "";
+  if (stepRaw && !isWebhookStepName(stepRaw)) {
+    return NextResponse.json({ error: "step inválido", allowed: WEBHOOK_STEPS }, { status: 400 });
+  }
+  const only: WebhookStepName[] | null = stepRaw ? [stepRaw as WebhookStepName] : null;
+
+  const text = (v: any) => (typeof v === "string" && v.trim() ? v.trim().slice(0, 500) : null);
+
+  const url = new URL(req.url);
+  const siteUrl =
+    process.env.SITE_URL ||
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    `${url.protocol}//${url.host}`;
+
+  const result = await runOfflinePaymentPipeline({
+    orderDocumentId: id,
+    siteUrl,
+    confirmation: {
+      confirmedBy: text(body?.confirmedBy),
+      reference: text(body?.reference),
+      note: text(body?.note),
+    },
+    only,
+    // Reintento de un paso: el pipeline acepta la orden ya paid
+    previous: only ? Object.fromEntries(only.map((s) => [s, { ok: false, at: new Date().toISOString() }])) : null,
+  });
+
+  if (result.skipped === "order_not_found") {
+    return NextResponse.json({ error: "Orden no encontrada" }, { status: 404 });
+  }
+  if (result.skipped === "not_awaiting_offline_payment") {
+    return NextResponse.json(
+      { error: "La orden no espera un pago offline", details: result.steps.payment?.data ?? null },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ ok: result.ok, result }, { status: result.ok ? 200 : 502 });
+}
@@ -0,0 +1,115 @@
+// src/app/api/admin/orders/[id]/events/route.ts
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/server-auth";
+import { fetcher } from "@/lib/fetcher";
+import {
+  ORDER_EVENT_TYPES,
+  isOrderEventType,
+  listOrderEvents,
+  recordOrderEvent,
+  syncCarrierEvents,
+} from "@/lib/order-events";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * GET  /api/admin/orders/:documentId/events → timeline de la orden
+ * POST /api/admin/orders/:documentId/events
+ *   { type, location?, description?, occurredAt? } → evento cargado por el staff
+ *   { sync: true } → trae las trazas del correo (mismo proceso que el webhook del correo)
+ */
+
+function flattenRow(row: any) {
+  if (!row) return null;
+  return row?.attributes ? { id: row.id, documentId: row.documentId, ...row.attributes } : row;
+}
+
+async function getOrderByDocumentId(documentId: string) {
+  const sp = new URLSearchParams();
+  sp.set("filters[documentId][$eq]", documentId);
+  sp.set("pagination[pageSize]", "1");
+
+  const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+  const row = Array.isArray(res?.data) ? res.data[0] : null;
+  return flattenRow(row);
+}
+
+export async function GET(req: Request, ctx: { params: { id: string } }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const id = String(ctx?.params?.id ?? "").trim();
+  if (!id) return NextResponse.json({ error: "Falta id" }, { status: 400 });
+
+  try {
+    const events = await listOrderEvents(id);
+    return NextResponse.json({ ok: true, events });
+  } catch (e: any) {
+    return NextResponse.json({ error: "No se pudieron leer los eventos", details: e?.message || String(e) }, { status: 502 });
+  }
+}
+
+export async function POST(req: Request, ctx: { params: { id: string } }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const id = String(ctx?.params?.id ?? "").trim();
+  if (!id) return NextResponse.json({ error: "Falta id" }, { status: 400 });
+
+  let body: any = null;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body inválido (se esperaba JSON)" }, { status: 400 });
+  }
+
+  let order: any = null;
+  try {
+    order = await getOrderByDocumentId(id);
+  } catch (e: any) {
+    return NextResponse.json({ error: "No se pudo leer la orden", details: e?.message || String(e) }, { status: 502 });
+  }
+  if (!order) return NextResponse.json({ error: "Orden no encontrada" }, { status: 404 });
+
+  if (body?.sync === true) {
+    try {
+      const res = await syncCarrierEvents(order);
+      return NextResponse.json({ ok: true, ...res });
+    } catch (e: any) {
+      if (e?.code === "NO_SHIPMENT" || e?.code === "CARRIER_NOT_AVAILABLE") {
+        return NextResponse.json({ error: "La orden no tiene un envío con un correo habilitado", code: e.code }, { status: 409 });
+      }
+      console.error("[admin/events] sync failed:", e?.message || e);
+      return NextResponse.json({ error: "No se pudo consultar al correo", details: e?.message || String(e) }, { status: 502 });
+    }
+  }
+
+  const type = String(body?.type ?? "").trim();
+  if (!isOrderEventType(type)) {
+    return NextResponse.json({ error: "type inválido", allowed: ORDER_EVENT_TYPES }, { status: 400 });
+  }
+
+  const occurredAt = body?.occurredAt != null ? String(body.occurredAt) : null;
+  if (occurredAt && !Number.isFinite(Date.parse(occurredAt))) {
+    return NextResponse.json({ error: "occurredAt inválido (ISO)" }, { status: 400 });
+  }
+
+  try {
+    const res = await recordOrderEvent({
+      order,
+      type,
+      source: "staff",
+      occurredAt,
+      location: body?.location ?? null,
+      description: body?.description ?? null,
+      carrierId: order?.shippingCarrier ?? null,
+      trackingNumber: order?.trackingNumber ?? null,
+      trackingUrl: order?.trackingUrl ?? null,
+    });
+    return NextResponse.json({ ok: true, event: res.event, orderStatus: res.orderStatus });
+  } catch (e: any) {
+    console.error("[admin/events] record failed:", e?.message || e);
+    return NextResponse.json({ error: "No se pudo registrar el evento", details: e?.message || String(e) }, { status: 502 });
+  }
+}
@@ -0,0 +1,82 @@
+// src/app/api/admin/orders/[id]/label/route.ts
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/server-auth";
+import { fetcher } from "@/lib/fetcher";
+import { getCarrier } from "@/lib/carriers";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * GET /api/admin/orders/:documentId/label
+ *
+ * Etiqueta (PDF) del envío creado al pagar la orden (ver shipment en lib/mp/webhook-pipeline).
+ * Si el envío no se creó, se puede reintentar con POST /api/admin/orders/:id/confirm-payment { step: "shipment" }
+ * o con el replay del webhook.
+ */
+
+function flattenRow(row: any) {
+  if (!row) return null;
+  return row?.attributes ? { id: row.id, documentId: row.documentId, ...row.attributes } : row;
+}
+
+async function getOrderByDocumentId(documentId: string) {
+  const sp = new URLSearchParams();
+  sp.set("filters[documentId][$eq]", documentId);
+  sp.set("pagination[pageSize]", "1");
+
+  const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+  const row = Array.isArray(res?.data) ? res.data[0] : null;
+  return flattenRow(row);
+}
+
+export async function GET(req: Request, ctx: { params: { id: string } }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const id = String(ctx?.params?.id ?? "").trim();
+  if (!id) return NextResponse.json({ error: "Falta id" }, { status: 400 });
+
+  let order: any = null;
+  try {
+    order = await getOrderByDocumentId(id);
+  } catch (e: any) {
+    return NextResponse.json({ error: "No se pudo leer la orden", details: e?.message || String(e) }, { status: 502 });
+  }
+  if (!order) return NextResponse.json({ error: "Orden no encontrada" }, { status: 404 });
+
+  const trackingNumber = String(order?.trackingNumber ?? "").trim();
+  if (!trackingNumber) {
+    return NextResponse.json(
+      { error: "La orden todavía no tiene envío creado", code: "NO_SHIPMENT" },
+      { status: 409 }
+    );
+  }
+
+  try {
+    const carrier = getCarrier(order?.shippingCarrier);
+    const pdf = await carrier.getLabelPdf(trackingNumber);
+    const filename = `etiqueta-${String(order?.orderNumber || trackingNumber).replace(/[^\w.-]+/g, "_")}.pdf`;
+
+    return new Response(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e: any) {
+    if (e?.code === "CARRIER_NOT_AVAILABLE") {
+      return NextResponse.json(
+        { error: "El correo de esta orden no está habilitado", code: e.code, carrierId: e.carrierId ?? null },
+        { status: 409 }
+      );
+    }
+    console.error("[admin/label] error:", e?.message || e);
+    return NextResponse.json(
+      { error: "No se pudo obtener la etiqueta", code: e?.code || "CARRIER_ERROR", details: e?.message || String(e) },
+      { status: 502 }
+    );
+  }
+}
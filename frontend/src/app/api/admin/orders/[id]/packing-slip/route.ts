@@ -0,0 +1,111 @@
+// src/app/api/admin/orders/[id]/packing-slip/route.ts
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/server-auth";
+import { fetcher } from "@/lib/fetcher";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * GET /api/admin/orders/:documentId/packing-slip
+ *
+ * Remito sin precios (PDF para imprimir y poner en el paquete, con la tarjeta si es regalo).
+ * Se genera al pagar la orden junto con el comprobante; si no está (orden vieja o falló), se genera ahora
+ * con /api/invoices/generate { kind: "packing_slip" }.
+ */
+
+function flattenRow(row: any) {
+  if (!row) return null;
+  return row?.attributes ? { id: row.id, documentId: row.documentId, ...row.attributes } : row;
+}
+
+async function getOrderByDocumentId(documentId: string) {
+  const sp = new URLSearchParams();
+  sp.set("filters[documentId][$eq]", documentId);
+  sp.set("pagination[pageSize]", "1");
+
+  const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+  const row = Array.isArray(res?.data) ? res.data[0] : null;
+  return flattenRow(row);
+}
+
+function normalizeStrapiBase(url: string) {
+  let u = String(url ?? "").trim();
+  u = u.endsWith("/") ? u.slice(0, -1) : u;
+  if (u.toLowerCase().endsWith("/api")) u = u.slice(0, -4);
+  return u;
+}
+
+function toAbsStrapiUrl(strapiBase: string, maybeUrl: string) {
+  if (/^https?:\/\//i.test(maybeUrl)) return maybeUrl;
+  return `${strapiBase}${maybeUrl.startsWith("/") ? "" : "/"}${maybeUrl}`;
+}
+
+export async function GET(req: Request, ctx: { params: { id: string } }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const id = String(ctx?.params?.id ?? "").trim();
+  if (!id) return NextResponse.json({ error: "Falta id" }, { status: 400 });
+
+  let order: any = null;
+  try {
+    order = await getOrderByDocumentId(id);
+  } catch (e: any) {
+    return NextResponse.json({ error: "No se pudo leer la orden", details: e?.message || String(e) }, { status: 502 });
+  }
+  if (!order) return NextResponse.json({ error: "Orden no encontrada" }, { status: 404 });
+
+  let pdfUrl = String(order?.packingSlipUrl ?? "").trim();
+  let packingSlipNumber = String(order?.packingSlipNumber ?? "").trim();
+
+  if (!pdfUrl) {
+    const url = new URL(req.url);
+    const siteUrl =
+      process.env.SITE_URL ||
+      process.env.NEXT_PUBLIC_SITE_URL ||
+      `${url.protocol}//${url.host}`;
+
+    const r = await fetch(`${siteUrl}/api/invoices/generate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: order.documentId, kind: "packing_slip" }),
+      cache: "no-store",
+    });
+    const j = await r.json().catch(() => null);
+
+    if (!r.ok || !j?.pdfUrl) {
+      return NextResponse.json(
+        { error: j?.error || "No se pudo generar el remito", orderStatus: j?.orderStatus ?? order?.orderStatus ?? null },
+        { status: r.status === 409 ? 409 : 502 }
+      );
+    }
+
+    pdfUrl = String(j.pdfUrl);
+    packingSlipNumber = String(j.packingSlipNumber ?? "");
+  }
+
+  const strapiBase = normalizeStrapiBase(
+    process.env.STRAPI_URL || process.env.NEXT_PUBLIC_STRAPI_URL || "http://localhost:1337"
+  );
+
+  try {
+    const r = await fetch(toAbsStrapiUrl(strapiBase, pdfUrl), { cache: "no-store" });
+    if (!r.ok) throw new Error(`PDF fetch failed (${r.status})`);
+
+    const pdf = Buffer.from(await r.arrayBuffer());
+    const filename = `remito-${String(packingSlipNumber || order?.orderNumber || id).replace(/[^\w.-]+/g, "_")}.pdf`;
+
+    return new Response(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e: any) {
+    console.error("[admin/packing-slip] error:", e?.message || e);
+    return NextResponse.json({ error: "No se pudo obtener el remito", details: e?.message || String(e) }, { status: 502 });
+  }
+}
@@ -0,0 +1,138 @@
+// src/app/api/admin/orders/[id]/ready-for-pickup/route.ts
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/server-auth";
+import { fetcher } from "@/lib/fetcher";
+import { recordOrderEvent } from "@/lib/order-events";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * POST /api/admin/orders/:documentId/ready-for-pickup
+ * Body opcional: { note? }
+ *
+ * El staff marca un pedido de retiro como "listo para retirar":
+ * registra el evento en el timeline, guarda `readyForPickupAt` y avisa al cliente por email.
+ * Idempotente: si el email falló se puede volver a llamar (el evento no se duplica).
+ */
+
+// Pagado, o efectivo que se cobra en el mostrador
+const READY_STATUSES = ["paid", "partially_refunded"];
+
+function flattenRow(row: any) {
+  if (!row) return null;
+  return row?.attributes ? { id: row.id, documentId: row.documentId, ...row.attributes } : row;
+}
+
+async function getOrderByDocumentId(documentId: string) {
+  const sp = new URLSearchParams();
+  sp.set("filters[documentId][$eq]", documentId);
+  sp.set("pagination[pageSize]", "1");
+
+  const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+  const row = Array.isArray(res?.data) ? res.data[0] : null;
+  return flattenRow(row);
+}
+
+function readJson(v: any) {
+  if (typeof v !== "string") return v;
+  try {
+    return JSON.parse(v);
+  } catch {
+    return null;
+  }
+}
+
+export async function POST(req: Request, ctx: { params: { id: string } }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const id = String(ctx?.params?.id ?? "").trim();
+  if (!id) return NextResponse.json({ error: "Falta id" }, { status: 400 });
+
+  let body: any = null;
+  try {
+    body = await req.json();
+  } catch {
+    // body opcional
+  }
+
+  let order: any = null;
+  try {
+    order = await getOrderByDocumentId(id);
+  } catch (e: any) {
+    return NextResponse.json({ error: "No se pudo leer la orden", details: e?.message || String(e) }, { status: 502 });
+  }
+  if (!order) return NextResponse.json({ error: "Orden no encontrada" }, { status: 404 });
+
+  if (order?.shippingMethod !== "pickup") {
+    return NextResponse.json({ error: "La orden no es de retiro en sucursal", code: "NOT_PICKUP" }, { status: 409 });
+  }
+
+  const status = String(order?.orderStatus ?? "").toLowerCase();
+  const payment = readJson(order?.paymentMethod);
+  const cashPending = status === "awaiting_payment" && payment?.provider === "cash";
+  if (!READY_STATUSES.includes(status) && !cashPending) {
+    return NextResponse.json(
+      { error: "La orden no está paga (o ya se entregó)", code: "INVALID_STATUS", orderStatus: status },
+      { status: 409 }
+    );
+  }
+
+  const pickup = readJson(order?.pickup);
+  const location = pickup?.name ? `${pickup.name} (${pickup.address})` : order?.pickupPoint ?? null;
+  const note = typeof body?.note === "string" && body.note.trim() ? body.note.trim().slice(0, 300) : null;
+
+  let event: any = null;
+  try {
+    const res = await recordOrderEvent({
+      order,
+      type: "ready_for_pickup",
+      source: "staff",
+      location,
+      description: note,
+      externalKey: `ready_for_pickup:${order.documentId}`,
+    });
+    event = res.event;
+
+    if (!order?.readyForPickupAt) {
+      await fetcher<any>(`/api/orders/${encodeURIComponent(order.documentId)}`, {
+        method: "PUT",
+        auth: true,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ data: { readyForPickupAt: event?.occurredAt ?? new Date().toISOString() } }),
+      });
+    }
+  } catch (e: any) {
+    console.error("[admin/ready-for-pickup] record failed:", e?.message || e);
+    return NextResponse.json({ error: "No se pudo marcar la orden", details: e?.message || String(e) }, { status: 502 });
+  }
+
+  const url = new URL(req.url);
+  const siteUrl =
+    process.env.SITE_URL ||
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    `${url.protocol}//${url.host}`;
+
+  // ✅ Email al cliente (el endpoint arma todo desde la orden; idempotente por pedido)
+  let emailError: string | null = null;
+  try {
+    const r = await fetch(`${siteUrl}/api/email/pickup-ready`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId: order.documentId }),
+      cache: "no-store",
+    });
+    const j = await r.json().catch(() => null);
+    if (!r.ok) emailError = j?.error || `pickup-ready email failed (${r.status})`;
+  } catch (e: any) {
+    emailError = e?.message || String(e);
+  }
+
+  if (emailError) console.error("[admin/ready-for-pickup] email failed:", emailError);
+
+  return NextResponse.json(
+    { ok: !emailError, event, emailed: !emailError, emailError },
+    { status: emailError ? 502 : 200 }
+  );
+}
@@ -0,0 +1,48 @@
+// src/app/api/admin/reconcile-payments/route.ts
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/server-auth";
+import { reconcilePendingOrders } from "@/lib/mp/reconcile";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * POST /api/admin/reconcile-payments?dryRun=1&limit=50
+ *
+ * Concilia órdenes pending/failed viejas contra MP (payments/search por external_reference)
+ * y cancela las que pasaron ORDER_PENDING_CANCEL_HOURS sin pago.
+ * Pensado para un cron (ver README). GET hace lo mismo para crons que solo hacen GET.
+ */
+async function handle(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const url = new URL(req.url);
+  const dryRunRaw = String(url.searchParams.get("dryRun") ?? "").trim().toLowerCase();
+  const dryRun = dryRunRaw === "1" || dryRunRaw === "true";
+  const limit = Number(url.searchParams.get("limit") ?? 50) || 50;
+
+  const siteUrl =
+    process.env.SITE_URL ||
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    `${url.protocol}//${url.host}`;
+
+  try {
+    const report = await reconcilePendingOrders({ siteUrl, dryRun, limit });
+    return NextResponse.json(report);
+  } catch (e: any) {
+    console.error("[admin/reconcile-payments] error:", e?.message || e);
+    return NextResponse.json(
+      { error: "No se pudo conciliar", details: e?.message || String(e) },
+      { status: 502 }
+    );
+  }
+}
+
+export async function POST(req: Request) {
+  return handle(req);
+}
+
+export async function GET(req: Request) {
+  return handle(req);
+}
@@ -0,0 +1,83 @@
+// src/app/api/admin/webhook-events/[id]/replay/route.ts
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/server-auth";
+import { getWebhookEvent, recordWebhookOutcome } from "@/lib/mp/webhook-events";
+import {
+  WEBHOOK_STEPS,
+  isWebhookStepName,
+  runWebhookPipeline,
+  type WebhookStepName,
+} from "@/lib/mp/webhook-pipeline";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/admin/webhook-events/:documentId/replay
+ * Body opcional: { step?: "payment" | "stock" | "status" | "invoice" | "giftcards" | "shipment" | "email" | "all" }
+ *
+ * - sin step: re-ejecuta solo los pasos que fallaron (o que nunca corrieron)
+ * - step: re-ejecuta ese paso (payment siempre corre: trae el pago y la orden actualizados)
+ * - "all": todo el pipeline
+ */
+export async function POST(req: Request, ctx: { params: { id: string } }) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const id = String(ctx?.params?.id ?? "").trim();
+  if (!id) return NextResponse.json({ error: "Falta id" }, { status: 400 });
+
+  let body: any = null;
+  try {
+    body = await req.json();
+  } catch {
+    // body opcional
+  }
+
+  const stepRaw = body?.step != null ? String(body.step).trim() : "";
+  if (stepRaw && stepRaw !== "all" && !isWebhookStepName(stepRaw)) {
+    return NextResponse.json({ error: "step inválido", allowed: [...WEBHOOK_STEPS, "all"] }, { status: 400 });
+  }
+
+  let event: Awaited<ReturnType<typeof getWebhookEvent>>;
+  try {
+    event = await getWebhookEvent(id);
+  } catch (e: any) {
+    return NextResponse.json({ error: "No se pudo leer el evento", details: e?.message || String(e) }, { status: 502 });
+  }
+
+  if (!event) return NextResponse.json({ error: "Evento no encontrado" }, { status: 404 });
+  if (!event.dataId) return NextResponse.json({ error: "El evento no tiene data.id" }, { status: 409 });
+
+  let only: WebhookStepName[] | null = null;
+  if (stepRaw === "all") only = null;
+  else if (stepRaw) only = [stepRaw as WebhookStepName];
+  else only = WEBHOOK_STEPS.filter((s) => !event!.steps?.[s] || !event!.steps[s]!.ok);
+
+  const url = new URL(req.url);
+  const siteUrl =
+    process.env.SITE_URL ||
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    `${url.protocol}//${url.host}`;
+
+  const result = await runWebhookPipeline({
+    topic: event.topic,
+    dataId: event.dataId,
+    siteUrl,
+    only,
+    previous: event.steps,
+  });
+
+  let saved = null;
+  try {
+    saved = await recordWebhookOutcome(event, result);
+  } catch (e: any) {
+    console.error("[admin/webhook-events] no pude guardar el replay:", e?.message || e);
+  }
+
+  return NextResponse.json({
+    ok: result.ok,
+    ran: only ?? WEBHOOK_STEPS,
+    result,
+    event: saved,
+  });
+}
@@ -0,0 +1,42 @@
+// src/app/api/admin/webhook-events/route.ts
+import { NextResponse } from "next/server";
+import { requireAdmin } from "@/lib/server-auth";
+import { listWebhookEvents, type WebhookEventStatus } from "@/lib/mp/webhook-events";
+
+export const dynamic = "force-dynamic";
+
+const STATUSES: WebhookEventStatus[] = ["received", "processed", "skipped", "failed"];
+
+/**
+ * GET /api/admin/webhook-events?status=failed&order=<documentId>&page=1
+ * Lista eventos del webhook de MP (por defecto solo los fallidos).
+ */
+export async function GET(req: Request) {
+  const denied = requireAdmin(req);
+  if (denied) return denied;
+
+  const url = new URL(req.url);
+  const statusRaw = String(url.searchParams.get("status") ?? "failed").trim().toLowerCase();
+  const eventStatus =
+    statusRaw === "all" ? null : STATUSES.includes(statusRaw as any) ? (statusRaw as WebhookEventStatus) : null;
+
+  if (statusRaw !== "all" && !eventStatus) {
+    return NextResponse.json({ error: "status inválido", allowed: [...STATUSES, "all"] }, { status: 400 });
+  }
+
+  try {
+    const { events, pagination } = await listWebhookEvents({
+      eventStatus,
+      orderDocumentId: url.searchParams.get("order"),
+      page: Number(url.searchParams.get("page") ?? 1) || 1,
+      pageSize: Number(url.searchParams.get("pageSize") ?? 25) || 25,
+    });
+
+    return NextResponse.json({ data: events, meta: { pagination } });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: "No se pudieron leer los eventos", details: e?.message || String(e) },
+      { status: 502 }
+    );
+  }
+}
@@ -1,5 +1,6 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import { claimGuestOrders } from "@/lib/guest-orders";
 
 function normBase(url: string) {
   return String(url || "").trim().replace(/\/$/, "");
@@ -40,5 +41,21 @@ export async function POST(req: Request) {
     maxAge: 60 * 60 * 24 * 7,
   });
 
-  return NextResponse.json({ user });
+  // ✅ Pedidos hechos como invitado con este email pasan a la cuenta (el email viene verificado por Google)
+  let claimedOrders: string[] = [];
+  if (user?.email) {
+    try {
+      const res = await claimGuestOrders({
+        userId: user?.id ?? null,
+        userDocumentId: user?.documentId ?? null,
+        email: String(user.email),
+      });
+      claimedOrders = res.claimed;
+    } catch (e: any) {
+      // No bloqueamos el login: se reintenta en el próximo
+      console.error("[auth/google] no pude reclamar pedidos de invitado:", e?.message || e);
+    }
+  }
+
+  return NextResponse.json({ user, claimedOrders });
 }
@@ -0,0 +1,108 @@
+// src/app/api/carriers/[carrier]/webhook/route.ts
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { fetcher } from "@/lib/fetcher";
+import { getCarrier } from "@/lib/carriers";
+import { syncCarrierEvents } from "@/lib/order-events";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * POST /api/carriers/:carrier/webhook   (andreani | correo_argentino)
+ *
+ * Aviso de novedades de un envío. Del body solo usamos el número de envío:
+ * las trazas se consultan al correo (track) y se registran en order-events.
+ *
+ * Auth: CARRIER_WEBHOOK_SECRET en `x-webhook-secret` o `?secret=` (se configura en el panel del correo).
+ */
+
+function safeEqual(a: string, b: string) {
+  const ba = Buffer.from(a);
+  const bb = Buffer.from(b);
+  if (ba.length !== bb.length) return false;
+  return crypto.timingSafeEqual(ba, bb);
+}
+
+function isAuthorized(req: Request) {
+  const expected = String(process.env.CARRIER_WEBHOOK_SECRET ?? "").trim();
+  if (expected.length < 16) return false;
+
+  const got = req.headers.get("x-webhook-secret") || new URL(req.url).searchParams.get("secret") || "";
+  return !!got && safeEqual(got.trim(), expected);
+}
+
+function flattenRow(row: any) {
+  if (!row) return null;
+  return row?.attributes ? { id: row.id, documentId: row.documentId, ...row.attributes } : row;
+}
+
+// Andreani: numeroDeEnvio / numeroAndreani · MiCorreo: trackingNumber / shippingId
+function readTrackingNumber(body: any) {
+  const v =
+    body?.numeroDeEnvio ??
+    body?.numeroAndreani ??
+    body?.trackingNumber ??
+    body?.shippingId ??
+    body?.data?.numeroDeEnvio ??
+    body?.data?.trackingNumber ??
+    "";
+  return String(v).trim();
+}
+
+async function findOrderByTrackingNumber(trackingNumber: string) {
+  const sp = new URLSearchParams();
+  sp.set("filters[trackingNumber][$eq]", trackingNumber);
+  sp.set("pagination[pageSize]", "1");
+
+  const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+  const row = Array.isArray(res?.data) ? res.data[0] : null;
+  return flattenRow(row);
+}
+
+export async function POST(req: Request, ctx: { params: { carrier: string } }) {
+  if (!isAuthorized(req)) {
+    if (String(process.env.CARRIER_WEBHOOK_SECRET ?? "").trim().length < 16) {
+      console.error("[carrier-webhook] falta CARRIER_WEBHOOK_SECRET (o es muy corta)");
+    }
+    return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+  }
+
+  let carrierId: string;
+  try {
+    carrierId = getCarrier(String(ctx?.params?.carrier ?? "").replace(/-/g, "_")).id;
+  } catch {
+    return NextResponse.json({ error: "Correo no habilitado" }, { status: 404 });
+  }
+
+  let body: any = null;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body inválido (se esperaba JSON)" }, { status: 400 });
+  }
+
+  const trackingNumber = readTrackingNumber(body);
+  if (!trackingNumber) return NextResponse.json({ error: "Falta número de envío" }, { status: 400 });
+
+  let order: any = null;
+  try {
+    order = await findOrderByTrackingNumber(trackingNumber);
+  } catch (e: any) {
+    return NextResponse.json({ error: "No se pudo leer la orden", details: e?.message || String(e) }, { status: 502 });
+  }
+
+  // ⚠️ 200 igual: si respondemos error el correo reintenta un envío que no es nuestro
+  if (!order || String(order?.shippingCarrier ?? "") !== carrierId) {
+    return NextResponse.json({ ok: true, skipped: "unknown_shipment" });
+  }
+
+  try {
+    const res = await syncCarrierEvents(order);
+    return NextResponse.json({ ok: true, orderNumber: order?.orderNumber ?? null, ...res });
+  } catch (e: any) {
+    // 502 → el correo reintenta más tarde
+    console.error("[carrier-webhook] sync failed:", e?.message || e);
+    return NextResponse.json({ error: "No se pudo consultar al correo" }, { status: 502 });
+  }
+}
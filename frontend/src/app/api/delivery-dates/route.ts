@@ -0,0 +1,37 @@
+// src/app/api/delivery-dates/route.ts
+import { NextResponse } from "next/server";
+import { listDeliveryDates } from "@/lib/delivery-dates";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * GET /api/delivery-dates?etaMax=3
+ *
+ * Fechas de entrega que se pueden elegir en el checkout (ver lib/delivery-dates).
+ * `etaMax`: demora máxima del correo elegido (días hábiles), se suma a la preparación.
+ * `enabled: false` si no hay configuración en Strapi (el checkout no muestra el selector).
+ * ⚠️ Es informativo: orders/create vuelve a validar la fecha.
+ */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const etaMax = Number(url.searchParams.get("etaMax") ?? 0);
+
+  try {
+    const res = await listDeliveryDates({ extraDays: Number.isFinite(etaMax) && etaMax > 0 ? Math.min(etaMax, 30) : 0 });
+    if (!res) return NextResponse.json({ ok: true, enabled: false, dates: [] });
+
+    return NextResponse.json({
+      ok: true,
+      enabled: true,
+      cutoffTime: res.schedule.cutoffTime,
+      dates: res.dates,
+    });
+  } catch (e: any) {
+    console.error("[delivery-dates] error:", e?.details || e?.message || e);
+    return NextResponse.json(
+      { ok: false, code: "DELIVERY_DATES_UNAVAILABLE", error: "No pudimos cargar las fechas de entrega." },
+      { status: 502 }
+    );
+  }
+}
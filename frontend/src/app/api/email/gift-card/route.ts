@@ -0,0 +1,229 @@
+import { NextResponse } from "next/server";
+import { Resend } from "resend";
+import PDFDocument from "pdfkit";
+import { getGiftCardStatus, giftCardMessage, isGiftCardError, type GiftCard } from "@/lib/gift-cards";
+import { applyPdfFont } from "@/lib/pdf-fonts";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const resend = new Resend(process.env.RESEND_API_KEY);
+
+// Tarjeta apaisada (puntos PDF): entra entera en la pantalla del celular
+const CARD_WIDTH = 612;
+const CARD_HEIGHT = 360;
+
+const COLORS = {
+  background: "#3b1f14",
+  accent: "#d4a64a",
+  text: "#fdf6ec",
+  muted: "#cbb89f",
+};
+
+function formatARS(n: number) {
+  return n.toLocaleString("es-AR", { style: "currency", currency: "ARS" });
+}
+
+function formatDate(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleDateString("es-AR", { timeZone: "America/Argentina/Buenos_Aires" });
+}
+
+function escapeHtml(s: string) {
+  return String(s)
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#039;");
+}
+
+function looksRateLimitError(e: any) {
+  const msg = String(e?.message || e?.error?.message || "").toLowerCase();
+  return (
+    msg.includes("too many requests") ||
+    msg.includes("rate limit") ||
+    e?.statusCode === 429 ||
+    e?.status === 429
+  );
+}
+
+function normalizeBaseUrl(url: string) {
+  const u = String(url ?? "").trim();
+  return u.endsWith("/") ? u.slice(0, -1) : u;
+}
+
+/** La tarjeta en PDF: monto, para quién, mensaje, código y vencimiento */
+async function renderGiftCardPdf(card: GiftCard, siteUrl: string) {
+  const doc = new PDFDocument({ size: [CARD_WIDTH, CARD_HEIGHT], margin: 0 });
+  const chunks: Buffer[] = [];
+
+  doc.on("data", (c: any) => chunks.push(Buffer.isBuffer(c) ? c : Buffer.from(c)));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  applyPdfFont(doc, "gift-card/pdf");
+
+  const pad = 36;
+  const inner = CARD_WIDTH - pad * 2;
+
+  // Fondo + marco
+  doc.rect(0, 0, CARD_WIDTH, CARD_HEIGHT).fill(COLORS.background);
+  doc.lineWidth(1.5).roundedRect(14, 14, CARD_WIDTH - 28, CARD_HEIGHT - 28, 14).stroke(COLORS.accent);
+
+  // Encabezado
+  doc.fillColor(COLORS.text).fontSize(20).text("Amargo y Dulce", pad, pad, { width: inner / 2 });
+  doc.fillColor(COLORS.accent).fontSize(12).text("GIFT CARD", pad + inner / 2, pad + 6, {
+    width: inner / 2,
+    align: "right",
+    characterSpacing: 3,
+  });
+
+  // Monto
+  doc.fillColor(COLORS.text).fontSize(44).text(formatARS(card.initialAmount), pad, 92, { width: inner, align: "center" });
+
+  // Para quién + mensaje
+  let y = 160;
+  if (card.recipientName) {
+    doc.fillColor(COLORS.muted).fontSize(12).text(`Para ${card.recipientName}`, pad, y, { width: inner, align: "center" });
+    y += 20;
+  }
+  if (card.message) {
+    doc.fillColor(COLORS.text).fontSize(11).text(`“${card.message}”`, pad + 30, y, {
+      width: inner - 60,
+      align: "center",
+      height: 44,
+      ellipsis: true,
+    });
+  }
+
+  // Código
+  const boxWidth = 300;
+  const boxX = (CARD_WIDTH - boxWidth) / 2;
+  doc.roundedRect(boxX, 236, boxWidth, 42, 8).fill(COLORS.accent);
+  doc.fillColor(COLORS.background).fontSize(18).text(card.code, boxX, 248, {
+    width: boxWidth,
+    align: "center",
+    characterSpacing: 2,
+  });
+
+  // Pie
+  const expires = formatDate(card.expiresAt);
+  doc.fillColor(COLORS.muted).fontSize(9).text(
+    `Usala en ${siteUrl.replace(/^https?:\/\//, "")} ingresando el código en el checkout.${
+      expires ? ` Válida hasta el ${expires}.` : ""
+    }`,
+    pad,
+    300,
+    { width: inner, align: "center" }
+  );
+
+  doc.end();
+  return done;
+}
+
+/**
+ * POST /api/email/gift-card   body: { code }
+ * La gift card en PDF a quien la compró (la emite el paso "giftcards" del webhook, ver lib/gift-cards).
+ * Los datos salen de Strapi por el código, no del body.
+ */
+export async function POST(req: Request) {
+  try {
+    if (!process.env.RESEND_API_KEY) {
+      return NextResponse.json({ error: "Falta RESEND_API_KEY" }, { status: 500 });
+    }
+
+    const from = process.env.EMAIL_FROM;
+    if (!from) {
+      return NextResponse.json({ error: "Falta EMAIL_FROM" }, { status: 500 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const code = String(body?.code ?? "").trim();
+    if (!code) {
+      return NextResponse.json({ error: "Falta code" }, { status: 400 });
+    }
+
+    let card: GiftCard;
+    try {
+      card = (await getGiftCardStatus(code)).card;
+    } catch (e: any) {
+      if (isGiftCardError(e)) return NextResponse.json({ error: giftCardMessage(e) }, { status: 404 });
+      throw e;
+    }
+
+    if (!card.purchaserEmail) {
+      return NextResponse.json({ error: "La gift card no tiene email de compra" }, { status: 400 });
+    }
+
+    // ✅ idempotency key: un mail por tarjeta
+    const idempotencyKey = `gift-card/${card.code}`;
+
+    const siteUrl = normalizeBaseUrl(process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000");
+    const pdf = await renderGiftCardPdf(card, siteUrl);
+    const expires = formatDate(card.expiresAt);
+
+    const html = `
+      <div style="font-family:Arial,sans-serif;line-height:1.5">
+        <h2>¡Tu gift card está lista!</h2>
+        <p>
+          Te mandamos la gift card de <b>${escapeHtml(formatARS(card.initialAmount))}</b>
+          ${card.purchaseOrderNumber ? ` de tu pedido <b>${escapeHtml(card.purchaseOrderNumber)}</b>` : ""}.
+          La vas a encontrar en PDF adjunta a este email, lista para imprimir o reenviar${
+            card.recipientName ? ` a ${escapeHtml(card.recipientName)}` : ""
+          }.
+        </p>
+
+        <h3>Código</h3>
+        <p style="font-size:18px;letter-spacing:2px"><b>${escapeHtml(card.code)}</b></p>
+        ${expires ? `<p>Válida hasta el ${escapeHtml(expires)}.</p>` : ""}
+
+        <p>
+          Se usa en el checkout de <a href="${escapeHtml(siteUrl)}">${escapeHtml(siteUrl)}</a> como pago total o parcial.
+          Lo que no se use queda como saldo para la próxima compra (podés verlo en "Mi perfil").
+        </p>
+
+        <p style="margin-top:24px;color:#666">
+          Cuidá el código como si fuera efectivo: cualquiera que lo tenga puede usarlo.
+        </p>
+      </div>
+    `;
+
+    // ✅ Modo testing (sin dominio): fuerza destinatario a tu email verificado
+    const to = process.env.TEST_EMAIL_TO || card.purchaserEmail;
+
+    const result = await resend.emails.send(
+      {
+        from,
+        to,
+        subject: `Tu gift card de Amargo y Dulce (${formatARS(card.initialAmount)})`,
+        html,
+        attachments: [{ filename: `gift-card-${card.code.slice(-4).toLowerCase()}.pdf`, content: pdf.toString("base64") }],
+      },
+      { idempotencyKey }
+    );
+
+    if ((result as any)?.error) {
+      const err = (result as any).error;
+      const msg = err?.message || "Resend error";
+
+      if (looksRateLimitError(err)) {
+        return NextResponse.json({ ok: false, error: msg, rateLimited: true, to }, { status: 202 });
+      }
+
+      return NextResponse.json({ error: msg }, { status: 502 });
+    }
+
+    return NextResponse.json({ ok: true, to, idempotencyKey });
+  } catch (e: any) {
+    if (looksRateLimitError(e)) {
+      return NextResponse.json({ ok: false, error: e?.message || "Too many requests", rateLimited: true }, { status: 202 });
+    }
+
+    return NextResponse.json({ error: e?.message || "Error enviando email" }, { status: 500 });
+  }
+}
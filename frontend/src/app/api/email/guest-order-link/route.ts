@@ -0,0 +1,143 @@
+import { NextResponse } from "next/server";
+import { Resend } from "resend";
+import { fetcher } from "@/lib/fetcher";
+import { guestOrderUrl, signGuestOrderToken } from "@/lib/guest-orders";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const resend = new Resend(process.env.RESEND_API_KEY);
+
+function formatARS(n: number) {
+  return n.toLocaleString("es-AR", { style: "currency", currency: "ARS" });
+}
+
+function escapeHtml(s: string) {
+  return String(s)
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#039;");
+}
+
+function normalizeBaseUrl(url: string) {
+  const u = String(url ?? "").trim();
+  return u.endsWith("/") ? u.slice(0, -1) : u;
+}
+
+function looksRateLimitError(e: any) {
+  const msg = String(e?.message || e?.error?.message || "").toLowerCase();
+  return (
+    msg.includes("too many requests") ||
+    msg.includes("rate limit") ||
+    e?.statusCode === 429 ||
+    e?.status === 429
+  );
+}
+
+function flattenRow(row: any) {
+  if (!row) return null;
+  return row?.attributes ? { id: row.id, documentId: row.documentId, ...row.attributes } : row;
+}
+
+/**
+ * POST /api/email/guest-order-link  { orderId }
+ *
+ * Manda al email de la orden un link firmado para verla sin login.
+ * ⚠️ Solo recibe el documentId: email y link se arman acá, así nadie puede
+ * usar este endpoint para mandar links a otra dirección.
+ */
+export async function POST(req: Request) {
+  try {
+    if (!process.env.RESEND_API_KEY) {
+      return NextResponse.json({ error: "Falta RESEND_API_KEY" }, { status: 500 });
+    }
+
+    const from = process.env.EMAIL_FROM;
+    if (!from) {
+      return NextResponse.json({ error: "Falta EMAIL_FROM" }, { status: 500 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const orderId = String(body?.orderId ?? "").trim();
+    if (!orderId) {
+      return NextResponse.json({ error: "Falta orderId" }, { status: 400 });
+    }
+
+    const sp = new URLSearchParams();
+    sp.set("filters[documentId][$eq]", orderId);
+    sp.set("pagination[pageSize]", "1");
+
+    const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+    const order = flattenRow(Array.isArray(res?.data) ? res.data[0] : null);
+
+    if (!order?.documentId || !order?.email) {
+      return NextResponse.json({ error: "Pedido no encontrado" }, { status: 404 });
+    }
+
+    // Solo órdenes de invitado: las de usuarios se ven desde Mis pedidos
+    if (!order.isGuest) {
+      return NextResponse.json({ error: "El pedido no es de invitado" }, { status: 409 });
+    }
+
+    const siteUrl = normalizeBaseUrl(process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000");
+    const token = signGuestOrderToken({ orderDocumentId: String(order.documentId), email: order.email });
+    const link = guestOrderUrl(siteUrl, String(order.documentId), token);
+
+    const orderNumber = String(order.orderNumber || order.documentId);
+    const total = Number(order.total ?? 0);
+
+    const html = `
+      <div style="font-family:Arial,sans-serif;line-height:1.5">
+        <h2>Hola${order.name ? ` ${escapeHtml(String(order.name))}` : ""},</h2>
+        <p>Recibimos tu pedido <b>${escapeHtml(orderNumber)}</b>${
+          Number.isFinite(total) && total > 0 ? ` por <b>${escapeHtml(formatARS(total))}</b>` : ""
+        }.</p>
+
+        <p>Podés ver el estado del pedido, pagarlo o descargar la factura desde este link:</p>
+        <p><a href="${escapeHtml(link)}" style="display:inline-block;padding:10px 18px;background:#dc2626;color:#fff;border-radius:999px;text-decoration:none;font-weight:bold">Ver mi pedido</a></p>
+
+        <p style="color:#666;font-size:13px">
+          El link es personal, no lo compartas. Si después entrás a la tienda con Google usando este
+          email, el pedido va a aparecer en <b>Mis pedidos</b>.
+        </p>
+      </div>
+    `;
+
+    // ✅ Modo testing (sin dominio): fuerza destinatario a tu email verificado
+    const to = process.env.TEST_EMAIL_TO || String(order.email);
+
+    const result = await resend.emails.send(
+      {
+        from,
+        to,
+        subject: `Tu pedido ${orderNumber}`,
+        html,
+      },
+      { idempotencyKey: `guest-order-link/${orderNumber}` }
+    );
+
+    if ((result as any)?.error) {
+      const err = (result as any).error;
+      const msg = err?.message || "Resend error";
+
+      if (looksRateLimitError(err)) {
+        return NextResponse.json({ ok: false, error: msg, rateLimited: true, to }, { status: 202 });
+      }
+
+      return NextResponse.json({ error: msg }, { status: 502 });
+    }
+
+    return NextResponse.json({ ok: true, to });
+  } catch (e: any) {
+    if (e?.code === "GUEST_LINK_NOT_CONFIGURED") {
+      return NextResponse.json({ error: "Falta GUEST_ORDER_LINK_SECRET" }, { status: 500 });
+    }
+    if (looksRateLimitError(e)) {
+      return NextResponse.json({ ok: false, error: e?.message || "Too many requests", rateLimited: true }, { status: 202 });
+    }
+
+    return NextResponse.json({ error: e?.message || "Error enviando email" }, { status: 500 });
+  }
+}
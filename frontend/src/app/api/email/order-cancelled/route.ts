@@ -0,0 +1,199 @@
+import { NextResponse } from "next/server";
+import { Resend } from "resend";
+import { cancelReasonLabel } from "@/lib/order-cancellation";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const resend = new Resend(process.env.RESEND_API_KEY);
+
+// Límite razonable para adjuntos (igual que order-confirmation)
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024; // 10MB
+
+function formatARS(n: number) {
+  return n.toLocaleString("es-AR", { style: "currency", currency: "ARS" });
+}
+
+function escapeHtml(s: string) {
+  return String(s)
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#039;");
+}
+
+function looksRateLimitError(e: any) {
+  const msg = String(e?.message || e?.error?.message || "").toLowerCase();
+  return (
+    msg.includes("too many requests") ||
+    msg.includes("rate limit") ||
+    e?.statusCode === 429 ||
+    e?.status === 429
+  );
+}
+
+async function fetchPdfAsBase64(url: string) {
+  const ctrl = new AbortController();
+  const t = setTimeout(() => ctrl.abort(), 25000);
+  try {
+    const r = await fetch(url, {
+      headers: { Accept: "application/pdf,*/*" },
+      signal: ctrl.signal,
+      cache: "no-store",
+    });
+    if (!r.ok) throw new Error(`PDF fetch failed (${r.status})`);
+
+    const buf = Buffer.from(await r.arrayBuffer());
+    if (buf.byteLength > MAX_ATTACHMENT_BYTES) throw new Error(`PDF too large (${buf.byteLength} bytes)`);
+    return buf.toString("base64");
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+function safeFilename(name: any) {
+  const s = String(name ?? "nota-de-credito.pdf").trim() || "nota-de-credito.pdf";
+  const clean = s.replace(/[\r\n"]/g, "");
+  return clean.toLowerCase().endsWith(".pdf") ? clean : `${clean}.pdf`;
+}
+
+/**
+ * POST /api/email/order-cancelled
+ * Confirmación de la cancelación pedida por el cliente (ver /api/orders/:id/cancel):
+ * motivo, reembolso por MP si estaba pagado, lo que volvió a la gift card y la nota de crédito adjunta si se generó.
+ */
+export async function POST(req: Request) {
+  try {
+    if (!process.env.RESEND_API_KEY) {
+      return NextResponse.json({ error: "Falta RESEND_API_KEY" }, { status: 500 });
+    }
+
+    const from = process.env.EMAIL_FROM;
+    if (!from) {
+      return NextResponse.json({ error: "Falta EMAIL_FROM" }, { status: 500 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const {
+      email,
+      name,
+      orderNumber,
+      cancelReason,
+      cancelledAt,
+      refundAmount,
+      giftCardRestored,
+      creditNoteNumber,
+      creditNotePdfUrl,
+    } = body || {};
+
+    if (!email || !orderNumber) {
+      return NextResponse.json({ error: "Faltan email u orderNumber" }, { status: 400 });
+    }
+
+    // ✅ idempotency key: un mail por cancelación
+    const idempotencyKey = `order-cancelled/${String(orderNumber)}`;
+
+    const amount = Number(refundAmount ?? 0);
+    const giftCardAmount = Number(giftCardRestored ?? 0);
+    const reasonLabel = cancelReasonLabel(cancelReason);
+    const dateLabel = cancelledAt
+      ? new Date(cancelledAt).toLocaleString("es-AR", {
+          timeZone: "America/Argentina/Buenos_Aires",
+          dateStyle: "medium",
+          timeStyle: "short",
+        })
+      : "";
+
+    const refundBlock =
+      amount > 0
+        ? `
+          <h3>Reembolso</h3>
+          <p>Te devolvimos <b>${escapeHtml(formatARS(amount))}</b> por Mercado Pago.</p>
+          <p>El reintegro se acredita por el mismo medio de pago (puede demorar unos días según tu banco).</p>
+        `
+        : giftCardAmount > 0
+        ? ""
+        : `<p>Como el pedido no estaba pagado, no se te va a cobrar nada.</p>`;
+
+    const giftCardBlock =
+      giftCardAmount > 0
+        ? `<p>Los <b>${escapeHtml(formatARS(giftCardAmount))}</b> que usaste de tu gift card ya volvieron a su saldo.</p>`
+        : "";
+
+    const creditNoteLine =
+      creditNoteNumber || creditNotePdfUrl
+        ? `
+          <h3>Nota de crédito</h3>
+          <p>
+            ${creditNoteNumber ? `N° <b>${escapeHtml(String(creditNoteNumber))}</b><br/>` : ""}
+            ${creditNotePdfUrl ? `Descarga: <a href="${escapeHtml(String(creditNotePdfUrl))}">PDF</a>` : ""}
+          </p>
+        `
+        : "";
+
+    const html = `
+      <div style="font-family:Arial,sans-serif;line-height:1.5">
+        <h2>Hola${name ? ` ${escapeHtml(name)}` : ""},</h2>
+        <p>
+          Cancelamos tu pedido <b>${escapeHtml(String(orderNumber))}</b>${dateLabel ? ` (${escapeHtml(dateLabel)})` : ""}.
+        </p>
+        ${reasonLabel ? `<p>Motivo: ${escapeHtml(reasonLabel)}</p>` : ""}
+
+        ${refundBlock}
+        ${giftCardBlock}
+
+        ${creditNoteLine}
+
+        <p style="margin-top:24px;color:#666">
+          Si no pediste esta cancelación o tenés dudas, respondé este email.
+        </p>
+      </div>
+    `;
+
+    // ✅ Modo testing (sin dominio): fuerza destinatario a tu email verificado
+    const to = process.env.TEST_EMAIL_TO || String(email);
+
+    let attachments: Array<{ filename: string; content: string }> | undefined;
+
+    if (creditNotePdfUrl && typeof creditNotePdfUrl === "string") {
+      try {
+        const base64 = await fetchPdfAsBase64(creditNotePdfUrl);
+        attachments = [{ filename: safeFilename(creditNoteNumber || "nota-de-credito.pdf"), content: base64 }];
+      } catch (e: any) {
+        // No cortamos el email si falla el adjunto; dejamos link en el body
+        console.error("[email] order-cancelled: failed to attach pdf:", e?.message || e);
+      }
+    }
+
+    const result = await resend.emails.send(
+      {
+        from,
+        to,
+        subject: `Cancelamos tu pedido ${String(orderNumber)}`,
+        html,
+        ...(attachments ? { attachments } : {}),
+      },
+      { idempotencyKey }
+    );
+
+    if ((result as any)?.error) {
+      const err = (result as any).error;
+      const msg = err?.message || "Resend error";
+
+      if (looksRateLimitError(err)) {
+        return NextResponse.json({ ok: false, error: msg, rateLimited: true, to }, { status: 202 });
+      }
+
+      return NextResponse.json({ error: msg }, { status: 502 });
+    }
+
+    return NextResponse.json({ ok: true, to, idempotencyKey, attachedPdf: Boolean(attachments?.length) });
+  } catch (e: any) {
+    if (looksRateLimitError(e)) {
+      return NextResponse.json({ ok: false, error: e?.message || "Too many requests", rateLimited: true }, { status: 202 });
+    }
+
+    return NextResponse.json({ error: e?.message || "Error enviando email" }, { status: 500 });
+  }
+}
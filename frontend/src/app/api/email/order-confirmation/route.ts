@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { Resend } from "resend";
+import { formatDeliveryDate } from "@/lib/delivery-dates";
+import { readOrderGift } from "@/lib/gift-options";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -99,6 +101,8 @@ export async function POST(req: Request) {
       items,
       phone,
       shippingAddress,
+      deliveryDate,
+      gift: giftRaw,
       // opcional: si lo mandás desde el webhook, mejor aún:
       mpPaymentId,
 
@@ -141,6 +145,19 @@ export async function POST(req: Request) {
           .join("")
       : "";
 
+    // ✅ Regalo: a quién le llega y el mensaje de la tarjeta (la tarjeta va impresa en el paquete)
+    const gift = readOrderGift(giftRaw);
+    const giftHtml = gift
+      ? `
+          <h3>Es para regalo</h3>
+          <p>
+            Para: <b>${escapeHtml(gift.recipientName)}</b>${gift.recipientPhone ? ` (${escapeHtml(gift.recipientPhone)})` : ""}
+            ${gift.message ? `<br/>Mensaje: <i>${escapeHtml(gift.message).replaceAll("\n", "<br/>")}</i>` : ""}
+            ${gift.giftWrap ? "<br/>Con papel de regalo" : ""}
+          </p>
+        `
+      : "";
+
     // ✅ armamos HTML y, si no se puede adjuntar, al menos incluimos el link
     const invoiceLine =
       invoiceNumber || invoicePdfUrl
@@ -163,6 +180,14 @@ export async function POST(req: Request) {
         <h3>Dirección de envío</h3>
         <p>${escapeHtml(addressText || "-")}</p>
 
+        ${
+          deliveryDate
+            ? `<h3>Fecha de entrega</h3><p><b>${escapeHtml(formatDeliveryDate(deliveryDate) || String(deliveryDate))}</b></p>`
+            : ""
+        }
+
+        ${giftHtml}
+
         <h3>Teléfono</h3>
         <p>${escapeHtml(phone || "-")}</p>
 
@@ -0,0 +1,160 @@
+import { NextResponse } from "next/server";
+import { Resend } from "resend";
+import { fetcher } from "@/lib/fetcher";
+import { describePickupSlot } from "@/lib/pickup-points";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+const resend = new Resend(process.env.RESEND_API_KEY);
+
+function formatARS(n: number) {
+  return n.toLocaleString("es-AR", { style: "currency", currency: "ARS" });
+}
+
+function escapeHtml(s: string) {
+  return String(s)
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;")
+    .replaceAll("'", "&#039;");
+}
+
+function normalizeBaseUrl(url: string) {
+  const u = String(url ?? "").trim();
+  return u.endsWith("/") ? u.slice(0, -1) : u;
+}
+
+function looksRateLimitError(e: any) {
+  const msg = String(e?.message || e?.error?.message || "").toLowerCase();
+  return (
+    msg.includes("too many requests") ||
+    msg.includes("rate limit") ||
+    e?.statusCode === 429 ||
+    e?.status === 429
+  );
+}
+
+function flattenRow(row: any) {
+  if (!row) return null;
+  return row?.attributes ? { id: row.id, documentId: row.documentId, ...row.attributes } : row;
+}
+
+function readJson(v: any) {
+  if (typeof v !== "string") return v;
+  try {
+    return JSON.parse(v);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * POST /api/email/pickup-ready  { orderId }
+ *
+ * Avisa que el pedido está listo para retirar (lo llama /api/admin/orders/:id/ready-for-pickup).
+ * ⚠️ Solo recibe el documentId: destinatario y datos del retiro salen de la orden.
+ */
+export async function POST(req: Request) {
+  try {
+    if (!process.env.RESEND_API_KEY) {
+      return NextResponse.json({ error: "Falta RESEND_API_KEY" }, { status: 500 });
+    }
+
+    const from = process.env.EMAIL_FROM;
+    if (!from) {
+      return NextResponse.json({ error: "Falta EMAIL_FROM" }, { status: 500 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const orderId = String(body?.orderId ?? "").trim();
+    if (!orderId) {
+      return NextResponse.json({ error: "Falta orderId" }, { status: 400 });
+    }
+
+    const sp = new URLSearchParams();
+    sp.set("filters[documentId][$eq]", orderId);
+    sp.set("pagination[pageSize]", "1");
+
+    const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+    const order = flattenRow(Array.isArray(res?.data) ? res.data[0] : null);
+
+    if (!order?.documentId || !order?.email) {
+      return NextResponse.json({ error: "Pedido no encontrado" }, { status: 404 });
+    }
+    if (order.shippingMethod !== "pickup") {
+      return NextResponse.json({ error: "El pedido no es de retiro en sucursal" }, { status: 409 });
+    }
+
+    const orderNumber = String(order.orderNumber || order.documentId);
+    const pickup = readJson(order.pickup);
+    const payment = readJson(order.paymentMethod);
+    const total = Number(order.total ?? 0);
+
+    const place = pickup?.name ? `${pickup.name} — ${pickup.address}` : String(order.pickupPoint || "nuestra sucursal");
+    const slot = describePickupSlot(order.pickupSlotStart ?? pickup?.slotStart, order.pickupSlotEnd ?? pickup?.slotEnd);
+    const cashDue = order.orderStatus === "awaiting_payment" && payment?.provider === "cash";
+
+    const siteUrl = normalizeBaseUrl(process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000");
+    const trackUrl = `${siteUrl}/segui-tu-pedido?pedido=${encodeURIComponent(orderNumber)}&email=${encodeURIComponent(
+      String(order.email)
+    )}`;
+
+    const html = `
+      <div style="font-family:Arial,sans-serif;line-height:1.5">
+        <h2>Hola${order.name ? ` ${escapeHtml(String(order.name))}` : ""},</h2>
+        <p>Tu pedido <b>${escapeHtml(orderNumber)}</b> está <b>listo para retirar</b>.</p>
+
+        <h3>Dónde</h3>
+        <p>
+          ${escapeHtml(place)}
+          ${pickup?.mapUrl ? `<br/><a href="${escapeHtml(String(pickup.mapUrl))}">Ver en el mapa</a>` : ""}
+        </p>
+
+        ${slot ? `<h3>Cuándo</h3><p>Tu turno: <b>${escapeHtml(slot)}</b></p>` : ""}
+
+        ${
+          cashDue && Number.isFinite(total) && total > 0
+            ? `<p>Pagás <b>${escapeHtml(formatARS(total))}</b> en efectivo al retirar.</p>`
+            : ""
+        }
+
+        <p>Traé tu DNI o el número de pedido. Si va a retirar otra persona, respondé este email con su nombre.</p>
+        <p><a href="${escapeHtml(trackUrl)}">Ver el estado del pedido</a></p>
+      </div>
+    `;
+
+    // ✅ Modo testing (sin dominio): fuerza destinatario a tu email verificado
+    const to = process.env.TEST_EMAIL_TO || String(order.email);
+
+    const result = await resend.emails.send(
+      {
+        from,
+        to,
+        subject: `Tu pedido ${orderNumber} está listo para retirar`,
+        html,
+      },
+      { idempotencyKey: `pickup-ready/${orderNumber}` }
+    );
+
+    if ((result as any)?.error) {
+      const err = (result as any).error;
+      const msg = err?.message || "Resend error";
+
+      if (looksRateLimitError(err)) {
+        return NextResponse.json({ ok: false, error: msg, rateLimited: true, to }, { status: 202 });
+      }
+
+      return NextResponse.json({ error: msg }, { status: 502 });
+    }
+
+    return NextResponse.json({ ok: true, to });
+  } catch (e: any) {
+    if (looksRateLimitError(e)) {
+      return NextResponse.json({ ok: false, error: e?.message || "Too many requests", rateLimited: true }, { status: 202 });
+    }
+
+    return NextResponse.json({ error: e?.message || "Error enviando email" }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+// src/app/api/geo/route.ts
+import { NextResponse } from "next/server";
+import { AR_PROVINCES, findArProvince, listArLocalities, lookupArPostalCode } from "@/lib/geo";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * GET /api/geo                      → provincias
+ * GET /api/geo?postalCode=1425      → provincias y localidades de ese CP (acepta CPA "C1425ABC")
+ * GET /api/geo?province=Córdoba     → localidades de la provincia (nombre, alias o letra)
+ *
+ * Datos incluidos en el repo (ver lib/geo). Lo usan el checkout y "Mis direcciones" para armar los selects;
+ * ⚠️ es informativo: /api/addresses y orders/create vuelven a validar con validateArAddress.
+ */
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const postalCode = String(url.searchParams.get("postalCode") ?? "").trim();
+  const provinceParam = String(url.searchParams.get("province") ?? "").trim();
+
+  if (postalCode) {
+    const lookup = lookupArPostalCode(postalCode);
+    if (!lookup) {
+      return NextResponse.json(
+        { ok: false, code: "POSTAL_CODE_INVALID", error: "Ingresá un código postal válido (ej: 1425 o C1425ABC)." },
+        { status: 400 }
+      );
+    }
+    return NextResponse.json({ ok: true, ...lookup });
+  }
+
+  if (provinceParam) {
+    const province = findArProvince(provinceParam);
+    if (!province) {
+      return NextResponse.json(
+        { ok: false, code: "PROVINCE_NOT_FOUND", error: "Provincia no encontrada." },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({
+      ok: true,
+      province: { code: province.code, name: province.name },
+      localities: listArLocalities(province.code),
+    });
+  }
+
+  return NextResponse.json({
+    ok: true,
+    provinces: AR_PROVINCES.map((p) => ({ code: p.code, name: p.name })).sort((a, b) =>
+      a.name.localeCompare(b.name, "es")
+    ),
+  });
+}
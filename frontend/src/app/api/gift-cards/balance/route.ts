@@ -0,0 +1,37 @@
+// src/app/api/gift-cards/balance/route.ts
+import { NextResponse } from "next/server";
+import { getGiftCardStatus, giftCardMessage, giftCardView, isGiftCardError } from "@/lib/gift-cards";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * POST /api/gift-cards/balance   { code } -> { giftCard: { code, balance, expiresAt, expired, movements, ... } }
+ *
+ * Saldo de una gift card para el checkout (antes de usarla). El historial va sin emails ni números de pedido:
+ * quien tiene el código ve cuánto queda, no quién la usó. orders/create vuelve a chequear todo al debitar.
+ */
+export async function POST(req: Request) {
+  let body: any = null;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body inválido (se esperaba JSON)" }, { status: 400 });
+  }
+
+  const code = String(body?.code ?? "").trim();
+  if (!code) return NextResponse.json({ error: "Ingresá el código de la gift card." }, { status: 400 });
+
+  try {
+    const status = await getGiftCardStatus(code);
+    return NextResponse.json({ giftCard: giftCardView(status, { showCode: true, ordersOfEmail: null }) });
+  } catch (e: any) {
+    if (isGiftCardError(e)) {
+      return NextResponse.json({ error: giftCardMessage(e), code: e.code }, { status: 404 });
+    }
+    return NextResponse.json(
+      { error: "No pudimos consultar la gift card. Probá de nuevo.", details: e?.message || String(e) },
+      { status: 502 }
+    );
+  }
+}
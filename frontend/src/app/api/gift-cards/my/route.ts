@@ -0,0 +1,57 @@
+// src/app/api/gift-cards/my/route.ts
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { giftCardView, listGiftCardsForEmail } from "@/lib/gift-cards";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+function normalizeStrapiBase(url: string) {
+  let u = String(url ?? "").trim();
+  u = u.endsWith("/") ? u.slice(0, -1) : u;
+  if (u.toLowerCase().endsWith("/api")) u = u.slice(0, -4);
+  return u;
+}
+
+/**
+ * GET /api/gift-cards/my
+ * "Mis gift cards" del perfil: las que compró el usuario (con el código completo) y las que usó
+ * en sus pedidos (código enmascarado), con saldo e historial de movimientos.
+ */
+export async function GET() {
+  const jwt = cookies().get("strapi_jwt")?.value;
+  if (!jwt) {
+    return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+  }
+
+  const strapiBase = normalizeStrapiBase(
+    process.env.STRAPI_URL || process.env.NEXT_PUBLIC_STRAPI_URL || "http://localhost:1337"
+  );
+
+  const meRes = await fetch(`${strapiBase}/api/users/me`, {
+    headers: { Authorization: `Bearer ${jwt}` },
+    cache: "no-store",
+  });
+  const me = await meRes.json().catch(() => null);
+
+  if (!meRes.ok) {
+    return NextResponse.json({ error: "JWT inválido o expirado", status: meRes.status }, { status: 401 });
+  }
+
+  const email = String(me?.email ?? "").trim().toLowerCase();
+  if (!email) return NextResponse.json({ giftCards: [] });
+
+  try {
+    const list = await listGiftCardsForEmail(email);
+    const giftCards = list.map((status) => {
+      const purchased = status.card.purchaserEmail === email;
+      return { ...giftCardView(status, { showCode: purchased, ordersOfEmail: email }), purchased };
+    });
+    return NextResponse.json({ giftCards });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: "No pudimos cargar tus gift cards", details: e?.message || String(e) },
+      { status: 502 }
+    );
+  }
+}
@@ -1,7 +1,9 @@
 import { NextResponse } from "next/server";
 import PDFDocument from "pdfkit";
-import path from "path";
-import fs from "fs";
+import { describeShipping } from "@/lib/shipping";
+import { formatDeliveryDate } from "@/lib/delivery-dates";
+import { readOrderGift } from "@/lib/gift-options";
+import { applyPdfFont } from "@/lib/pdf-fonts";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -85,6 +87,63 @@ function buildInvoiceNumber(orderNumber?: string | null) {
   return `RC_${y}${mm}${dd}_${base}`;
 }
 
+// ✅ NC_YYYYMMDD_AMG-0172-1 (fecha del reembolso + n° de reembolso de la orden)
+function buildCreditNoteNumber(orderNumber: string | null | undefined, refundDate: string | null, index: number) {
+  const ts = refundDate ? new Date(refundDate) : new Date();
+  const d = Number.isFinite(ts.getTime()) ? ts : new Date();
+  const y = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  const base = (orderNumber || "AMG-XXXX").replace(/\s+/g, "");
+  return `NC_${y}${mm}${dd}_${base}-${index + 1}`;
+}
+
+// ✅ RM_YYYYMMDD_AMG-0172 (remito sin precios para armar el paquete)
+function buildPackingSlipNumber(orderNumber?: string | null) {
+  const ts = new Date();
+  const y = ts.getFullYear();
+  const mm = String(ts.getMonth() + 1).padStart(2, "0");
+  const dd = String(ts.getDate()).padStart(2, "0");
+  const base = (orderNumber || "AMG-XXXX").replace(/\s+/g, "");
+  return `RM_${y}${mm}${dd}_${base}`;
+}
+
+type OrderRefund = {
+  id: string;
+  amount: number;
+  date: string | null;
+};
+
+function pickOrderRefunds(order: any): OrderRefund[] {
+  const list = Array.isArray(order?.refunds) ? order.refunds : [];
+  return list
+    .filter((r: any) => r?.id != null)
+    .map((r: any) => ({
+      id: String(r.id),
+      amount: Math.round(Number(r?.amount ?? 0)),
+      date: r?.date ?? null,
+    }));
+}
+
+/**
+ * Comprobante original (RC_...) de la orden, para referenciarlo en la nota de crédito.
+ * Best-effort: si la relación order no existe en el schema, devuelve null.
+ */
+async function findReceiptNumberForOrder(strapiBase: string, token: string, orderDocumentId: string) {
+  const sp = new URLSearchParams();
+  sp.set("pagination[pageSize]", "1");
+  sp.set("filters[order][documentId][$eq]", orderDocumentId);
+  sp.set("filters[number][$startsWith]", "RC_");
+  sp.set("sort[0]", "issuedAt:asc");
+
+  const r = await fetchStrapiText(`${strapiBase}/api/invoices?${sp.toString()}`, token);
+  if (!r.r.ok) return null;
+
+  const row = pickFlat(r.json?.data?.[0]);
+  const number = String(row?.number ?? "").trim();
+  return number || null;
+}
+
 /**
  * FIND invoice by number (robusto)
  */
@@ -189,35 +248,6 @@ async function fetchOrderByDocumentId(strapiBase: string, token: string, orderDo
   return flat;
 }
 
-/**
- * Fuente robusta para PDFKit en Next
- */
-function applyPdfFont(doc: any) {
-  const fontPath = path.join(process.cwd(), "src", "assets", "fonts", "DejaVuSans.ttf");
-
-  try {
-    const buf = fs.readFileSync(fontPath);
-    const size = buf.length;
-    const headHex = buf.slice(0, 4).toString("hex");
-    const headAscii = buf.slice(0, 4).toString("ascii");
-
-    const isTtf = headHex === "00010000";
-    const isOtf = headAscii === "OTTO";
-
-    if (!size || size < 1000 || (!isTtf && !isOtf)) {
-      console.warn("[invoice/pdf] Font inválida, uso Helvetica:", { fontPath, size, headHex, headAscii });
-      doc.font("Helvetica");
-      return;
-    }
-
-    doc.registerFont("DejaVu", fontPath);
-    doc.font("DejaVu");
-  } catch (e: any) {
-    console.warn("[invoice/pdf] No pude aplicar fuente (uso Helvetica):", e?.message || e);
-    doc.font("Helvetica");
-  }
-}
-
 async function renderPdfBuffer(order: any) {
   const doc = new PDFDocument({ size: "A4", margin: 50 });
   const chunks: Buffer[] = [];
@@ -228,7 +258,7 @@ async function renderPdfBuffer(order: any) {
     doc.on("error", reject);
   });
 
-  applyPdfFont(doc);
+  applyPdfFont(doc, "invoice/pdf");
 
   const orderNumber = String(order?.orderNumber ?? "").trim() || "AMG-XXXX";
   const createdAt = order?.createdAt ? new Date(order.createdAt) : new Date();
@@ -248,11 +278,12 @@ async function renderPdfBuffer(order: any) {
 
   const shippingMethod = order?.shippingMethod ?? "delivery";
   const shippingCost = Number(order?.shippingCost ?? 0);
-  const pickupPoint = order?.pickupPoint ?? null;
 
   const subtotal = Number(order?.subtotal ?? 0);
   const discountTotal = Number(order?.discountTotal ?? 0);
+  const giftWrapCost = Number(order?.giftWrapCost ?? 0);
   const total = Number(order?.total ?? 0);
+  const giftCardAmount = Number(order?.giftCardAmount ?? 0);
 
   const items = Array.isArray(order?.items) ? order.items : [];
 
@@ -272,13 +303,8 @@ async function renderPdfBuffer(order: any) {
   doc.text(`Tel: ${order?.phone ?? "-"}`);
   doc.moveDown(0.6);
 
-  doc.fontSize(11).text(
-    `Entrega: ${
-      shippingMethod === "pickup"
-        ? `Retiro en sucursal${pickupPoint ? ` (${pickupPoint})` : ""} — GRATIS`
-        : `Envío a domicilio — ${moneyARS(shippingCost)}`
-    }`
-  );
+  doc.fontSize(11).text(`Entrega: ${describeShipping(order, moneyARS)}`);
+  if (order?.deliveryDate) doc.text(`Fecha de entrega: ${formatDeliveryDate(order.deliveryDate) || order.deliveryDate}`);
 
   doc.moveDown(0.8);
   doc.fontSize(12).text("Detalle", { underline: true });
@@ -290,9 +316,20 @@ async function renderPdfBuffer(order: any) {
     const qty = Number(it?.qty ?? it?.quantity ?? 1);
     const unit = Number(it?.unit_price ?? it?.unitPrice ?? it?.price ?? 0);
     const line = qty * unit;
+    // ✅ Descuento de promos asignado a la línea (items guardados por lib/pricing); órdenes viejas no lo tienen
+    const lineDiscount = Math.max(0, Number(it?.discount ?? 0) || 0);
+    const promoNames = (Array.isArray(it?.discountPromotions) ? it.discountPromotions : [])
+      .map((p: any) => String(p?.name ?? "").trim())
+      .filter(Boolean);
 
     doc.text(`${title}`);
     doc.fillColor("#444").text(`  ${qty} x ${moneyARS(unit)} = ${moneyARS(line)}`);
+    if (lineDiscount > 0) {
+      const label = promoNames.length ? promoNames.join(" + ") : "Promoción";
+      doc.fillColor("#0a7a2f").text(
+        `  ${label}: -${moneyARS(lineDiscount)} (queda ${moneyARS(Math.max(0, line - lineDiscount))})`
+      );
+    }
     doc.fillColor("#000");
     doc.moveDown(0.2);
   });
@@ -302,7 +339,13 @@ async function renderPdfBuffer(order: any) {
   doc.fontSize(11).text(`Subtotal: ${moneyARS(subtotal)}`, { align: "right" });
   doc.text(`Descuento: -${moneyARS(discountTotal)}`, { align: "right" });
   doc.text(`Envío: ${shippingMethod === "pickup" ? moneyARS(0) : moneyARS(shippingCost)}`, { align: "right" });
+  if (giftWrapCost > 0) doc.text(`Papel de regalo: ${moneyARS(giftWrapCost)}`, { align: "right" });
   doc.fontSize(13).text(`TOTAL: ${moneyARS(total)}`, { align: "right" });
+  // ✅ Parte pagada con gift card (lib/gift-cards): el resto es lo que se cobró por el medio elegido
+  if (giftCardAmount > 0) {
+    doc.fontSize(11).text(`Pagado con gift card: -${moneyARS(giftCardAmount)}`, { align: "right" });
+    doc.text(`Pagado con otro medio: ${moneyARS(Math.max(0, total - giftCardAmount))}`, { align: "right" });
+  }
 
   doc.moveDown(1.2);
   doc.fontSize(9).fillColor("#666").text(
@@ -314,6 +357,234 @@ async function renderPdfBuffer(order: any) {
   return done;
 }
 
+/**
+ * Remito para armar el paquete: SIN precios (va dentro de la caja, sobre todo si es un regalo).
+ * Si la orden es para regalo, el destinatario es quien recibe y se agrega la tarjeta con el mensaje.
+ */
+function readParcels(shippingQuote: any): any[] {
+  let q = shippingQuote;
+  if (typeof q === "string") {
+    try {
+      q = JSON.parse(q);
+    } catch {
+      return [];
+    }
+  }
+  return Array.isArray(q?.parcels) ? q.parcels : [];
+}
+
+async function renderPackingSlipPdfBuffer(order: any, packingSlipNumber: string) {
+  const doc = new PDFDocument({ size: "A4", margin: 50 });
+  const chunks: Buffer[] = [];
+
+  doc.on("data", (c: any) => chunks.push(Buffer.isBuffer(c) ? c : Buffer.from(c)));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  applyPdfFont(doc, "invoice/pdf");
+
+  const dateFmt: Intl.DateTimeFormatOptions = {
+    timeZone: "America/Argentina/Buenos_Aires",
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+  };
+
+  const orderNumber = String(order?.orderNumber ?? "").trim() || "AMG-XXXX";
+  const createdAt = order?.createdAt ? new Date(order.createdAt) : new Date();
+  const gift = readOrderGift(order?.gift);
+  const items = Array.isArray(order?.items) ? order.items : [];
+
+  doc.fontSize(18).text("Amargo y Dulce", { align: "left" });
+  doc.moveDown(0.2);
+  doc.fontSize(12).fillColor("#444").text(gift ? "Remito · Regalo" : "Remito", { align: "left" });
+  doc.moveDown(1);
+
+  doc.fillColor("#000");
+  doc.fontSize(11).text(`N°: ${packingSlipNumber}`);
+  doc.text(`Pedido: ${orderNumber}`);
+  doc.text(`Fecha pedido: ${createdAt.toLocaleDateString("es-AR", dateFmt)}`);
+  doc.moveDown(0.6);
+
+  doc.text(`Recibe: ${gift?.recipientName ?? order?.name ?? "-"}`);
+  doc.text(`Tel: ${gift?.recipientPhone || order?.phone || "-"}`);
+
+  if (order?.shippingMethod === "pickup") {
+    doc.text(`Retiro en sucursal: ${order?.pickupPoint ?? "-"}`);
+  } else {
+    const addr = order?.shippingAddress ?? {};
+    doc.text(`Entrega: ${addr?.text ?? "-"}`);
+    if (addr?.notes) doc.fillColor("#444").text(`Notas: ${addr.notes}`).fillColor("#000");
+  }
+  if (order?.deliveryDate) doc.text(`Fecha de entrega: ${formatDeliveryDate(order.deliveryDate) || order.deliveryDate}`);
+
+  doc.moveDown(0.8);
+  doc.fontSize(12).text("Contenido", { underline: true });
+  doc.moveDown(0.4);
+
+  doc.fontSize(10);
+  items.forEach((it: any) => {
+    const title = String(it?.title ?? "Producto");
+    const qty = Number(it?.qty ?? it?.quantity ?? 1);
+    doc.text(`[  ]  ${qty} x ${title}`);
+    doc.moveDown(0.2);
+  });
+  if (gift?.giftWrap) {
+    doc.moveDown(0.2);
+    doc.text("[  ]  Envolver para regalo");
+  }
+
+  // ✅ Bultos armados al cotizar (lib/packing): qué caja usar y qué va en cada una
+  const parcels = readParcels(order?.shippingQuote);
+  if (parcels.length) {
+    doc.moveDown(0.8);
+    doc.fontSize(12).text("Bultos", { underline: true });
+    doc.moveDown(0.4);
+    doc.fontSize(10);
+    parcels.forEach((p: any, i: number) => {
+      const box = p?.boxName || p?.boxId || "Embalaje propio";
+      const size = p?.lengthCm && p?.widthCm && p?.heightCm ? ` · ${p.lengthCm}×${p.widthCm}×${p.heightCm} cm` : "";
+      const kg = (Math.max(0, Number(p?.weightGrams) || 0) / 1000).toFixed(2);
+      doc.text(`Bulto ${i + 1}: ${box}${size} · ${kg} kg`);
+      const content = (Array.isArray(p?.items) ? p.items : [])
+        .map((it: any) => `${Number(it?.qty ?? 1)} x ${String(it?.title ?? "Producto")}`)
+        .join(", ");
+      if (content) doc.fillColor("#444").text(`      ${content}`).fillColor("#000");
+      doc.moveDown(0.2);
+    });
+  }
+
+  // ✅ Tarjeta: recuadro aparte para recortar y poner dentro del paquete
+  if (gift?.message) {
+    doc.moveDown(1.5);
+    const x = doc.page.margins.left;
+    const width = doc.page.width - doc.page.margins.left - doc.page.margins.right;
+    const top = doc.y;
+
+    doc.fontSize(10).fillColor("#666").text("Tarjeta de regalo", x + 16, top + 14, { width: width - 32 });
+    doc.moveDown(0.6);
+    doc.fontSize(13).fillColor("#000").text(gift.message, { width: width - 32 });
+    doc.moveDown(0.6);
+    doc.fontSize(11).fillColor("#444").text(`Para: ${gift.recipientName}`, { width: width - 32 });
+
+    doc.rect(x, top, width, doc.y - top + 14).dash(4, { space: 4 }).stroke("#999").undash();
+    doc.x = x;
+    doc.y += 28;
+  }
+
+  doc.moveDown(1.2);
+  doc.fontSize(9).fillColor("#666").text("Documento sin valor comercial. No incluye precios.", { align: "left" });
+
+  doc.end();
+  return done;
+}
+
+async function renderCreditNotePdfBuffer(params: {
+  order: any;
+  refund: OrderRefund;
+  creditNoteNumber: string;
+  receiptNumber: string | null;
+  fullRefund: boolean;
+}) {
+  const { order, refund, creditNoteNumber, receiptNumber, fullRefund } = params;
+
+  const doc = new PDFDocument({ size: "A4", margin: 50 });
+  const chunks: Buffer[] = [];
+
+  doc.on("data", (c: any) => chunks.push(Buffer.isBuffer(c) ? c : Buffer.from(c)));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  applyPdfFont(doc, "invoice/pdf");
+
+  const dateFmt: Intl.DateTimeFormatOptions = {
+    timeZone: "America/Argentina/Buenos_Aires",
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hour12: false,
+  };
+
+  const orderNumber = String(order?.orderNumber ?? "").trim() || "AMG-XXXX";
+  const refundDate = refund.date ? new Date(refund.date) : new Date();
+  const total = Number(order?.total ?? 0);
+
+  doc.fontSize(18).text("Amargo y Dulce", { align: "left" });
+  doc.moveDown(0.2);
+  doc.fontSize(12).fillColor("#444").text("Nota de crédito", { align: "left" });
+  doc.moveDown(1);
+
+  doc.fillColor("#000");
+  doc.fontSize(11).text(`N°: ${creditNoteNumber}`);
+  doc.text(`Pedido: ${orderNumber}`);
+  if (receiptNumber) doc.text(`Comprobante original: ${receiptNumber}`);
+  doc.text(`Fecha reembolso: ${refundDate.toLocaleString("es-AR", dateFmt)}`);
+  doc.text(`Fecha emisión: ${new Date().toLocaleString("es-AR", dateFmt)}`);
+  doc.moveDown(0.6);
+
+  doc.text(`Cliente: ${order?.name ?? "-"}`);
+  doc.text(`Email: ${order?.email ?? "-"}`);
+  doc.moveDown(0.8);
+
+  doc.fontSize(12).text("Detalle", { underline: true });
+  doc.moveDown(0.4);
+  doc.fontSize(10).text(fullRefund ? "Reembolso total del pedido." : "Reembolso parcial del pedido.");
+  doc.fillColor("#444").text(`Total original del pedido: ${moneyARS(total)}`);
+  doc.fillColor("#000");
+
+  doc.moveDown(0.8);
+  doc.fontSize(13).text(`TOTAL REEMBOLSADO: -${moneyARS(refund.amount)}`, { align: "right" });
+
+  doc.moveDown(1.2);
+  doc.fontSize(9).fillColor("#666").text(
+    "Este comprobante no constituye factura fiscal. El reintegro se acredita por el mismo medio de pago (Mercado Pago).",
+    { align: "left" }
+  );
+
+  doc.end();
+  return done;
+}
+
+/**
+ * Sube el PDF a Strapi (/api/upload) y devuelve { fileId, url }.
+ */
+async function uploadPdfToStrapi(strapiBase: string, token: string, pdfBuffer: Buffer, filename: string) {
+  const form = new FormData();
+  form.append("files", new Blob([pdfBuffer], { type: "application/pdf" }), filename);
+
+  const uploadRes = await fetch(`${strapiBase}/api/upload`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}` },
+    body: form,
+    cache: "no-store",
+  });
+
+  const uploadText = await uploadRes.text().catch(() => "");
+  let uploaded: any = null;
+  try {
+    uploaded = uploadText ? JSON.parse(uploadText) : null;
+  } catch {
+    uploaded = { _raw: uploadText || null };
+  }
+
+  if (!uploadRes.ok || !Array.isArray(uploaded) || !uploaded[0]?.id) {
+    return { ok: false as const, status: uploadRes.status, details: uploaded };
+  }
+
+  return {
+    ok: true as const,
+    fileId: uploaded[0].id,
+    url: uploaded?.[0]?.url ? String(uploaded[0].url).trim() : null,
+  };
+}
+
 function pickPdfUrlFromInvoice(inv: any): string | null {
   const node = inv?.pdf?.data ?? inv?.pdf ?? null;
   const row = Array.isArray(node) ? node[0] : node;
@@ -428,6 +699,177 @@ async function connectExistingInvoiceToOrder(params: {
   return json;
 }
 
+async function generateCreditNote(params: {
+  strapiBase: string;
+  token: string;
+  order: any;
+  orderId: string;
+  status: string;
+  refundId: string | null;
+}) {
+  const { strapiBase, token, order, orderId, status, refundId } = params;
+
+  // "cancelled": cancelación del cliente con reembolso por MP (ver orders/[id]/cancel)
+  if (status !== "refunded" && status !== "partially_refunded" && status !== "cancelled") {
+    return NextResponse.json(
+      { error: "La orden no tiene reembolsos", orderStatus: order?.orderStatus },
+      { status: 409 }
+    );
+  }
+
+  const refunds = pickOrderRefunds(order);
+  const index = refundId ? refunds.findIndex((r) => r.id === refundId) : refunds.length - 1;
+  const refund = index >= 0 ? refunds[index] : null;
+
+  if (!refund || refund.amount <= 0) {
+    return NextResponse.json({ error: "Reembolso no encontrado en la orden", refundId }, { status: 404 });
+  }
+
+  const creditNoteNumber = buildCreditNoteNumber(order?.orderNumber, refund.date, index);
+
+  try {
+    const existing = await findInvoiceByNumber(strapiBase, token, creditNoteNumber);
+    if (existing) {
+      const pdfUrl = pickPdfUrlFromInvoice(existing);
+      return NextResponse.json(
+        { ok: true, alreadyExists: true, kind: "credit_note", invoiceNumber: creditNoteNumber, pdfUrl, invoice: existing },
+        { status: 200 }
+      );
+    }
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: "Strapi error (find invoice by number)", status: e?.status || 500, details: e?.details || e?.message },
+      { status: 400 }
+    );
+  }
+
+  const receiptNumber = await findReceiptNumberForOrder(strapiBase, token, orderId).catch(() => null);
+
+  let pdfBuffer: Buffer;
+  try {
+    pdfBuffer = await renderCreditNotePdfBuffer({
+      order,
+      refund,
+      creditNoteNumber,
+      receiptNumber,
+      fullRefund: (status === "refunded" || status === "cancelled") && index === refunds.length - 1,
+    });
+  } catch (e: any) {
+    return NextResponse.json({ error: "No se pudo generar el PDF", details: e?.message || e }, { status: 500 });
+  }
+
+  const upload = await uploadPdfToStrapi(strapiBase, token, pdfBuffer, `${creditNoteNumber}.pdf`);
+  if (!upload.ok) {
+    return NextResponse.json(
+      { error: "No se pudo subir el PDF a Strapi", status: upload.status, details: upload.details },
+      { status: 500 }
+    );
+  }
+
+  const createdRes = await createInvoiceWithOrderFallback({
+    strapiBase,
+    token,
+    baseInvoiceData: {
+      number: creditNoteNumber,
+      kind: "credit_note",
+      relatedInvoiceNumber: receiptNumber,
+      issuedAt: new Date().toISOString(),
+      total: -refund.amount,
+      currency: "ARS",
+    },
+    fileId: upload.fileId,
+    orderDocumentId: orderId,
+  });
+
+  if (!createdRes.ok) {
+    return NextResponse.json(
+      { error: "No se pudo crear la nota de crédito", status: createdRes.status, details: createdRes.details },
+      { status: 500 }
+    );
+  }
+
+  let fetched: any = null;
+  try {
+    fetched = await findInvoiceByNumber(strapiBase, token, creditNoteNumber);
+  } catch {
+    fetched = null;
+  }
+
+  const pdfUrl = (fetched ? pickPdfUrlFromInvoice(fetched) : null) || upload.url || null;
+
+  return NextResponse.json(
+    { ok: true, kind: "credit_note", invoiceNumber: creditNoteNumber, pdfUrl, refundId: refund.id, invoice: createdRes.data },
+    { status: 200 }
+  );
+}
+
+/**
+ * Remito sin precios: se sube a Strapi y queda en la orden (`packingSlipNumber` / `packingSlipUrl`).
+ * No se guarda como Invoice (no es un comprobante y no tiene que aparecer en "Mis facturas").
+ */
+async function generatePackingSlip(params: { strapiBase: string; token: string; order: any; status: string }) {
+  const { strapiBase, token, order, status } = params;
+
+  // Pagada, o efectivo que se cobra al retirar (el paquete se arma antes)
+  const cashPending = status === "awaiting_payment" && order?.paymentMethod?.provider === "cash";
+  if (status !== "paid" && status !== "partially_refunded" && !cashPending) {
+    return NextResponse.json({ error: "La orden todavía no está pagada", orderStatus: order?.orderStatus }, { status: 409 });
+  }
+
+  const existingUrl = String(order?.packingSlipUrl ?? "").trim();
+  if (existingUrl) {
+    return NextResponse.json(
+      {
+        ok: true,
+        alreadyExists: true,
+        kind: "packing_slip",
+        packingSlipNumber: order?.packingSlipNumber ?? null,
+        pdfUrl: existingUrl,
+      },
+      { status: 200 }
+    );
+  }
+
+  const packingSlipNumber = buildPackingSlipNumber(order?.orderNumber);
+
+  let pdfBuffer: Buffer;
+  try {
+    pdfBuffer = await renderPackingSlipPdfBuffer(order, packingSlipNumber);
+  } catch (e: any) {
+    return NextResponse.json({ error: "No se pudo generar el PDF", details: e?.message || e }, { status: 500 });
+  }
+
+  const upload = await uploadPdfToStrapi(strapiBase, token, pdfBuffer, `${packingSlipNumber}.pdf`);
+  if (!upload.ok || !upload.url) {
+    return NextResponse.json(
+      { error: "No se pudo subir el PDF a Strapi", status: upload.ok ? 500 : upload.status, details: upload.ok ? null : upload.details },
+      { status: 500 }
+    );
+  }
+
+  const { r, json } = await fetchStrapiText(
+    `${strapiBase}/api/orders/${encodeURIComponent(String(order.documentId))}`,
+    token,
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ data: { packingSlipNumber, packingSlipUrl: upload.url } }),
+    }
+  );
+
+  if (!r.ok) {
+    return NextResponse.json(
+      { error: "No se pudo guardar el remito en la orden", status: r.status, details: json },
+      { status: 500 }
+    );
+  }
+
+  return NextResponse.json(
+    { ok: true, kind: "packing_slip", packingSlipNumber, pdfUrl: upload.url },
+    { status: 200 }
+  );
+}
+
 export async function POST(req: Request) {
   const strapiBase = normalizeStrapiBase(
     process.env.STRAPI_URL || process.env.NEXT_PUBLIC_STRAPI_URL || "http://localhost:1337"
@@ -466,8 +908,26 @@ export async function POST(req: Request) {
     return NextResponse.json({ error: "Orden no encontrada", orderId }, { status: 404 });
   }
 
-  // Solo generar si está paid
   const status = String(order?.orderStatus ?? "").toLowerCase();
+
+  // ✅ Nota de crédito (reembolso): camino aparte, al lado del comprobante original
+  if (String(body?.kind ?? "").trim() === "credit_note") {
+    return generateCreditNote({
+      strapiBase,
+      token,
+      order,
+      orderId,
+      status,
+      refundId: body?.refundId != null ? String(body.refundId) : null,
+    });
+  }
+
+  // ✅ Remito sin precios (para armar el paquete), al lado del comprobante
+  if (String(body?.kind ?? "").trim() === "packing_slip") {
+    return generatePackingSlip({ strapiBase, token, order, status });
+  }
+
+  // Solo generar si está paid
   if (status !== "paid") {
     return NextResponse.json({ error: "La orden todavía no está pagada", orderStatus: order?.orderStatus }, { status: 409 });
   }
@@ -517,34 +977,17 @@ export async function POST(req: Request) {
   const filename = `${invoiceNumber}.pdf`;
 
   // 4) Upload a Strapi
-  const uploadUrl = `${strapiBase}/api/upload`;
-  const form = new FormData();
-  form.append("files", new Blob([pdfBuffer], { type: "application/pdf" }), filename);
-
-  const uploadRes = await fetch(uploadUrl, {
-    method: "POST",
-    headers: { Authorization: `Bearer ${token}` },
-    body: form,
-    cache: "no-store",
-  });
+  const upload = await uploadPdfToStrapi(strapiBase, token, pdfBuffer, filename);
 
-  const uploadText = await uploadRes.text().catch(() => "");
-  let uploaded: any = null;
-  try {
-    uploaded = uploadText ? JSON.parse(uploadText) : null;
-  } catch {
-    uploaded = { _raw: uploadText || null };
-  }
-
-  if (!uploadRes.ok || !Array.isArray(uploaded) || !uploaded[0]?.id) {
+  if (!upload.ok) {
     return NextResponse.json(
-      { error: "No se pudo subir el PDF a Strapi", status: uploadRes.status, details: uploaded },
+      { error: "No se pudo subir el PDF a Strapi", status: upload.status, details: upload.details },
       { status: 500 }
     );
   }
 
-  const fileId = uploaded[0].id;
-  const uploadedPdfUrl = uploaded?.[0]?.url ? String(uploaded[0].url).trim() : null;
+  const fileId = upload.fileId;
+  const uploadedPdfUrl = upload.url;
 
   // 5) Crear Invoice (intentando dejarla linkeada al Order)
   const baseInvoiceData: any = {
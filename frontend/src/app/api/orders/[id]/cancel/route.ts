@@ -0,0 +1,400 @@
+// src/app/api/orders/[id]/cancel/route.ts
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { findGuestOrder, readGuestOrderToken } from "@/lib/guest-orders";
+import { fetcher } from "@/lib/fetcher";
+import { releaseReservation, restockReservation } from "@/lib/stock-reservations";
+import { releaseGiftCardRedemption } from "@/lib/gift-cards";
+import { cancelMpPayment, refundMpPayment } from "@/lib/mp/payments";
+import { expireOrderPreferences } from "@/lib/mp/preference";
+import { CANCEL_COMMENT_MAX, customerCancelState, isCustomerCancelReason } from "@/lib/order-cancellation";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * POST /api/orders/:id/cancel   body: { reason, comment? }
+ *
+ * El cliente cancela su pedido desde Mis pedidos (invitados: token firmado, ver lib/guest-orders).
+ * - pending / awaiting_payment: se cancela y se libera la reserva de stock (y el pago pendiente de MP, si hay);
+ *   las preferencias de MP de la orden se vencen para que no se pueda pagar después (si igual entra un pago,
+ *   el webhook lo reembolsa, ver webhook-pipeline).
+ * - paid (MP, sin despachar): reembolso total por MP, el stock vuelve, nota de crédito por el reembolso.
+ * - Con gift card: lo usado vuelve al saldo (pagada toda con gift card: no hay reembolso por MP).
+ * - paid por transferencia / efectivo, con el envío ya generado en el correo, shipped, delivered...:
+ *   409 ORDER_NOT_CANCELLABLE (el cliente nos escribe).
+ * Al final, email de confirmación (/api/email/order-cancelled).
+ *
+ * ⚠️ La orden pasa a "cancelled" ANTES de pedir el reembolso: así el webhook de MP que llega con
+ * "refunded" la deja cancelada (ver mapMpToOrderStatus). Si MP falla, queda cancelada con
+ * `cancelRefundPending: true` y el cliente puede reintentar (customerCancelState la deja pasar);
+ * stock, gift card, nota de crédito y email se hacen recién con el reembolso hecho.
+ * Reintentar es seguro: el reembolso va con X-Idempotency-Key por orden.
+ */
+
+const MP_PENDING_STATUSES = ["pending", "in_process", "authorized"];
+
+function normalizeBaseUrl(url: string) {
+  const u = String(url ?? "").trim();
+  return u.endsWith("/") ? u.slice(0, -1) : u;
+}
+
+function normalizeStrapiBase(url: string) {
+  let u = String(url ?? "").trim();
+  u = u.endsWith("/") ? u.slice(0, -1) : u;
+  if (u.toLowerCase().endsWith("/api")) u = u.slice(0, -4);
+  return u;
+}
+
+function ensureAbsoluteUrl(url: string, base: string) {
+  const u = String(url ?? "").trim();
+  if (!u) return u;
+  if (/^https?:\/\//i.test(u)) return u;
+  return `${base}${u.startsWith("/") ? "" : "/"}${u}`;
+}
+
+function readUserJwtFromCookies() {
+  const jar = cookies();
+  return (
+    jar.get("strapi_jwt")?.value ||
+    jar.get("jwt")?.value ||
+    jar.get("token")?.value ||
+    jar.get("access_token")?.value ||
+    null
+  );
+}
+
+function flattenRow(row: any) {
+  if (!row) return row;
+  if (row?.attributes) {
+    return {
+      id: row.id ?? null,
+      documentId: row.documentId ?? row?.attributes?.documentId ?? null,
+      ...row.attributes,
+    };
+  }
+  return row;
+}
+
+function readMoney(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? Math.round(n) : def;
+}
+
+type OrderRefund = {
+  id: string;
+  amount: number;
+  date: string | null;
+  creditNoteNumber?: string | null;
+  creditNotePdfUrl?: string | null;
+  notifiedAt?: string | null;
+};
+
+function readRefunds(order: any): OrderRefund[] {
+  const list = Array.isArray(order?.refunds) ? order.refunds : [];
+  return list.filter((r: any) => r?.id != null).map((r: any) => ({ ...r, id: String(r.id) }));
+}
+
+/** ✅ Busca la orden entre las del usuario (ownership garantizado por /orders/my) */
+async function findMyOrder(strapiBase: string, jwt: string, idOrNumber: string) {
+  const res = await fetch(`${strapiBase}/api/orders/my`, {
+    headers: { Authorization: `Bearer ${jwt}` },
+    cache: "no-store",
+  });
+  const json = await res.json().catch(() => null);
+
+  if (!res.ok) return { ok: false as const, status: res.status, json };
+
+  const list = Array.isArray(json?.data) ? json.data : [];
+  const wanted = idOrNumber.trim().toLowerCase();
+
+  const found = list
+    .map(flattenRow)
+    .find(
+      (o: any) =>
+        String(o?.documentId ?? "").trim().toLowerCase() === wanted ||
+        String(o?.orderNumber ?? "").trim().toLowerCase() === wanted ||
+        (o?.id != null && String(o.id) === wanted)
+    );
+
+  if (!found) return { ok: false as const, status: 404, json: null };
+  return { ok: true as const, order: found };
+}
+
+async function updateOrder(orderId: string, data: Record<string, any>) {
+  await fetcher<any>(`/api/orders/${encodeURIComponent(orderId)}`, {
+    method: "PUT",
+    auth: true,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ data }),
+  });
+}
+
+async function generateCreditNote(siteUrl: string, orderId: string, refundId: string) {
+  const r = await fetch(`${siteUrl}/api/invoices/generate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ orderId, kind: "credit_note", refundId }),
+    cache: "no-store",
+  });
+
+  const j = await r.json().catch(() => null);
+  if (!r.ok) throw new Error(`credit note generate failed (${r.status}) ${j ? JSON.stringify(j) : ""}`);
+
+  return {
+    invoiceNumber: j?.invoiceNumber ? String(j.invoiceNumber) : null,
+    pdfUrl: j?.pdfUrl ? String(j.pdfUrl) : null,
+  };
+}
+
+async function sendCancelledEmail(siteUrl: string, payload: Record<string, any>) {
+  const res = await fetch(`${siteUrl}/api/email/order-cancelled`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+    cache: "no-store",
+  });
+
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Cancel email failed (${res.status}) ${t || "(no body)"}`);
+  }
+}
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const jwt = readUserJwtFromCookies();
+  const guestToken = jwt ? null : readGuestOrderToken(req);
+  if (!jwt && !guestToken) {
+    return NextResponse.json({ error: "No autorizado: iniciá sesión." }, { status: 401 });
+  }
+
+  const siteUrl = normalizeBaseUrl(process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000");
+  const strapiBase = normalizeStrapiBase(
+    process.env.STRAPI_URL || process.env.NEXT_PUBLIC_STRAPI_URL || "http://localhost:1337"
+  );
+
+  const idOrNumber = String(params?.id ?? "").trim();
+  if (!idOrNumber) return NextResponse.json({ error: "Falta id" }, { status: 400 });
+
+  const body = await req.json().catch(() => null);
+  const reason = String(body?.reason ?? "").trim();
+  const comment = String(body?.comment ?? "").trim().slice(0, CANCEL_COMMENT_MAX) || null;
+
+  if (!isCustomerCancelReason(reason)) {
+    return NextResponse.json(
+      { error: "Elegí el motivo de la cancelación.", code: "CANCEL_REASON_INVALID" },
+      { status: 400 }
+    );
+  }
+
+  const found = jwt ? await findMyOrder(strapiBase, jwt, idOrNumber) : await findGuestOrder(guestToken, idOrNumber);
+  if (!found.ok) {
+    return NextResponse.json(
+      {
+        error:
+          found.status === 404
+            ? "Pedido no encontrado"
+            : found.status === 401
+            ? "El link del pedido venció o no es válido."
+            : "Strapi error (orders/my)",
+        details: "json" in found ? found.json : null,
+      },
+      { status: found.status || 500 }
+    );
+  }
+
+  const order = found.order;
+  const orderId = String(order?.documentId ?? "").trim();
+  const prevStatus = String(order?.orderStatus ?? "pending").trim().toLowerCase();
+  const state = customerCancelState(order);
+
+  if (state !== "allowed") {
+    return NextResponse.json(
+      {
+        error:
+          state === "manual_refund"
+            ? "Para cancelar un pedido pagado por transferencia o en efectivo escribinos: el reintegro lo hacemos a mano."
+            : state === "shipment_created"
+            ? "Tu pedido ya está en manos del correo. Escribinos para cancelarlo."
+            : "Este pedido ya no se puede cancelar.",
+        code: "ORDER_NOT_CANCELLABLE",
+        reason: state,
+        orderStatus: prevStatus,
+      },
+      { status: 409 }
+    );
+  }
+
+  if (!orderId) {
+    return NextResponse.json({ error: "La orden no tiene documentId" }, { status: 400 });
+  }
+
+  // Reintento de una cancelación cuyo reembolso falló: la orden estaba pagada
+  const isRetry = prevStatus === "cancelled" && order?.cancelRefundPending === true;
+  const isPaid = prevStatus === "paid" || isRetry;
+  const accessToken = process.env.MP_ACCESS_TOKEN;
+  const mpPaymentId = String(order?.mpPaymentId ?? "").trim();
+  const mpExternalReference = String(order?.mpExternalReference ?? "").trim();
+  const giftCardAmount = readMoney(order?.giftCardAmount, 0);
+  // Pagada toda con gift card: no hay pago de MP que reembolsar
+  const needsMpRefund = isPaid && giftCardAmount < readMoney(order?.total, 0);
+
+  if (needsMpRefund && (!accessToken || !mpPaymentId)) {
+    return NextResponse.json(
+      {
+        error: !accessToken
+          ? "Falta MP_ACCESS_TOKEN en el servidor"
+          : "La orden no tiene el pago de Mercado Pago. Escribinos para cancelarla.",
+      },
+      { status: 500 }
+    );
+  }
+
+  const cancelledAt = isRetry && order?.cancelledAt ? String(order.cancelledAt) : new Date().toISOString();
+  const cancelReason = isRetry && order?.cancelReason ? String(order.cancelReason) : reason;
+  const warnings: string[] = [];
+
+  // 1) Orden cancelada (antes del reembolso, ver arriba)
+  if (!isRetry) {
+    try {
+      await updateOrder(orderId, {
+        orderStatus: "cancelled",
+        cancelledAt,
+        cancelReason,
+        cancelComment: comment,
+        cancelRefundPending: needsMpRefund,
+      });
+    } catch (e: any) {
+      return NextResponse.json(
+        { error: "No se pudo actualizar la orden", details: e?.message || String(e) },
+        { status: 502 }
+      );
+    }
+  }
+
+  // 2) Plata: reembolso total (pagada) o cancelar el pago pendiente de MP (si había uno)
+  let refund: OrderRefund | null = null;
+
+  if (needsMpRefund) {
+    const r = await refundMpPayment({
+      accessToken: accessToken!,
+      paymentId: mpPaymentId,
+      idempotencyKey: `order-cancel/${orderId}`,
+    });
+
+    if (!r.ok) {
+      // Queda cancelada con cancelRefundPending: el cliente reintenta desde Mis pedidos
+      return NextResponse.json(
+        {
+          error: "Cancelamos tu pedido pero no pudimos hacer el reembolso. Probá de nuevo en unos minutos.",
+          code: "MP_REFUND_FAILED",
+          retryable: true,
+          details: r.details,
+        },
+        { status: 502 }
+      );
+    }
+
+    // El aviso del reembolso va en el email de cancelación (el webhook no manda otro)
+    refund = {
+      id: r.refundId,
+      amount: r.amount ?? readMoney(order?.total, 0) - giftCardAmount,
+      date: r.date ?? cancelledAt,
+      notifiedAt: cancelledAt,
+    };
+  } else if (!isPaid && accessToken) {
+    if (mpExternalReference) {
+      await expireOrderPreferences({ accessToken, mpExternalReference }).catch((e: any) =>
+        warnings.push(e?.message || String(e))
+      );
+    }
+    if (mpPaymentId && MP_PENDING_STATUSES.includes(String(order?.mpStatus ?? ""))) {
+      await cancelMpPayment({ accessToken, paymentId: mpPaymentId }).catch((e: any) =>
+        warnings.push(e?.message || String(e))
+      );
+    }
+  }
+
+  const refunds = readRefunds(order).filter((r) => r.id !== refund?.id);
+  if (refund) {
+    refunds.push(refund);
+    const refundedAmount = refunds.reduce((acc, r) => acc + readMoney(r.amount, 0), 0);
+
+    try {
+      await updateOrder(orderId, { refunds, refundedAmount, refundedAt: refund.date, cancelRefundPending: false });
+    } catch (e: any) {
+      // El webhook de MP también trae el reembolso: la orden se completa igual
+      warnings.push(e?.message || String(e));
+      await updateOrder(orderId, { cancelRefundPending: false }).catch(() => null);
+    }
+  }
+
+  // 3) Stock: lo descontado vuelve (pagada) o se libera la reserva (sin pagar)
+  let stock: Record<string, any> | null = null;
+  if (mpExternalReference) {
+    try {
+      stock = isPaid ? await restockReservation(mpExternalReference) : await releaseReservation(mpExternalReference);
+    } catch (e: any) {
+      console.error("[cancel] error de stock:", e?.message || e);
+      warnings.push(e?.message || String(e));
+    }
+  }
+
+  // 3b) Gift card: lo usado vuelve al saldo (pagada o no)
+  let giftCardRestored = 0;
+  if (mpExternalReference && giftCardAmount > 0) {
+    try {
+      giftCardRestored = (await releaseGiftCardRedemption(mpExternalReference)).released;
+    } catch (e: any) {
+      console.error("[cancel] error de gift card:", e?.message || e);
+      warnings.push(e?.message || String(e));
+    }
+  }
+
+  // 4) Comprobante: nota de crédito por el reembolso (sin pago no hay comprobante que anular)
+  if (refund) {
+    try {
+      const cn = await generateCreditNote(siteUrl, orderId, refund.id);
+      refund.creditNoteNumber = cn.invoiceNumber;
+      refund.creditNotePdfUrl = cn.pdfUrl ? ensureAbsoluteUrl(cn.pdfUrl, strapiBase) : null;
+      await updateOrder(orderId, { refunds });
+    } catch (e: any) {
+      console.error("[cancel] credit note failed:", e?.message || e);
+      warnings.push(e?.message || String(e));
+    }
+  }
+
+  // 5) Email de confirmación
+  let emailSent = false;
+  if (order?.email) {
+    try {
+      await sendCancelledEmail(siteUrl, {
+        email: order.email,
+        name: order?.name ?? null,
+        orderNumber: order?.orderNumber || orderId,
+        cancelReason,
+        cancelledAt,
+        refundAmount: refund?.amount ?? 0,
+        giftCardRestored,
+        creditNoteNumber: refund?.creditNoteNumber ?? null,
+        creditNotePdfUrl: refund?.creditNotePdfUrl ?? null,
+      });
+      emailSent = true;
+    } catch (e: any) {
+      console.error("[cancel] email failed:", e?.message || e);
+      warnings.push(e?.message || String(e));
+    }
+  }
+
+  return NextResponse.json({
+    ok: true,
+    orderId,
+    orderStatus: "cancelled",
+    cancelledAt,
+    refund,
+    stock,
+    giftCardRestored,
+    emailSent,
+    ...(warnings.length ? { warnings } : {}),
+  });
+}
@@ -0,0 +1,309 @@
+// src/app/api/orders/[id]/retry-payment/route.ts
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { findGuestOrder, readGuestOrderToken } from "@/lib/guest-orders";
+import { fetcher } from "@/lib/fetcher";
+import { computeOrderTotals, findPriceMismatches } from "@/lib/pricing";
+import { readOrderGift } from "@/lib/gift-options";
+import { ensureReservationOrThrow } from "@/lib/stock-reservations";
+import { createPreferenceForOrder } from "@/lib/mp/preference";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * POST /api/orders/:id/retry-payment
+ *
+ * "Reintentar pago" desde Mis pedidos: para una orden pending/failed del usuario
+ * 1) re-valida precios (mismo cálculo que orders/create) contra lo guardado
+ * 2) re-valida/renueva la reserva de stock
+ * 3) genera una preferencia nueva de MP (mismo external_reference, así el webhook la encuentra)
+ *
+ * Invitados: acceso con el token firmado del magic link (header x-guest-token / cookie).
+ */
+
+const RETRYABLE_STATUSES = ["pending", "failed"];
+
+function normalizeBaseUrl(url: string) {
+  const u = String(url ?? "").trim();
+  return u.endsWith("/") ? u.slice(0, -1) : u;
+}
+
+function normalizeStrapiBase(url: string) {
+  let u = String(url ?? "").trim();
+  u = u.endsWith("/") ? u.slice(0, -1) : u;
+  if (u.toLowerCase().endsWith("/api")) u = u.slice(0, -4);
+  return u;
+}
+
+function isHttpUrl(url: string) {
+  return /^https?:\/\//i.test(url);
+}
+
+function readUserJwtFromCookies() {
+  const jar = cookies();
+  return (
+    jar.get("strapi_jwt")?.value ||
+    jar.get("jwt")?.value ||
+    jar.get("token")?.value ||
+    jar.get("access_token")?.value ||
+    null
+  );
+}
+
+function flattenRow(row: any) {
+  if (!row) return row;
+  if (row?.attributes) {
+    return {
+      id: row.id ?? null,
+      documentId: row.documentId ?? row?.attributes?.documentId ?? null,
+      ...row.attributes,
+    };
+  }
+  return row;
+}
+
+function readMoney(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? Math.round(n) : def;
+}
+
+/** ✅ Busca la orden entre las del usuario (ownership garantizado por /orders/my) */
+async function findMyOrder(strapiBase: string, jwt: string, idOrNumber: string) {
+  const res = await fetch(`${strapiBase}/api/orders/my`, {
+    headers: { Authorization: `Bearer ${jwt}` },
+    cache: "no-store",
+  });
+  const json = await res.json().catch(() => null);
+
+  if (!res.ok) return { ok: false as const, status: res.status, json };
+
+  const list = Array.isArray(json?.data) ? json.data : [];
+  const wanted = idOrNumber.trim().toLowerCase();
+
+  const found = list
+    .map(flattenRow)
+    .find(
+      (o: any) =>
+        String(o?.documentId ?? "").trim().toLowerCase() === wanted ||
+        String(o?.orderNumber ?? "").trim().toLowerCase() === wanted ||
+        (o?.id != null && String(o.id) === wanted)
+    );
+
+  if (!found) return { ok: false as const, status: 404, json: null };
+  return { ok: true as const, order: found };
+}
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const jwt = readUserJwtFromCookies();
+  const guestToken = jwt ? null : readGuestOrderToken(req);
+  if (!jwt && !guestToken) {
+    return NextResponse.json({ error: "No autorizado: iniciá sesión para pagar." }, { status: 401 });
+  }
+
+  const accessToken = process.env.MP_ACCESS_TOKEN;
+  if (!accessToken) {
+    return NextResponse.json({ error: "Falta MP_ACCESS_TOKEN en el servidor" }, { status: 500 });
+  }
+
+  const rawSiteUrl = process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000";
+  const siteUrl = normalizeBaseUrl(rawSiteUrl);
+  if (!isHttpUrl(siteUrl)) {
+    return NextResponse.json(
+      { error: "NEXT_PUBLIC_SITE_URL inválida (http/https requerido)", got: rawSiteUrl },
+      { status: 500 }
+    );
+  }
+
+  const strapiBase = normalizeStrapiBase(
+    process.env.STRAPI_URL || process.env.NEXT_PUBLIC_STRAPI_URL || "http://localhost:1337"
+  );
+
+  const idOrNumber = String(params?.id ?? "").trim();
+  if (!idOrNumber) return NextResponse.json({ error: "Falta id" }, { status: 400 });
+
+  const found = jwt ? await findMyOrder(strapiBase, jwt, idOrNumber) : await findGuestOrder(guestToken, idOrNumber);
+  if (!found.ok) {
+    return NextResponse.json(
+      {
+        error:
+          found.status === 404
+            ? "Pedido no encontrado"
+            : found.status === 401
+            ? "El link del pedido venció o no es válido."
+            : "Strapi error (orders/my)",
+        details: "json" in found ? found.json : null,
+      },
+      { status: found.status || 500 }
+    );
+  }
+
+  const order = found.order;
+  const orderId = String(order?.documentId ?? "").trim();
+  const orderStatus = String(order?.orderStatus ?? "pending").trim().toLowerCase();
+
+  if (!RETRYABLE_STATUSES.includes(orderStatus)) {
+    return NextResponse.json(
+      { error: "Este pedido ya no se puede pagar.", code: "ORDER_NOT_RETRYABLE", orderStatus },
+      { status: 409 }
+    );
+  }
+
+  const mpExternalReference = String(order?.mpExternalReference ?? "").trim();
+  if (!orderId || !mpExternalReference) {
+    return NextResponse.json(
+      { error: "La orden no tiene mpExternalReference. Armá el pedido de nuevo desde el carrito." },
+      { status: 400 }
+    );
+  }
+
+  const items = Array.isArray(order?.items) ? order.items : [];
+  if (!items.length) {
+    return NextResponse.json({ error: "La orden no tiene items válidos en Strapi" }, { status: 400 });
+  }
+
+  // ===================== PRECIOS =====================
+  // ⚠️ Si cambió algo (precio, promo vencida, envío), no cobramos la orden vieja:
+  // el cliente tiene que armar el pedido de nuevo con los valores vigentes.
+
+  let server: Awaited<ReturnType<typeof computeOrderTotals>>;
+  try {
+    server = await computeOrderTotals({
+      items,
+      coupon: order?.coupon ?? null,
+      shippingMethod: order?.shippingMethod === "pickup" ? "pickup" : "delivery",
+      destination: {
+        province: order?.shippingAddress?.province ?? null,
+        postalCode: order?.shippingAddress?.postalCode ?? null,
+      },
+      carrierId: order?.shippingCarrier ?? order?.shippingQuote?.carrierId ?? null,
+      paymentMethod: order?.paymentMethod ?? null,
+      giftWrap: Boolean(readOrderGift(order?.gift)?.giftWrap),
+      customerEmail: order?.email ?? null,
+      excludeOrderDocumentId: orderId,
+    });
+  } catch (e: any) {
+    if (e?.code === "PAYMENT_METHOD_NOT_ALLOWED") {
+      return NextResponse.json(
+        {
+          error: "El medio de pago de este pedido ya no está disponible. Armá el pedido de nuevo.",
+          code: "PAYMENT_METHOD_NOT_ALLOWED",
+        },
+        { status: 409 }
+      );
+    }
+    if (e?.code === "SHIPPING_NOT_AVAILABLE") {
+      return NextResponse.json(
+        {
+          error: "El envío de este pedido ya no está disponible. Armá el pedido de nuevo.",
+          code: "SHIPPING_NOT_AVAILABLE",
+          reason: e.reason ?? null,
+        },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(
+      { error: "No se pudieron verificar los precios", details: e?.message || String(e) },
+      { status: 502 }
+    );
+  }
+
+  if (order?.coupon && server.couponRejection) {
+    return NextResponse.json(
+      {
+        error: `${server.couponRejection.message} Armá el pedido de nuevo desde el carrito.`,
+        code: "COUPON_REJECTED",
+        reason: server.couponRejection.code,
+      },
+      { status: 409 }
+    );
+  }
+
+  const mismatch = findPriceMismatches({
+    clientItems: items,
+    clientTotals: {
+      subtotal: readMoney(order?.subtotal, server.subtotal),
+      discountTotal: readMoney(order?.discountTotal, 0),
+      shippingCost: readMoney(order?.shippingCost, 0),
+      paymentAdjustment: readMoney(order?.paymentAdjustment, 0),
+      giftWrapCost: readMoney(order?.giftWrapCost, 0),
+      total: readMoney(order?.total, 0),
+    },
+    server,
+  });
+
+  if (mismatch.lines.length || mismatch.totals.length) {
+    return NextResponse.json(
+      {
+        error: "Los precios cambiaron desde que hiciste el pedido. Armalo de nuevo desde el carrito.",
+        code: "PRICE_MISMATCH",
+        lines: mismatch.lines,
+        totals: mismatch.totals,
+      },
+      { status: 409 }
+    );
+  }
+
+  // ===================== STOCK =====================
+
+  let holdExpiresAt: string;
+  try {
+    holdExpiresAt = (await ensureReservationOrThrow(mpExternalReference, items)).expiresAt;
+  } catch (e: any) {
+    if (e?.code === "OUT_OF_STOCK") {
+      const problems = (e.problems ?? []).map((p: any) => ({
+        productDocumentId: p.documentId,
+        title: p.title,
+        requested: p.requested,
+        available: p.available,
+      }));
+      return NextResponse.json({ error: "Sin stock suficiente", code: "OUT_OF_STOCK", problems }, { status: 409 });
+    }
+    return NextResponse.json({ error: e?.message || "Error validando stock", code: e?.code }, { status: 500 });
+  }
+
+  // ✅ Vuelve a pending y reinicia el plazo de auto-cancelación (ver lib/mp/reconcile)
+  try {
+    await fetcher<any>(`/api/orders/${encodeURIComponent(orderId)}`, {
+      method: "PUT",
+      auth: true,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        data: {
+          orderStatus: "pending",
+          lastPaymentRetryAt: new Date().toISOString(),
+          paymentRetryCount: Math.max(0, Math.floor(Number(order?.paymentRetryCount ?? 0) || 0)) + 1,
+        },
+      }),
+    });
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: "No se pudo actualizar la orden", details: e?.message || String(e) },
+      { status: 502 }
+    );
+  }
+
+  const pref = await createPreferenceForOrder({
+    order,
+    orderId,
+    mpExternalReference,
+    siteUrl,
+    accessToken,
+    expiresAt: holdExpiresAt,
+  });
+
+  if (!pref.ok) {
+    return NextResponse.json(
+      { error: pref.error, status: pref.status, details: pref.details },
+      { status: pref.status }
+    );
+  }
+
+  return NextResponse.json({
+    id: pref.id,
+    init_point: pref.init_point,
+    sandbox_init_point: pref.sandbox_init_point,
+    mpExternalReference: pref.mpExternalReference,
+    orderId,
+  });
+}
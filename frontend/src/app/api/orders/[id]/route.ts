@@ -1,5 +1,7 @@
 import { NextResponse } from "next/server";
 import { cookies } from "next/headers";
+import { findGuestOrder, readGuestOrderToken } from "@/lib/guest-orders";
+import { listOrderEventsSafe } from "@/lib/order-events";
 
 export const dynamic = "force-dynamic";
 export const runtime = "nodejs";
@@ -12,8 +14,9 @@ export const runtime = "nodejs";
  * - orderNumber (ej: "AMG-0051")
  * - id numérico
  *
- * Requiere login (JWT en cookie).
+ * Requiere login (JWT en cookie) o token de invitado (`?token=`, `x-guest-token` o cookie).
  * Implementación segura: consulta /api/orders/my (Strapi) y busca ahí.
+ * Devuelve también `events` (timeline de lib/order-events).
  */
 
 function isNumeric(v: string) {
@@ -72,7 +75,7 @@ function normalizeOrderRow(row: any) {
   };
 }
 
-export async function GET(_: Request, { params }: { params: { id: string } }) {
+export async function GET(req: Request, { params }: { params: { id: string } }) {
   const strapiBase = normalizeStrapiBase(
     process.env.STRAPI_URL || process.env.NEXT_PUBLIC_STRAPI_URL || "http://localhost:1337"
   );
@@ -83,6 +86,21 @@ export async function GET(_: Request, { params }: { params: { id: string } }) {
   }
 
   const jwt = readUserJwtFromCookies();
+
+  // ✅ Invitado (magic link / cookie del checkout)
+  const guestToken = jwt ? null : readGuestOrderToken(req);
+  if (!jwt && guestToken) {
+    const guest = await findGuestOrder(guestToken, idOrNumber);
+    if (guest.ok) {
+      const data = normalizeOrderRow(guest.order);
+      const events = await listOrderEventsSafe(data.documentId);
+      return NextResponse.json({ data, events, guest: true }, { status: 200 });
+    }
+    if (guest.status !== 401) {
+      return NextResponse.json({ error: "Order not found", id: idOrNumber }, { status: guest.status });
+    }
+  }
+
   if (!jwt) {
     return NextResponse.json(
       { error: "No autorizado: iniciá sesión para ver tus pedidos." },
@@ -131,5 +149,7 @@ export async function GET(_: Request, { params }: { params: { id: string } }) {
   }
 
   // Devolvemos en formato simple
-  return NextResponse.json({ data: normalizeOrderRow(found) }, { status: 200 });
+  const data = normalizeOrderRow(found);
+  const events = await listOrderEventsSafe(data.documentId);
+  return NextResponse.json({ data, events }, { status: 200 });
 }
@@ -0,0 +1,198 @@
+// src/app/api/orders/[id]/transfer-receipt/route.ts
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { findGuestOrder, readGuestOrderToken } from "@/lib/guest-orders";
+import { RECEIPT_MAX_BYTES, RECEIPT_MIME_TYPES } from "@/lib/offline-payments";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * POST /api/orders/:id/transfer-receipt  (multipart/form-data, campo "file")
+ *
+ * El comprador sube el comprobante de transferencia de una orden awaiting_payment.
+ * - Ownership: buscamos la orden en /orders/my con el JWT del usuario (invitado: token firmado, ver lib/guest-orders)
+ * - El archivo va a la media library de Strapi (token server) y se vincula a la orden
+ * - Se puede volver a subir (reemplaza el anterior) mientras el staff no confirme
+ */
+
+function normalizeStrapiBase(url: string) {
+  let u = String(url ?? "").trim();
+  u = u.endsWith("/") ? u.slice(0, -1) : u;
+  if (u.toLowerCase().endsWith("/api")) u = u.slice(0, -4);
+  return u;
+}
+
+function ensureAbsoluteUrl(url: string, base: string) {
+  const u = String(url ?? "").trim();
+  if (!u) return u;
+  if (/^https?:\/\//i.test(u)) return u;
+  return `${base}${u.startsWith("/") ? "" : "/"}${u}`;
+}
+
+function readUserJwtFromCookies() {
+  const jar = cookies();
+  return (
+    jar.get("strapi_jwt")?.value ||
+    jar.get("jwt")?.value ||
+    jar.get("token")?.value ||
+    jar.get("access_token")?.value ||
+    null
+  );
+}
+
+function flattenRow(row: any) {
+  if (!row) return row;
+  if (row?.attributes) {
+    return {
+      id: row.id ?? null,
+      documentId: row.documentId ?? row?.attributes?.documentId ?? null,
+      ...row.attributes,
+    };
+  }
+  return row;
+}
+
+function sanitizeFileBaseName(name: string) {
+  return String(name || "comprobante")
+    .trim()
+    .replace(/[^\w.-]+/g, "_")
+    .slice(0, 80);
+}
+
+async function findMyOrder(strapiBase: string, jwt: string, idOrNumber: string) {
+  const res = await fetch(`${strapiBase}/api/orders/my`, {
+    headers: { Authorization: `Bearer ${jwt}` },
+    cache: "no-store",
+  });
+  const json = await res.json().catch(() => null);
+
+  if (!res.ok) return { ok: false as const, status: res.status, json };
+
+  const list = Array.isArray(json?.data) ? json.data : [];
+  const wanted = idOrNumber.trim().toLowerCase();
+
+  const found = list
+    .map(flattenRow)
+    .find(
+      (o: any) =>
+        String(o?.documentId ?? "").trim().toLowerCase() === wanted ||
+        String(o?.orderNumber ?? "").trim().toLowerCase() === wanted
+    );
+
+  if (!found) return { ok: false as const, status: 404, json: null };
+  return { ok: true as const, order: found };
+}
+
+export async function POST(req: Request, { params }: { params: { id: string } }) {
+  const jwt = readUserJwtFromCookies();
+  const guestToken = jwt ? null : readGuestOrderToken(req);
+  if (!jwt && !guestToken) {
+    return NextResponse.json({ error: "No autorizado: iniciá sesión." }, { status: 401 });
+  }
+
+  const token = process.env.STRAPI_API_TOKEN || process.env.STRAPI_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: "Falta STRAPI_API_TOKEN/STRAPI_TOKEN en el servidor" }, { status: 500 });
+  }
+
+  const strapiBase = normalizeStrapiBase(
+    process.env.STRAPI_URL || process.env.NEXT_PUBLIC_STRAPI_URL || "http://localhost:1337"
+  );
+
+  const idOrNumber = String(params?.id ?? "").trim();
+  if (!idOrNumber) return NextResponse.json({ error: "Falta id" }, { status: 400 });
+
+  let form: FormData;
+  try {
+    form = await req.formData();
+  } catch {
+    return NextResponse.json({ error: "Body inválido (se esperaba multipart/form-data)" }, { status: 400 });
+  }
+
+  const file = form.get("file");
+  if (!file || typeof file === "string") {
+    return NextResponse.json({ error: "Falta el archivo (campo file)" }, { status: 400 });
+  }
+
+  const blob = file as File;
+  if (!RECEIPT_MIME_TYPES.includes(blob.type)) {
+    return NextResponse.json(
+      { error: "Formato no soportado (JPG, PNG, WEBP, HEIC o PDF)", type: blob.type },
+      { status: 415 }
+    );
+  }
+  if (blob.size <= 0 || blob.size > RECEIPT_MAX_BYTES) {
+    return NextResponse.json({ error: "El archivo tiene que pesar menos de 5 MB" }, { status: 413 });
+  }
+
+  const found = jwt ? await findMyOrder(strapiBase, jwt, idOrNumber) : await findGuestOrder(guestToken, idOrNumber);
+  if (!found.ok) {
+    return NextResponse.json(
+      {
+        error:
+          found.status === 404
+            ? "Pedido no encontrado"
+            : found.status === 401
+            ? "El link del pedido venció o no es válido."
+            : "Strapi error (orders/my)",
+        details: "json" in found ? found.json : null,
+      },
+      { status: found.status || 500 }
+    );
+  }
+
+  const order = found.order;
+  const orderStatus = String(order?.orderStatus ?? "").trim().toLowerCase();
+  const provider = String(order?.paymentMethod?.provider ?? "").trim();
+
+  if (provider !== "transfer" || orderStatus !== "awaiting_payment") {
+    return NextResponse.json(
+      { error: "Este pedido no espera un comprobante de transferencia.", code: "RECEIPT_NOT_EXPECTED" },
+      { status: 409 }
+    );
+  }
+
+  // ✅ Subida a la media library
+  const ext = blob.type === "application/pdf" ? "pdf" : blob.type.split("/")[1] || "jpg";
+  const filename = `${sanitizeFileBaseName(`comprobante_${order.orderNumber || order.documentId}`)}.${ext}`;
+
+  const upload = new FormData();
+  upload.append("files", blob, filename);
+
+  const uploadRes = await fetch(`${strapiBase}/api/upload`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}` },
+    body: upload,
+    cache: "no-store",
+  });
+  const uploaded = await uploadRes.json().catch(() => null);
+
+  if (!uploadRes.ok || !Array.isArray(uploaded) || !uploaded[0]?.id) {
+    return NextResponse.json({ error: "No se pudo subir el comprobante", details: uploaded }, { status: 502 });
+  }
+
+  const fileId = uploaded[0].id;
+  const url = uploaded[0]?.url ? ensureAbsoluteUrl(String(uploaded[0].url), strapiBase) : null;
+  const uploadedAt = new Date().toISOString();
+
+  const updateRes = await fetch(`${strapiBase}/api/orders/${encodeURIComponent(String(order.documentId))}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+    body: JSON.stringify({
+      data: {
+        transferReceipt: fileId,
+        transferReceiptUrl: url,
+        transferReceiptUploadedAt: uploadedAt,
+      },
+    }),
+    cache: "no-store",
+  });
+
+  if (!updateRes.ok) {
+    const details = await updateRes.json().catch(() => null);
+    return NextResponse.json({ error: "No se pudo vincular el comprobante a la orden", details }, { status: 502 });
+  }
+
+  return NextResponse.json({ ok: true, url, uploadedAt });
+}
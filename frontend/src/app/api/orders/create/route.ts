@@ -2,6 +2,28 @@
 import { NextResponse } from "next/server";
 import crypto from "crypto";
 import { cookies } from "next/headers";
+import { computeOrderTotals, findPriceMismatches } from "@/lib/pricing";
+import { releaseReservation, reserveStockOrThrow } from "@/lib/stock-reservations";
+import { offlineHoldTtlMs } from "@/lib/offline-payments";
+import { shippingUnavailableMessage } from "@/lib/shipping";
+import { deliveryDateMessage, resolveDeliveryDate } from "@/lib/delivery-dates";
+import { pickupUnavailableMessage, resolvePickupSelection, type PickupSelection } from "@/lib/pickup-points";
+import { addressInvalidMessage, validateArAddress } from "@/lib/geo";
+import { giftOptionsMessage, readGiftOptions, type GiftOptions } from "@/lib/gift-options";
+import { guestCheckoutEnabled, setGuestOrderCookie, signGuestOrderToken } from "@/lib/guest-orders";
+import {
+  cancelGiftCardRedemption,
+  getGiftCardStatus,
+  giftCardMessage,
+  isGiftCardError,
+  linkGiftCardRedemption,
+  maskGiftCardCode,
+  normalizeGiftCardCode,
+  redeemGiftCardOrThrow,
+  type GiftCardMovement,
+} from "@/lib/gift-cards";
+import { runOfflinePaymentPipeline } from "@/lib/mp/webhook-pipeline";
+import { recheckCouponUsage } from "@/lib/promotion-quote";
 
 export const dynamic = "force-dynamic";
 
@@ -61,11 +83,29 @@ function readShippingMethod(v: any): ShippingMethod {
   return "delivery";
 }
 
+function normalizeBaseUrl(url: string) {
+  const u = String(url ?? "").trim();
+  return u.endsWith("/") ? u.slice(0, -1) : u;
+}
+
 function readMoney(v: any, def = 0) {
   const n = typeof v === "number" ? v : Number(v);
   return Number.isFinite(n) ? Math.round(n) : def;
 }
 
+/** 409 de gift card: `reason` = not_found | expired | empty | insufficient | not_allowed */
+function giftCardRejected(e: any, extra: Record<string, any> = {}) {
+  return NextResponse.json(
+    {
+      error: giftCardMessage(e),
+      code: "GIFT_CARD_REJECTED",
+      reason: String(e?.code ?? "").replace(/^GIFT_CARD_/, "").toLowerCase() || null,
+      ...extra,
+    },
+    { status: 409 }
+  );
+}
+
 /**
  * Lee JWT del usuario desde cookies (probamos varios nombres comunes).
  * Ajustá/limpiá si ya sabés el nombre exacto.
@@ -88,9 +128,11 @@ export async function POST(req: Request) {
       "http://localhost:1337"
   );
 
-  // ✅ Ahora el checkout crea órdenes SOLO logueado
+  // ✅ Logueado: la orden se crea como el usuario.
+  // Invitado: se crea con el token server y el acceso va por link firmado (lib/guest-orders).
   const jwt = readUserJwtFromCookies();
-  if (!jwt) {
+  const isGuest = !jwt;
+  if (isGuest && !guestCheckoutEnabled()) {
     return NextResponse.json(
       { error: "No autorizado: iniciá sesión para crear una orden." },
       { status: 401 }
@@ -136,12 +178,9 @@ export async function POST(req: Request) {
   }
 
   const shippingMethod: ShippingMethod = readShippingMethod(incomingData.shippingMethod);
-  const shippingCost = readMoney(incomingData.shippingCost, 0);
-  const pickupPoint = isNonEmptyString(incomingData.pickupPoint)
-    ? incomingData.pickupPoint.trim()
-    : null;
-
-  if (shippingCost < 0) return badRequest("shippingCost inválido", { shippingCost });
+  // ✅ Retiro: sucursal + turno elegidos ({ pickup: { pointId, slotStart } }); el texto lo arma el server
+  const pickupPointId = isNonEmptyString(incomingData?.pickup?.pointId) ? incomingData.pickup.pointId.trim() : "";
+  const pickupSlotStart = isNonEmptyString(incomingData?.pickup?.slotStart) ? incomingData.pickup.slotStart.trim() : "";
 
   const shipping = readShipping(incomingData);
 
@@ -151,40 +190,323 @@ export async function POST(req: Request) {
     if (shipping.city.length < 2) return badRequest("Falta city", { city: shipping.city });
     if (shipping.province.length < 2) return badRequest("Falta province", { province: shipping.province });
     if (shipping.postalCode.length < 4) return badRequest("Falta postalCode", { postalCode: shipping.postalCode });
-  } else {
-    if (!pickupPoint) {
-      return badRequest("Falta pickupPoint para retiro en sucursal", { pickupPoint });
+
+    // ✅ Provincia / localidad / CP consistentes; guardamos los nombres normalizados (zonas de envío, correos)
+    try {
+      const geo = validateArAddress(shipping);
+      shipping.province = geo.province;
+      shipping.city = geo.city;
+      shipping.postalCode = geo.postalCode;
+    } catch (e: any) {
+      return NextResponse.json(
+        { error: addressInvalidMessage(e), code: "ADDRESS_INVALID", reason: e?.reason ?? null },
+        { status: 400 }
+      );
+    }
+  } else if (!pickupPointId || !pickupSlotStart) {
+    return badRequest("Elegí la sucursal y el horario de retiro", { pickup: incomingData?.pickup ?? null });
+  }
+
+  let pickup: PickupSelection | null = null;
+  if (shippingMethod === "pickup") {
+    try {
+      pickup = (await resolvePickupSelection({ pointId: pickupPointId, slotStart: pickupSlotStart })).selection;
+    } catch (e: any) {
+      if (e?.code === "PICKUP_POINT_NOT_FOUND" || e?.code === "PICKUP_SLOT_UNAVAILABLE") {
+        return NextResponse.json(
+          { error: pickupUnavailableMessage(e), code: "PICKUP_SLOT_UNAVAILABLE", reason: e.reason ?? null },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        { error: "No pudimos verificar el horario de retiro. Probá de nuevo.", details: e?.details || e?.message || String(e) },
+        { status: 502 }
+      );
     }
   }
+  const pickupPoint = pickup ? `${pickup.name} (${pickup.address})` : null;
+
+  // Correo elegido en el checkout (solo si hay correos habilitados; lib/shipping lo valida)
+  const shippingCarrier =
+    shippingMethod === "delivery" && isNonEmptyString(incomingData.shippingCarrier)
+      ? incomingData.shippingCarrier.trim().toLowerCase()
+      : null;
 
   const items = Array.isArray(incomingData.items) ? incomingData.items : [];
   if (items.length === 0) return badRequest("Tu carrito está vacío (items).");
 
-  const subtotal = readMoney(incomingData.subtotal, 0);
-  const discountTotal = readMoney(incomingData.discountTotal, 0);
+  // ✅ Regalo: destinatario + mensaje para la tarjeta + papel de regalo (se cobra aparte)
+  let gift: GiftOptions | null = null;
+  try {
+    gift = readGiftOptions(incomingData.gift);
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: giftOptionsMessage(e), code: "GIFT_OPTIONS_INVALID", reason: e?.reason ?? null },
+      { status: 400 }
+    );
+  }
+
+  // ===================== PRECIOS (SERVER) =====================
+  // ⚠️ No confiamos en subtotal/discountTotal/shippingCost/total del cliente:
+  // recalculamos con precios de Strapi + quote + envío y solo persistimos eso.
+
+  const coupon = isNonEmptyString(incomingData.coupon) ? incomingData.coupon.trim() : null;
+  const paymentMethod =
+    incomingData.paymentMethod && typeof incomingData.paymentMethod === "object"
+      ? incomingData.paymentMethod
+      : null;
+
+  let server: Awaited<ReturnType<typeof computeOrderTotals>>;
+  try {
+    server = await computeOrderTotals({
+      items,
+      coupon,
+      shippingMethod,
+      destination: shippingMethod === "delivery" ? { province: shipping.province, postalCode: shipping.postalCode } : null,
+      carrierId: shippingCarrier,
+      paymentMethod,
+      giftWrap: Boolean(gift?.giftWrap),
+      customerEmail: email,
+    });
+  } catch (e: any) {
+    if (e?.code === "PAYMENT_METHOD_NOT_ALLOWED") {
+      return NextResponse.json(
+        {
+          error:
+            e.reason === "max_installments"
+              ? `Las promociones de tu carrito permiten hasta ${e.maxInstallments} cuotas.`
+              : e.reason === "cash_requires_pickup"
+              ? "El pago en efectivo es solo para retiro en sucursal."
+              : e.reason === "provider_disabled"
+              ? "Ese medio de pago no está disponible en este momento."
+              : "Ese medio de pago no está disponible para las promociones de tu carrito.",
+          code: "PAYMENT_METHOD_NOT_ALLOWED",
+          reason: e.reason ?? null,
+        },
+        { status: 409 }
+      );
+    }
+
+    if (e?.code === "SHIPPING_NOT_AVAILABLE") {
+      return NextResponse.json(
+        { error: shippingUnavailableMessage(e), code: "SHIPPING_NOT_AVAILABLE", reason: e.reason ?? null },
+        { status: 409 }
+      );
+    }
+
+    if (e?.code === "SHIPPING_UNAVAILABLE") {
+      return NextResponse.json(
+        { error: "No pudimos calcular el envío. Probá de nuevo en unos minutos.", code: "SHIPPING_UNAVAILABLE" },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "No se pudieron verificar los precios", details: e?.message || String(e) },
+      { status: 502 }
+    );
+  }
+
+  if (!server.items.length && !server.missing.length) {
+    return badRequest("Tu carrito está vacío (items).");
+  }
+
+  // ✅ Entrega programada (opcional, solo envío a domicilio): se suma la demora del correo elegido
+  let deliveryDate: string | null = null;
+  if (shippingMethod === "delivery" && isNonEmptyString(incomingData.deliveryDate)) {
+    try {
+      deliveryDate = await resolveDeliveryDate({
+        date: incomingData.deliveryDate,
+        extraDays: server.shippingQuote.etaDays?.max ?? 0,
+      });
+    } catch (e: any) {
+      if (e?.code === "DELIVERY_DATE_UNAVAILABLE") {
+        return NextResponse.json(
+          { error: deliveryDateMessage(e), code: "DELIVERY_DATE_UNAVAILABLE", reason: e.reason ?? null },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        { error: "No pudimos verificar la fecha de entrega. Probá de nuevo.", details: e?.details || e?.message || String(e) },
+        { status: 502 }
+      );
+    }
+  }
+
+  // ✅ Cupón que ya no aplica (venció, se agotó, cambió el carrito): avisamos antes que el mismatch de totales
+  if (coupon && server.couponRejection) {
+    return NextResponse.json(
+      {
+        error: server.couponRejection.message,
+        code: "COUPON_REJECTED",
+        reason: server.couponRejection.code,
+        coupon,
+      },
+      { status: 409 }
+    );
+  }
+
+  const mismatch = findPriceMismatches({
+    clientItems: items,
+    clientTotals: {
+      subtotal: readMoney(incomingData.subtotal, 0),
+      discountTotal: readMoney(incomingData.discountTotal, 0),
+      shippingCost: readMoney(incomingData.shippingCost, 0),
+      paymentAdjustment: readMoney(incomingData.paymentAdjustment, 0),
+      giftWrapCost: readMoney(incomingData.giftWrapCost, 0),
+      total: readMoney(incomingData.total, 0),
+    },
+    server,
+  });
+
+  if (mismatch.lines.length || mismatch.totals.length) {
+    return NextResponse.json(
+      {
+        error: "Los precios de tu carrito cambiaron. Revisalos antes de pagar.",
+        code: "PRICE_MISMATCH",
+        lines: mismatch.lines,
+        totals: mismatch.totals,
+        server: {
+          subtotal: server.subtotal,
+          discountTotal: server.discountTotal,
+          shippingCost: server.shippingCost,
+          paymentAdjustment: server.paymentAdjustment,
+          giftWrapCost: server.giftWrapCost,
+          total: server.total,
+        },
+      },
+      { status: 409 }
+    );
+  }
+
+  if (server.total <= 0) {
+    return badRequest("Total inválido", { total: server.total });
+  }
+
+  // ===================== GIFT CARD =====================
+  // ✅ Pago parcial o total con gift card (lib/gift-cards): el server decide cuánto se usa (saldo vs total).
+  // El cliente manda lo que esperaba usar (`giftCard.amount`): si no coincide, el saldo cambió.
 
-  const total = Number(incomingData.total);
-  if (!Number.isFinite(total) || total <= 0) {
-    return badRequest("Total inválido", { total: incomingData.total });
+  const giftCardCode = isNonEmptyString(incomingData?.giftCard?.code)
+    ? normalizeGiftCardCode(incomingData.giftCard.code)
+    : "";
+  let giftCardAmount = 0;
+
+  if (giftCardCode) {
+    if (server.items.some((it) => it.giftCard)) {
+      return giftCardRejected({ code: "GIFT_CARD_NOT_ALLOWED" });
+    }
+
+    try {
+      const status = await getGiftCardStatus(giftCardCode);
+      if (status.expired) return giftCardRejected({ code: "GIFT_CARD_EXPIRED" });
+      if (status.balance <= 0) return giftCardRejected({ code: "GIFT_CARD_EMPTY" }, { balance: 0 });
+
+      giftCardAmount = Math.min(status.balance, server.total);
+      if (readMoney(incomingData?.giftCard?.amount, -1) !== giftCardAmount) {
+        return giftCardRejected(
+          { code: "GIFT_CARD_INSUFFICIENT" },
+          { balance: status.balance, giftCardAmount, amountDue: server.total - giftCardAmount }
+        );
+      }
+    } catch (e: any) {
+      if (isGiftCardError(e)) return giftCardRejected(e);
+      return NextResponse.json(
+        { error: "No pudimos verificar la gift card. Probá de nuevo.", details: e?.message || String(e) },
+        { status: 502 }
+      );
+    }
   }
 
+  // Lo que falta pagar con el medio elegido; 0 = la gift card cubre todo (no hay pago que esperar)
+  const amountDue = server.total - giftCardAmount;
+  const paidWithGiftCard = giftCardAmount > 0 && amountDue === 0;
+
   // ===================== NORMALIZACIONES =====================
 
-  const mpExternalReference = isNonEmptyString(incomingData.mpExternalReference)
-    ? incomingData.mpExternalReference.trim()
-    : safeUUID();
+  // ✅ La ref la genera siempre el server: con ella se identifican la reserva de stock, el débito de la
+  // gift card y el pago en MP (una ref repetida desde el cliente liberaría la reserva de otra orden)
+  const mpExternalReference = safeUUID();
+
+  // ===================== STOCK (RESERVA) =====================
+  // ✅ Reservamos antes de crear la orden: si dos personas compran el último item,
+  // la segunda recibe OUT_OF_STOCK acá (no recién en el webhook).
+
+  // ✅ Pago offline (transferencia/efectivo): la orden espera confirmación del staff,
+  // así que la reserva dura más que la de MP.
+  const isOffline = server.paymentMethod.provider !== "mercadopago" && !paidWithGiftCard;
+
+  // Efectivo al retirar: la reserva tiene que llegar al turno elegido (más un día de margen)
+  const offlineTtlMs =
+    server.paymentMethod.provider === "cash" && pickup
+      ? Math.max(offlineHoldTtlMs(), Date.parse(pickup.slotEnd) - Date.now() + 24 * 3_600_000)
+      : offlineHoldTtlMs();
+
+  let holdExpiresAt: string | null = null;
+  try {
+    const reservation = await reserveStockOrThrow(
+      mpExternalReference,
+      server.items,
+      isOffline ? { ttlMs: offlineTtlMs } : {}
+    );
+    holdExpiresAt = reservation.expiresAt;
+  } catch (e: any) {
+    if (e?.code === "OUT_OF_STOCK") {
+      return NextResponse.json(
+        {
+          error: "Sin stock suficiente",
+          code: "OUT_OF_STOCK",
+          problems: (e.problems || []).map((p: any) => ({
+            productDocumentId: p.documentId,
+            title: p.title,
+            requested: p.requested,
+            available: p.available,
+          })),
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "No se pudo reservar el stock", details: e?.message || String(e) },
+      { status: 502 }
+    );
+  }
+
+  // ✅ Débito de la gift card (después del stock: sin stock no tocamos el saldo)
+  let giftCardMovement: GiftCardMovement | null = null;
+  if (giftCardAmount > 0) {
+    try {
+      const redemption = await redeemGiftCardOrThrow({
+        code: giftCardCode,
+        amount: giftCardAmount,
+        ref: mpExternalReference,
+        email,
+      });
+      giftCardMovement = redemption.movement;
+    } catch (e: any) {
+      await releaseReservation(mpExternalReference).catch((err: any) =>
+        console.error("[orders/create] no pude liberar la reserva:", err?.message || err)
+      );
+      if (isGiftCardError(e)) return giftCardRejected(e, e?.balance != null ? { balance: e.balance } : {});
+      return NextResponse.json(
+        { error: "No pudimos usar la gift card. Probá de nuevo.", details: e?.message || String(e) },
+        { status: 502 }
+      );
+    }
+  }
 
   const shippingTextDelivery =
     shipping.text ||
     `${shipping.street} ${shipping.number}, ${shipping.city}, ${shipping.province} (${shipping.postalCode})`;
 
   // 🔒 data “limpio” (whitelist)
-  // OJO: NO mandamos user. Lo setea Strapi desde el JWT.
+  // OJO: NO mandamos user. Lo setea Strapi desde el JWT (invitado: queda sin user hasta que la reclame).
   const data: any = {
-    subtotal: subtotal || undefined,
-    discountTotal: discountTotal || undefined,
-    coupon: incomingData.coupon ?? undefined,
-    appliedPromotions: incomingData.appliedPromotions ?? undefined,
+    subtotal: server.subtotal || undefined,
+    discountTotal: server.discountTotal || undefined,
+    coupon: server.couponApplied ?? undefined,
+    appliedPromotions: server.appliedPromotions.length ? server.appliedPromotions : undefined,
 
     name,
     email,
@@ -192,11 +514,30 @@ export async function POST(req: Request) {
     dni: dni || null,
 
     shippingMethod,
-    shippingCost,
+    shippingCost: server.shippingCost,
+    shippingQuote: server.shippingQuote,
+    shippingCarrier: server.shippingQuote.carrierId,
+    deliveryDate,
     pickupPoint,
+    pickup,
+    pickupPointId: pickup?.pointId ?? null,
+    pickupSlotStart: pickup?.slotStart ?? null,
+    pickupSlotEnd: pickup?.slotEnd ?? null,
+
+    // ✅ Medio elegido + restricciones de las promos (create-preference arma payment_methods con esto)
+    paymentMethod: server.paymentMethod,
+    paymentAdjustment: server.paymentAdjustment || undefined,
+    paymentConstraints: server.paymentConstraints,
+
+    gift,
+    giftWrapCost: server.giftWrapCost || undefined,
+
+    // ✅ Parte pagada con gift card (el resto es lo que se cobra por el medio elegido)
+    giftCardCode: giftCardAmount > 0 ? giftCardCode : undefined,
+    giftCardAmount: giftCardAmount || undefined,
 
-    total: Math.round(Number(total)),
-    items,
+    total: server.total,
+    items: server.items,
 
     shippingAddress:
       shippingMethod === "pickup"
@@ -210,7 +551,9 @@ export async function POST(req: Request) {
             province: null,
             postalCode: null,
             notes: null,
-            text: pickupPoint ? `Retiro en sucursal: ${pickupPoint}` : "Retiro en sucursal",
+            text: pickup
+              ? `Retiro en sucursal: ${pickupPoint} · ${pickup.slotLabel}`
+              : "Retiro en sucursal",
           }
         : {
             source: shipping.source || (incomingData?.shippingAddress?.addressId ? "saved_address" : "manual"),
@@ -227,16 +570,21 @@ export async function POST(req: Request) {
           },
 
     mpExternalReference,
+
+    // Pagada toda con gift card: queda awaiting_payment un instante y la confirma el pipeline (abajo)
+    ...(isOffline || paidWithGiftCard ? { orderStatus: "awaiting_payment" } : {}),
+    ...(isGuest ? { isGuest: true } : {}),
   };
 
   const createPayload = { data };
 
-  // ✅ Crear la orden en Strapi COMO USUARIO (Bearer JWT)
+  // ✅ Crear la orden en Strapi COMO USUARIO (Bearer JWT) o con token server si es invitado
+  const bearer = jwt || process.env.STRAPI_API_TOKEN || process.env.STRAPI_TOKEN;
   const createRes = await fetch(`${strapiBase}/api/orders`, {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
-      Authorization: `Bearer ${jwt}`,
+      Authorization: `Bearer ${bearer}`,
     },
     body: JSON.stringify(createPayload),
     cache: "no-store",
@@ -245,6 +593,16 @@ export async function POST(req: Request) {
   const created = await strapiJSON(createRes);
 
   if (!createRes.ok) {
+    // ⚠️ La orden no existe: devolvemos el stock reservado
+    await releaseReservation(mpExternalReference).catch((e: any) =>
+      console.error("[orders/create] no pude liberar la reserva:", e?.message || e)
+    );
+    if (giftCardMovement) {
+      await cancelGiftCardRedemption(giftCardMovement).catch((e: any) =>
+        console.error("[orders/create] no pude anular el débito de la gift card:", e?.message || e)
+      );
+    }
+
     return NextResponse.json(
       { error: "Strapi error (create)", details: created },
       { status: createRes.status || 500 }
@@ -256,11 +614,115 @@ export async function POST(req: Request) {
   const numericId = created?.data?.id != null ? String(created.data.id) : null;
   const orderNumber = created?.data?.orderNumber ?? null; // si lifecycle ya lo seteo
 
+  // ✅ Cupón con tope de usos: se vuelve a contar con la orden ya creada (solo las anteriores a esta).
+  // Si otro checkout se llevó el último uso en paralelo, esta orden se deshace entera.
+  if (server.couponApplied && numericId) {
+    const lateRejection = await recheckCouponUsage({
+      coupon: server.couponApplied,
+      orderId: Number(numericId),
+      email,
+    });
+
+    if (lateRejection) {
+      const serverToken = process.env.STRAPI_API_TOKEN || process.env.STRAPI_TOKEN;
+      const orderKey = documentId ?? numericId;
+      const headers = { "Content-Type": "application/json", Authorization: `Bearer ${serverToken}` };
+
+      const delRes = await fetch(`${strapiBase}/api/orders/${orderKey}`, {
+        method: "DELETE",
+        headers,
+        cache: "no-store",
+      }).catch(() => null);
+
+      if (!delRes?.ok) {
+        // ⚠️ Sin permiso de borrado: la dejamos cancelada (cancelled no cuenta como uso del cupón)
+        await fetch(`${strapiBase}/api/orders/${orderKey}`, {
+          method: "PUT",
+          headers,
+          body: JSON.stringify({
+            data: { orderStatus: "cancelled", cancelledAt: new Date().toISOString(), cancelReason: lateRejection.code },
+          }),
+          cache: "no-store",
+        }).catch((e: any) => console.error("[orders/create] no pude deshacer la orden del cupón:", e?.message || e));
+      }
+
+      await releaseReservation(mpExternalReference).catch((e: any) =>
+        console.error("[orders/create] no pude liberar la reserva:", e?.message || e)
+      );
+      if (giftCardMovement) {
+        await cancelGiftCardRedemption(giftCardMovement).catch((e: any) =>
+          console.error("[orders/create] no pude anular el débito de la gift card:", e?.message || e)
+        );
+      }
+
+      return NextResponse.json(
+        {
+          error: lateRejection.message,
+          code: "COUPON_REJECTED",
+          reason: lateRejection.code,
+          coupon,
+        },
+        { status: 409 }
+      );
+    }
+  }
+
+  // El débito queda atado a la orden (historial de la gift card)
+  if (giftCardMovement) {
+    await linkGiftCardRedemption(giftCardMovement, { documentId, orderNumber }).catch((e: any) =>
+      console.error("[orders/create] no pude vincular el débito de la gift card:", e?.message || e)
+    );
+  }
+
+  // ✅ Invitado: cookie para seguir el pago en este navegador + magic link por email
+  if (isGuest && documentId) {
+    setGuestOrderCookie(signGuestOrderToken({ orderDocumentId: documentId, email }));
+
+    const siteUrl = normalizeBaseUrl(process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000");
+    try {
+      const r = await fetch(`${siteUrl}/api/email/guest-order-link`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ orderId: documentId }),
+        cache: "no-store",
+      });
+      if (!r.ok) console.error("[orders/create] guest link email failed:", r.status, await r.text().catch(() => ""));
+    } catch (e: any) {
+      // No cortamos la compra: el link se puede reenviar
+      console.error("[orders/create] guest link email error:", e?.message || e);
+    }
+  }
+
+  // ✅ La gift card cubre todo: mismos pasos que un pago offline confirmado (stock → paid → comprobante → envío → email).
+  // Si falla un paso, el staff lo reintenta con confirm-payment ({ step }), igual que una transferencia.
+  let orderStatus: string | null = null;
+  if (paidWithGiftCard && documentId) {
+    const siteUrl = normalizeBaseUrl(process.env.NEXT_PUBLIC_SITE_URL ?? "http://localhost:3000");
+    try {
+      const result = await runOfflinePaymentPipeline({
+        orderDocumentId: documentId,
+        siteUrl,
+        confirmation: { confirmedBy: "gift_card", reference: maskGiftCardCode(giftCardCode) },
+      });
+      orderStatus = result.steps.status?.ok ? "paid" : "awaiting_payment";
+      if (!result.ok) console.error("[orders/create] pipeline gift card:", result.lastError);
+    } catch (e: any) {
+      console.error("[orders/create] pipeline gift card error:", e?.message || e);
+    }
+  }
+
   return NextResponse.json({
     orderId: documentId ?? numericId,
     orderDocumentId: documentId,
     orderNumericId: numericId,
     orderNumber,
     mpExternalReference,
+    holdExpiresAt,
+    paymentProvider: server.paymentMethod.provider,
+    giftCardAmount,
+    amountDue,
+    paidWithGiftCard,
+    ...(orderStatus ? { orderStatus } : {}),
+    guest: isGuest,
   });
 }
@@ -138,6 +138,7 @@ export async function GET() {
     shippingMethod: pickField(row, "shippingMethod"),
     shippingCost: pickField(row, "shippingCost"),
     pickupPoint: pickField(row, "pickupPoint"),
+    deliveryDate: pickField(row, "deliveryDate"),
 
     shippingAddress: pickField(row, "shippingAddress"),
     items: pickField(row, "items"),
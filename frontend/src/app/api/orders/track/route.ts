@@ -0,0 +1,138 @@
+// src/app/api/orders/track/route.ts
+import { NextResponse } from "next/server";
+import { fetcher } from "@/lib/fetcher";
+import { listOrderEventsSafe } from "@/lib/order-events";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * POST /api/orders/track  { orderNumber, email }
+ *
+ * "Seguí tu pedido" sin login: con número de pedido + email de la compra.
+ * Devuelve solo datos de seguimiento (sin dirección completa, teléfono ni montos).
+ * ⚠️ Mismo 404 si el pedido no existe o el email no coincide (no revelamos cuál falló).
+ */
+
+const WINDOW_MS = 10 * 60_000;
+const MAX_ATTEMPTS = 10;
+
+// Límite simple por IP (en memoria, por instancia) contra enumeración de pedidos
+const attempts = new Map<string, { count: number; resetAt: number }>();
+
+function tooManyAttempts(ip: string) {
+  const now = Date.now();
+  const a = attempts.get(ip);
+  if (!a || a.resetAt < now) {
+    attempts.set(ip, { count: 1, resetAt: now + WINDOW_MS });
+    return false;
+  }
+  a.count++;
+  return a.count > MAX_ATTEMPTS;
+}
+
+function clientIp(req: Request) {
+  return (req.headers.get("x-forwarded-for") || "").split(",")[0].trim() || req.headers.get("x-real-ip") || "local";
+}
+
+function normalizeEmail(v: any) {
+  return String(v ?? "").trim().toLowerCase();
+}
+
+function flattenRow(row: any) {
+  if (!row) return null;
+  return row?.attributes ? { id: row.id, documentId: row.documentId, ...row.attributes } : row;
+}
+
+function readJson(v: any) {
+  if (typeof v !== "string") return v;
+  try {
+    return JSON.parse(v);
+  } catch {
+    return null;
+  }
+}
+
+async function findOrderByNumber(orderNumber: string) {
+  const sp = new URLSearchParams();
+  sp.set("filters[orderNumber][$eqi]", orderNumber);
+  sp.set("pagination[pageSize]", "1");
+
+  const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+  const row = Array.isArray(res?.data) ? res.data[0] : null;
+  return flattenRow(row);
+}
+
+function publicOrder(order: any) {
+  const quote = readJson(order?.shippingQuote);
+  const addr = order?.shippingAddress ?? null;
+  const pickup = readJson(order?.pickup);
+
+  return {
+    orderNumber: order?.orderNumber ?? null,
+    orderStatus: order?.orderStatus ?? null,
+    cancelReason: order?.cancelReason ?? null,
+    createdAt: order?.createdAt ?? null,
+    shippingMethod: order?.shippingMethod === "pickup" ? "pickup" : "delivery",
+    pickupPoint: order?.pickupPoint ?? null,
+    pickup: pickup?.name
+      ? {
+          name: String(pickup.name),
+          address: pickup?.address ?? null,
+          slotLabel: pickup?.slotLabel ?? null,
+          mapUrl: pickup?.mapUrl ?? null,
+        }
+      : null,
+    destination: addr?.city ? [addr.city, addr.province].filter(Boolean).join(", ") : null,
+    carrierName: quote?.carrierName ?? null,
+    service: quote?.service ?? null,
+    etaDays: quote?.etaDays ?? null,
+    deliveryDate: order?.deliveryDate ?? null,
+    trackingNumber: order?.trackingNumber ?? null,
+    trackingUrl: order?.trackingUrl ?? null,
+    items: (Array.isArray(order?.items) ? order.items : []).map((it: any) => ({
+      title: String(it?.title ?? "Producto"),
+      qty: Number(it?.qty ?? 1),
+    })),
+  };
+}
+
+export async function POST(req: Request) {
+  if (tooManyAttempts(clientIp(req))) {
+    return NextResponse.json(
+      { error: "Demasiados intentos. Probá de nuevo en unos minutos.", code: "RATE_LIMITED" },
+      { status: 429 }
+    );
+  }
+
+  let body: any = null;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body inválido (se esperaba JSON)" }, { status: 400 });
+  }
+
+  const orderNumber = String(body?.orderNumber ?? "").trim();
+  const email = normalizeEmail(body?.email);
+  if (!orderNumber || !email.includes("@")) {
+    return NextResponse.json({ error: "Ingresá el número de pedido y el email de la compra." }, { status: 400 });
+  }
+
+  let order: any = null;
+  try {
+    order = await findOrderByNumber(orderNumber);
+  } catch (e: any) {
+    console.error("[orders/track] error:", e?.message || e);
+    return NextResponse.json({ error: "No pudimos buscar el pedido. Probá de nuevo." }, { status: 502 });
+  }
+
+  if (!order || normalizeEmail(order?.email) !== email) {
+    return NextResponse.json(
+      { error: "No encontramos un pedido con ese número y email.", code: "NOT_FOUND" },
+      { status: 404 }
+    );
+  }
+
+  const events = await listOrderEventsSafe(order.documentId);
+  return NextResponse.json({ data: publicOrder(order), events });
+}
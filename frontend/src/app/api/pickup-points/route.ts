@@ -0,0 +1,43 @@
+// src/app/api/pickup-points/route.ts
+import { NextResponse } from "next/server";
+import { describeHours, listPickupAvailability, pickupMapUrl } from "@/lib/pickup-points";
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+
+/**
+ * GET /api/pickup-points
+ *
+ * Sucursales de retiro activas con sus turnos (para el checkout).
+ * `remaining` = lugares libres del turno; los turnos completos vienen igual (se muestran deshabilitados).
+ * ⚠️ Es informativo: orders/create vuelve a validar el turno.
+ */
+export async function GET() {
+  try {
+    const list = await listPickupAvailability();
+
+    return NextResponse.json({
+      ok: true,
+      points: list.map(({ point, slots }) => ({
+        id: point.id,
+        name: point.name,
+        address: point.address,
+        city: point.city,
+        province: point.province,
+        lat: point.lat,
+        lng: point.lng,
+        mapUrl: pickupMapUrl(point),
+        instructions: point.instructions,
+        hoursLabel: describeHours(point.hours),
+        slotMinutes: point.slotMinutes,
+        slots,
+      })),
+    });
+  } catch (e: any) {
+    console.error("[pickup-points] error:", e?.details || e?.message || e);
+    return NextResponse.json(
+      { ok: false, code: "PICKUP_UNAVAILABLE", error: "No pudimos cargar las sucursales de retiro." },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+// src/app/api/products/prices/route.ts
+import { NextResponse } from "next/server";
+import { resolveCurrentPrices } from "@/lib/pricing";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/products/prices
+ * { items: [{ id, documentId? }] } -> { prices: [{ productId, productDocumentId, price, off, saleName, saleEndsAt }] }
+ *
+ * Precios vigentes para el carrito: `off` fijo de Strapi o el de la oferta relámpago (ver lib/flash-sales).
+ * El carrito los aplica con syncPrices; orders/create igual recalcula todo en el server.
+ */
+export async function POST(req: Request) {
+  let body: any = null;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body inválido (se esperaba JSON)" }, { status: 400 });
+  }
+
+  const items = (Array.isArray(body?.items) ? body.items : []).slice(0, 100);
+  if (!items.length) return NextResponse.json({ prices: [] });
+
+  try {
+    const prices = await resolveCurrentPrices(
+      items.map((it: any) => ({
+        productId: it?.id ?? null,
+        productDocumentId: typeof it?.documentId === "string" ? it.documentId : null,
+        qty: 1,
+      }))
+    );
+    return NextResponse.json({ prices });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message || "No se pudieron leer los precios" }, { status: 500 });
+  }
+}
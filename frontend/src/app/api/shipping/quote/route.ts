@@ -0,0 +1,81 @@
+// src/app/api/shipping/quote/route.ts
+import { NextResponse } from "next/server";
+import { quoteShippingOptions, shippingUnavailableMessage, type ShippingLine } from "@/lib/shipping";
+import { resolveShippingLines } from "@/lib/pricing";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * POST /api/shipping/quote
+ * { method: "delivery"|"pickup", province?, postalCode?, subtotal, items: [{ id, documentId?, qty }], carrier? }
+ *
+ * Cotización para carrito/checkout con las zonas de Strapi y los correos habilitados (ver lib/shipping).
+ * - `options`: una por correo (la más barata primero); `quote`: la del correo pedido o la primera
+ * - peso y medidas de cada producto salen de Strapi (mismos bultos que orders/create, ver lib/packing)
+ * ⚠️ Es informativa: orders/create recalcula todo con los precios del server.
+ */
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+export async function POST(req: Request) {
+  let body: any = null;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ error: "Body inválido (se esperaba JSON)" }, { status: 400 });
+  }
+
+  const method = String(body?.method ?? "").trim().toLowerCase() === "pickup" ? "pickup" : "delivery";
+  const items = Array.isArray(body?.items) ? body.items : [];
+
+  // ✅ Peso/medidas del server; si Strapi no responde cotizamos solo por cantidad (es informativo)
+  let lines: ShippingLine[] = items.map((it: any) => ({ qty: Math.max(0, Math.floor(toNum(it?.qty, 0))) }));
+  if (method === "delivery" && items.length) {
+    try {
+      lines = await resolveShippingLines(
+        items.map((it: any) => ({
+          productId: it?.id ?? null,
+          productDocumentId: typeof it?.documentId === "string" ? it.documentId : null,
+          qty: it?.qty,
+        }))
+      );
+    } catch (e: any) {
+      console.error("[shipping/quote] products failed, sin medidas:", e?.message || e);
+    }
+  }
+
+  try {
+    const options = await quoteShippingOptions({
+      method,
+      destination: { province: body?.province ?? null, postalCode: body?.postalCode ?? null },
+      subtotal: Math.max(0, Math.round(toNum(body?.subtotal, 0))),
+      lines,
+    });
+
+    const carrier = String(body?.carrier ?? "").trim().toLowerCase();
+    const quote = options.find((o) => carrier && o.carrierId === carrier) ?? options[0];
+
+    return NextResponse.json({ ok: true, quote, options });
+  } catch (e: any) {
+    if (e?.code === "SHIPPING_NOT_AVAILABLE") {
+      return NextResponse.json(
+        {
+          ok: false,
+          code: "SHIPPING_NOT_AVAILABLE",
+          reason: e.reason ?? null,
+          error: shippingUnavailableMessage(e),
+        },
+        { status: 409 }
+      );
+    }
+
+    console.error("[shipping/quote] error:", e?.details || e?.message || e);
+    return NextResponse.json(
+      { ok: false, code: "SHIPPING_UNAVAILABLE", error: "No pudimos calcular el envío." },
+      { status: 502 }
+    );
+  }
+}
@@ -40,6 +40,11 @@ export function Footer() {
                     Envíos
                   </Link>
                 </li>
+                <li>
+                  <Link className="hover:text-white" href="/segui-tu-pedido">
+                    Seguí tu pedido
+                  </Link>
+                </li>
                 <li>
                   <Link className="hover:text-white" href="/preguntas-frecuentes">
                     Preguntas frecuentes
@@ -0,0 +1,227 @@
+// src/components/orders/OrderTimeline.tsx
+"use client";
+
+import type { ReactNode } from "react";
+import { cancelReasonLabel, isCustomerCancelReason } from "@/lib/order-cancellation";
+
+/**
+ * Timeline del pedido (eventos de lib/order-events).
+ * Se usa en Mis pedidos (detalle) y en "Seguí tu pedido".
+ * Órdenes viejas sin eventos: los pasos se derivan de orderStatus.
+ */
+
+export type TimelineEvent = {
+  id: string;
+  type: string;
+  label?: string | null;
+  occurredAt?: string | null;
+  location?: string | null;
+  description?: string | null;
+  trackingUrl?: string | null;
+};
+
+export type TimelinePickup = {
+  name?: string | null;
+  address?: string | null;
+  slotLabel?: string | null;
+  mapUrl?: string | null;
+};
+
+type Step = { key: string; label: string };
+
+const DELIVERY_STEPS: Step[] = [
+  { key: "paid", label: "Pagado" },
+  { key: "preparing", label: "Preparando" },
+  { key: "handed_to_carrier", label: "En el correo" },
+  { key: "in_transit", label: "En camino" },
+  { key: "out_for_delivery", label: "En reparto" },
+  { key: "delivered", label: "Entregado" },
+];
+
+const PICKUP_STEPS: Step[] = [
+  { key: "paid", label: "Pagado" },
+  { key: "preparing", label: "Preparando" },
+  { key: "ready_for_pickup", label: "Listo para retirar" },
+  { key: "delivered", label: "Retirado" },
+];
+
+// Paso mínimo alcanzado según el estado de la orden (para órdenes sin eventos)
+const STATUS_STEP: Record<string, string> = {
+  paid: "paid",
+  partially_refunded: "paid",
+  shipped: "handed_to_carrier",
+  delivered: "delivered",
+};
+
+function formatDateTime(iso?: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleString("es-AR", { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function OrderTimeline({
+  status,
+  cancelReason,
+  shippingMethod,
+  events,
+  carrierName,
+  trackingNumber,
+  trackingUrl,
+  pickup,
+  badge,
+}: {
+  status: string;
+  cancelReason?: string | null;
+  shippingMethod?: string | null;
+  events: TimelineEvent[];
+  carrierName?: string | null;
+  trackingNumber?: string | null;
+  trackingUrl?: string | null;
+  pickup?: TimelinePickup | null;
+  badge?: ReactNode;
+}) {
+  const s = String(status || "").toLowerCase();
+  const steps = shippingMethod === "pickup" ? PICKUP_STEPS : DELIVERY_STEPS;
+
+  const isBad = s === "failed" || s === "cancelled" || s === "refunded" || s === "chargeback";
+
+  const lastByType = new Map<string, TimelineEvent>();
+  for (const ev of events) lastByType.set(ev.type, ev);
+
+  let reached = -1;
+  steps.forEach((step, i) => {
+    if (lastByType.has(step.key)) reached = i;
+  });
+  const fromStatus = steps.findIndex((step) => step.key === STATUS_STEP[s]);
+  reached = Math.max(reached, fromStatus);
+
+  const latest = events[events.length - 1] ?? null;
+  const hasException = latest?.type === "exception";
+
+  const link = trackingUrl || [...events].reverse().find((e) => e.trackingUrl)?.trackingUrl || null;
+
+  return (
+    <div className="rounded-2xl border bg-white p-5">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <div className="text-sm font-extrabold text-neutral-900">Seguimiento</div>
+          <div className="mt-1 text-sm text-neutral-600">
+            {s === "refunded"
+              ? "Este pedido fue reembolsado."
+              : s === "chargeback"
+              ? "El pago de este pedido está en disputa."
+              : s === "awaiting_payment"
+              ? "Esperando la confirmación del pago."
+              : s === "pending"
+              ? "Esperando el pago."
+              : s === "cancelled" && cancelReason === "payment_timeout"
+              ? "Se canceló porque no recibimos el pago a tiempo."
+              : s === "cancelled" && isCustomerCancelReason(cancelReason)
+              ? `Cancelaste este pedido (${cancelReasonLabel(cancelReason)?.toLowerCase()}).`
+              : isBad
+              ? "Este pedido no pudo completarse."
+              : hasException
+              ? latest?.description || "Hubo un problema con la entrega. Te vamos a contactar."
+              : latest
+              ? `${latest.label || steps.find((x) => x.key === latest.type)?.label || "Actualizado"} · ${formatDateTime(
+                  latest.occurredAt
+                )}`
+              : "Te avisamos por email cada vez que tu pedido avance."}
+          </div>
+        </div>
+        {badge}
+      </div>
+
+      <ol className="mt-5 space-y-3">
+        {steps.map((step, i) => {
+          const done = !isBad && i <= reached;
+          const ev = lastByType.get(step.key) ?? null;
+          const current = done && i === reached;
+
+          return (
+            <li key={step.key} className="flex items-start gap-3">
+              <div
+                className={`mt-0.5 grid h-6 w-6 shrink-0 place-items-center rounded-full text-xs font-bold ring-2 ${
+                  done ? "bg-neutral-900 text-white ring-neutral-900" : "bg-white text-neutral-500 ring-neutral-200"
+                }`}
+              >
+                {i + 1}
+              </div>
+              <div className="min-w-0">
+                <div className={`text-sm ${current ? "font-extrabold" : "font-semibold"} ${done ? "text-neutral-900" : "text-neutral-500"}`}>
+                  {step.label}
+                </div>
+                {done && ev ? (
+                  <div className="text-xs text-neutral-600">
+                    {[formatDateTime(ev.occurredAt), ev.location].filter(Boolean).join(" · ")}
+                  </div>
+                ) : null}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+
+      {shippingMethod === "pickup" && pickup?.name ? (
+        <div className="mt-4 rounded-xl bg-neutral-50 p-3 text-xs text-neutral-700">
+          <span className="font-semibold">{pickup.name}</span>
+          {pickup.address ? ` · ${pickup.address}` : ""}
+          {pickup.slotLabel ? (
+            <div className="mt-1">
+              Turno de retiro: <span className="font-semibold">{pickup.slotLabel}</span>
+            </div>
+          ) : null}
+          {pickup.mapUrl ? (
+            <a
+              href={pickup.mapUrl}
+              target="_blank"
+              rel="noreferrer"
+              className="mt-1 inline-block font-semibold text-sky-800 hover:underline"
+            >
+              Ver en el mapa →
+            </a>
+          ) : null}
+        </div>
+      ) : null}
+
+      {trackingNumber || carrierName ? (
+        <div className="mt-4 rounded-xl bg-neutral-50 p-3 text-xs text-neutral-700">
+          {carrierName ? <span className="font-semibold">{carrierName}</span> : null}
+          {trackingNumber ? (
+            <>
+              {carrierName ? " · " : ""}
+              Seguimiento <span className="font-mono">{trackingNumber}</span>
+            </>
+          ) : null}
+          {link ? (
+            <>
+              {" "}
+              <a href={link} target="_blank" rel="noreferrer" className="font-semibold text-sky-800 hover:underline">
+                Ver en el correo →
+              </a>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+
+      {events.length ? (
+        <details className="mt-4">
+          <summary className="cursor-pointer text-xs font-semibold text-neutral-700">Historial ({events.length})</summary>
+          <ul className="mt-2 space-y-2">
+            {[...events].reverse().map((ev) => (
+              <li key={ev.id} className="text-xs">
+                <div className={`font-semibold ${ev.type === "exception" ? "text-red-700" : "text-neutral-900"}`}>
+                  {ev.label || ev.type}
+                </div>
+                <div className="text-neutral-600">
+                  {[formatDateTime(ev.occurredAt), ev.location, ev.description].filter(Boolean).join(" · ")}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </details>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+// src/components/orders/TransferPaymentBox.tsx
+"use client";
+
+import { useState } from "react";
+import { RECEIPT_MAX_BYTES, RECEIPT_MIME_TYPES, transferDetails } from "@/lib/offline-payments";
+
+function formatARS(n: number) {
+  return n.toLocaleString("es-AR", { style: "currency", currency: "ARS" });
+}
+
+/**
+ * Datos para transferir + subida del comprobante.
+ * Se usa al terminar el checkout y en Mis pedidos (orden awaiting_payment).
+ */
+export function TransferPaymentBox({
+  orderId,
+  orderNumber,
+  total,
+  receiptUrl,
+  guestToken,
+}: {
+  orderId: string;
+  orderNumber?: string | null;
+  total: number;
+  receiptUrl?: string | null;
+  guestToken?: string | null; // compra como invitado (link del email)
+}) {
+  const details = transferDetails();
+
+  const [file, setFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [uploadedUrl, setUploadedUrl] = useState<string | null>(receiptUrl ?? null);
+
+  async function upload() {
+    if (!file || uploading) return;
+    setError(null);
+
+    if (!RECEIPT_MIME_TYPES.includes(file.type)) {
+      return setError("Formato no soportado (JPG, PNG, WEBP, HEIC o PDF).");
+    }
+    if (file.size > RECEIPT_MAX_BYTES) {
+      return setError("El archivo tiene que pesar menos de 5 MB.");
+    }
+
+    try {
+      setUploading(true);
+      const form = new FormData();
+      form.append("file", file);
+
+      const r = await fetch(`/api/orders/${encodeURIComponent(orderId)}/transfer-receipt`, {
+        method: "POST",
+        body: form,
+        headers: guestToken ? { "x-guest-token": guestToken } : {},
+      });
+      const json = await r.json().catch(() => null);
+      if (!r.ok) throw new Error(json?.error || `HTTP ${r.status}`);
+
+      setUploadedUrl(json?.url ?? "ok");
+      setFile(null);
+    } catch (e: any) {
+      setError(e?.message || "No se pudo subir el comprobante.");
+    } finally {
+      setUploading(false);
+    }
+  }
+
+  return (
+    <div className="rounded-xl border p-4 text-sm">
+      <div className="font-semibold text-neutral-900">Pagá por transferencia</div>
+      <p className="mt-1 text-neutral-700">
+        Transferí <b>{formatARS(total)}</b>
+        {orderNumber ? (
+          <>
+            {" "}
+            e indicá el pedido <b>{orderNumber}</b> en el concepto
+          </>
+        ) : null}
+        .
+      </p>
+
+      {details ? (
+        <dl className="mt-3 grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-neutral-800">
+          {details.alias && (
+            <>
+              <dt className="text-neutral-500">Alias</dt>
+              <dd className="font-semibold">{details.alias}</dd>
+            </>
+          )}
+          {details.cbu && (
+            <>
+              <dt className="text-neutral-500">CBU</dt>
+              <dd className="font-mono">{details.cbu}</dd>
+            </>
+          )}
+          {details.holder && (
+            <>
+              <dt className="text-neutral-500">Titular</dt>
+              <dd>{details.holder}</dd>
+            </>
+          )}
+          {details.cuit && (
+            <>
+              <dt className="text-neutral-500">CUIT</dt>
+              <dd>{details.cuit}</dd>
+            </>
+          )}
+          {details.bank && (
+            <>
+              <dt className="text-neutral-500">Banco</dt>
+              <dd>{details.bank}</dd>
+            </>
+          )}
+        </dl>
+      ) : (
+        <p className="mt-2 text-xs text-amber-700">Escribinos para recibir los datos de la cuenta.</p>
+      )}
+
+      <div className="mt-4">
+        <div className="text-xs font-semibold text-neutral-700">Comprobante</div>
+
+        {uploadedUrl ? (
+          <p className="mt-1 text-xs text-emerald-700">
+            ✅ Recibimos tu comprobante. Te avisamos por email cuando confirmemos el pago.
+          </p>
+        ) : (
+          <p className="mt-1 text-xs text-neutral-500">
+            Subí una foto o PDF del comprobante para que confirmemos tu pago más rápido.
+          </p>
+        )}
+
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <input
+            type="file"
+            accept={RECEIPT_MIME_TYPES.join(",")}
+            onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+            className="text-xs"
+          />
+          <button
+            type="button"
+            onClick={upload}
+            disabled={!file || uploading}
+            className="rounded-full bg-neutral-900 px-4 py-1.5 text-xs font-semibold text-white disabled:opacity-50"
+          >
+            {uploading ? "Subiendo…" : uploadedUrl ? "Reemplazar" : "Subir comprobante"}
+          </button>
+        </div>
+
+        {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 // src/components/products/ProductCard.tsx
 import Link from "next/link";
 import Image from "next/image";
+import { SaleCountdown } from "@/components/products/SaleCountdown";
 
 /**
  * Tipo simple para un producto.
@@ -17,12 +18,21 @@ export type ProductCardItem = {
   category?: string;
   documentId?: string | null;
   stock?: number | null;
+  // ✅ peso (g) y medidas (cm) para armar los bultos del envío (null = no cargado en Strapi)
+  weightGrams?: number | null;
+  lengthCm?: number | null;
+  widthCm?: number | null;
+  heightCm?: number | null;
+  heatSensitive?: boolean; // ✅ chocolate: reglas de envío en verano (lib/heat-rules)
+  // ✅ oferta relámpago vigente (lib/flash-sales): `off` ya es el de la oferta
+  saleName?: string | null;
+  saleEndsAt?: string | null;
 };
 
 /**
  * Card reutilizable de producto:
  * - Imagen real de Strapi (si existe)
- * - Badge de descuento (si off existe)
+ * - Badge de descuento (si off existe) + cuenta regresiva si es una oferta relámpago
  * - Precio tachado + precio final (si off existe)
  * - Click lleva a /productos/[id] (documentId si existe)
  */
@@ -47,6 +57,13 @@ export function ProductCard({ item }: { item: ProductCardItem }) {
           </span>
         )}
 
+        {hasOff && item.saleEndsAt ? (
+          <SaleCountdown
+            endsAt={item.saleEndsAt}
+            className="absolute bottom-2 left-2 z-10 rounded-full bg-neutral-900/80 px-2 py-1 text-xs font-semibold text-white"
+          />
+        ) : null}
+
         {item.imageUrl ? (
           <Image
             src={item.imageUrl}
@@ -0,0 +1,51 @@
+// src/components/products/SaleCountdown.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+
+function pad(n: number) {
+  return String(n).padStart(2, "0");
+}
+
+/** "2d 05h", "04:12:09" */
+function formatLeft(ms: number) {
+  const s = Math.max(0, Math.floor(ms / 1000));
+  const d = Math.floor(s / 86400);
+  const h = Math.floor((s % 86400) / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  if (d > 0) return `${d}d ${pad(h)}h`;
+  return `${pad(h)}:${pad(m)}:${pad(s % 60)}`;
+}
+
+/**
+ * Cuenta regresiva de una oferta relámpago (lib/flash-sales).
+ * - Se calcula recién en el cliente (evita diferencias de hidratación con el server).
+ * - Al terminar muestra "Oferta finalizada": el precio se corrige al recargar / en el carrito.
+ */
+export function SaleCountdown({
+  endsAt,
+  label = "Termina en",
+  className = "",
+}: {
+  endsAt: string;
+  label?: string;
+  className?: string;
+}) {
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    setNow(Date.now());
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, []);
+
+  const end = new Date(endsAt).getTime();
+  if (now == null || !Number.isFinite(end)) return null;
+
+  const left = end - now;
+  return (
+    <span className={className} suppressHydrationWarning>
+      {left > 0 ? `${label} ${formatLeft(left)}` : "Oferta finalizada"}
+    </span>
+  );
+}
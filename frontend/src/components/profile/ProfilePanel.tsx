@@ -53,6 +53,53 @@ function safeText(v: any) {
   return String(v ?? "").trim();
 }
 
+// ✅ /api/geo (CP → provincias y localidades posibles)
+type GeoProvince = { code: string; name: string };
+type GeoLocality = { name: string; postalCode: string; provinceCode: string; province: string };
+type GeoLookup = { postalCode: string; known: boolean; provinces: GeoProvince[]; localities: GeoLocality[] };
+
+/** "1425" / "c1425abc" → lo que mandamos a /api/geo; "" si todavía no tiene forma de CP */
+function postalCodeKey(v: any) {
+  const s = String(v ?? "").toUpperCase().replace(/[\s.-]+/g, "");
+  return /^[A-Z]?\d{4}([A-Z]{3})?$/.test(s) ? s : "";
+}
+
+// ✅ /api/gift-cards/my (compradas con código completo, usadas con código enmascarado)
+type GiftCardMovement = {
+  kind: "issue" | "redeem" | "release";
+  amount: number;
+  date: string | null;
+  orderNumber: string | null;
+};
+
+type MyGiftCard = {
+  code: string;
+  initialAmount: number;
+  balance: number;
+  expiresAt: string | null;
+  expired: boolean;
+  recipientName: string | null;
+  purchased: boolean;
+  movements: GiftCardMovement[];
+};
+
+const GIFT_CARD_MOVEMENT_LABEL: Record<GiftCardMovement["kind"], string> = {
+  issue: "Carga inicial",
+  redeem: "Usada en pedido",
+  release: "Devolución de saldo",
+};
+
+function formatARS(n: number) {
+  return n.toLocaleString("es-AR", { style: "currency", currency: "ARS" });
+}
+
+function formatDate(iso: string | null) {
+  if (!iso) return "";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "";
+  return d.toLocaleDateString("es-AR", { timeZone: "America/Argentina/Buenos_Aires" });
+}
+
 type ProfilePanelProps = {
   variant?: "dropdown" | "page";
   onClose?: () => void;
@@ -80,6 +127,12 @@ export function ProfilePanel({
   const [form, setForm] = useState<AddressPayload>(EMPTY_FORM);
   const [saving, setSaving] = useState(false);
 
+  // ✅ Provincia / localidad según el código postal
+  const [geoProvinces, setGeoProvinces] = useState<GeoProvince[]>([]);
+  const [zipLookup, setZipLookup] = useState<GeoLookup | null>(null);
+  const [zipError, setZipError] = useState<string | null>(null);
+  const [cityOther, setCityOther] = useState(false);
+
   // ✅ DNI state (debajo del email)
   const [dni, setDni] = useState("");
   const [dniSaving, setDniSaving] = useState(false);
@@ -215,6 +268,39 @@ export function ProfilePanel({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user?.id]);
 
+  // ✅ Mis gift cards (saldo + historial)
+  const [giftCards, setGiftCards] = useState<MyGiftCard[]>([]);
+  const [giftCardsLoading, setGiftCardsLoading] = useState(false);
+  const [giftCardsError, setGiftCardsError] = useState<string | null>(null);
+
+  async function loadGiftCards() {
+    setGiftCardsLoading(true);
+    setGiftCardsError(null);
+    try {
+      const r = await fetch("/api/gift-cards/my", { cache: "no-store" });
+
+      if (r.status === 401) {
+        setGiftCards([]);
+        return;
+      }
+
+      const j = await r.json().catch(() => null);
+      if (!r.ok) throw new Error(j?.error || "No se pudieron cargar tus gift cards.");
+      setGiftCards(Array.isArray(j?.giftCards) ? j.giftCards : []);
+    } catch (e: any) {
+      setGiftCardsError(e?.message || "No se pudieron cargar tus gift cards.");
+      setGiftCards([]);
+    } finally {
+      setGiftCardsLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    if (!user) return;
+    loadGiftCards();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id]);
+
   const sortedAddresses = useMemo(() => {
     const list = [...addresses];
     list.sort(
@@ -223,20 +309,96 @@ export function ProfilePanel({
     return list;
   }, [addresses]);
 
+  useEffect(() => {
+    if (!showAddressForm || geoProvinces.length) return;
+    let alive = true;
+    fetch("/api/geo")
+      .then((r) => r.json())
+      .then((j) => {
+        if (alive && Array.isArray(j?.provinces)) setGeoProvinces(j.provinces);
+      })
+      .catch(() => {});
+    return () => {
+      alive = false;
+    };
+  }, [showAddressForm, geoProvinces.length]);
+
+  const zipKey = postalCodeKey(form.zip);
+
+  useEffect(() => {
+    if (!showAddressForm || !zipKey) {
+      setZipLookup(null);
+      setZipError(null);
+      return;
+    }
+
+    let alive = true;
+    const t = setTimeout(async () => {
+      try {
+        const r = await fetch(`/api/geo?postalCode=${encodeURIComponent(zipKey)}`, { cache: "no-store" });
+        const j = await r.json().catch(() => null);
+        if (!alive) return;
+
+        if (!r.ok || !j?.ok) {
+          setZipLookup(null);
+          setZipError(j?.error || null);
+          return;
+        }
+
+        const lookup = j as GeoLookup;
+        setZipLookup(lookup);
+        setZipError(lookup.provinces.length ? null : "No encontramos ese código postal.");
+
+        // Si el CP es de una sola provincia (o una sola localidad) la elegimos
+        setForm((p) => {
+          const province =
+            lookup.provinces.length === 1
+              ? lookup.provinces[0].name
+              : lookup.provinces.some((x) => x.name === p.province)
+              ? p.province
+              : "";
+          const options = lookup.localities.filter((l) => l.province === province);
+          const city = !safeText(p.city) && options.length === 1 ? options[0].name : p.city;
+          return { ...p, province, city };
+        });
+      } catch {
+        if (alive) setZipLookup(null);
+      }
+    }, 300);
+
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+  }, [zipKey, showAddressForm]);
+
+  const provinceOptions = zipLookup?.provinces.length ? zipLookup.provinces : geoProvinces;
+  const selectedProvince = provinceOptions.find((p) => p.name === form.province) ?? null;
+  const isCaba = selectedProvince?.code === "C";
+  const cityOptions = useMemo(
+    () => (zipLookup?.localities ?? []).filter((l) => l.province === form.province).map((l) => l.name),
+    [zipLookup, form.province]
+  );
+  // Localidad que no está en la lista (barrio, paraje): texto libre
+  const cityFree = cityOther || (Boolean(safeText(form.city)) && !cityOptions.includes(form.city ?? ""));
+
   function resetForm(close = true) {
     setEditingId(null);
     setForm(EMPTY_FORM);
+    setCityOther(false);
     if (close) setShowAddressForm(false);
   }
 
   function startCreate() {
     setEditingId(null);
     setForm(EMPTY_FORM);
+    setCityOther(false);
     setShowAddressForm(true);
   }
 
   function startEdit(a: Address) {
     setEditingId(a.id);
+    setCityOther(false);
     setForm({
       label: a.label ?? "Casa",
       fullName: a.fullName ?? "",
@@ -270,7 +432,7 @@ export function ProfilePanel({
         number: safeText(form.number),
         floor: safeText(form.floor),
         apartment: safeText(form.apartment),
-        city: safeText(form.city),
+        city: isCaba ? safeText(form.province) : safeText(form.city),
         province: safeText(form.province),
         zip: safeText(form.zip),
         notes: safeText(form.notes),
@@ -280,11 +442,11 @@ export function ProfilePanel({
       if (payload.street.length < 2) throw new Error("Ingresá la calle.");
       if (payload.number.length < 1)
         throw new Error("Ingresá el número/altura.");
-      if (payload.city.length < 2) throw new Error("Ingresá la ciudad.");
+      if (!postalCodeKey(payload.zip))
+        throw new Error("Ingresá un código postal válido (ej: 1425).");
       if (payload.province.length < 2)
-        throw new Error("Ingresá la provincia.");
-      if (payload.zip.length < 3)
-        throw new Error("Ingresá el código postal.");
+        throw new Error("Elegí la provincia.");
+      if (payload.city.length < 2) throw new Error("Ingresá la localidad.");
 
       const url = isEdit ? `/api/addresses/${editingId}` : `/api/addresses`;
       const method = isEdit ? "PUT" : "POST";
@@ -746,31 +908,89 @@ export function ProfilePanel({
                       }
                       className="mt-1 w-full rounded border px-3 py-2"
                       placeholder="5000"
+                      inputMode="text"
+                      autoComplete="postal-code"
                     />
+                    {zipError ? (
+                      <p className="mt-1 text-[11px] text-red-600">{zipError}</p>
+                    ) : zipLookup && !zipLookup.known ? (
+                      <p className="mt-1 text-[11px] text-neutral-500">
+                        No tenemos las localidades de ese CP: escribí la tuya.
+                      </p>
+                    ) : null}
                   </div>
 
                   <div>
-                    <label className="text-xs font-semibold">Ciudad</label>
-                    <input
-                      value={form.city ?? ""}
+                    <label className="text-xs font-semibold">Provincia</label>
+                    <select
+                      value={selectedProvince ? form.province ?? "" : ""}
                       onChange={(e) =>
-                        setForm((p) => ({ ...p, city: e.target.value }))
+                        setForm((p) => ({ ...p, province: e.target.value, city: "" }))
                       }
-                      className="mt-1 w-full rounded border px-3 py-2"
-                      placeholder="Córdoba"
-                    />
+                      className="mt-1 w-full rounded border bg-white px-3 py-2"
+                    >
+                      <option value="">Elegí la provincia</option>
+                      {provinceOptions.map((p) => (
+                        <option key={p.code} value={p.name}>
+                          {p.name}
+                        </option>
+                      ))}
+                    </select>
                   </div>
 
-                  <div>
-                    <label className="text-xs font-semibold">Provincia</label>
-                    <input
-                      value={form.province ?? ""}
-                      onChange={(e) =>
-                        setForm((p) => ({ ...p, province: e.target.value }))
-                      }
-                      className="mt-1 w-full rounded border px-3 py-2"
-                      placeholder="Córdoba"
-                    />
+                  <div className="sm:col-span-2">
+                    <label className="text-xs font-semibold">Localidad</label>
+                    {isCaba ? (
+                      <input
+                        value={form.province ?? ""}
+                        disabled
+                        className="mt-1 w-full rounded border bg-neutral-50 px-3 py-2 text-neutral-600"
+                      />
+                    ) : cityOptions.length && !cityFree ? (
+                      <select
+                        value={form.city ?? ""}
+                        onChange={(e) => {
+                          if (e.target.value === "__other__") {
+                            setCityOther(true);
+                            setForm((p) => ({ ...p, city: "" }));
+                            return;
+                          }
+                          setForm((p) => ({ ...p, city: e.target.value }));
+                        }}
+                        className="mt-1 w-full rounded border bg-white px-3 py-2"
+                      >
+                        <option value="">Elegí la localidad</option>
+                        {cityOptions.map((c) => (
+                          <option key={c} value={c}>
+                            {c}
+                          </option>
+                        ))}
+                        <option value="__other__">Otra localidad…</option>
+                      </select>
+                    ) : (
+                      <>
+                        <input
+                          value={form.city ?? ""}
+                          onChange={(e) =>
+                            setForm((p) => ({ ...p, city: e.target.value }))
+                          }
+                          className="mt-1 w-full rounded border px-3 py-2"
+                          placeholder="Córdoba"
+                        />
+                        {cityOptions.length ? (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setCityOther(false);
+                              setForm((p) => ({ ...p, city: "" }));
+                            }}
+                            className="mt-1 text-[11px] font-semibold text-neutral-700 underline"
+                          >
+                            Elegir de la lista
+                          </button>
+                        ) : null}
+                      </>
+                    )}
                   </div>
 
                   <div className="sm:col-span-2">
@@ -823,6 +1043,85 @@ export function ProfilePanel({
               </div>
             )}
           </div>
+
+          {/* GIFT CARDS */}
+          {user ? (
+            <div className="rounded-2xl border border-neutral-200 bg-white p-5 shadow-sm lg:col-span-2">
+              <div className="text-lg font-extrabold text-neutral-900">
+                Mis gift cards
+              </div>
+              <p className="mt-1 text-sm text-neutral-600">
+                Las que compraste y las que usaste en tus pedidos, con el saldo
+                que les queda.
+              </p>
+
+              {giftCardsError ? (
+                <div className="mt-4 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+                  {giftCardsError}
+                </div>
+              ) : null}
+
+              <div className="mt-5">
+                {giftCardsLoading ? (
+                  <p className="text-sm text-neutral-600">Cargando gift cards…</p>
+                ) : giftCards.length === 0 ? (
+                  <div className="rounded-xl border border-neutral-200 bg-neutral-50 px-4 py-3 text-sm text-neutral-700">
+                    Todavía no tenés gift cards.
+                  </div>
+                ) : (
+                  <div className="space-y-3">
+                    {giftCards.map((g) => (
+                      <div
+                        key={g.code}
+                        className="rounded-xl border border-neutral-200 p-4"
+                      >
+                        <div className="flex flex-wrap items-start justify-between gap-3">
+                          <div className="min-w-0">
+                            <div className="font-mono font-extrabold text-neutral-900">
+                              {g.code}
+                            </div>
+                            <div className="mt-1 text-xs text-neutral-600">
+                              {g.purchased ? "Comprada por vos" : "Usada por vos"}
+                              {g.recipientName ? ` · Para ${g.recipientName}` : ""}
+                              {g.expiresAt
+                                ? ` · ${g.expired ? "Venció" : "Vence"} el ${formatDate(g.expiresAt)}`
+                                : ""}
+                            </div>
+                          </div>
+
+                          <div className="text-right">
+                            <div className="font-extrabold text-neutral-900">
+                              {formatARS(g.balance)}
+                            </div>
+                            <div className="text-xs text-neutral-600">
+                              de {formatARS(g.initialAmount)}
+                            </div>
+                          </div>
+                        </div>
+
+                        {g.movements.length ? (
+                          <ul className="mt-3 space-y-1 border-t border-neutral-100 pt-3 text-xs text-neutral-700">
+                            {g.movements.map((m, i) => (
+                              <li key={i} className="flex justify-between gap-3">
+                                <span>
+                                  {formatDate(m.date)} · {GIFT_CARD_MOVEMENT_LABEL[m.kind] ?? m.kind}
+                                  {m.orderNumber ? ` ${m.orderNumber}` : ""}
+                                </span>
+                                <span className={m.amount < 0 ? "text-neutral-900" : "text-green-700"}>
+                                  {m.amount < 0 ? "-" : "+"}
+                                  {formatARS(Math.abs(m.amount))}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        ) : null}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : null}
         </div>
       </div>
     </div>
@@ -0,0 +1,180 @@
+// src/lib/carriers/andreani.ts
+import {
+  CARRIER_MOCK_URL,
+  carrierError,
+  carrierJson,
+  carrierPdf,
+  normalizeBaseUrl,
+  originPostalCode,
+  toNum,
+} from "@/lib/carriers/http";
+import type { CarrierTracking, ShippingCarrier, TrackingEvent, TrackingEventKind } from "@/lib/carriers/types";
+
+/**
+ * Andreani (API de tarifas v1 / órdenes de envío v2).
+ * - ANDREANI_API_URL (default: mock local en /andreani)
+ * - ANDREANI_API_KEY → header x-authorization-token
+ * - ANDREANI_CONTRACT / ANDREANI_CLIENT: contrato y cliente del acuerdo comercial
+ */
+
+const ID = "andreani" as const;
+
+function config() {
+  return {
+    baseUrl: normalizeBaseUrl(process.env.ANDREANI_API_URL || `${CARRIER_MOCK_URL}/andreani`),
+    apiKey: String(process.env.ANDREANI_API_KEY || "").trim(),
+    contract: String(process.env.ANDREANI_CONTRACT || "").trim(),
+    client: String(process.env.ANDREANI_CLIENT || "").trim(),
+  };
+}
+
+function headers() {
+  const { apiKey } = config();
+  return {
+    "Content-Type": "application/json",
+    ...(apiKey ? { "x-authorization-token": apiKey } : {}),
+  };
+}
+
+// Estados de las trazas de Andreani → etapa del envío
+function eventKind(status: string): TrackingEventKind | null {
+  const s = status.toLowerCase();
+  if (s.includes("entregado") && !s.includes("no entregado")) return "delivered";
+  if (s.includes("distribuci")) return "out_for_delivery";
+  if (s.includes("viaje") || s.includes("tránsito") || s.includes("transito") || s.includes("en sucursal")) return "in_transit";
+  if (s.includes("ingresado") && !s.includes("pendiente")) return "handed_to_carrier";
+  if (s.includes("no entregado") || s.includes("siniestr") || s.includes("devoluci")) return "exception";
+  return null;
+}
+
+function readEvent(e: any): TrackingEvent {
+  const branch = e?.Sucursal ?? e?.sucursal ?? null;
+  const status = String(e?.Estado ?? e?.estado ?? "").trim();
+  return {
+    at: e?.Fecha ?? e?.fecha ?? null,
+    status,
+    description: String(e?.Traduccion ?? e?.traduccion ?? status).trim(),
+    location: typeof branch === "string" ? branch : branch?.Nombre ?? branch?.nombre ?? null,
+    kind: eventKind(status),
+  };
+}
+
+function trackingUrl(trackingNumber: string) {
+  return `https://www.andreani.com/#!/informacionEnvio/${encodeURIComponent(trackingNumber)}`;
+}
+
+export const andreaniCarrier: ShippingCarrier = {
+  id: ID,
+  name: "Andreani",
+  trackingUrl,
+
+  async quote({ destination, parcels, declaredValue }) {
+    const { baseUrl, contract, client } = config();
+    const cp = String(destination.postalCode ?? "").replace(/\D/g, "").slice(0, 4);
+
+    const sp = new URLSearchParams();
+    sp.set("cpDestino", cp);
+    sp.set("cpOrigen", originPostalCode());
+    if (contract) sp.set("contrato", contract);
+    if (client) sp.set("cliente", client);
+    parcels.forEach((p, i) => {
+      sp.set(`bultos[${i}][kilos]`, (Math.max(1, toNum(p.weightGrams, 0)) / 1000).toFixed(3));
+      sp.set(`bultos[${i}][valorDeclarado]`, String(Math.round(declaredValue / Math.max(1, parcels.length))));
+      if (p.lengthCm && p.widthCm && p.heightCm) {
+        sp.set(`bultos[${i}][volumen]`, String(Math.round(p.lengthCm * p.widthCm * p.heightCm)));
+      }
+    });
+
+    const json = await carrierJson<any>(ID, `${baseUrl}/v1/tarifas?${sp.toString()}`, { headers: headers() });
+
+    const cost = Math.round(toNum(json?.tarifaConIva?.total, NaN));
+    if (!Number.isFinite(cost) || cost < 0) carrierError(ID, "andreani: tarifa inválida", { details: json });
+
+    const min = toNum(json?.plazoEntrega?.minimo, NaN);
+    const max = toNum(json?.plazoEntrega?.maximo, NaN);
+
+    return {
+      carrierId: ID,
+      carrierName: "Andreani",
+      service: String(json?.servicio ?? "Estándar a domicilio"),
+      cost,
+      etaDays: Number.isFinite(min) && Number.isFinite(max) ? { min, max } : null,
+    };
+  },
+
+  async createShipment(req) {
+    const { baseUrl, contract } = config();
+
+    const body = {
+      contrato: contract || undefined,
+      idPedido: req.orderNumber,
+      origen: { postal: { codigoPostal: originPostalCode() } },
+      destino: {
+        postal: {
+          codigoPostal: req.address.postalCode,
+          calle: req.address.street,
+          numero: req.address.number,
+          localidad: req.address.city,
+          region: req.address.province,
+          pais: "Argentina",
+          componentesDeDireccion: req.address.notes ? [{ meta: "observaciones", contenido: req.address.notes }] : [],
+        },
+      },
+      destinatario: [
+        {
+          nombreCompleto: req.recipient.name,
+          eMail: req.recipient.email || undefined,
+          telefonos: req.recipient.phone ? [{ tipo: 1, numero: req.recipient.phone }] : [],
+        },
+      ],
+      bultos: req.parcels.map((p) => ({
+        kilos: Math.max(1, toNum(p.weightGrams, 0)) / 1000,
+        largoCm: p.lengthCm ?? undefined,
+        anchoCm: p.widthCm ?? undefined,
+        altoCm: p.heightCm ?? undefined,
+        valorDeclaradoConImpuestos: Math.round(req.declaredValue / Math.max(1, req.parcels.length)),
+      })),
+    };
+
+    const json = await carrierJson<any>(ID, `${baseUrl}/v2/ordenes-de-envio`, {
+      method: "POST",
+      headers: headers(),
+      body: JSON.stringify(body),
+    });
+
+    const bulto = Array.isArray(json?.bultos) ? json.bultos[0] : null;
+    const trackingNumber = String(bulto?.numeroDeEnvio ?? json?.numeroDeEnvio ?? "").trim();
+    if (!trackingNumber) carrierError(ID, "andreani: respuesta sin numeroDeEnvio", { details: json });
+
+    return {
+      carrierId: ID,
+      shipmentId: String(json?.agrupadorDeBultos ?? trackingNumber),
+      trackingNumber,
+      trackingUrl: trackingUrl(trackingNumber),
+    };
+  },
+
+  async getLabelPdf(trackingNumber) {
+    const { baseUrl } = config();
+    return carrierPdf(ID, `${baseUrl}/v2/ordenes-de-envio/${encodeURIComponent(trackingNumber)}/etiquetas`, {
+      headers: headers(),
+    });
+  },
+
+  async track(trackingNumber): Promise<CarrierTracking> {
+    const { baseUrl } = config();
+    const json = await carrierJson<any>(ID, `${baseUrl}/v2/envios/${encodeURIComponent(trackingNumber)}/trazas`, {
+      headers: headers(),
+    });
+
+    const raw: any[] = Array.isArray(json?.eventos) ? json.eventos : Array.isArray(json) ? json : [];
+    const events = raw.map(readEvent).sort((a, b) => String(a.at ?? "").localeCompare(String(b.at ?? "")));
+
+    return {
+      carrierId: ID,
+      trackingNumber,
+      delivered: events.some((e) => e.kind === "delivered"),
+      events,
+    };
+  },
+};
@@ -0,0 +1,188 @@
+// src/lib/carriers/correo-argentino.ts
+import {
+  CARRIER_MOCK_URL,
+  carrierError,
+  carrierJson,
+  carrierPdf,
+  normalizeBaseUrl,
+  originPostalCode,
+  toNum,
+  totalWeightGrams,
+} from "@/lib/carriers/http";
+import type { CarrierTracking, ShippingCarrier, TrackingEvent, TrackingEventKind } from "@/lib/carriers/types";
+
+/**
+ * Correo Argentino (API MiCorreo: rates / shipping import / tracking).
+ * - CORREO_ARGENTINO_API_URL (default: mock local en /correo-argentino)
+ * - CORREO_ARGENTINO_API_KEY → Bearer
+ * - CORREO_ARGENTINO_CUSTOMER_ID: número de cliente MiCorreo
+ */
+
+const ID = "correo_argentino" as const;
+
+function config() {
+  return {
+    baseUrl: normalizeBaseUrl(process.env.CORREO_ARGENTINO_API_URL || `${CARRIER_MOCK_URL}/correo-argentino`),
+    apiKey: String(process.env.CORREO_ARGENTINO_API_KEY || "").trim(),
+    customerId: String(process.env.CORREO_ARGENTINO_CUSTOMER_ID || "").trim(),
+  };
+}
+
+function headers() {
+  const { apiKey } = config();
+  return {
+    "Content-Type": "application/json",
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  };
+}
+
+/** Medidas del envío: MiCorreo cotiza un solo bulto (peso total, la caja más grande) */
+function dimensions(parcels: { weightGrams: number; lengthCm?: number | null; widthCm?: number | null; heightCm?: number | null }[]) {
+  const max = (k: "lengthCm" | "widthCm" | "heightCm", def: number) =>
+    Math.max(def, ...parcels.map((p) => Math.ceil(toNum(p[k], 0))));
+
+  return {
+    weight: Math.max(1, Math.round(totalWeightGrams(parcels))),
+    length: max("lengthCm", 20),
+    width: max("widthCm", 20),
+    height: max("heightCm", 10),
+  };
+}
+
+// Eventos de MiCorreo → etapa del envío
+function eventKind(event: string): TrackingEventKind | null {
+  const s = event.toUpperCase();
+  if (s.includes("NO ENTREGADO") || s.includes("DEVOLUCION") || s.includes("DEVUELTO")) return "exception";
+  if (s.includes("ENTREGADO") || s.includes("ENTREGA EN DOMICILIO")) return "delivered";
+  if (s.includes("DISTRIBUIDOR") || s.includes("EN DISTRIBUCION")) return "out_for_delivery";
+  if (s.includes("TRANSITO") || s.includes("CLASIFICACION")) return "in_transit";
+  if (s === "IMPOSICION" || s.includes("ADMISION")) return "handed_to_carrier";
+  return null;
+}
+
+function readEvent(e: any): TrackingEvent {
+  const event = String(e?.event ?? e?.status ?? "").trim();
+  return {
+    at: e?.date ?? null,
+    status: String(e?.status ?? event).trim(),
+    description: event,
+    location: e?.branch ? String(e.branch) : null,
+    kind: eventKind(event),
+  };
+}
+
+function trackingUrl(trackingNumber: string) {
+  return `https://www.correoargentino.com.ar/formularios/e-commerce?id=${encodeURIComponent(trackingNumber)}`;
+}
+
+export const correoArgentinoCarrier: ShippingCarrier = {
+  id: ID,
+  name: "Correo Argentino",
+  trackingUrl,
+
+  async quote({ destination, parcels }) {
+    const { baseUrl, customerId } = config();
+    const cp = String(destination.postalCode ?? "").replace(/\D/g, "").slice(0, 4);
+
+    const json = await carrierJson<any>(ID, `${baseUrl}/rates`, {
+      method: "POST",
+      headers: headers(),
+      body: JSON.stringify({
+        customerId,
+        postalCodeOrigin: originPostalCode(),
+        postalCodeDestination: cp,
+        deliveredType: "D",
+        dimensions: dimensions(parcels),
+      }),
+    });
+
+    const rates: any[] = Array.isArray(json?.rates) ? json.rates : [];
+    const rate = rates
+      .filter((r) => String(r?.deliveredType ?? "D") === "D" && Number.isFinite(toNum(r?.price, NaN)))
+      .sort((a, b) => toNum(a.price) - toNum(b.price))[0];
+
+    if (!rate) carrierError(ID, "correo_argentino: sin tarifas a domicilio", { details: json });
+
+    const min = toNum(rate?.deliveryTimeMin, NaN);
+    const max = toNum(rate?.deliveryTimeMax, NaN);
+
+    return {
+      carrierId: ID,
+      carrierName: "Correo Argentino",
+      service: String(rate?.productName ?? "Clásico a domicilio"),
+      cost: Math.round(toNum(rate.price)),
+      etaDays: Number.isFinite(min) && Number.isFinite(max) ? { min, max } : null,
+    };
+  },
+
+  async createShipment(req) {
+    const { baseUrl, customerId } = config();
+
+    const json = await carrierJson<any>(ID, `${baseUrl}/shipping/import`, {
+      method: "POST",
+      headers: headers(),
+      body: JSON.stringify({
+        customerId,
+        extOrderId: req.orderNumber,
+        orderNumber: req.orderNumber,
+        recipient: {
+          name: req.recipient.name,
+          email: req.recipient.email || "",
+          phone: req.recipient.phone || "",
+        },
+        shipping: {
+          deliveryType: "D",
+          productType: "CP",
+          declaredValue: Math.round(req.declaredValue),
+          address: {
+            streetName: req.address.street,
+            streetNumber: req.address.number,
+            city: req.address.city,
+            provinceCode: req.address.province,
+            postalCode: req.address.postalCode,
+            observation: req.address.notes || "",
+          },
+          ...dimensions(req.parcels),
+        },
+      }),
+    });
+
+    const trackingNumber = String(json?.trackingNumber ?? json?.shippingId ?? "").trim();
+    if (!trackingNumber) carrierError(ID, "correo_argentino: respuesta sin trackingNumber", { details: json });
+
+    return {
+      carrierId: ID,
+      shipmentId: String(json?.shippingId ?? trackingNumber),
+      trackingNumber,
+      trackingUrl: trackingUrl(trackingNumber),
+    };
+  },
+
+  async getLabelPdf(trackingNumber) {
+    const { baseUrl } = config();
+    return carrierPdf(ID, `${baseUrl}/shipping/label?trackingNumber=${encodeURIComponent(trackingNumber)}`, {
+      headers: headers(),
+    });
+  },
+
+  async track(trackingNumber): Promise<CarrierTracking> {
+    const { baseUrl } = config();
+    const json = await carrierJson<any>(
+      ID,
+      `${baseUrl}/shipping/tracking?shippingId=${encodeURIComponent(trackingNumber)}`,
+      { headers: headers() }
+    );
+
+    // MiCorreo devuelve un array de envíos, cada uno con sus eventos
+    const shipment = Array.isArray(json) ? json[0] : json;
+    const raw: any[] = Array.isArray(shipment?.events) ? shipment.events : [];
+    const events = raw.map(readEvent).sort((a, b) => String(a.at ?? "").localeCompare(String(b.at ?? "")));
+
+    return {
+      carrierId: ID,
+      trackingNumber,
+      delivered: events.some((e) => e.kind === "delivered"),
+      events,
+    };
+  },
+};
@@ -0,0 +1,97 @@
+// src/lib/carriers/http.ts
+import type { CarrierId } from "@/lib/carriers/types";
+
+/** Helpers HTTP compartidos por los adapters (timeout + error CARRIER_ERROR) */
+
+export const CARRIER_MOCK_URL = "http://localhost:4010";
+
+export function normalizeBaseUrl(url: string) {
+  const u = String(url ?? "").trim();
+  return u.endsWith("/") ? u.slice(0, -1) : u;
+}
+
+export function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+/** CP de origen de los despachos (SHIPPING_ORIGIN_POSTAL_CODE, default Concepción del Uruguay) */
+export function originPostalCode() {
+  return String(process.env.SHIPPING_ORIGIN_POSTAL_CODE || "3260").trim();
+}
+
+export function carrierError(carrierId: CarrierId, message: string, extra: Record<string, any> = {}): never {
+  const err: any = new Error(message);
+  err.code = "CARRIER_ERROR";
+  err.carrierId = carrierId;
+  Object.assign(err, extra);
+  throw err;
+}
+
+type CarrierInit = Omit<RequestInit, "headers"> & { headers?: Record<string, string> };
+
+async function fetchWithTimeout(input: string, init: CarrierInit, ms: number) {
+  const ctrl = new AbortController();
+  const t = setTimeout(() => ctrl.abort(), ms);
+  try {
+    return await fetch(input, { ...init, signal: ctrl.signal, cache: "no-store" });
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+export async function carrierRequest(
+  carrierId: CarrierId,
+  url: string,
+  init: CarrierInit = {},
+  ms = 15000
+) {
+  let res: Response;
+  try {
+    res = await fetchWithTimeout(url, init, ms);
+  } catch (e: any) {
+    carrierError(carrierId, `${carrierId} request failed: ${e?.message || e}`, { url });
+  }
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    carrierError(carrierId, `${carrierId} ${res.status}: ${text.slice(0, 300) || "(no body)"}`, {
+      status: res.status,
+      url,
+    });
+  }
+
+  return res;
+}
+
+export async function carrierJson<T = any>(
+  carrierId: CarrierId,
+  url: string,
+  init: CarrierInit = {}
+): Promise<T> {
+  const res = await carrierRequest(carrierId, url, {
+    ...init,
+    headers: { Accept: "application/json", ...(init.headers ?? {}) },
+  });
+  return (await res.json().catch(() => null)) as T;
+}
+
+export async function carrierPdf(
+  carrierId: CarrierId,
+  url: string,
+  init: CarrierInit = {}
+) {
+  const res = await carrierRequest(
+    carrierId,
+    url,
+    { ...init, headers: { Accept: "application/pdf", ...(init.headers ?? {}) } },
+    25000
+  );
+  const buf = Buffer.from(await res.arrayBuffer());
+  if (!buf.byteLength) carrierError(carrierId, `${carrierId}: etiqueta vacía`, { url });
+  return buf;
+}
+
+export function totalWeightGrams(parcels: { weightGrams: number }[]) {
+  return parcels.reduce((acc, p) => acc + Math.max(0, toNum(p.weightGrams, 0)), 0);
+}
@@ -0,0 +1,75 @@
+// src/lib/carriers/index.ts
+import { andreaniCarrier } from "@/lib/carriers/andreani";
+import { correoArgentinoCarrier } from "@/lib/carriers/correo-argentino";
+import type { CarrierId, CarrierQuote, CarrierQuoteRequest, ShippingCarrier } from "@/lib/carriers/types";
+
+export type {
+  CarrierEta,
+  CarrierId,
+  CarrierParcel,
+  CarrierQuote,
+  CarrierShipment,
+  CarrierTracking,
+  ShippingCarrier,
+  TrackingEvent,
+  TrackingEventKind,
+} from "@/lib/carriers/types";
+
+/**
+ * Correos habilitados (SHIPPING_CARRIERS="andreani,correo_argentino").
+ * Sin correos habilitados, el envío a domicilio se cobra con las tarifas de la zona (lib/shipping)
+ * y no se generan envíos al pagar.
+ */
+
+const CARRIERS: Record<CarrierId, ShippingCarrier> = {
+  andreani: andreaniCarrier,
+  correo_argentino: correoArgentinoCarrier,
+};
+
+export function isCarrierId(v: any): v is CarrierId {
+  return typeof v === "string" && Object.prototype.hasOwnProperty.call(CARRIERS, v);
+}
+
+export function enabledCarrierIds(): CarrierId[] {
+  const raw = String(process.env.SHIPPING_CARRIERS ?? "")
+    .split(/[,;\s]+/)
+    .map((s) => s.trim().toLowerCase().replace(/-/g, "_"))
+    .filter(Boolean);
+
+  return Array.from(new Set(raw)).filter(isCarrierId);
+}
+
+/** Adapter de un correo habilitado (error CARRIER_NOT_AVAILABLE si no) */
+export function getCarrier(id: any): ShippingCarrier {
+  const key = String(id ?? "").trim().toLowerCase();
+  if (!isCarrierId(key) || !enabledCarrierIds().includes(key)) {
+    const err: any = new Error("CARRIER_NOT_AVAILABLE");
+    err.code = "CARRIER_NOT_AVAILABLE";
+    err.carrierId = key || null;
+    throw err;
+  }
+  return CARRIERS[key];
+}
+
+/**
+ * Cotiza con todos los correos habilitados.
+ * Un correo que falla no corta a los demás: queda en `failed` (para loguear).
+ */
+export async function quoteCarriers(req: CarrierQuoteRequest) {
+  const ids = enabledCarrierIds();
+
+  const results = await Promise.all(
+    ids.map(async (id) => {
+      try {
+        return { id, quote: await CARRIERS[id].quote(req), error: null };
+      } catch (e: any) {
+        return { id, quote: null, error: e?.message || String(e) };
+      }
+    })
+  );
+
+  return {
+    quotes: results.map((r) => r.quote).filter(Boolean) as CarrierQuote[],
+    failed: results.filter((r) => r.error).map((r) => ({ carrierId: r.id, error: r.error as string })),
+  };
+}
@@ -0,0 +1,87 @@
+// src/lib/carriers/types.ts
+
+/**
+ * Contrato común de los correos (Andreani, Correo Argentino).
+ * Cada adapter traduce esto a la API del correo; en desarrollo apuntan al mock
+ * de scripts/carrier-mock-server.mjs.
+ */
+
+export type CarrierId = "andreani" | "correo_argentino";
+
+export type CarrierParcel = {
+  weightGrams: number;
+  lengthCm?: number | null;
+  widthCm?: number | null;
+  heightCm?: number | null;
+};
+
+export type CarrierAddress = {
+  street: string;
+  number: string;
+  city: string;
+  province: string;
+  postalCode: string;
+  notes?: string | null;
+};
+
+export type CarrierEta = {
+  min: number; // días hábiles
+  max: number;
+};
+
+export type CarrierQuoteRequest = {
+  destination: { province?: string | null; postalCode?: string | null };
+  parcels: CarrierParcel[];
+  declaredValue: number;
+};
+
+export type CarrierQuote = {
+  carrierId: CarrierId;
+  carrierName: string;
+  service: string;
+  cost: number;
+  etaDays: CarrierEta | null;
+};
+
+export type ShipmentRequest = {
+  orderNumber: string;
+  recipient: { name: string; email?: string | null; phone?: string | null };
+  address: CarrierAddress;
+  parcels: CarrierParcel[];
+  declaredValue: number;
+};
+
+export type CarrierShipment = {
+  carrierId: CarrierId;
+  shipmentId: string;
+  trackingNumber: string;
+  trackingUrl: string | null;
+};
+
+/** Etapa del envío que representa un evento del correo (null = interno del correo) */
+export type TrackingEventKind = "handed_to_carrier" | "in_transit" | "out_for_delivery" | "delivered" | "exception";
+
+export type TrackingEvent = {
+  at: string | null; // ISO
+  status: string;
+  description: string;
+  location: string | null;
+  kind: TrackingEventKind | null;
+};
+
+export type CarrierTracking = {
+  carrierId: CarrierId;
+  trackingNumber: string;
+  delivered: boolean;
+  events: TrackingEvent[]; // más viejo primero
+};
+
+export interface ShippingCarrier {
+  id: CarrierId;
+  name: string;
+  quote(req: CarrierQuoteRequest): Promise<CarrierQuote>;
+  createShipment(req: ShipmentRequest): Promise<CarrierShipment>;
+  getLabelPdf(trackingNumber: string): Promise<Buffer>;
+  track(trackingNumber: string): Promise<CarrierTracking>;
+  trackingUrl(trackingNumber: string): string | null;
+}
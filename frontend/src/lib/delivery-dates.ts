@@ -0,0 +1,333 @@
+// src/lib/delivery-dates.ts
+import { fetcher } from "@/lib/fetcher";
+
+/**
+ * Entrega programada: el comprador elige el día en que le llega el pedido (regalos, Día de la Madre, etc.).
+ *
+ * Configuración en el single type `delivery-schedule` de Strapi (sin él, el checkout no ofrece fecha):
+ * - enabled (default true)
+ * - leadDays: días hábiles de preparación (default 2)
+ * - cutoffTime: hora de corte "HH:MM" (default "14:00"); después de esa hora hoy ya no cuenta
+ * - workingDays: días en que se entrega (["lun", "mar", ...] o mon..sun; default lunes a viernes)
+ * - nonWorkingDates: feriados ("YYYY-MM-DD" o { from, to, reason }), como los blackouts de las zonas
+ * - dailyCapacity: entregas por día (0 = sin límite; default 0)
+ * - maxDaysAhead: hasta cuántos días corridos se puede elegir (default 45)
+ *
+ * Con correo, a la preparación se le suma la demora máxima del correo (etaDays.max).
+ * La capacidad ocupada sale de las órdenes (`deliveryDate`) que no se cancelaron.
+ */
+
+export type NonWorkingWindow = {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD (inclusive)
+  reason: string | null;
+};
+
+export type DeliverySchedule = {
+  leadDays: number;
+  cutoffTime: string; // "HH:MM" (hora de Argentina)
+  workingDays: number[]; // 0 = domingo ... 6 = sábado
+  nonWorking: NonWorkingWindow[];
+  dailyCapacity: number; // 0 = sin límite
+  maxDaysAhead: number;
+};
+
+export type DeliveryDateOption = {
+  date: string; // YYYY-MM-DD
+  remaining: number | null; // null = sin límite
+};
+
+export type DeliveryDateUnavailableReason = "invalid" | "disabled" | "too_soon" | "too_far" | "closed" | "full";
+
+const SCHEDULE_PATH = "/api/delivery-schedule";
+const SCHEDULE_CACHE_MS = 60_000;
+
+// Argentina no tiene horario de verano
+const AR_OFFSET = "-03:00";
+
+// Órdenes que ya no ocupan lugar en el día
+const RELEASED_STATUSES = ["cancelled", "failed", "refunded"];
+
+// Índice = día de la semana (0 = domingo); claves en inglés o castellano
+const DAY_KEYS = [
+  ["sun", "dom"],
+  ["mon", "lun"],
+  ["tue", "mar"],
+  ["wed", "mie"],
+  ["thu", "jue"],
+  ["fri", "vie"],
+  ["sat", "sab"],
+];
+
+const DAY_NAMES = ["domingo", "lunes", "martes", "miércoles", "jueves", "viernes", "sábado"];
+
+let scheduleCache: { at: number; schedule: DeliverySchedule | null } | null = null;
+
+function pickAttr(row: any) {
+  return row?.attributes ?? row ?? {};
+}
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+function readJson(v: any) {
+  if (typeof v !== "string") return v;
+  try {
+    return JSON.parse(v);
+  } catch {
+    return v;
+  }
+}
+
+function isIsoDate(s: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(s) && Number.isFinite(Date.parse(`${s}T12:00:00${AR_OFFSET}`));
+}
+
+function deliveryDateUnavailable(reason: DeliveryDateUnavailableReason, extra: Record<string, any> = {}): never {
+  const err: any = new Error("DELIVERY_DATE_UNAVAILABLE");
+  err.code = "DELIVERY_DATE_UNAVAILABLE";
+  err.reason = reason;
+  Object.assign(err, extra);
+  throw err;
+}
+
+function readTime(v: any, def: string) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(v ?? "").trim());
+  if (!m || Number(m[1]) > 23 || Number(m[2]) > 59) return def;
+  return `${m[1].padStart(2, "0")}:${m[2]}`;
+}
+
+function readWorkingDays(v: any) {
+  const raw = readJson(v);
+  const list = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(/[,;\s]+/) : [];
+
+  const days = list
+    .map((d: any) => {
+      if (typeof d === "number") return d >= 0 && d <= 6 ? d : -1;
+      const key = String(d ?? "")
+        .normalize("NFD")
+        .replace(/[\u0300-\u036f]/g, "")
+        .toLowerCase()
+        .slice(0, 3);
+      return DAY_KEYS.findIndex((keys) => keys.includes(key));
+    })
+    .filter((d: number) => d >= 0);
+
+  return days.length ? Array.from(new Set<number>(days)).sort() : [1, 2, 3, 4, 5];
+}
+
+function readNonWorking(v: any): NonWorkingWindow[] {
+  const raw = readJson(v);
+  const list = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(/[,;\n]/) : [];
+
+  return list
+    .map((b: any) => {
+      if (typeof b === "string") {
+        const d = b.trim();
+        return isIsoDate(d) ? { from: d, to: d, reason: null } : null;
+      }
+      const from = String(b?.from ?? b?.date ?? "").trim();
+      const to = String(b?.to ?? from).trim();
+      if (!isIsoDate(from) || !isIsoDate(to)) return null;
+      return { from, to, reason: b?.reason ? String(b.reason) : null };
+    })
+    .filter(Boolean) as NonWorkingWindow[];
+}
+
+export function readDeliverySchedule(row: any): DeliverySchedule | null {
+  const attr = pickAttr(row);
+  if (!row || attr?.enabled === false) return null;
+
+  return {
+    leadDays: Math.max(0, Math.floor(toNum(attr?.leadDays, 2))),
+    cutoffTime: readTime(attr?.cutoffTime, "14:00"),
+    workingDays: readWorkingDays(attr?.workingDays),
+    nonWorking: readNonWorking(attr?.nonWorkingDates),
+    dailyCapacity: Math.max(0, Math.floor(toNum(attr?.dailyCapacity, 0))),
+    maxDaysAhead: Math.min(365, Math.max(1, Math.floor(toNum(attr?.maxDaysAhead, 45)))),
+  };
+}
+
+/**
+ * Configuración desde Strapi (cache de 1 minuto). null = entrega programada deshabilitada.
+ * Error DELIVERY_DATES_UNAVAILABLE si Strapi falla.
+ */
+export async function loadDeliverySchedule(opts: { fresh?: boolean } = {}) {
+  const now = Date.now();
+  if (!opts.fresh && scheduleCache && now - scheduleCache.at < SCHEDULE_CACHE_MS) return scheduleCache.schedule;
+
+  let row: any = null;
+  try {
+    const res = await fetcher<any>(SCHEDULE_PATH, { auth: true });
+    row = res?.data ?? null;
+  } catch (e: any) {
+    // Single type sin crear → deshabilitado
+    if (!String(e?.message ?? "").startsWith("HTTP 404")) {
+      const err: any = new Error("DELIVERY_DATES_UNAVAILABLE");
+      err.code = "DELIVERY_DATES_UNAVAILABLE";
+      err.details = e?.message || String(e);
+      throw err;
+    }
+  }
+
+  const schedule = readDeliverySchedule(row);
+  scheduleCache = { at: now, schedule };
+  return schedule;
+}
+
+/** Fecha local de Argentina (YYYY-MM-DD) */
+function argentinaDateKey(date: Date) {
+  return date.toLocaleDateString("en-CA", { timeZone: "America/Argentina/Buenos_Aires" });
+}
+
+function argentinaTime(date: Date) {
+  return date.toLocaleTimeString("en-GB", {
+    timeZone: "America/Argentina/Buenos_Aires",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+}
+
+function addDays(dateKey: string, days: number) {
+  const d = new Date(`${dateKey}T12:00:00${AR_OFFSET}`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return argentinaDateKey(d);
+}
+
+function weekday(dateKey: string) {
+  return new Date(`${dateKey}T12:00:00${AR_OFFSET}`).getUTCDay();
+}
+
+export function nonWorkingReason(schedule: DeliverySchedule, dateKey: string) {
+  const w = schedule.nonWorking.find((b) => dateKey >= b.from && dateKey <= b.to);
+  return w ? w.reason ?? "Feriado" : null;
+}
+
+export function isDeliveryDay(schedule: DeliverySchedule, dateKey: string) {
+  return schedule.workingDays.includes(weekday(dateKey)) && !nonWorkingReason(schedule, dateKey);
+}
+
+function nextDeliveryDay(schedule: DeliverySchedule, dateKey: string) {
+  let d = addDays(dateKey, 1);
+  for (let i = 0; i < 400 && !isDeliveryDay(schedule, d); i++) d = addDays(d, 1);
+  return d;
+}
+
+/**
+ * Primer día que se puede entregar: hoy (si es hábil y no pasó el corte) o el próximo hábil,
+ * más `leadDays` + `extraDays` (demora del correo) días hábiles.
+ */
+export function earliestDeliveryDate(schedule: DeliverySchedule, now: Date = new Date(), extraDays = 0) {
+  const today = argentinaDateKey(now);
+  const beforeCutoff = argentinaTime(now) < schedule.cutoffTime;
+
+  let d = isDeliveryDay(schedule, today) && beforeCutoff ? today : nextDeliveryDay(schedule, today);
+  const lead = schedule.leadDays + Math.max(0, Math.ceil(extraDays));
+  for (let i = 0; i < lead; i++) d = nextDeliveryDay(schedule, d);
+  return d;
+}
+
+export function lastDeliveryDate(schedule: DeliverySchedule, now: Date = new Date()) {
+  return addDays(argentinaDateKey(now), schedule.maxDaysAhead);
+}
+
+/** Entregas programadas por día (entre `from` y `to`, inclusive) */
+export async function countDeliveriesByDate(from: string, to: string) {
+  const sp = new URLSearchParams();
+  sp.set("filters[deliveryDate][$gte]", from);
+  sp.set("filters[deliveryDate][$lte]", to);
+  RELEASED_STATUSES.forEach((s, i) => sp.set(`filters[orderStatus][$notIn][${i}]`, s));
+  sp.set("fields[0]", "deliveryDate");
+  sp.set("pagination[pageSize]", "500");
+
+  const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+  const rows = Array.isArray(res?.data) ? res.data : [];
+
+  const booked = new Map<string, number>();
+  for (const row of rows) {
+    const d = String(pickAttr(row)?.deliveryDate ?? "").slice(0, 10);
+    if (isIsoDate(d)) booked.set(d, (booked.get(d) ?? 0) + 1);
+  }
+  return booked;
+}
+
+/** Días que se ofrecen en el checkout (los completos vienen con remaining 0) */
+export function deliveryDateOptions(
+  schedule: DeliverySchedule,
+  booked: Map<string, number>,
+  now: Date = new Date(),
+  extraDays = 0
+): DeliveryDateOption[] {
+  const last = lastDeliveryDate(schedule, now);
+  const out: DeliveryDateOption[] = [];
+
+  for (let d = earliestDeliveryDate(schedule, now, extraDays); d <= last; d = nextDeliveryDay(schedule, d)) {
+    out.push({
+      date: d,
+      remaining: schedule.dailyCapacity ? Math.max(0, schedule.dailyCapacity - (booked.get(d) ?? 0)) : null,
+    });
+  }
+  return out;
+}
+
+/** Configuración + días disponibles (GET /api/delivery-dates). null = deshabilitado */
+export async function listDeliveryDates(params: { extraDays?: number; now?: Date } = {}) {
+  const now = params.now ?? new Date();
+  const schedule = await loadDeliverySchedule();
+  if (!schedule) return null;
+
+  const from = earliestDeliveryDate(schedule, now, params.extraDays ?? 0);
+  const booked = schedule.dailyCapacity
+    ? await countDeliveriesByDate(from, lastDeliveryDate(schedule, now))
+    : new Map<string, number>();
+
+  return { schedule, dates: deliveryDateOptions(schedule, booked, now, params.extraDays ?? 0) };
+}
+
+/**
+ * Valida la fecha elegida (orders/create). Devuelve la fecha normalizada (YYYY-MM-DD).
+ * Error DELIVERY_DATE_UNAVAILABLE (reason: invalid | disabled | too_soon | too_far | closed | full).
+ */
+export async function resolveDeliveryDate(params: { date: string; extraDays?: number; now?: Date }) {
+  const now = params.now ?? new Date();
+  const date = String(params.date ?? "").trim().slice(0, 10);
+  if (!isIsoDate(date)) deliveryDateUnavailable("invalid");
+
+  const schedule = await loadDeliverySchedule();
+  if (!schedule) deliveryDateUnavailable("disabled");
+
+  const earliest = earliestDeliveryDate(schedule, now, params.extraDays ?? 0);
+  if (date < earliest) deliveryDateUnavailable("too_soon", { earliest });
+  if (date > lastDeliveryDate(schedule, now)) deliveryDateUnavailable("too_far");
+  if (!isDeliveryDay(schedule, date)) deliveryDateUnavailable("closed", { date });
+
+  if (schedule.dailyCapacity) {
+    const booked = await countDeliveriesByDate(date, date);
+    if ((booked.get(date) ?? 0) >= schedule.dailyCapacity) deliveryDateUnavailable("full", { date });
+  }
+
+  return date;
+}
+
+/** "2026-10-24" → "sábado 24/10" */
+export function formatDeliveryDate(date: string | null | undefined) {
+  const d = String(date ?? "").slice(0, 10);
+  if (!isIsoDate(d)) return "";
+  const [, month, day] = d.split("-");
+  return `${DAY_NAMES[weekday(d)]} ${day}/${month}`;
+}
+
+/** Mensaje para el comprador (orders/create) */
+export function deliveryDateMessage(e: any) {
+  if (e?.reason === "full") return "Ya no tenemos lugar para entregar ese día. Elegí otra fecha.";
+  if (e?.reason === "too_soon") {
+    const first = formatDeliveryDate(e?.earliest);
+    return `No llegamos a entregar en esa fecha${first ? `: la primera disponible es el ${first}` : ""}.`;
+  }
+  if (e?.reason === "closed") return "Ese día no hacemos entregas. Elegí otra fecha.";
+  if (e?.reason === "disabled") return "Por ahora no se puede programar la fecha de entrega.";
+  return "La fecha de entrega elegida no es válida. Elegí otra.";
+}
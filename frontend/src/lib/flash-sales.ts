@@ -0,0 +1,169 @@
+// src/lib/flash-sales.ts
+import { fetcher } from "@/lib/fetcher";
+
+/**
+ * Ofertas relámpago: un `off` temporal con inicio y fin, por producto o por categoría.
+ *
+ * - Strapi: collection `flash-sales` con `name`, `off` (%), `startsAt`, `endsAt` (datetime), `enabled` y a qué aplica:
+ *   `products` (JSON `["bombones-x", 12, "abc123"]` o texto "bombones-x, 12": slug, id o documentId)
+ *   y/o `categories` (mismo formato, por `category` del producto). Sin ninguna de las dos, no aplica a nada.
+ * - Mientras está vigente reemplaza al `off` del producto si es mayor (no se suman).
+ *   Entre varias ofertas vigentes para el mismo producto gana la de mayor `off`.
+ * - Lo aplican toCardItem, la página de producto, /api/products/prices (carrito) y el server
+ *   (lib/pricing + lib/promotion-quote), así el precio que se ve es el que se cobra.
+ */
+
+export type FlashSale = {
+  id: number;
+  name: string;
+  off: number;
+  startsAt: string; // ISO
+  endsAt: string; // ISO
+  products: string[]; // slug / id / documentId
+  categories: string[]; // en minúscula
+};
+
+/** Lo que hace falta del producto para saber si entra en una oferta */
+export type FlashSaleProduct = {
+  id?: number | string | null;
+  documentId?: string | null;
+  slug?: string | null;
+  category?: string | null;
+};
+
+/** Cache en memoria (mismo criterio que las zonas de envío); la vigencia se calcula con la hora de cada llamada */
+const SALES_CACHE_MS = 60_000;
+let salesCache: { at: number; sales: FlashSale[] } | null = null;
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+function readList(v: any): string[] {
+  let raw = v;
+  if (typeof raw === "string") {
+    const s = raw.trim();
+    try {
+      raw = s.startsWith("[") ? JSON.parse(s) : s.split(",");
+    } catch {
+      raw = s.split(",");
+    }
+  }
+  if (!Array.isArray(raw)) return [];
+  return raw.map((x) => String(x ?? "").trim()).filter(Boolean);
+}
+
+function readDate(v: any): string | null {
+  if (!v) return null;
+  const t = new Date(String(v)).getTime();
+  return Number.isFinite(t) ? new Date(t).toISOString() : null;
+}
+
+/** Oferta de Strapi (v4/v5); null si está deshabilitada o le falta algo */
+export function readFlashSale(row: any): FlashSale | null {
+  const attr = row?.attributes ?? row;
+  if (!attr) return null;
+
+  const enabled = attr?.enabled ?? true;
+  if (enabled === false || enabled === "false") return null;
+
+  const off = Math.trunc(toNum(attr?.off, 0));
+  const startsAt = readDate(attr?.startsAt ?? attr?.starts_at);
+  const endsAt = readDate(attr?.endsAt ?? attr?.ends_at);
+  if (!(off > 0 && off < 100) || !startsAt || !endsAt || endsAt <= startsAt) return null;
+
+  return {
+    id: Math.trunc(toNum(row?.id ?? attr?.id, 0)),
+    name: String(attr?.name ?? "").trim() || "Oferta relámpago",
+    off,
+    startsAt,
+    endsAt,
+    products: readList(attr?.products),
+    categories: readList(attr?.categories).map((c) => c.toLowerCase()),
+  };
+}
+
+/**
+ * Ofertas que todavía no terminaron (vigentes y próximas), ordenadas por inicio.
+ * Si Strapi falla devuelve [] (se cobra el `off` fijo, igual en la vista y en el server).
+ */
+export async function fetchFlashSales(opts: { fresh?: boolean } = {}): Promise<FlashSale[]> {
+  const now = Date.now();
+  if (!opts.fresh && salesCache && now - salesCache.at < SALES_CACHE_MS) {
+    return salesCache.sales.filter((s) => new Date(s.endsAt).getTime() > now);
+  }
+
+  const sp = new URLSearchParams();
+  sp.set("filters[endsAt][$gt]", new Date(now).toISOString());
+  sp.set("sort[0]", "startsAt:asc");
+  sp.set("pagination[pageSize]", "100");
+
+  try {
+    const res = await fetcher<any>(`/api/flash-sales?${sp.toString()}`, { auth: true, cache: "no-store" });
+    const rows = Array.isArray(res?.data) ? res.data : [];
+    const sales = rows.map(readFlashSale).filter(Boolean) as FlashSale[];
+    salesCache = { at: now, sales };
+    return sales;
+  } catch (e: any) {
+    console.error("[flash-sales] no pude leer flash-sales:", e?.message || e);
+    return [];
+  }
+}
+
+export function isFlashSaleLive(sale: FlashSale, now: Date = new Date()) {
+  const t = now.getTime();
+  return new Date(sale.startsAt).getTime() <= t && t < new Date(sale.endsAt).getTime();
+}
+
+export function liveFlashSales(sales: FlashSale[], now: Date = new Date()) {
+  return sales.filter((s) => isFlashSaleLive(s, now));
+}
+
+export function upcomingFlashSales(sales: FlashSale[], now: Date = new Date()) {
+  return sales.filter((s) => new Date(s.startsAt).getTime() > now.getTime());
+}
+
+export function flashSaleMatches(sale: FlashSale, product: FlashSaleProduct) {
+  const keys = [product.slug, product.documentId, product.id != null ? String(product.id) : null]
+    .map((k) => String(k ?? "").trim())
+    .filter(Boolean);
+  if (keys.some((k) => sale.products.includes(k))) return true;
+
+  const category = String(product.category ?? "").trim().toLowerCase();
+  return !!category && sale.categories.includes(category);
+}
+
+/**
+ * `off` efectivo del producto: el mayor entre el fijo y la oferta vigente.
+ * `sale` solo viene si es la oferta la que manda (para el badge con la cuenta regresiva).
+ */
+export function applyFlashSale(
+  product: FlashSaleProduct,
+  baseOff: number | null | undefined,
+  sales: FlashSale[],
+  now: Date = new Date()
+): { off: number | null; sale: FlashSale | null } {
+  const base = typeof baseOff === "number" && baseOff > 0 ? baseOff : null;
+
+  let best: FlashSale | null = null;
+  for (const s of sales) {
+    if (!isFlashSaleLive(s, now) || !flashSaleMatches(s, product)) continue;
+    if (!best || s.off > best.off) best = s;
+  }
+
+  if (best && best.off > (base ?? 0)) return { off: best.off, sale: best };
+  return { off: base, sale: null };
+}
+
+/** "viernes 14/11 00:00" (hora de Argentina, para "Próximas ofertas") */
+export function formatFlashSaleStart(iso: string) {
+  return new Date(iso).toLocaleString("es-AR", {
+    timeZone: "America/Argentina/Buenos_Aires",
+    weekday: "long",
+    day: "2-digit",
+    month: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
@@ -0,0 +1,161 @@
+// src/lib/geo/ar-provinces.ts
+
+/**
+ * Provincias con su letra de CPA y los rangos de CP (4 dígitos) que usan.
+ * Los rangos se superponen en los límites entre provincias (ej: 3300 Posadas / 3302 Ituzaingó):
+ * sirven para descartar combinaciones imposibles, no para adivinar la provincia.
+ */
+
+export type ArProvince = {
+  code: string; // letra del CPA
+  name: string;
+  aliases: string[];
+  postalRanges: Array<[number, number]>;
+};
+
+export const AR_PROVINCES: ArProvince[] = [
+  { code: "A", name: "Salta", aliases: [], postalRanges: [[4400, 4599]] },
+  {
+    code: "B",
+    name: "Buenos Aires",
+    aliases: ["provincia de buenos aires", "pba", "bs as", "bsas"],
+    postalRanges: [
+      [1600, 1999],
+      [2700, 2999],
+      [6000, 6799],
+      [7000, 7699],
+      [8000, 8199],
+      [8500, 8512],
+    ],
+  },
+  {
+    code: "C",
+    name: "Ciudad Autónoma de Buenos Aires",
+    aliases: ["caba", "capital federal", "ciudad de buenos aires"],
+    postalRanges: [[1000, 1499]],
+  },
+  {
+    code: "D",
+    name: "San Luis",
+    aliases: [],
+    postalRanges: [
+      [5700, 5799],
+      [5880, 5889],
+      [6210, 6299],
+    ],
+  },
+  {
+    code: "E",
+    name: "Entre Ríos",
+    aliases: [],
+    postalRanges: [
+      [2820, 2849],
+      [3100, 3299],
+    ],
+  },
+  { code: "F", name: "La Rioja", aliases: [], postalRanges: [[5300, 5399]] },
+  {
+    code: "G",
+    name: "Santiago del Estero",
+    aliases: [],
+    postalRanges: [
+      [3740, 3769],
+      [4200, 4399],
+    ],
+  },
+  { code: "H", name: "Chaco", aliases: [], postalRanges: [[3500, 3799]] },
+  { code: "J", name: "San Juan", aliases: [], postalRanges: [[5400, 5499]] },
+  {
+    code: "K",
+    name: "Catamarca",
+    aliases: [],
+    postalRanges: [
+      [4700, 4799],
+      [5260, 5269],
+      [5340, 5349],
+    ],
+  },
+  {
+    code: "L",
+    name: "La Pampa",
+    aliases: [],
+    postalRanges: [
+      [6200, 6399],
+      [8200, 8299],
+    ],
+  },
+  { code: "M", name: "Mendoza", aliases: [], postalRanges: [[5500, 5699]] },
+  { code: "N", name: "Misiones", aliases: [], postalRanges: [[3300, 3399]] },
+  { code: "P", name: "Formosa", aliases: [], postalRanges: [[3600, 3699]] },
+  {
+    code: "Q",
+    name: "Neuquén",
+    aliases: [],
+    postalRanges: [
+      [8300, 8399],
+      [8400, 8409],
+    ],
+  },
+  { code: "R", name: "Río Negro", aliases: [], postalRanges: [[8300, 8599]] },
+  {
+    code: "S",
+    name: "Santa Fe",
+    aliases: [],
+    postalRanges: [
+      [2000, 2699],
+      [2900, 2949],
+      [3000, 3099],
+      [3500, 3599],
+      [6100, 6109],
+    ],
+  },
+  { code: "T", name: "Tucumán", aliases: [], postalRanges: [[4000, 4199]] },
+  { code: "U", name: "Chubut", aliases: [], postalRanges: [[9000, 9299]] },
+  {
+    code: "V",
+    name: "Tierra del Fuego",
+    aliases: ["tierra del fuego antartida e islas del atlantico sur"],
+    postalRanges: [[9410, 9429]],
+  },
+  {
+    code: "W",
+    name: "Corrientes",
+    aliases: [],
+    postalRanges: [
+      [3190, 3199],
+      [3220, 3239],
+      [3300, 3349],
+      [3400, 3499],
+    ],
+  },
+  {
+    code: "X",
+    name: "Córdoba",
+    aliases: [],
+    postalRanges: [
+      [2400, 2699],
+      [5000, 5299],
+      [5800, 5999],
+      [6100, 6299],
+    ],
+  },
+  {
+    code: "Y",
+    name: "Jujuy",
+    aliases: [],
+    postalRanges: [
+      [4500, 4519],
+      [4600, 4699],
+    ],
+  },
+  {
+    code: "Z",
+    name: "Santa Cruz",
+    aliases: [],
+    postalRanges: [
+      [9011, 9019],
+      [9040, 9059],
+      [9300, 9409],
+    ],
+  },
+];
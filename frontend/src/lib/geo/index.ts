@@ -0,0 +1,204 @@
+// src/lib/geo/index.ts
+import LOCALITIES from "@/lib/geo/ar-localities.json";
+import { AR_PROVINCES, type ArProvince } from "@/lib/geo/ar-provinces";
+
+export { AR_PROVINCES } from "@/lib/geo/ar-provinces";
+export type { ArProvince } from "@/lib/geo/ar-provinces";
+
+/**
+ * Datos geográficos de Argentina incluidos en el repo (sin servicio externo):
+ * provincias con su letra de CPA y rangos de CP (ar-provinces.ts) + localidades con su CP (ar-localities.json,
+ * `[cp, letra de provincia, nombre]`, las localidades principales de cada provincia, con UN CP cada una).
+ *
+ * - La provincia tiene que usar ese CP (localidades del dataset o rangos de la provincia).
+ * - La localidad no se cruza contra el CP: las ciudades grandes tienen muchos (Córdoba 5000-5017, Rosario 2000-2013,
+ *   La Plata 1900-1906, Mar del Plata 7600-7612) y el dataset guarda uno solo. Si está en el dataset se devuelve
+ *   con su nombre normalizado; si no (barrios, parajes), queda como la escribieron.
+ * - CPA completo ("C1425ABC"): la letra tiene que ser la de la provincia.
+ *
+ * Lo usan /api/geo (checkout y perfil), /api/addresses y orders/create (ADDRESS_INVALID).
+ */
+
+export type ArLocality = {
+  name: string;
+  postalCode: string; // 4 dígitos
+  provinceCode: string;
+  province: string;
+};
+
+export type ParsedPostalCode = {
+  cp: number;
+  letter: string | null;
+  suffix: string | null;
+};
+
+export type PostalCodeLookup = {
+  postalCode: string;
+  cpa: string | null;
+  known: boolean;
+  provinces: Array<{ code: string; name: string }>;
+  localities: ArLocality[];
+};
+
+export type ValidArAddress = {
+  province: string;
+  city: string;
+  postalCode: string;
+};
+
+export type AddressInvalidReason = "postal_code" | "province" | "postal_code_province" | "city";
+
+const PROVINCES_BY_CODE = new Map(AR_PROVINCES.map((p) => [p.code, p]));
+
+const ALL_LOCALITIES: ArLocality[] = (LOCALITIES as Array<[number, string, string]>)
+  .filter(([, code]) => PROVINCES_BY_CODE.has(code))
+  .map(([cp, code, name]) => ({
+    name,
+    postalCode: String(cp).padStart(4, "0"),
+    provinceCode: code,
+    province: PROVINCES_BY_CODE.get(code)!.name,
+  }));
+
+/** "Río Cuarto" / "RIO  CUARTO" → "rio cuarto" */
+export function normalizeGeoText(v: any) {
+  return String(v ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** CPA ("C1425ABC", "c 1425 abc") o CP ("1425"); null si no tiene forma de código postal argentino */
+export function parseArPostalCode(v: any): ParsedPostalCode | null {
+  const s = String(v ?? "").toUpperCase().replace(/[\s.-]+/g, "");
+  const m = /^([A-HJ-NP-Z])?(\d{4})([A-Z]{3})?$/.exec(s);
+  if (!m) return null;
+
+  const cp = Number(m[2]);
+  if (cp < 1000) return null;
+  return { cp, letter: m[1] ?? null, suffix: m[3] ?? null };
+}
+
+export function findArProvince(v: any): ArProvince | null {
+  const s = normalizeGeoText(v).replace(/^provincia de /, "");
+  if (!s) return null;
+
+  const byCode = s.length === 1 ? PROVINCES_BY_CODE.get(s.toUpperCase()) : null;
+  if (byCode) return byCode;
+
+  return (
+    AR_PROVINCES.find((p) => normalizeGeoText(p.name) === s || p.aliases.includes(s)) ??
+    null
+  );
+}
+
+function provinceUsesPostalCode(p: ArProvince, cp: number) {
+  return p.postalRanges.some(([from, to]) => cp >= from && cp <= to);
+}
+
+export function listArLocalities(provinceCode?: string | null) {
+  const list = provinceCode ? ALL_LOCALITIES.filter((l) => l.provinceCode === provinceCode) : ALL_LOCALITIES;
+  return [...list].sort((a, b) => a.name.localeCompare(b.name, "es"));
+}
+
+/**
+ * Provincias y localidades posibles para un CP.
+ * `known: false` = el CP no está en el dataset (las provincias salen de los rangos).
+ */
+export function lookupArPostalCode(v: any): PostalCodeLookup | null {
+  const parsed = parseArPostalCode(v);
+  if (!parsed) return null;
+
+  const postalCode = String(parsed.cp).padStart(4, "0");
+  const byLetter = parsed.letter ? PROVINCES_BY_CODE.get(parsed.letter) ?? null : null;
+
+  let localities = ALL_LOCALITIES.filter((l) => l.postalCode === postalCode);
+  if (byLetter) localities = localities.filter((l) => l.provinceCode === byLetter.code);
+
+  const provinces = (
+    localities.length
+      ? AR_PROVINCES.filter((p) => localities.some((l) => l.provinceCode === p.code))
+      : AR_PROVINCES.filter((p) => (byLetter ? p.code === byLetter.code : true) && provinceUsesPostalCode(p, parsed.cp))
+  ).map((p) => ({ code: p.code, name: p.name }));
+
+  return {
+    postalCode,
+    cpa: parsed.letter && parsed.suffix ? `${parsed.letter}${postalCode}${parsed.suffix}` : null,
+    known: localities.length > 0,
+    provinces,
+    localities,
+  };
+}
+
+function addressInvalid(reason: AddressInvalidReason, extra: Record<string, any> = {}): never {
+  const err: any = new Error("ADDRESS_INVALID");
+  err.code = "ADDRESS_INVALID";
+  err.reason = reason;
+  Object.assign(err, extra);
+  throw err;
+}
+
+/**
+ * Valida que provincia, localidad y CP sean consistentes y devuelve los nombres normalizados
+ * (provincia y localidad como están en el dataset; CP de 4 dígitos o el CPA completo si lo mandaron).
+ * Tira ADDRESS_INVALID con `reason`.
+ */
+export function validateArAddress(input: { province?: any; city?: any; postalCode?: any }): ValidArAddress {
+  const parsed = parseArPostalCode(input.postalCode);
+  if (!parsed) addressInvalid("postal_code");
+
+  const province = findArProvince(input.province);
+  if (!province) addressInvalid("province");
+
+  if (parsed.letter && parsed.letter !== province.code) {
+    addressInvalid("postal_code_province", { province: province.name });
+  }
+
+  const lookup = lookupArPostalCode(input.postalCode)!;
+  const postalCode = lookup.cpa ?? lookup.postalCode;
+  const city = String(input.city ?? "").trim().replace(/\s+/g, " ");
+
+  // CABA es una sola localidad (los barrios comparten CP)
+  if (province.code === "C") {
+    if (!provinceUsesPostalCode(province, parsed.cp)) {
+      addressInvalid("postal_code_province", { province: province.name });
+    }
+    return { province: province.name, city: province.name, postalCode };
+  }
+
+  // Los rangos se superponen en los límites: un CP del dataset de otra provincia vale si cae en los de esta
+  const options = lookup.localities.filter((l) => l.provinceCode === province.code);
+  if (!options.length && !provinceUsesPostalCode(province, parsed.cp)) {
+    addressInvalid("postal_code_province", { province: province.name });
+  }
+  if (city.length < 2) addressInvalid("city", { options: options.map((l) => l.name) });
+
+  // Nombre del dataset: primero las localidades de ese CP, después cualquiera de la provincia (otro CP de la ciudad)
+  const key = normalizeGeoText(city);
+  const match =
+    options.find((l) => normalizeGeoText(l.name) === key) ??
+    ALL_LOCALITIES.find((l) => l.provinceCode === province.code && normalizeGeoText(l.name) === key);
+
+  return { province: province.name, city: match?.name ?? city, postalCode };
+}
+
+export function addressInvalidMessage(e: any) {
+  switch (e?.reason as AddressInvalidReason | undefined) {
+    case "postal_code":
+      return "Ingresá un código postal válido (ej: 1425 o C1425ABC).";
+    case "province":
+      return "Elegí una provincia de la lista.";
+    case "postal_code_province":
+      return e?.province
+        ? `El código postal no corresponde a ${e.province}.`
+        : "El código postal no corresponde a la provincia.";
+    case "city":
+      return Array.isArray(e?.options) && e.options.length
+        ? `La localidad no corresponde al código postal (opciones: ${e.options.slice(0, 5).join(", ")}).`
+        : "Ingresá la localidad.";
+    default:
+      return "Revisá la dirección.";
+  }
+}
@@ -0,0 +1,544 @@
+// src/lib/gift-cards.ts
+import crypto from "crypto";
+import { fetcher } from "@/lib/fetcher";
+
+/**
+ * Gift cards digitales: se venden como productos y se usan en el checkout como pago parcial o total.
+ *
+ * - Producto con `giftCard: true` en Strapi: el valor de la tarjeta es su `price` (una tarjeta por unidad).
+ *   Se emiten cuando la orden queda paid (paso "giftcards" de lib/mp/webhook-pipeline) y se mandan en PDF.
+ * - Collection `gift-cards`: code (único), initialAmount, purchaserEmail, purchaseOrderDocumentId,
+ *   purchaseOrderNumber, recipientName, message, issuedAt, expiresAt, deliveredAt,
+ *   externalKey (idempotencia de la emisión: `${orderDocumentId}:${línea}:${unidad}`).
+ * - Collection `gift-card-movements` (el ledger): giftCardCode, kind, amount (con signo), orderRef
+ *   (mpExternalReference), orderDocumentId, orderNumber, email, voided.
+ *   "issue" = +valor inicial, "redeem" = -lo usado en una orden, "release" = +lo que vuelve (orden cancelada / reembolsada).
+ *
+ * Saldo = suma de los movimientos no anulados. Cada débito queda atado a la orden que lo usó.
+ * Para que dos compras simultáneas no gasten el mismo saldo: primero creamos el débito y después
+ * verificamos contra los movimientos con id menor (mismo criterio que lib/stock-reservations).
+ * El que llegó segundo anula su débito (`voided`) y recibe GIFT_CARD_INSUFFICIENT.
+ */
+
+export type GiftCardMovementKind = "issue" | "redeem" | "release";
+
+export type GiftCardMovement = {
+  id: number;
+  documentId: string;
+  giftCardCode: string;
+  kind: GiftCardMovementKind;
+  amount: number;
+  orderRef: string | null;
+  orderDocumentId: string | null;
+  orderNumber: string | null;
+  email: string | null;
+  voided: boolean;
+  createdAt: string | null;
+};
+
+export type GiftCard = {
+  id: number;
+  documentId: string;
+  code: string;
+  initialAmount: number;
+  purchaserEmail: string | null;
+  purchaseOrderDocumentId: string | null;
+  purchaseOrderNumber: string | null;
+  recipientName: string | null;
+  message: string | null;
+  issuedAt: string | null;
+  expiresAt: string | null;
+  deliveredAt: string | null;
+  externalKey: string | null;
+};
+
+export type GiftCardStatus = {
+  card: GiftCard;
+  balance: number;
+  expired: boolean;
+  movements: GiftCardMovement[];
+};
+
+export type GiftCardErrorCode =
+  | "GIFT_CARD_NOT_FOUND"
+  | "GIFT_CARD_EXPIRED"
+  | "GIFT_CARD_EMPTY"
+  | "GIFT_CARD_INSUFFICIENT"
+  | "GIFT_CARD_NOT_ALLOWED";
+
+const CARDS_PATH = "/api/gift-cards";
+const MOVEMENTS_PATH = "/api/gift-card-movements";
+
+// Sin 0/O, 1/I/L: el código se tipea a mano
+const CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const CODE_PREFIX = "AYD";
+const CODE_GROUPS = 3;
+const CODE_GROUP_LENGTH = 4;
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+function textOrNull(v: any) {
+  const s = String(v ?? "").trim();
+  return s ? s : null;
+}
+
+function flatten(row: any) {
+  if (!row) return null;
+  return row?.attributes ? { id: row.id, documentId: row.documentId, ...row.attributes } : row;
+}
+
+/** Vigencia de las tarjetas nuevas (GIFT_CARD_VALID_MONTHS, default 12 meses) */
+export function giftCardValidMonths() {
+  const n = Math.floor(Number(process.env.GIFT_CARD_VALID_MONTHS));
+  return Number.isFinite(n) && n > 0 ? n : 12;
+}
+
+/** ¿El producto es una gift card? (`giftCard: true` en Strapi, v4/v5) */
+export function readGiftCardFlag(product: any): boolean {
+  const attr = product?.attributes ?? product ?? {};
+  const v = attr?.giftCard ?? attr?.gift_card ?? false;
+  return v === true || v === "true" || v === 1;
+}
+
+/** "ayd 7k2m-..." → "AYD-7K2M-...": mayúsculas, sin espacios y con los guiones en su lugar */
+export function normalizeGiftCardCode(v: any) {
+  const raw = String(v ?? "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+  const size = CODE_PREFIX.length + CODE_GROUPS * CODE_GROUP_LENGTH;
+  if (raw.length !== size || !raw.startsWith(CODE_PREFIX)) return raw;
+
+  const groups = [CODE_PREFIX];
+  for (let i = CODE_PREFIX.length; i < size; i += CODE_GROUP_LENGTH) groups.push(raw.slice(i, i + CODE_GROUP_LENGTH));
+  return groups.join("-");
+}
+
+/** "AYD-****-****-7K2M" (historial, emails) */
+export function maskGiftCardCode(code: string) {
+  const parts = String(code ?? "").split("-");
+  if (parts.length < 2) return code;
+  return [parts[0], ...parts.slice(1, -1).map((p) => "*".repeat(p.length)), parts[parts.length - 1]].join("-");
+}
+
+function generateGiftCardCode() {
+  const chars = Array.from({ length: CODE_GROUPS * CODE_GROUP_LENGTH }, () =>
+    CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]
+  );
+
+  const groups = [CODE_PREFIX];
+  for (let i = 0; i < chars.length; i += CODE_GROUP_LENGTH) groups.push(chars.slice(i, i + CODE_GROUP_LENGTH).join(""));
+  return groups.join("-");
+}
+
+function readGiftCard(row: any): GiftCard | null {
+  const flat = flatten(row);
+  const code = String(flat?.code ?? "").trim();
+  if (!flat || !code) return null;
+
+  return {
+    id: Number(flat?.id ?? 0),
+    documentId: String(flat?.documentId ?? flat?.id ?? ""),
+    code,
+    initialAmount: Math.round(toNum(flat?.initialAmount, 0)),
+    purchaserEmail: textOrNull(flat?.purchaserEmail),
+    purchaseOrderDocumentId: textOrNull(flat?.purchaseOrderDocumentId),
+    purchaseOrderNumber: textOrNull(flat?.purchaseOrderNumber),
+    recipientName: textOrNull(flat?.recipientName),
+    message: textOrNull(flat?.message),
+    issuedAt: textOrNull(flat?.issuedAt),
+    expiresAt: textOrNull(flat?.expiresAt),
+    deliveredAt: textOrNull(flat?.deliveredAt),
+    externalKey: textOrNull(flat?.externalKey),
+  };
+}
+
+function readMovement(row: any): GiftCardMovement | null {
+  const flat = flatten(row);
+  const kind = String(flat?.kind ?? "").trim();
+  if (!flat || !["issue", "redeem", "release"].includes(kind)) return null;
+
+  return {
+    id: Number(flat?.id ?? 0),
+    documentId: String(flat?.documentId ?? flat?.id ?? ""),
+    giftCardCode: String(flat?.giftCardCode ?? "").trim(),
+    kind: kind as GiftCardMovementKind,
+    amount: Math.round(toNum(flat?.amount, 0)),
+    orderRef: textOrNull(flat?.orderRef),
+    orderDocumentId: textOrNull(flat?.orderDocumentId),
+    orderNumber: textOrNull(flat?.orderNumber),
+    email: textOrNull(flat?.email)?.toLowerCase() ?? null,
+    voided: flat?.voided === true || flat?.voided === "true",
+    createdAt: textOrNull(flat?.createdAt),
+  };
+}
+
+function giftCardError(code: GiftCardErrorCode, extra: Record<string, any> = {}) {
+  const err: any = new Error(code);
+  err.code = code;
+  Object.assign(err, extra);
+  return err;
+}
+
+export function isGiftCardError(e: any) {
+  return typeof e?.code === "string" && e.code.startsWith("GIFT_CARD_");
+}
+
+/** Mensaje para el cliente (checkout / consulta de saldo) */
+export function giftCardMessage(e: any) {
+  switch (e?.code) {
+    case "GIFT_CARD_NOT_FOUND":
+      return "No encontramos esa gift card. Revisá el código.";
+    case "GIFT_CARD_EXPIRED":
+      return "La gift card está vencida.";
+    case "GIFT_CARD_EMPTY":
+      return "La gift card no tiene saldo.";
+    case "GIFT_CARD_INSUFFICIENT":
+      return "El saldo de la gift card cambió. Revisá el monto y volvé a intentar.";
+    case "GIFT_CARD_NOT_ALLOWED":
+      return "No se puede pagar una gift card con otra gift card.";
+    default:
+      return "No pudimos usar la gift card. Probá de nuevo en unos minutos.";
+  }
+}
+
+export function isGiftCardExpired(card: GiftCard, now: Date = new Date()) {
+  if (!card.expiresAt) return false;
+  const t = new Date(card.expiresAt).getTime();
+  return Number.isFinite(t) && t <= now.getTime();
+}
+
+/* ===================== QUERIES ===================== */
+
+/**
+ * Todas las filas que cumplen el filtro, página por página (id asc).
+ * El saldo es la suma de TODOS los movimientos: cortar en la primera página lo dejaría mal.
+ */
+async function listAll<T>(path: string, filters: Record<string, string>, read: (row: any) => T | null) {
+  const out: T[] = [];
+
+  for (let page = 1; ; page++) {
+    const sp = new URLSearchParams();
+    sp.set("pagination[page]", String(page));
+    sp.set("pagination[pageSize]", "100");
+    sp.set("sort[0]", "id:asc");
+    for (const [k, v] of Object.entries(filters)) sp.set(k, v);
+
+    const res = await fetcher<{ data: any[]; meta?: any }>(`${path}?${sp.toString()}`, { auth: true, cache: "no-store" });
+    const rows = Array.isArray(res?.data) ? res.data : [];
+    for (const row of rows) {
+      const item = read(row);
+      if (item) out.push(item);
+    }
+
+    const pageCount = Number(res?.meta?.pagination?.pageCount ?? page);
+    if (!rows.length || !Number.isFinite(pageCount) || page >= pageCount) break;
+  }
+
+  return out;
+}
+
+async function listCards(filters: Record<string, string>) {
+  return listAll(CARDS_PATH, filters, readGiftCard);
+}
+
+async function listMovements(filters: Record<string, string>) {
+  return listAll(MOVEMENTS_PATH, filters, readMovement);
+}
+
+async function createMovement(data: Omit<GiftCardMovement, "id" | "documentId" | "voided" | "createdAt">) {
+  const created = await fetcher<{ data: any }>(MOVEMENTS_PATH, {
+    method: "POST",
+    auth: true,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ data: { ...data, voided: false } }),
+  });
+
+  const mov = readMovement(created?.data);
+  if (!mov) throw new Error("Strapi no devolvió el movimiento de la gift card");
+  return mov;
+}
+
+async function voidMovement(mov: GiftCardMovement) {
+  await fetcher(`${MOVEMENTS_PATH}/${encodeURIComponent(mov.documentId)}`, {
+    method: "PUT",
+    auth: true,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ data: { voided: true } }),
+  });
+}
+
+function sumMovements(list: GiftCardMovement[]) {
+  return list.filter((m) => !m.voided).reduce((acc, m) => acc + m.amount, 0);
+}
+
+export async function findGiftCard(code: string) {
+  const clean = normalizeGiftCardCode(code);
+  if (!clean) return null;
+  const cards = await listCards({ "filters[code][$eq]": clean });
+  return cards[0] ?? null;
+}
+
+async function listCardMovements(code: string) {
+  return listMovements({ "filters[giftCardCode][$eq]": code });
+}
+
+/** Tarjeta + saldo + historial. Tira GIFT_CARD_NOT_FOUND si el código no existe. */
+export async function getGiftCardStatus(code: string, now: Date = new Date()): Promise<GiftCardStatus> {
+  const card = await findGiftCard(code);
+  if (!card) throw giftCardError("GIFT_CARD_NOT_FOUND");
+
+  const movements = await listCardMovements(card.code);
+  return {
+    card,
+    balance: Math.max(0, sumMovements(movements)),
+    expired: isGiftCardExpired(card, now),
+    movements,
+  };
+}
+
+/**
+ * Tarjetas de un email: las que compró y las que usó en alguna orden ("Mis gift cards" del perfil).
+ */
+export async function listGiftCardsForEmail(email: string, now: Date = new Date()): Promise<GiftCardStatus[]> {
+  const clean = String(email ?? "").trim().toLowerCase();
+  if (!clean) return [];
+
+  const [bought, used] = await Promise.all([
+    listCards({ "filters[purchaserEmail][$eqi]": clean }),
+    listMovements({ "filters[email][$eqi]": clean, "filters[kind][$eq]": "redeem" }),
+  ]);
+
+  const codes = Array.from(new Set([...bought.map((c) => c.code), ...used.map((m) => m.giftCardCode)])).filter(Boolean);
+
+  const statuses = await Promise.all(
+    codes.map((code) => getGiftCardStatus(code, now).catch(() => null))
+  );
+
+  return (statuses.filter(Boolean) as GiftCardStatus[]).sort((a, b) =>
+    String(b.card.issuedAt ?? "").localeCompare(String(a.card.issuedAt ?? ""))
+  );
+}
+
+/**
+ * Lo que ven el checkout y "Mis gift cards" (sin emails; sin anulados).
+ * El número de pedido solo aparece en los movimientos de `ordersOfEmail` (no los pedidos de otra persona).
+ */
+export function giftCardView(status: GiftCardStatus, opts: { showCode: boolean; ordersOfEmail: string | null }) {
+  return {
+    code: opts.showCode ? status.card.code : maskGiftCardCode(status.card.code),
+    initialAmount: status.card.initialAmount,
+    balance: status.balance,
+    issuedAt: status.card.issuedAt,
+    expiresAt: status.card.expiresAt,
+    expired: status.expired,
+    recipientName: status.card.recipientName,
+    movements: status.movements
+      .filter((m) => !m.voided)
+      .map((m) => ({
+        kind: m.kind,
+        amount: m.amount,
+        date: m.createdAt,
+        orderNumber: opts.ordersOfEmail && m.email === opts.ordersOfEmail ? m.orderNumber : null,
+      })),
+  };
+}
+
+/* ===================== EMISIÓN ===================== */
+
+/**
+ * Emite una tarjeta (idempotente por `externalKey`: replays del webhook no duplican).
+ * Si la tarjeta quedó creada sin su movimiento "issue" (falló a mitad), lo completa.
+ */
+export async function issueGiftCard(params: {
+  externalKey: string;
+  amount: number;
+  purchaserEmail?: string | null;
+  orderDocumentId?: string | null;
+  orderNumber?: string | null;
+  recipientName?: string | null;
+  message?: string | null;
+}): Promise<{ card: GiftCard; created: boolean }> {
+  const externalKey = String(params.externalKey ?? "").trim();
+  const amount = Math.round(toNum(params.amount, 0));
+  if (!externalKey) throw new Error("issueGiftCard: falta externalKey");
+  if (amount <= 0) throw new Error("issueGiftCard: monto inválido");
+
+  let card = (await listCards({ "filters[externalKey][$eq]": externalKey }))[0] ?? null;
+  const created = !card;
+
+  if (!card) {
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt);
+    expiresAt.setMonth(expiresAt.getMonth() + giftCardValidMonths());
+
+    // Código único: 31^12 combinaciones, igual chequeamos antes de guardarlo
+    let code = "";
+    for (let i = 0; i < 5 && !code; i++) {
+      const candidate = generateGiftCardCode();
+      if (!(await findGiftCard(candidate))) code = candidate;
+    }
+    if (!code) throw new Error("No se pudo generar un código de gift card único");
+
+    const res = await fetcher<{ data: any }>(CARDS_PATH, {
+      method: "POST",
+      auth: true,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        data: {
+          code,
+          initialAmount: amount,
+          purchaserEmail: textOrNull(params.purchaserEmail)?.toLowerCase() ?? null,
+          purchaseOrderDocumentId: textOrNull(params.orderDocumentId),
+          purchaseOrderNumber: textOrNull(params.orderNumber),
+          recipientName: textOrNull(params.recipientName),
+          message: textOrNull(params.message),
+          issuedAt: issuedAt.toISOString(),
+          expiresAt: expiresAt.toISOString(),
+          externalKey,
+        },
+      }),
+    });
+
+    const createdCard = readGiftCard(res?.data);
+    if (!createdCard) throw new Error("Strapi no devolvió la gift card creada");
+    card = createdCard;
+  }
+
+  const movements = await listCardMovements(card.code);
+  if (!movements.some((m) => m.kind === "issue" && !m.voided)) {
+    await createMovement({
+      giftCardCode: card.code,
+      kind: "issue",
+      amount: card.initialAmount,
+      orderRef: null,
+      orderDocumentId: card.purchaseOrderDocumentId,
+      orderNumber: card.purchaseOrderNumber,
+      email: card.purchaserEmail,
+    });
+  }
+
+  return { card, created };
+}
+
+/** Marca la tarjeta como enviada por email (el pipeline no la reenvía en un replay) */
+export async function markGiftCardDelivered(card: GiftCard) {
+  await fetcher(`${CARDS_PATH}/${encodeURIComponent(card.documentId)}`, {
+    method: "PUT",
+    auth: true,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ data: { deliveredAt: new Date().toISOString() } }),
+  });
+}
+
+/* ===================== USO EN EL CHECKOUT ===================== */
+
+/** Lo que debita `ref` de la tarjeta hoy (débitos menos devoluciones; 0 = nada o ya devuelto) */
+export async function giftCardDebitForRef(ref: string) {
+  const cleanRef = String(ref ?? "").trim();
+  if (!cleanRef) return { code: null as string | null, amount: 0 };
+
+  const movements = (await listMovements({ "filters[orderRef][$eq]": cleanRef })).filter((m) => !m.voided);
+  const code = movements.find((m) => m.kind === "redeem")?.giftCardCode ?? null;
+  return { code, amount: Math.max(0, -sumMovements(movements)) };
+}
+
+/**
+ * Debita `amount` de la tarjeta para la orden `ref` (antes de crear la orden).
+ * Tira GIFT_CARD_NOT_FOUND / GIFT_CARD_EXPIRED / GIFT_CARD_EMPTY / GIFT_CARD_INSUFFICIENT (con `balance`).
+ */
+export async function redeemGiftCardOrThrow(params: {
+  code: string;
+  amount: number;
+  ref: string;
+  email?: string | null;
+  orderDocumentId?: string | null;
+  orderNumber?: string | null;
+}): Promise<{ code: string; amount: number; balanceAfter: number; movement: GiftCardMovement }> {
+  const ref = String(params.ref ?? "").trim();
+  const amount = Math.round(toNum(params.amount, 0));
+  if (!ref) throw new Error("redeemGiftCardOrThrow: falta ref");
+  if (amount <= 0) throw new Error("redeemGiftCardOrThrow: monto inválido");
+
+  const status = await getGiftCardStatus(params.code);
+  if (status.expired) throw giftCardError("GIFT_CARD_EXPIRED", { expiresAt: status.card.expiresAt });
+  if (status.balance <= 0) throw giftCardError("GIFT_CARD_EMPTY", { balance: 0 });
+
+  // Pre-chequeo barato (evita crear el débito si ya sabemos que no alcanza)
+  if (status.balance < amount) throw giftCardError("GIFT_CARD_INSUFFICIENT", { balance: status.balance });
+
+  // 1) Débito
+  const mine = await createMovement({
+    giftCardCode: status.card.code,
+    kind: "redeem",
+    amount: -amount,
+    orderRef: ref,
+    orderDocumentId: textOrNull(params.orderDocumentId),
+    orderNumber: textOrNull(params.orderNumber),
+    email: textOrNull(params.email)?.toLowerCase() ?? null,
+  });
+
+  // 2) Verificar contra los movimientos creados ANTES que el mío
+  const movements = await listCardMovements(status.card.code);
+  const before = sumMovements(movements.filter((m) => m.id < mine.id));
+
+  if (before < amount) {
+    await voidMovement(mine).catch((e: any) =>
+      console.error("[gift-cards] no pude anular el débito:", e?.message || e)
+    );
+    throw giftCardError(before <= 0 ? "GIFT_CARD_EMPTY" : "GIFT_CARD_INSUFFICIENT", { balance: Math.max(0, before) });
+  }
+
+  return { code: status.card.code, amount, balanceAfter: before - amount, movement: mine };
+}
+
+/** La orden no llegó a crearse: anula el débito (no cuenta para el saldo ni aparece en el historial) */
+export async function cancelGiftCardRedemption(movement: GiftCardMovement) {
+  await voidMovement(movement);
+}
+
+/** La orden ya existe: completa el débito con documentId / número (para el historial) */
+export async function linkGiftCardRedemption(
+  movement: GiftCardMovement,
+  order: { documentId: string | null; orderNumber: string | null }
+) {
+  await fetcher(`${MOVEMENTS_PATH}/${encodeURIComponent(movement.documentId)}`, {
+    method: "PUT",
+    auth: true,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ data: { orderDocumentId: order.documentId, orderNumber: order.orderNumber } }),
+  });
+}
+
+/**
+ * Devuelve a la tarjeta lo que debitó `ref` (pago rechazado, orden cancelada o reembolsada).
+ * Idempotente: solo agrega un "release" por la diferencia pendiente. Si dos devoluciones corren
+ * a la vez (webhook + cancelación), la que quedó con id mayor se anula.
+ */
+export async function releaseGiftCardRedemption(ref: string) {
+  const cleanRef = String(ref ?? "").trim();
+  if (!cleanRef) return { released: 0 };
+
+  const movements = (await listMovements({ "filters[orderRef][$eq]": cleanRef })).filter((m) => !m.voided);
+  const redeem = movements.find((m) => m.kind === "redeem");
+  const pending = -sumMovements(movements);
+  if (!redeem || pending <= 0) return { released: 0 };
+
+  const mine = await createMovement({
+    giftCardCode: redeem.giftCardCode,
+    kind: "release",
+    amount: pending,
+    orderRef: cleanRef,
+    orderDocumentId: redeem.orderDocumentId,
+    orderNumber: redeem.orderNumber,
+    email: redeem.email,
+  });
+
+  const after = (await listMovements({ "filters[orderRef][$eq]": cleanRef })).filter((m) => !m.voided);
+  if (sumMovements(after.filter((m) => m.id < mine.id)) >= 0) {
+    await voidMovement(mine);
+    return { released: 0 };
+  }
+
+  return { released: pending };
+}
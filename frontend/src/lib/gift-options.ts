@@ -0,0 +1,103 @@
+// src/lib/gift-options.ts
+
+/**
+ * Opciones de regalo del checkout ("Es para regalo").
+ *
+ * - Destinatario (nombre + teléfono): es quien recibe el envío o retira en la sucursal.
+ * - Mensaje para la tarjeta (hasta GIFT_MESSAGE_MAX_LENGTH caracteres).
+ * - Papel de regalo opcional: se cobra aparte (`giftWrapCost` de la orden).
+ *
+ * El precio del papel de regalo se muestra en el checkout, por eso va en NEXT_PUBLIC_GIFT_WRAP_PRICE
+ * (sin configurar = no se ofrece). El remito sin precios sale de /api/invoices/generate { kind: "packing_slip" }.
+ */
+
+export type GiftOptions = {
+  recipientName: string;
+  recipientPhone: string;
+  message: string | null;
+  giftWrap: boolean;
+};
+
+export type GiftOptionsErrorReason = "recipient_name" | "recipient_phone" | "message_too_long" | "gift_wrap_unavailable";
+
+export const GIFT_MESSAGE_MAX_LENGTH = 200;
+
+function clean(v: any) {
+  return String(v ?? "").trim();
+}
+
+/** Precio del papel de regalo (NEXT_PUBLIC_GIFT_WRAP_PRICE); null si no se ofrece */
+export function giftWrapPrice(): number | null {
+  const raw = clean(process.env.NEXT_PUBLIC_GIFT_WRAP_PRICE);
+  if (!raw) return null;
+  const n = Number(raw);
+  return Number.isFinite(n) && n >= 0 ? Math.round(n) : null;
+}
+
+/** Lo que se cobra por el regalo (0 si no pidió papel de regalo) */
+export function giftWrapCost(gift: GiftOptions | null | undefined) {
+  return gift?.giftWrap ? giftWrapPrice() ?? 0 : 0;
+}
+
+function giftError(reason: GiftOptionsErrorReason) {
+  const err: any = new Error("GIFT_OPTIONS_INVALID");
+  err.code = "GIFT_OPTIONS_INVALID";
+  err.reason = reason;
+  return err;
+}
+
+/**
+ * Valida lo que manda el checkout ({ gift: { isGift, recipientName, recipientPhone, message, giftWrap } }).
+ * Devuelve null si no es para regalo; tira GIFT_OPTIONS_INVALID (con `reason`) si falta algo.
+ */
+export function readGiftOptions(input: any): GiftOptions | null {
+  if (!input || typeof input !== "object" || !input.isGift) return null;
+
+  const recipientName = clean(input.recipientName).slice(0, 120);
+  const recipientPhone = clean(input.recipientPhone).slice(0, 40);
+  // Saltos de línea sí (es una tarjeta), pero no más de dos seguidos
+  const message = clean(input.message).replace(/\r\n?/g, "\n").replace(/\n{3,}/g, "\n\n");
+  const giftWrap = Boolean(input.giftWrap);
+
+  if (recipientName.length < 2) throw giftError("recipient_name");
+  if (recipientPhone.replace(/\D/g, "").length < 6) throw giftError("recipient_phone");
+  if (message.length > GIFT_MESSAGE_MAX_LENGTH) throw giftError("message_too_long");
+  if (giftWrap && giftWrapPrice() == null) throw giftError("gift_wrap_unavailable");
+
+  return { recipientName, recipientPhone, message: message || null, giftWrap };
+}
+
+/** Lee el `gift` guardado en la orden (JSON o string); null si no es regalo */
+export function readOrderGift(v: any): GiftOptions | null {
+  let g = v;
+  if (typeof g === "string") {
+    try {
+      g = JSON.parse(g);
+    } catch {
+      return null;
+    }
+  }
+  if (!g || typeof g !== "object" || !clean(g.recipientName)) return null;
+
+  return {
+    recipientName: clean(g.recipientName),
+    recipientPhone: clean(g.recipientPhone),
+    message: clean(g.message) || null,
+    giftWrap: Boolean(g.giftWrap),
+  };
+}
+
+export function giftOptionsMessage(e: any) {
+  switch (e?.reason as GiftOptionsErrorReason | undefined) {
+    case "recipient_name":
+      return "Ingresá el nombre de quien recibe el regalo.";
+    case "recipient_phone":
+      return "Ingresá un teléfono válido de quien recibe el regalo.";
+    case "message_too_long":
+      return `El mensaje del regalo puede tener hasta ${GIFT_MESSAGE_MAX_LENGTH} caracteres.`;
+    case "gift_wrap_unavailable":
+      return "El papel de regalo no está disponible en este momento.";
+    default:
+      return "Revisá los datos del regalo.";
+  }
+}
@@ -0,0 +1,216 @@
+// src/lib/guest-orders.ts
+import crypto from "crypto";
+import { cookies } from "next/headers";
+import { fetcher } from "@/lib/fetcher";
+
+/**
+ * Compras como invitado (sin login).
+ *
+ * - orders/create crea la orden con el token server (sin relación user)
+ * - El acceso a la orden se da con un token firmado (HMAC) que viaja en:
+ *   cookie httpOnly (mismo navegador), `?token=` (magic link del email) o header `x-guest-token`
+ * - Cuando el comprador entra con Google con el mismo email, claimGuestOrders
+ *   le asigna las órdenes (así aparecen en /orders/my y /invoices/my)
+ */
+
+export const GUEST_ORDER_COOKIE = "guest_order_token";
+
+export type GuestOrderClaims = {
+  orderDocumentId: string;
+  email: string;
+  exp: number; // epoch ms
+};
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+function normalizeEmail(v: any) {
+  return String(v ?? "").trim().toLowerCase();
+}
+
+function flattenRow(row: any) {
+  if (!row) return null;
+  return row?.attributes ? { id: row.id, documentId: row.documentId, ...row.attributes } : row;
+}
+
+function linkSecret() {
+  const s = String(process.env.GUEST_ORDER_LINK_SECRET ?? "").trim();
+  if (s.length < 16) {
+    const err: any = new Error("GUEST_LINK_NOT_CONFIGURED");
+    err.code = "GUEST_LINK_NOT_CONFIGURED";
+    throw err;
+  }
+  return s;
+}
+
+/** Checkout como invitado: necesita el secret de los links y el token server de Strapi */
+export function guestCheckoutEnabled() {
+  const secret = String(process.env.GUEST_ORDER_LINK_SECRET ?? "").trim();
+  const token = process.env.STRAPI_API_TOKEN || process.env.STRAPI_TOKEN || "";
+  return secret.length >= 16 && token.length >= 10;
+}
+
+/** Vigencia del link (GUEST_ORDER_LINK_DAYS, default 30) */
+export function guestLinkTtlMs() {
+  const days = toNum(process.env.GUEST_ORDER_LINK_DAYS, 30);
+  return Math.round((days > 0 ? days : 30) * 86_400_000);
+}
+
+function sign(payload: string) {
+  return crypto.createHmac("sha256", linkSecret()).update(payload).digest("base64url");
+}
+
+export function signGuestOrderToken(params: { orderDocumentId: string; email: string; ttlMs?: number }) {
+  const claims: GuestOrderClaims = {
+    orderDocumentId: String(params.orderDocumentId),
+    email: normalizeEmail(params.email),
+    exp: Date.now() + (params.ttlMs ?? guestLinkTtlMs()),
+  };
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+/** Devuelve los claims si la firma es válida y no venció (null si no) */
+export function verifyGuestOrderToken(token: string | null | undefined): GuestOrderClaims | null {
+  const t = String(token ?? "").trim();
+  const [payload, sig] = t.split(".");
+  if (!payload || !sig) return null;
+
+  let expected: string;
+  try {
+    expected = sign(payload);
+  } catch {
+    return null;
+  }
+
+  const a = Buffer.from(sig);
+  const b = Buffer.from(expected);
+  if (a.length !== b.length || !crypto.timingSafeEqual(a, b)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+    if (!claims?.orderDocumentId || !claims?.email) return null;
+    if (toNum(claims.exp, 0) < Date.now()) return null;
+    return {
+      orderDocumentId: String(claims.orderDocumentId),
+      email: normalizeEmail(claims.email),
+      exp: toNum(claims.exp, 0),
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function guestOrderUrl(siteUrl: string, orderDocumentId: string, token: string) {
+  return `${siteUrl}/mis-pedidos/${encodeURIComponent(orderDocumentId)}?token=${encodeURIComponent(token)}`;
+}
+
+/** Token de invitado del request: header > query > cookie */
+export function readGuestOrderToken(req?: Request | null) {
+  const header = req?.headers.get("x-guest-token");
+  if (header?.trim()) return header.trim();
+
+  if (req?.url) {
+    const q = new URL(req.url).searchParams.get("token");
+    if (q?.trim()) return q.trim();
+  }
+
+  return cookies().get(GUEST_ORDER_COOKIE)?.value || null;
+}
+
+export function setGuestOrderCookie(token: string) {
+  cookies().set(GUEST_ORDER_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: Math.floor(guestLinkTtlMs() / 1000),
+  });
+}
+
+async function getOrderByDocumentId(documentId: string) {
+  const sp = new URLSearchParams();
+  sp.set("populate", "*");
+  sp.set("filters[documentId][$eq]", documentId);
+  sp.set("pagination[pageSize]", "1");
+
+  const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+  const row = Array.isArray(res?.data) ? res.data[0] : null;
+  return flattenRow(row);
+}
+
+/**
+ * Busca la orden a la que da acceso el token (token server).
+ * `idOrNumber` tiene que ser la misma orden (documentId u orderNumber) y el email tiene que coincidir.
+ */
+export async function findGuestOrder(token: string | null, idOrNumber: string) {
+  const claims = verifyGuestOrderToken(token);
+  if (!claims) return { ok: false as const, status: 401 };
+
+  const wanted = String(idOrNumber ?? "").trim().toLowerCase();
+
+  let order: any = null;
+  try {
+    order = await getOrderByDocumentId(claims.orderDocumentId);
+  } catch (e: any) {
+    console.error("[guest-orders] no pude leer la orden:", e?.message || e);
+    return { ok: false as const, status: 502 };
+  }
+
+  if (!order) return { ok: false as const, status: 404 };
+
+  const sameOrder =
+    String(order.documentId ?? "").trim().toLowerCase() === wanted ||
+    String(order.orderNumber ?? "").trim().toLowerCase() === wanted;
+
+  if (!sameOrder || normalizeEmail(order.email) !== claims.email) {
+    return { ok: false as const, status: 404 };
+  }
+
+  return { ok: true as const, order, claims };
+}
+
+/**
+ * Asigna al usuario las órdenes de invitado con su email (sin user todavía).
+ * Solo llamar con un email verificado (login con Google).
+ */
+export async function claimGuestOrders(params: {
+  userId: number | string | null;
+  userDocumentId: string | null;
+  email: string;
+}) {
+  const email = normalizeEmail(params.email);
+  const userRef = params.userDocumentId || (params.userId != null ? params.userId : null);
+  if (!email || userRef == null) return { claimed: [] as string[] };
+
+  const sp = new URLSearchParams();
+  sp.set("filters[email][$eqi]", email);
+  sp.set("filters[user][id][$null]", "true");
+  sp.set("fields[0]", "orderNumber");
+  sp.set("pagination[pageSize]", "100");
+
+  const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+  const rows = (Array.isArray(res?.data) ? res.data : []).map(flattenRow).filter((o: any) => o?.documentId);
+
+  const claimed: string[] = [];
+  const claimedAt = new Date().toISOString();
+
+  for (const order of rows) {
+    try {
+      await fetcher<any>(`/api/orders/${encodeURIComponent(String(order.documentId))}`, {
+        method: "PUT",
+        auth: true,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ data: { user: userRef, isGuest: false, claimedAt } }),
+      });
+      claimed.push(String(order.orderNumber || order.documentId));
+    } catch (e: any) {
+      // Seguimos con las demás: la que falle se reclama en el próximo login
+      console.error("[guest-orders] no pude reclamar", order.documentId, e?.message || e);
+    }
+  }
+
+  return { claimed };
+}
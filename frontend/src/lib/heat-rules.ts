@@ -0,0 +1,100 @@
+// src/lib/heat-rules.ts
+
+/**
+ * Reglas de calor para productos sensibles (chocolate en verano).
+ *
+ * - Producto: `heatSensitive` (boolean) en Strapi.
+ * - Zona de envío: `heatRules` (JSON), cada regla con un rango de fechas y qué pasa con los productos sensibles:
+ *   `[{ "from": "12-01", "to": "03-15", "action": "refrigerated", "surcharge": 4500 },
+ *     { "from": "01-05", "to": "02-20", "action": "block" }]`
+ *   Fechas "MM-DD" (se repiten cada año; "12-01" a "03-15" cruza el año) o "YYYY-MM-DD" (un año puntual).
+ * - `block`: no se envía (solo retiro en sucursal). `refrigerated`: envío refrigerado obligatorio, se suma
+ *   `surcharge` al envío (también con envío gratis: es el embalaje).
+ *
+ * Si aplican varias reglas gana `block`; entre refrigeradas, el recargo más alto.
+ * Lo usa lib/shipping (cotización, orders/create) y la página de producto para avisar.
+ */
+
+export type HeatRuleAction = "block" | "refrigerated";
+
+export type HeatRule = {
+  from: string; // MM-DD o YYYY-MM-DD
+  to: string; // inclusive
+  action: HeatRuleAction;
+  surcharge: number;
+  note: string | null;
+};
+
+const MONTH_DAY = /^\d{2}-\d{2}$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+function readJson(v: any) {
+  if (typeof v !== "string") return v;
+  try {
+    return JSON.parse(v);
+  } catch {
+    return null;
+  }
+}
+
+/** Fecha local de Argentina (YYYY-MM-DD) */
+function argentinaDateKey(date: Date) {
+  return date.toLocaleDateString("en-CA", { timeZone: "America/Argentina/Buenos_Aires" });
+}
+
+/** `heatSensitive` del producto de Strapi (v4/v5) */
+export function readHeatSensitive(product: any): boolean {
+  const attr = product?.attributes ?? product ?? {};
+  const v = attr?.heatSensitive ?? attr?.heat_sensitive ?? false;
+  return v === true || v === "true" || v === 1;
+}
+
+export function readHeatRules(v: any): HeatRule[] {
+  const raw = readJson(v);
+  const list = Array.isArray(raw) ? raw : [];
+
+  return list
+    .map((r: any) => {
+      const from = String(r?.from ?? "").trim();
+      const to = String(r?.to ?? from).trim();
+      const sameKind = (MONTH_DAY.test(from) && MONTH_DAY.test(to)) || (ISO_DATE.test(from) && ISO_DATE.test(to));
+      if (!sameKind) return null;
+
+      const action: HeatRuleAction = String(r?.action ?? "").trim().toLowerCase() === "block" ? "block" : "refrigerated";
+      return {
+        from,
+        to,
+        action,
+        surcharge: action === "refrigerated" ? Math.max(0, Math.round(toNum(r?.surcharge, 0))) : 0,
+        note: r?.note ? String(r.note) : null,
+      };
+    })
+    .filter(Boolean) as HeatRule[];
+}
+
+function ruleApplies(rule: HeatRule, dateKey: string) {
+  if (ISO_DATE.test(rule.from)) return dateKey >= rule.from && dateKey <= rule.to;
+
+  const md = dateKey.slice(5);
+  return rule.from <= rule.to ? md >= rule.from && md <= rule.to : md >= rule.from || md <= rule.to;
+}
+
+/** Regla que aplica en la fecha (block > refrigerada con mayor recargo); null si ninguna */
+export function activeHeatRule(rules: HeatRule[], date: Date = new Date()): HeatRule | null {
+  const key = argentinaDateKey(date);
+  const active = rules.filter((r) => ruleApplies(r, key));
+  if (!active.length) return null;
+
+  return active.find((r) => r.action === "block") ?? active.sort((a, b) => b.surcharge - a.surcharge)[0];
+}
+
+/** "15/03" (fin de la regla, para mensajes) */
+export function heatRuleUntil(rule: HeatRule) {
+  const [m, d] = rule.to.slice(-5).split("-");
+  return m && d ? `${d}/${m}` : "";
+}
@@ -0,0 +1,84 @@
+// src/lib/mp/payments.ts
+
+/**
+ * Llamadas a la API de pagos de MP que hacemos nosotros:
+ * leer un pago (webhook), reembolsarlo y cancelar uno pendiente (cancelación del cliente).
+ *
+ * MP_API_URL cambia la base (default https://api.mercadopago.com), por ejemplo para usar
+ * el stub local `npm run mock:mp` (scripts/mp-mock-server.mjs). Todas las llamadas a MP pasan por
+ * `mpApiBase()`: también preferencias y la búsqueda de la conciliación.
+ */
+
+export type MpRefundResult =
+  | { ok: true; refundId: string; amount: number | null; date: string | null }
+  | { ok: false; status: number; error: string; details?: any };
+
+export function mpApiBase() {
+  const u = String(process.env.MP_API_URL || "https://api.mercadopago.com").trim();
+  return u.endsWith("/") ? u.slice(0, -1) : u;
+}
+
+/**
+ * Reembolso total del pago. `idempotencyKey` evita un segundo reembolso si el cliente
+ * repite el pedido (MP devuelve el mismo refund).
+ */
+export async function refundMpPayment(params: {
+  accessToken: string;
+  paymentId: string;
+  idempotencyKey: string;
+}): Promise<MpRefundResult> {
+  const { accessToken, paymentId, idempotencyKey } = params;
+
+  try {
+    const res = await fetch(`${mpApiBase()}/v1/payments/${encodeURIComponent(paymentId)}/refunds`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+        "X-Idempotency-Key": idempotencyKey,
+      },
+      body: JSON.stringify({}),
+      cache: "no-store",
+    });
+
+    const json = await res.json().catch(() => null);
+    if (!res.ok || !json?.id) {
+      return {
+        ok: false,
+        status: res.status || 502,
+        error: json?.message || "MercadoPago no pudo hacer el reembolso",
+        details: json,
+      };
+    }
+
+    const amount = Number(json?.amount);
+    return {
+      ok: true,
+      refundId: String(json.id),
+      amount: Number.isFinite(amount) && amount > 0 ? Math.round(amount) : null,
+      date: json?.date_created ? String(json.date_created) : null,
+    };
+  } catch (e: any) {
+    return { ok: false, status: 502, error: "Error conectando con MercadoPago", details: e?.message || String(e) };
+  }
+}
+
+/** Cancela un pago pendiente (ticket, en proceso) para que no se acredite después de cancelar la orden */
+export async function cancelMpPayment(params: { accessToken: string; paymentId: string }) {
+  const { accessToken, paymentId } = params;
+
+  const res = await fetch(`${mpApiBase()}/v1/payments/${encodeURIComponent(paymentId)}`, {
+    method: "PUT",
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ status: "cancelled" }),
+    cache: "no-store",
+  });
+
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`MP payment cancel failed (${res.status}) ${t}`);
+  }
+}
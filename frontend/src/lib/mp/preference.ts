@@ -0,0 +1,329 @@
+// src/lib/mp/preference.ts
+import {
+  buildMpPaymentMethods,
+  readOrderPaymentConstraints,
+  readOrderPaymentMethod,
+} from "@/lib/payment-methods";
+import { mpApiBase } from "@/lib/mp/payments";
+
+/**
+ * Arma los items de la preferencia de MP a partir de la orden guardada en Strapi.
+ *
+ * - Un item por línea de la orden (título, cantidad, precio unitario, imagen, categoría)
+ * - Envío como `shipments.cost` (MP lo suma al total)
+ * - Descuentos como un item negativo
+ * - Recargo/descuento por medio de pago como su propio item
+ * - Papel de regalo como su propio item
+ * - Parte pagada con gift card como un item negativo (el envío pasa a ser un item para que los items no den <= 0)
+ *
+ * El total de MP tiene que dar EXACTO el `total` de la orden menos la gift card: cualquier diferencia
+ * de redondeo (quote vs suma de líneas) se absorbe en la línea de ajuste.
+ */
+
+export type MPItem = {
+  id?: string;
+  title: string;
+  description?: string;
+  picture_url?: string;
+  category_id?: string;
+  quantity: number;
+  unit_price: number;
+  currency_id: "ARS";
+};
+
+export type PreferenceCharge = {
+  items: MPItem[];
+  shipments: { cost: number; mode: "not_specified" } | null;
+  total: number;
+};
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+function isHttpUrl(url: string) {
+  return /^https?:\/\//i.test(url);
+}
+
+// MP usa category_id para su análisis de riesgo (lista propia de MP, no la categoría de la tienda)
+function mpCategoryId() {
+  return String(process.env.MP_ITEM_CATEGORY_ID || "food").trim();
+}
+
+function readOrderLine(it: any, idx: number): MPItem | null {
+  const quantity = Math.floor(toNum(it?.qty ?? it?.quantity, 0));
+  const unit = Math.round(toNum(it?.unit_price ?? it?.unitPrice ?? it?.price, 0));
+  if (quantity <= 0 || unit <= 0) return null;
+
+  const picture = String(it?.imageUrl ?? it?.picture_url ?? "").trim();
+  const category = String(it?.category ?? "").trim();
+  const id = String(it?.productDocumentId ?? it?.productId ?? it?.slug ?? `item-${idx + 1}`).trim();
+
+  return {
+    id,
+    title: String(it?.title ?? "Producto").slice(0, 250),
+    ...(category ? { description: category } : {}),
+    ...(picture && isHttpUrl(picture) ? { picture_url: picture } : {}),
+    category_id: mpCategoryId(),
+    quantity,
+    unit_price: unit,
+    currency_id: "ARS",
+  };
+}
+
+export function buildPreferenceCharge(order: any, fallbackTitle = "Compra Amargo y Dulce"): PreferenceCharge {
+  const total = Math.round(toNum(order?.total, 0));
+  const shippingCost =
+    order?.shippingMethod === "pickup" ? 0 : Math.max(0, Math.round(toNum(order?.shippingCost, 0)));
+
+  const items = (Array.isArray(order?.items) ? order.items : [])
+    .map(readOrderLine)
+    .filter(Boolean) as MPItem[];
+
+  // Orden sin líneas legibles (datos viejos): cobramos un único item como antes
+  if (!items.length) {
+    items.push({
+      title: fallbackTitle,
+      quantity: 1,
+      unit_price: total - shippingCost,
+      currency_id: "ARS",
+    });
+  }
+
+  const linesTotal = items.reduce((acc, it) => acc + it.unit_price * it.quantity, 0);
+
+  const payment = readOrderPaymentMethod(order?.paymentMethod);
+  const paymentAdjustment = payment?.adjustmentAmount ?? 0;
+  const giftWrapCost = Math.max(0, Math.round(toNum(order?.giftWrapCost, 0)));
+
+  // ✅ Lo que falta (o sobra) para llegar al total de Strapi: descuentos + redondeo
+  const adjustment = total - shippingCost - paymentAdjustment - giftWrapCost - linesTotal;
+
+  if (adjustment !== 0) {
+    const discountTotal = Math.round(toNum(order?.discountTotal, 0));
+    items.push({
+      id: adjustment < 0 ? "discount" : "adjustment",
+      title: adjustment < 0 ? (discountTotal > 0 ? "Descuento" : "Ajuste por redondeo") : "Ajuste por redondeo",
+      quantity: 1,
+      unit_price: adjustment,
+      currency_id: "ARS",
+    });
+  }
+
+  if (payment && paymentAdjustment !== 0) {
+    items.push({
+      id: paymentAdjustment < 0 ? "payment-discount" : "payment-surcharge",
+      title: `${paymentAdjustment < 0 ? "Descuento" : "Recargo"} por pago con ${payment.label.toLowerCase()}`.slice(0, 250),
+      quantity: 1,
+      unit_price: paymentAdjustment,
+      currency_id: "ARS",
+    });
+  }
+
+  if (giftWrapCost > 0) {
+    items.push({
+      id: "gift-wrap",
+      title: "Papel de regalo",
+      quantity: 1,
+      unit_price: giftWrapCost,
+      currency_id: "ARS",
+    });
+  }
+
+  const giftCardAmount = Math.max(0, Math.round(toNum(order?.giftCardAmount, 0)));
+  const shippingAsItem = giftCardAmount > 0 && shippingCost > 0;
+
+  if (shippingAsItem) {
+    items.push({
+      id: "shipping",
+      title: "Envío",
+      quantity: 1,
+      unit_price: shippingCost,
+      currency_id: "ARS",
+    });
+  }
+
+  if (giftCardAmount > 0) {
+    items.push({
+      id: "gift-card",
+      title: "Pagado con gift card",
+      quantity: 1,
+      unit_price: -giftCardAmount,
+      currency_id: "ARS",
+    });
+  }
+
+  const mpTotal = items.reduce((acc, it) => acc + it.unit_price * it.quantity, 0) + (shippingAsItem ? 0 : shippingCost);
+
+  return {
+    items,
+    shipments: shippingCost > 0 && !shippingAsItem ? { cost: shippingCost, mode: "not_specified" } : null,
+    total: mpTotal,
+  };
+}
+
+function pickMpErrorMessage(payload: any, fallback: string) {
+  if (!payload) return fallback;
+  if (typeof payload === "string") return payload;
+  if (payload?.message) return payload.message;
+  if (payload?.error) return payload.error;
+  if (payload?.cause?.[0]?.description) return payload.cause[0].description;
+  return fallback;
+}
+
+function cleanObject<T extends Record<string, any>>(obj: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(obj).filter(([, v]) => v !== undefined && v !== null && v !== "")
+  ) as Partial<T>;
+}
+
+export type CreatePreferenceResult =
+  | {
+      ok: true;
+      id: string;
+      init_point: string;
+      sandbox_init_point: string | null;
+      mpExternalReference: string;
+    }
+  | { ok: false; status: number; error: string; details?: any };
+
+/**
+ * Crea la preferencia de MP para una orden ya guardada (checkout y "Reintentar pago").
+ * El stock/precios se validan antes de llamar a esto.
+ * `expiresAt`: vencimiento de la reserva de stock (ensureReservationOrThrow). La preferencia (y el ticket
+ * de efectivo) vence ahí: después el stock ya se liberó y no se tiene que poder pagar.
+ */
+export async function createPreferenceForOrder(params: {
+  order: any;
+  orderId: string;
+  mpExternalReference: string;
+  siteUrl: string;
+  accessToken: string;
+  expiresAt: string;
+}): Promise<CreatePreferenceResult> {
+  const { order, orderId, mpExternalReference, siteUrl, accessToken, expiresAt } = params;
+  const orderNumber = order?.orderNumber ? String(order.orderNumber) : null;
+  // ✅ Lo que se cobra por MP: total de Strapi menos lo pagado con gift card
+  const totalNumber = Math.round(toNum(order?.total, 0)) - Math.max(0, Math.round(toNum(order?.giftCardAmount, 0)));
+
+  // ✅ Items reales de la orden + envío (shipments) + descuento; total = total de Strapi
+  const charge = buildPreferenceCharge(order, orderNumber ? `Pedido ${orderNumber}` : undefined);
+
+  if (charge.total !== totalNumber) {
+    console.error("[create-preference] total MP != total orden", { mp: charge.total, order: totalNumber });
+    return {
+      ok: false,
+      status: 500,
+      error: "No se pudo armar el cobro de la orden",
+      details: { mpTotal: charge.total, total: totalNumber },
+    };
+  }
+
+  // ✅ Restricciones de medios de pago/cuotas guardadas en la orden (promos aplicadas)
+  const paymentMethod = readOrderPaymentMethod(order?.paymentMethod);
+  const payment_methods = buildMpPaymentMethods(
+    readOrderPaymentConstraints(order?.paymentConstraints),
+    paymentMethod
+  );
+
+  const external_reference = mpExternalReference;
+  const notification_url = `${siteUrl}/api/mp/webhook`;
+  const back_urls = {
+    success: `${siteUrl}/gracias?status=success&orderId=${encodeURIComponent(orderId)}`,
+    failure: `${siteUrl}/gracias?status=failure&orderId=${encodeURIComponent(orderId)}`,
+    pending: `${siteUrl}/gracias?status=pending&orderId=${encodeURIComponent(orderId)}`,
+  };
+
+  const preferenceBody = {
+    items: charge.items,
+    ...(charge.shipments ? { shipments: charge.shipments } : {}),
+    payment_methods,
+    statement_descriptor: process.env.MP_STATEMENT_DESCRIPTOR || "AMARGOYDULCE",
+    external_reference,
+    back_urls,
+    auto_return: "approved",
+    notification_url,
+    expires: true,
+    expiration_date_from: new Date().toISOString(),
+    expiration_date_to: expiresAt,
+    date_of_expiration: expiresAt,
+    metadata: cleanObject({
+      orderId,
+      orderNumber: orderNumber ?? undefined,
+      mpExternalReference: external_reference,
+      shippingMethod: order?.shippingMethod ?? undefined,
+      pickupPoint: order?.pickupPoint ?? undefined,
+      paymentType: paymentMethod?.type ?? undefined,
+      installments: paymentMethod ? String(paymentMethod.installments) : undefined,
+      total: String(totalNumber),
+    }),
+  };
+
+  try {
+    const res = await fetch(`${mpApiBase()}/checkout/preferences`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(preferenceBody),
+      cache: "no-store",
+    });
+
+    const data = await res.json().catch(() => null);
+
+    if (!res.ok) {
+      return {
+        ok: false,
+        status: res.status || 500,
+        error: pickMpErrorMessage(data, "MercadoPago rechazó la preferencia"),
+        details: data,
+      };
+    }
+
+    return {
+      ok: true,
+      id: String(data?.id ?? ""),
+      init_point: String(data?.init_point ?? ""),
+      sandbox_init_point: data?.sandbox_init_point ? String(data.sandbox_init_point) : null,
+      mpExternalReference: external_reference,
+    };
+  } catch {
+    return { ok: false, status: 500, error: "Error conectando con MercadoPago" };
+  }
+}
+
+/**
+ * Vence ya todas las preferencias de la orden (cada "Reintentar pago" crea una nueva), para que una orden
+ * cancelada no se pueda pagar. Se buscan por external_reference. Si igual entra un pago, el webhook
+ * la deja cancelada con `paymentReview` (ver webhook-pipeline).
+ */
+export async function expireOrderPreferences(params: { accessToken: string; mpExternalReference: string }) {
+  const { accessToken, mpExternalReference } = params;
+  const headers = { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" };
+
+  const sp = new URLSearchParams({ external_reference: mpExternalReference, limit: "50" });
+  const res = await fetch(`${mpApiBase()}/checkout/preferences/search?${sp.toString()}`, { headers, cache: "no-store" });
+  const json = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(`MP preferences/search failed (${res.status}) ${json ? JSON.stringify(json) : ""}`);
+  }
+
+  const ids: string[] = (Array.isArray(json?.elements) ? json.elements : [])
+    .map((p: any) => String(p?.id ?? "").trim())
+    .filter(Boolean);
+  const now = new Date().toISOString();
+
+  for (const id of ids) {
+    const r = await fetch(`${mpApiBase()}/checkout/preferences/${encodeURIComponent(id)}`, {
+      method: "PUT",
+      headers,
+      body: JSON.stringify({ expires: true, expiration_date_to: now }),
+      cache: "no-store",
+    });
+    if (!r.ok) throw new Error(`MP preference expire failed (${r.status}) ${await r.text().catch(() => "")}`);
+  }
+
+  return { expired: ids.length };
+}
@@ -0,0 +1,285 @@
+// src/lib/mp/reconcile.ts
+import { fetcher } from "@/lib/fetcher";
+import { releaseExpiredHolds, releaseReservation } from "@/lib/stock-reservations";
+import { runWebhookPipeline } from "@/lib/mp/webhook-pipeline";
+import { releaseGiftCardRedemption } from "@/lib/gift-cards";
+import { mpApiBase } from "@/lib/mp/payments";
+import { expireOrderPreferences } from "@/lib/mp/preference";
+
+/**
+ * Conciliación de órdenes que quedaron "pending" (o "failed") sin webhook.
+ *
+ * Para cada orden vieja:
+ * 1) Busca pagos en MP por external_reference (`/v1/payments/search`)
+ * 2) Si hay pago, corre el mismo pipeline que el webhook (stock, estado, factura, email)
+ * 3) Si no hay pago en curso y pasaron ORDER_PENDING_CANCEL_HOURS, vence sus preferencias de MP, cancela
+ *    y libera la reserva (y la gift card usada)
+ *
+ * La antigüedad se cuenta desde el último "Reintentar pago" (lastPaymentRetryAt) o createdAt.
+ * Cada orden revisada guarda `reconcileCheckedAt` y no se vuelve a mirar hasta pasados MP_RECONCILE_STALE_MINUTES:
+ * así las que esperan un pago en curso (o el plazo para cancelar) no tapan a las más nuevas.
+ */
+
+const RECONCILABLE_STATUSES = ["pending", "failed"];
+
+// Pagos que todavía pueden aprobarse (ej: efectivo en Rapipago): no cancelamos la orden
+const IN_FLIGHT_MP_STATUSES = ["pending", "in_process", "authorized"];
+
+// Si hay varios pagos, el que "manda" para la orden
+const MP_STATUS_PRIORITY = ["approved", "charged_back", "in_mediation", "refunded", "authorized", "in_process", "pending"];
+
+export type ReconcileAction = "synced" | "cancelled" | "waiting" | "untouched" | "error";
+
+export type ReconcileEntry = {
+  orderDocumentId: string;
+  orderNumber: string | null;
+  previousStatus: string | null;
+  action: ReconcileAction;
+  paymentId?: string | null;
+  mpStatus?: string | null;
+  orderStatus?: string | null;
+  error?: string | null;
+};
+
+export type ReconcileReport = {
+  startedAt: string;
+  finishedAt: string;
+  dryRun: boolean;
+  staleMinutes: number;
+  cancelAfterHours: number;
+  releasedHolds: number;
+  scanned: number;
+  entries: ReconcileEntry[];
+};
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+/** Órdenes más nuevas que esto se dejan al webhook (MP_RECONCILE_STALE_MINUTES, default 30) */
+export function reconcileStaleMinutes() {
+  const n = toNum(process.env.MP_RECONCILE_STALE_MINUTES, 30);
+  return n > 0 ? n : 30;
+}
+
+/** Horas sin pago hasta cancelar la orden (ORDER_PENDING_CANCEL_HOURS, default 48) */
+export function pendingCancelHours() {
+  const n = toNum(process.env.ORDER_PENDING_CANCEL_HOURS, 48);
+  return n > 0 ? n : 48;
+}
+
+function flattenRow(row: any) {
+  if (!row) return null;
+  return row?.attributes ? { id: row.id, documentId: row.documentId, ...row.attributes } : row;
+}
+
+/**
+ * Hasta `limit` órdenes para revisar: viejas, sin reintento de pago reciente y no revisadas en la última ventana.
+ * Pagina porque el filtro de antigüedad (lastPaymentRetryAt ?? createdAt) se termina de aplicar acá.
+ */
+async function listStaleOrders(olderThan: Date, limit: number) {
+  const since = olderThan.toISOString();
+  const found: any[] = [];
+
+  for (let page = 1; found.length < limit; page++) {
+    const sp = new URLSearchParams();
+    RECONCILABLE_STATUSES.forEach((s, i) => sp.set(`filters[orderStatus][$in][${i}]`, s));
+    sp.set("filters[createdAt][$lt]", since);
+    sp.set("filters[$and][0][$or][0][reconcileCheckedAt][$null]", "true");
+    sp.set("filters[$and][0][$or][1][reconcileCheckedAt][$lt]", since);
+    sp.set("filters[$and][1][$or][0][lastPaymentRetryAt][$null]", "true");
+    sp.set("filters[$and][1][$or][1][lastPaymentRetryAt][$lt]", since);
+    sp.set("sort", "createdAt:asc");
+    sp.set("pagination[page]", String(page));
+    sp.set("pagination[pageSize]", "100");
+
+    const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+    const rows = (Array.isArray(res?.data) ? res.data : []).map(flattenRow).filter((o: any) => o?.documentId);
+    found.push(...rows.filter((o: any) => orderAgeBase(o) < olderThan.getTime()));
+
+    const pageCount = toNum(res?.meta?.pagination?.pageCount, page);
+    if (!rows.length || page >= pageCount) break;
+  }
+
+  return found.slice(0, limit);
+}
+
+async function markReconcileChecked(order: any, at: number) {
+  await fetcher<any>(`/api/orders/${encodeURIComponent(order.documentId)}`, {
+    method: "PUT",
+    auth: true,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ data: { reconcileCheckedAt: new Date(at).toISOString() } }),
+  });
+}
+
+export async function searchMpPaymentsByReference(accessToken: string, externalReference: string) {
+  const sp = new URLSearchParams({
+    external_reference: externalReference,
+    sort: "date_created",
+    criteria: "desc",
+    limit: "20",
+  });
+
+  const res = await fetch(`${mpApiBase()}/v1/payments/search?${sp.toString()}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+    cache: "no-store",
+  });
+
+  const json = await res.json().catch(() => null);
+  if (!res.ok) {
+    throw new Error(`MP payments/search failed (${res.status}) ${json ? JSON.stringify(json) : ""}`);
+  }
+
+  return (Array.isArray(json?.results) ? json.results : []) as any[];
+}
+
+/** Pago que define el estado de la orden: aprobado > disputas/reembolsos > en curso > el más reciente */
+function pickRelevantPayment(payments: any[]) {
+  for (const status of MP_STATUS_PRIORITY) {
+    const found = payments.find((p) => String(p?.status ?? "") === status);
+    if (found) return found;
+  }
+  return payments[0] ?? null;
+}
+
+function orderAgeBase(order: any) {
+  const dates = [order?.lastPaymentRetryAt, order?.createdAt]
+    .map((d) => (d ? new Date(d).getTime() : NaN))
+    .filter((t) => Number.isFinite(t));
+  return dates.length ? Math.max(...dates) : Date.now();
+}
+
+async function cancelUnpaidOrder(order: any, accessToken: string) {
+  const ref = String(order?.mpExternalReference ?? "").trim();
+
+  // Primero la preferencia: que nadie pueda pagar lo que estamos por liberar
+  if (ref) {
+    await expireOrderPreferences({ accessToken, mpExternalReference: ref }).catch((e: any) =>
+      console.error("[reconcile] no pude vencer las preferencias de", order.documentId, e?.message || e)
+    );
+  }
+
+  await fetcher<any>(`/api/orders/${encodeURIComponent(order.documentId)}`, {
+    method: "PUT",
+    auth: true,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      data: {
+        orderStatus: "cancelled",
+        cancelledAt: new Date().toISOString(),
+        cancelReason: "payment_timeout",
+      },
+    }),
+  });
+
+  if (ref) {
+    await releaseReservation(ref);
+    await releaseGiftCardRedemption(ref);
+  }
+}
+
+export async function reconcilePendingOrders(params: {
+  siteUrl: string;
+  dryRun?: boolean;
+  limit?: number;
+  now?: number;
+}): Promise<ReconcileReport> {
+  const { siteUrl, dryRun = false } = params;
+  const now = params.now ?? Date.now();
+  const limit = Math.min(Math.max(Math.floor(toNum(params.limit, 50)), 1), 100);
+
+  const staleMinutes = reconcileStaleMinutes();
+  const cancelAfterHours = pendingCancelHours();
+
+  const report: ReconcileReport = {
+    startedAt: new Date(now).toISOString(),
+    finishedAt: "",
+    dryRun,
+    staleMinutes,
+    cancelAfterHours,
+    releasedHolds: 0,
+    scanned: 0,
+    entries: [],
+  };
+
+  const accessToken = process.env.MP_ACCESS_TOKEN;
+  if (!accessToken) throw new Error("Falta MP_ACCESS_TOKEN");
+
+  // ✅ Limpieza de reservas vencidas (libera stock de carritos abandonados)
+  if (!dryRun) {
+    try {
+      report.releasedHolds = (await releaseExpiredHolds()).released;
+    } catch (e: any) {
+      console.error("[reconcile] no pude liberar holds vencidos:", e?.message || e);
+    }
+  }
+
+  const orders = await listStaleOrders(new Date(now - staleMinutes * 60_000), limit);
+  report.scanned = orders.length;
+
+  // Secuencial a propósito: el pipeline toca stock con locks por producto
+  for (const order of orders) {
+    const entry: ReconcileEntry = {
+      orderDocumentId: String(order.documentId),
+      orderNumber: order?.orderNumber ? String(order.orderNumber) : null,
+      previousStatus: order?.orderStatus ? String(order.orderStatus) : null,
+      action: "untouched",
+    };
+    report.entries.push(entry);
+
+    // La antigüedad cuenta desde el último reintento (listStaleOrders ya dejó afuera las reintentadas hace poco)
+    const lastActivity = orderAgeBase(order);
+
+    if (!dryRun) {
+      await markReconcileChecked(order, now).catch((e: any) =>
+        console.error("[reconcile] no pude marcar la orden", entry.orderDocumentId, e?.message || e)
+      );
+    }
+
+    try {
+      const ref = String(order?.mpExternalReference ?? "").trim();
+      const payments = ref ? await searchMpPaymentsByReference(accessToken, ref) : [];
+      const payment = pickRelevantPayment(payments);
+
+      if (payment?.id) {
+        entry.paymentId = String(payment.id);
+        entry.mpStatus = payment?.status ? String(payment.status) : null;
+
+        if (!dryRun) {
+          const result = await runWebhookPipeline({ topic: "payment", dataId: String(payment.id), siteUrl });
+          if (!result.ok) {
+            entry.action = "error";
+            entry.error = result.lastError;
+            continue;
+          }
+          entry.orderStatus = result.steps.status?.data?.nextStatus ?? null;
+        }
+        entry.action = "synced";
+
+        if (IN_FLIGHT_MP_STATUSES.includes(String(payment.status))) {
+          entry.action = "waiting";
+          continue;
+        }
+        // Aprobado / reembolsado / en disputa: el estado ya lo resolvió el pipeline
+        if (!["rejected", "cancelled"].includes(String(payment.status))) continue;
+      }
+
+      // Sin pago aprobado ni en curso: cancelamos si ya pasó el plazo
+      const ageHours = (now - lastActivity) / 3_600_000;
+      if (ageHours < cancelAfterHours) continue;
+
+      if (!dryRun) await cancelUnpaidOrder(order, accessToken);
+      entry.action = "cancelled";
+      entry.orderStatus = "cancelled";
+    } catch (e: any) {
+      console.error("[reconcile] error con la orden", entry.orderDocumentId, e?.message || e);
+      entry.action = "error";
+      entry.error = e?.message || String(e);
+    }
+  }
+
+  report.finishedAt = new Date().toISOString();
+  return report;
+}
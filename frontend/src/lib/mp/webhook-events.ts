@@ -0,0 +1,188 @@
+// src/lib/mp/webhook-events.ts
+import { fetcher } from "@/lib/fetcher";
+import type { WebhookPipelineResult, WebhookSteps } from "@/lib/mp/webhook-pipeline";
+
+/**
+ * Log persistente de notificaciones de MP (y anti-replay).
+ *
+ * Colección Strapi `mp-webhook-events`:
+ * - notificationId (unique): x-request-id (o id del body si no vino)
+ * - topic, dataId, payload (json crudo: query + body)
+ * - paymentId, mpExternalReference, orderDocumentId
+ * - steps (json): resultado de cada paso (payment, stock, status, invoice, email)
+ * - eventStatus: "received" | "processed" | "skipped" | "failed"
+ * - lastError, attempts, receivedAt, processedAt
+ *
+ * Además guardamos en memoria las últimas claves para cortar duplicados
+ * simultáneos dentro del mismo proceso (MP a veces manda 2 seguidas).
+ */
+
+export type WebhookEventStatus = "received" | "processed" | "skipped" | "failed";
+
+export type WebhookEvent = {
+  id: number;
+  documentId: string;
+  notificationId: string;
+  topic: string | null;
+  dataId: string | null;
+  payload: any;
+  paymentId: string | null;
+  mpExternalReference: string | null;
+  orderDocumentId: string | null;
+  steps: WebhookSteps;
+  eventStatus: WebhookEventStatus;
+  lastError: string | null;
+  attempts: number;
+  receivedAt: string | null;
+  processedAt: string | null;
+};
+
+const PATH = "/api/mp-webhook-events";
+const MEMORY_LIMIT = 500;
+
+const recent = new Set<string>();
+
+function remember(key: string) {
+  recent.add(key);
+  if (recent.size > MEMORY_LIMIT) {
+    const first = recent.values().next().value;
+    if (first !== undefined) recent.delete(first);
+  }
+}
+
+function flattenEvent(row: any): WebhookEvent | null {
+  if (!row) return null;
+  const flat = row?.attributes ? { id: row.id, documentId: row.documentId, ...row.attributes } : row;
+
+  return {
+    id: Number(flat?.id ?? 0),
+    documentId: String(flat?.documentId ?? flat?.id ?? ""),
+    notificationId: String(flat?.notificationId ?? ""),
+    topic: flat?.topic ?? null,
+    dataId: flat?.dataId != null ? String(flat.dataId) : null,
+    payload: flat?.payload ?? null,
+    paymentId: flat?.paymentId != null ? String(flat.paymentId) : null,
+    mpExternalReference: flat?.mpExternalReference ?? null,
+    orderDocumentId: flat?.orderDocumentId ?? null,
+    steps: flat?.steps && typeof flat.steps === "object" ? flat.steps : {},
+    eventStatus: (flat?.eventStatus ?? "received") as WebhookEventStatus,
+    lastError: flat?.lastError ?? null,
+    attempts: Number(flat?.attempts ?? 0) || 0,
+    receivedAt: flat?.receivedAt ?? null,
+    processedAt: flat?.processedAt ?? null,
+  };
+}
+
+/** Clave de la notificación: el x-request-id firmado (verifyWebhookSignature no deja pasar una sin él) */
+export function notificationKey(params: { requestId: string }) {
+  return params.requestId.trim();
+}
+
+async function findEventByNotificationId(key: string) {
+  const sp = new URLSearchParams();
+  sp.set("filters[notificationId][$eq]", key);
+  sp.set("pagination[pageSize]", "1");
+
+  const res = await fetcher<{ data: any[] }>(`${PATH}?${sp.toString()}`, { auth: true });
+  return flattenEvent(Array.isArray(res?.data) ? res.data[0] : null);
+}
+
+/**
+ * Registra la notificación al recibirla.
+ * - duplicate: true => ya la vimos (duplicado / replay), no-op
+ * - event: null si Strapi no respondió (seguimos igual: no frenamos pagos por el log)
+ */
+export async function claimWebhookEvent(
+  key: string,
+  meta: { topic?: string | null; dataId?: string | null; payload?: any } = {}
+): Promise<{ duplicate: boolean; event: WebhookEvent | null }> {
+  if (recent.has(key)) return { duplicate: true, event: null };
+  remember(key);
+
+  try {
+    const existing = await findEventByNotificationId(key);
+    if (existing) return { duplicate: true, event: existing };
+
+    const created = await fetcher<{ data: any }>(PATH, {
+      method: "POST",
+      auth: true,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        data: {
+          notificationId: key,
+          topic: meta.topic ?? null,
+          dataId: meta.dataId ?? null,
+          payload: meta.payload ?? null,
+          steps: {},
+          eventStatus: "received",
+          attempts: 0,
+          receivedAt: new Date().toISOString(),
+        },
+      }),
+    });
+
+    return { duplicate: false, event: flattenEvent(created?.data) };
+  } catch (e: any) {
+    // ⚠️ Si el POST falló por unique (carrera entre instancias), lo tratamos como duplicado
+    const msg = String(e?.message || e);
+    if (/unique|already/i.test(msg)) return { duplicate: true, event: null };
+    console.error("[mp-webhook-events] no pude registrar la notificación:", msg);
+    return { duplicate: false, event: null };
+  }
+}
+
+/** Guarda el resultado de una ejecución del pipeline (webhook o replay). */
+export async function recordWebhookOutcome(event: WebhookEvent, result: WebhookPipelineResult) {
+  const eventStatus: WebhookEventStatus = !result.ok ? "failed" : result.skipped ? "skipped" : "processed";
+
+  const res = await fetcher<{ data: any }>(`${PATH}/${encodeURIComponent(event.documentId)}`, {
+    method: "PUT",
+    auth: true,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      data: {
+        paymentId: result.paymentId ?? event.paymentId,
+        mpExternalReference: result.mpExternalReference ?? event.mpExternalReference,
+        orderDocumentId: result.orderDocumentId ?? event.orderDocumentId,
+        steps: result.steps,
+        eventStatus,
+        lastError: result.lastError,
+        attempts: event.attempts + 1,
+        processedAt: new Date().toISOString(),
+      },
+    }),
+  });
+
+  return flattenEvent(res?.data) ?? { ...event, steps: result.steps, eventStatus, lastError: result.lastError };
+}
+
+export async function getWebhookEvent(documentId: string) {
+  const sp = new URLSearchParams();
+  sp.set("filters[documentId][$eq]", documentId);
+  sp.set("pagination[pageSize]", "1");
+
+  const res = await fetcher<{ data: any[] }>(`${PATH}?${sp.toString()}`, { auth: true });
+  return flattenEvent(Array.isArray(res?.data) ? res.data[0] : null);
+}
+
+export async function listWebhookEvents(params: {
+  eventStatus?: WebhookEventStatus | null;
+  orderDocumentId?: string | null;
+  page?: number;
+  pageSize?: number;
+}) {
+  const sp = new URLSearchParams();
+  sp.set("sort[0]", "receivedAt:desc");
+  sp.set("pagination[page]", String(Math.max(1, params.page ?? 1)));
+  sp.set("pagination[pageSize]", String(Math.min(Math.max(params.pageSize ?? 25, 1), 100)));
+  if (params.eventStatus) sp.set("filters[eventStatus][$eq]", params.eventStatus);
+  if (params.orderDocumentId) sp.set("filters[orderDocumentId][$eq]", params.orderDocumentId);
+
+  const res = await fetcher<{ data: any[]; meta?: any }>(`${PATH}?${sp.toString()}`, { auth: true });
+  const rows = Array.isArray(res?.data) ? res.data : [];
+
+  return {
+    events: rows.map(flattenEvent).filter(Boolean) as WebhookEvent[],
+    pagination: res?.meta?.pagination ?? null,
+  };
+}
@@ -0,0 +1,1370 @@
+// src/lib/mp/webhook-pipeline.ts
+import { commitReservation, releaseReservation, restockReservation } from "@/lib/stock-reservations";
+import { getCarrier, type CarrierParcel } from "@/lib/carriers";
+import { recordOrderEvent } from "@/lib/order-events";
+import { readOrderGift, type GiftOptions } from "@/lib/gift-options";
+import { packParcels } from "@/lib/packing";
+import { mpApiBase, refundMpPayment } from "@/lib/mp/payments";
+import {
+  giftCardDebitForRef,
+  issueGiftCard,
+  markGiftCardDelivered,
+  maskGiftCardCode,
+  redeemGiftCardOrThrow,
+  releaseGiftCardRedemption,
+} from "@/lib/gift-cards";
+
+/**
+ * Pipeline del webhook de MP, separado por pasos para poder registrar
+ * el resultado de cada uno y re-ejecutarlos desde el admin (ver webhook-events).
+ *
+ * payment -> stock -> status -> invoice -> giftcards -> shipment -> email
+ */
+
+// Estados que ya pasaron por "paid": un estado intermedio de MP no los hace retroceder
+const PAID_LIKE_STATUSES = ["paid", "partially_refunded", "refunded", "chargeback", "shipped", "delivered"];
+
+// Estados de entrega (los mueve el timeline, ver lib/order-events): un "approved" repetido no los pisa
+const FULFILLMENT_STATUSES = ["shipped", "delivered"];
+
+function mapMpToOrderStatus(payment: any, prevStatus?: string | null) {
+  const mpStatus: string | undefined = payment?.status;
+  const refunded = Number(payment?.transaction_amount_refunded ?? 0);
+
+  // Cancelada por el cliente (ver orders/[id]/cancel): el reembolso/cancelación que avisa MP
+  // no la pasa a "refunded" (el stock y la nota de crédito ya se hicieron al cancelar)
+  if (String(prevStatus ?? "").toLowerCase() === "cancelled" && (mpStatus === "refunded" || mpStatus === "cancelled")) {
+    return "cancelled";
+  }
+
+  switch (mpStatus) {
+    case "approved": {
+      const prev = String(prevStatus ?? "").toLowerCase();
+      // Cancelada antes de que entre el pago: sigue cancelada (el stock ya se liberó; ver `paymentReview`)
+      if (prev === "cancelled") return "cancelled";
+      // MP deja "approved" cuando el reembolso es parcial
+      if (refunded > 0) return "partially_refunded";
+      return FULFILLMENT_STATUSES.includes(prev) ? prev : "paid";
+    }
+    case "refunded":
+      return "refunded";
+    case "charged_back":
+    case "in_mediation":
+      return "chargeback";
+    case "rejected":
+      return "failed";
+    case "cancelled":
+      return "cancelled";
+    default: {
+      const prev = String(prevStatus ?? "").toLowerCase();
+      return PAID_LIKE_STATUSES.includes(prev) ? prev : "pending";
+    }
+  }
+}
+
+/* ======================= REFUNDS ======================= */
+
+export type OrderRefund = {
+  id: string;
+  amount: number;
+  date: string | null;
+  creditNoteNumber?: string | null;
+  creditNotePdfUrl?: string | null;
+  notifiedAt?: string | null;
+};
+
+/**
+ * Mezcla los reembolsos del pago (MP) con los que ya tenía la orden,
+ * conservando lo que agregamos nosotros (nota de crédito, aviso enviado).
+ */
+function mergeRefunds(payment: any, current: OrderRefund[]) {
+  const fromMp: any[] = Array.isArray(payment?.refunds) ? payment.refunds : [];
+  const byId = new Map(current.map((r) => [String(r.id), r]));
+
+  for (const r of fromMp) {
+    if (!r?.id) continue;
+    if (r?.status && !["approved", "completed"].includes(String(r.status))) continue;
+
+    const id = String(r.id);
+    const prev = byId.get(id);
+    byId.set(id, {
+      ...(prev ?? {}),
+      id,
+      amount: Math.round(Number(r?.amount ?? prev?.amount ?? 0)),
+      date: r?.date_created ?? prev?.date ?? null,
+    });
+  }
+
+  return Array.from(byId.values()).sort((a, b) =>
+    String(a.date ?? "").localeCompare(String(b.date ?? ""))
+  );
+}
+
+function normalizeStrapiBase(url: string) {
+  let u = String(url ?? "").trim();
+  u = u.endsWith("/") ? u.slice(0, -1) : u;
+  if (u.toLowerCase().endsWith("/api")) u = u.slice(0, -4);
+  return u;
+}
+
+function ensureAbsoluteUrl(url: string, fallbackOrigin: string) {
+  const s = String(url ?? "").trim();
+  if (!s) return "";
+  if (/^https?:\/\//i.test(s)) return s;
+  if (s.startsWith("/")) return `${fallbackOrigin}${s}`;
+  return `${fallbackOrigin}/${s}`;
+}
+
+function sanitizeFileBaseName(name: string) {
+  const s = String(name ?? "").trim();
+  if (!s) return "RC";
+  return s
+    .replace(/\s+/g, "_")
+    .replace(/[^\w-]+/g, "_")
+    .replace(/_+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .replace(/-/g, "_");
+}
+
+/* ======================= MP ======================= */
+
+async function fetchMpPayment(accessToken: string, paymentId: string) {
+  const payRes = await fetch(
+    `${mpApiBase()}/v1/payments/${encodeURIComponent(paymentId)}`,
+    {
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      cache: "no-store",
+    }
+  );
+
+  const payment = await payRes.json().catch(() => null);
+
+  if (!payRes.ok || !payment) {
+    const errText = payment ? JSON.stringify(payment) : "";
+    throw new Error(`MP payment fetch failed (${payRes.status}) ${errText}`);
+  }
+
+  return payment;
+}
+
+/* ======================= STRAPI HELPERS ======================= */
+
+function flattenStrapiRow(row: any) {
+  if (!row) return null;
+  if (row?.attributes) {
+    return {
+      id: row?.id ?? null,
+      documentId:
+        row?.documentId ??
+        row?.attributes?.documentId ??
+        row?.attributes?.document_id ??
+        null,
+      ...row.attributes,
+    };
+  }
+  return row;
+}
+
+async function fetchStrapiJson(url: string, token: string) {
+  const r = await fetch(url, {
+    headers: { Authorization: `Bearer ${token}` },
+    cache: "no-store",
+  });
+  const json = await r.json().catch(() => null);
+  return { r, json };
+}
+
+/* ======================= ORDER ======================= */
+
+async function findOrderBy(
+  strapiBase: string,
+  token: string,
+  filter: { field: "mpExternalReference" | "documentId"; value: string }
+) {
+  const q = new URLSearchParams({
+    [`filters[${filter.field}][$eq]`]: filter.value,
+    "pagination[pageSize]": "1",
+    populate: "*",
+  });
+
+  const res = await fetch(`${strapiBase}/api/orders?${q.toString()}`, {
+    headers: { Authorization: `Bearer ${token}` },
+    cache: "no-store",
+  });
+
+  const data = await res.json().catch(() => null);
+
+  if (!res.ok || !data) {
+    const text = data ? JSON.stringify(data) : "";
+    throw new Error(`Strapi search failed (${res.status}) ${text}`);
+  }
+
+  const raw = data?.data?.[0];
+  const flat = flattenStrapiRow(raw);
+
+  if (!flat) return null;
+
+  const documentId =
+    flat?.documentId != null ? String(flat.documentId).trim() : "";
+
+  if (!documentId) {
+    console.error("[Webhook] Order encontrada pero sin documentId. raw:", raw);
+    return null;
+  }
+
+  return {
+    documentId,
+    numericId: flat?.id ?? raw?.id ?? null,
+
+    orderStatus: (flat?.orderStatus ?? null) as string | null,
+    email: (flat?.email ?? null) as string | null,
+    name: (flat?.name ?? null) as string | null,
+    orderNumber: (flat?.orderNumber ?? null) as string | null,
+    total: (flat?.total ?? null) as number | null,
+    items: (flat?.items ?? null) as any,
+    phone: (flat?.phone ?? null) as string | null,
+    shippingAddress: (flat?.shippingAddress ?? null) as any,
+    stockAdjusted: Boolean(flat?.stockAdjusted ?? false),
+    refunds: (Array.isArray(flat?.refunds) ? flat.refunds : []) as OrderRefund[],
+    mpExternalReference: (flat?.mpExternalReference ?? null) as string | null,
+    paymentMethod: (flat?.paymentMethod ?? null) as any,
+    shippingMethod: (flat?.shippingMethod ?? null) as string | null,
+    shippingCost: (flat?.shippingCost ?? null) as number | null,
+    shippingCarrier: (flat?.shippingCarrier ?? null) as string | null,
+    shippingQuote: (flat?.shippingQuote ?? null) as any,
+    trackingNumber: (flat?.trackingNumber ?? null) as string | null,
+    deliveryDate: (flat?.deliveryDate ?? null) as string | null,
+    gift: readOrderGift(flat?.gift),
+    giftCardCode: (flat?.giftCardCode ?? null) as string | null,
+    giftCardAmount: Math.max(0, Math.round(Number(flat?.giftCardAmount ?? 0) || 0)),
+  };
+}
+
+type PipelineOrder = NonNullable<Awaited<ReturnType<typeof findOrderBy>>>;
+
+async function findOrderByMpExternalReference(
+  strapiBase: string,
+  token: string,
+  mpExternalReference: string
+) {
+  return findOrderBy(strapiBase, token, { field: "mpExternalReference", value: mpExternalReference });
+}
+
+async function updateOrderInStrapi(params: {
+  strapiBase: string;
+  token: string;
+  orderDocumentId: string;
+  payload: any;
+}) {
+  const { strapiBase, token, orderDocumentId, payload } = params;
+
+  const updateUrl = `${strapiBase}/api/orders/${encodeURIComponent(
+    orderDocumentId
+  )}`;
+
+  const updateRes = await fetch(updateUrl, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${token}`,
+    },
+    body: JSON.stringify(payload),
+    cache: "no-store",
+  });
+
+  if (!updateRes.ok) {
+    const text = await updateRes.text().catch(() => "");
+    throw new Error(
+      `Strapi update failed (${updateRes.status}) ${text || "(no body)"}`
+    );
+  }
+
+  const json = await updateRes.json().catch(() => null);
+  return json;
+}
+
+/* ======================= EMAIL ======================= */
+
+async function sendOrderConfirmationEmail(params: {
+  siteUrl: string;
+  email: string;
+  name?: string | null;
+  orderNumber?: string | null;
+  total?: number | null;
+  items?: any;
+  phone?: string | null;
+  shippingAddress?: any;
+  deliveryDate?: string | null;
+  gift?: GiftOptions | null;
+  mpPaymentId?: string | null;
+
+  invoiceNumber?: string | null;
+  invoicePdfUrl?: string | null;
+  invoiceFilename?: string | null;
+}) {
+  const { siteUrl, ...payload } = params;
+
+  const res = await fetch(`${siteUrl}/api/email/order-confirmation`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+    cache: "no-store",
+  });
+
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Email send failed (${res.status}) ${t || "(no body)"}`);
+  }
+}
+
+/** Gift card en PDF a quien la compró (la ruta busca la tarjeta por código) */
+async function sendGiftCardEmail(params: { siteUrl: string; code: string }) {
+  const res = await fetch(`${params.siteUrl}/api/email/gift-card`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ code: params.code }),
+    cache: "no-store",
+  });
+
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Gift card email failed (${res.status}) ${t || "(no body)"}`);
+  }
+
+  // Rate limit de Resend (202): no la marcamos como enviada, así el replay la reintenta
+  const json = await res.json().catch(() => null);
+  if (json?.rateLimited) throw new Error("Gift card email rate limited");
+}
+
+async function sendRefundEmail(params: {
+  siteUrl: string;
+  email: string;
+  name?: string | null;
+  orderNumber?: string | null;
+  refundId: string;
+  refundAmount: number;
+  refundedAt?: string | null;
+  fullRefund: boolean;
+  creditNoteNumber?: string | null;
+  creditNotePdfUrl?: string | null;
+}) {
+  const { siteUrl, ...payload } = params;
+
+  const res = await fetch(`${siteUrl}/api/email/refund-notice`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+    cache: "no-store",
+  });
+
+  if (!res.ok) {
+    const t = await res.text().catch(() => "");
+    throw new Error(`Refund email failed (${res.status}) ${t || "(no body)"}`);
+  }
+}
+
+/* ======================= INVOICE ======================= */
+
+async function tryGenerateCreditNote(params: { siteUrl: string; orderId: string; refundId: string }) {
+  const { siteUrl, orderId, refundId } = params;
+
+  const r = await fetch(`${siteUrl}/api/invoices/generate`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ orderId, kind: "credit_note", refundId }),
+    cache: "no-store",
+  });
+
+  const j = await r.json().catch(() => null);
+  if (!r.ok) {
+    throw new Error(`credit note generate failed (${r.status}) ${j ? JSON.stringify(j) : ""}`);
+  }
+
+  return {
+    invoiceNumber: j?.invoiceNumber ? String(j.invoiceNumber) : null,
+    pdfUrl: j?.pdfUrl ? String(j.pdfUrl) : null,
+  };
+}
+
+// Remito sin precios para armar el paquete (best-effort: no frena el comprobante ni el email)
+async function tryGeneratePackingSlip(params: { siteUrl: string; orderId: string }) {
+  const { siteUrl, orderId } = params;
+
+  try {
+    const r = await fetch(`${siteUrl}/api/invoices/generate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId, kind: "packing_slip" }),
+      cache: "no-store",
+    });
+
+    const j = await r.json().catch(() => null);
+    if (!r.ok) {
+      console.error("[Webhook] packing slip generate failed:", r.status, j);
+      return { ok: false as const, error: j?.error || `packing slip generate failed (${r.status})` };
+    }
+
+    return { ok: true as const, packingSlipNumber: j?.packingSlipNumber ?? null, pdfUrl: j?.pdfUrl ?? null };
+  } catch (e: any) {
+    console.error("[Webhook] packing slip fetch error:", e?.message || e);
+    return { ok: false as const, error: e?.message || String(e) };
+  }
+}
+
+async function tryGenerateInvoice(params: { siteUrl: string; orderId: string }) {
+  const { siteUrl, orderId } = params;
+
+  try {
+    const r = await fetch(`${siteUrl}/api/invoices/generate`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ orderId }),
+      cache: "no-store",
+    });
+
+    const j = await r.json().catch(() => null);
+
+    if (!r.ok) {
+      console.error("[Webhook] invoice generate failed:", r.status, j);
+      return { ok: false as const, status: r.status, details: j };
+    }
+
+    console.log(
+      "[Webhook] invoice generate ok:",
+      j?.alreadyExists ? "alreadyExists" : "created"
+    );
+
+    // ✅ Esperado (por tu generate corregido):
+    // { ok:true, invoiceNumber, pdfUrl, ... }
+    return { ok: true as const, data: j };
+  } catch (e: any) {
+    console.error("[Webhook] invoice generate fetch error:", e?.message || e);
+    return { ok: false as const, status: 0, details: e?.message || String(e) };
+  }
+}
+
+// Fallback: buscar invoice por orderNumber (si existe ese campo en invoices)
+async function findInvoiceByOrderNumber(params: {
+  strapiBase: string;
+  token: string;
+  orderNumber: string;
+}) {
+  const { strapiBase, token, orderNumber } = params;
+
+  const sp = new URLSearchParams();
+  sp.set("pagination[pageSize]", "1");
+  sp.set("filters[orderNumber][$eq]", orderNumber);
+  sp.set("populate", "pdf");
+  sp.append("fields[0]", "number");
+  sp.append("fields[1]", "invoiceNumber");
+  sp.append("fields[2]", "orderNumber");
+  sp.append("fields[3]", "documentId");
+
+  const url = `${strapiBase}/api/invoices?${sp.toString()}`;
+  const { r, json } = await fetchStrapiJson(url, token);
+
+  if (!r.ok) return { ok: false as const, status: r.status, url, json };
+
+  const raw = json?.data?.[0];
+  const inv = flattenStrapiRow(raw);
+  if (!inv) return { ok: true as const, data: null, url, raw: json };
+
+  const pdfNode = inv?.pdf?.data ?? inv?.pdf ?? null;
+  const pdfRow = Array.isArray(pdfNode) ? pdfNode[0] : pdfNode;
+  const pdfFlat = flattenStrapiRow(pdfRow);
+
+  const pdfUrl =
+    typeof pdfFlat?.url === "string"
+      ? pdfFlat.url.trim()
+      : typeof pdfFlat?.attributes?.url === "string"
+      ? String(pdfFlat.attributes.url).trim()
+      : "";
+
+  const number = String(inv?.number ?? inv?.invoiceNumber ?? "").trim();
+
+  return {
+    ok: true as const,
+    data: {
+      invoiceNumber: number || null,
+      pdfUrl: pdfUrl || null,
+      documentId: inv?.documentId ?? null,
+      id: inv?.id ?? null,
+    },
+    url,
+    raw: json,
+  };
+}
+
+/* ======================= PIPELINE ======================= */
+
+export type WebhookStepName = "payment" | "stock" | "status" | "invoice" | "giftcards" | "shipment" | "email";
+
+export const WEBHOOK_STEPS: WebhookStepName[] = [
+  "payment",
+  "stock",
+  "status",
+  "invoice",
+  "giftcards",
+  "shipment",
+  "email",
+];
+
+export type WebhookStepResult = {
+  ok: boolean;
+  skipped?: string | null;
+  error?: string | null;
+  at: string;
+  data?: any;
+};
+
+export type WebhookSteps = Partial<Record<WebhookStepName, WebhookStepResult>>;
+
+export type WebhookPipelineResult = {
+  ok: boolean;
+  steps: WebhookSteps;
+  paymentId: string | null;
+  mpStatus: string | null;
+  mpExternalReference: string | null;
+  orderDocumentId: string | null;
+  becamePaid: boolean;
+  skipped: string | null;
+  lastError: string | null;
+};
+
+export function isWebhookStepName(v: any): v is WebhookStepName {
+  return WEBHOOK_STEPS.includes(v);
+}
+
+function stepOk(data?: any): WebhookStepResult {
+  return { ok: true, at: new Date().toISOString(), ...(data !== undefined ? { data } : {}) };
+}
+
+function stepSkipped(reason: string, data?: any): WebhookStepResult {
+  return { ok: true, skipped: reason, at: new Date().toISOString(), ...(data !== undefined ? { data } : {}) };
+}
+
+function stepFailed(e: any, data?: any): WebhookStepResult {
+  const error = typeof e === "string" ? e : e?.message || String(e);
+  return { ok: false, error, at: new Date().toISOString(), ...(data !== undefined ? { data } : {}) };
+}
+
+/* ======================= PASOS COMPARTIDOS ======================= */
+
+/** Comprobante de una orden que quedó paid (MP o pago offline confirmado) */
+async function receiptStep(params: { siteUrl: string; orderDocumentId: string }): Promise<WebhookStepResult> {
+  const gen = await tryGenerateInvoice({ siteUrl: params.siteUrl, orderId: params.orderDocumentId });
+  const packingSlip = await tryGeneratePackingSlip({ siteUrl: params.siteUrl, orderId: params.orderDocumentId });
+  return gen.ok
+    ? stepOk({
+        invoiceNumber: gen.data?.invoiceNumber ?? null,
+        pdfUrl: gen.data?.pdfUrl ?? null,
+        alreadyExists: Boolean(gen.data?.alreadyExists),
+        packingSlip,
+      })
+    : stepFailed(
+        typeof gen.details === "string" ? gen.details : `invoice generate failed (${gen.status})`,
+        { status: gen.status, details: gen.details }
+      );
+}
+
+/** Evento "paid" del timeline (no corta el pipeline si falla) */
+async function paidEvent(order: PipelineOrder, via: string) {
+  try {
+    await recordOrderEvent({
+      order: { documentId: order.documentId, orderNumber: order.orderNumber },
+      type: "paid",
+      source: "system",
+      description: `Pago confirmado (${via})`,
+      externalKey: `paid:${order.documentId}`,
+    });
+  } catch (e: any) {
+    console.error("[Webhook] no pude registrar el evento paid:", e?.message || e);
+  }
+}
+
+/**
+ * Gift cards de una orden que quedó paid (lib/gift-cards):
+ * - Pagó con gift card y el débito se había devuelto (ej: MP rechazó un intento y aprobó el siguiente): se vuelve a debitar.
+ * - Compró gift cards: una tarjeta por unidad (idempotente por orden/línea/unidad) y su email con el PDF.
+ *   Las ya enviadas (`deliveredAt`) no se reenvían en un replay.
+ */
+async function giftCardsStep(params: { siteUrl: string; order: PipelineOrder }): Promise<WebhookStepResult> {
+  const { siteUrl, order } = params;
+  const errors: string[] = [];
+
+  let redeemed = 0;
+  const ref = String(order.mpExternalReference ?? "").trim();
+  if (order.giftCardCode && order.giftCardAmount > 0 && ref) {
+    try {
+      const debit = await giftCardDebitForRef(ref);
+      if (debit.amount < order.giftCardAmount) {
+        const r = await redeemGiftCardOrThrow({
+          code: order.giftCardCode,
+          amount: order.giftCardAmount - debit.amount,
+          ref,
+          email: order.email,
+          orderDocumentId: order.documentId,
+          orderNumber: order.orderNumber,
+        });
+        redeemed = r.amount;
+      }
+    } catch (e: any) {
+      console.error("[Webhook] no pude debitar la gift card:", e?.message || e);
+      errors.push(`redeem: ${e?.message || String(e)}`);
+    }
+  }
+
+  const lines = (Array.isArray(order.items) ? order.items : [])
+    .map((it: any, idx: number) => ({ it, idx }))
+    .filter(({ it }: { it: any }) => it?.giftCard === true);
+
+  if (!lines.length && !redeemed && !errors.length) return stepSkipped("no_gift_cards");
+
+  const issued: string[] = [];
+  for (const { it, idx } of lines) {
+    const qty = Math.max(0, Math.floor(Number(it?.qty ?? it?.quantity ?? 0) || 0));
+    // El valor de la tarjeta es el precio de lista (si estaba en oferta, el descuento es para quien la compra)
+    const amount = Math.round(Number(it?.price ?? it?.unit_price ?? 0) || 0);
+
+    for (let n = 1; n <= qty; n++) {
+      try {
+        const { card } = await issueGiftCard({
+          externalKey: `${order.documentId}:${idx}:${n}`,
+          amount,
+          purchaserEmail: order.email,
+          orderDocumentId: order.documentId,
+          orderNumber: order.orderNumber,
+          recipientName: order.gift?.recipientName ?? null,
+          message: order.gift?.message ?? null,
+        });
+        issued.push(maskGiftCardCode(card.code));
+
+        if (!card.deliveredAt && card.purchaserEmail) {
+          await sendGiftCardEmail({ siteUrl, code: card.code });
+          await markGiftCardDelivered(card);
+        }
+      } catch (e: any) {
+        console.error("[Webhook] gift card failed:", e?.message || e);
+        errors.push(e?.message || String(e));
+      }
+    }
+  }
+
+  return errors.length ? stepFailed(errors.join(" | "), { issued, redeemed }) : stepOk({ issued, redeemed });
+}
+
+/**
+ * Envío en el correo elegido (lib/carriers) para una orden que quedó paid.
+ * - retiro / sin correo: skipped
+ * - ya tiene trackingNumber: skipped (reintentos y replays no duplican el envío)
+ */
+async function shipmentStep(params: {
+  strapiBase: string;
+  token: string;
+  order: PipelineOrder;
+}): Promise<WebhookStepResult> {
+  const { strapiBase, token, order } = params;
+
+  if (order.shippingMethod === "pickup") return stepSkipped("pickup");
+  if (order.trackingNumber) return stepSkipped("already_created", { trackingNumber: order.trackingNumber });
+
+  let quote: any = order.shippingQuote;
+  if (typeof quote === "string") {
+    try {
+      quote = JSON.parse(quote);
+    } catch {
+      quote = null;
+    }
+  }
+
+  const carrierId = order.shippingCarrier || quote?.carrierId || null;
+  if (!carrierId) return stepSkipped("no_carrier");
+
+  const addr = order.shippingAddress ?? {};
+  const items: any[] = Array.isArray(order.items) ? order.items : [];
+
+  // Bultos de la cotización; si no quedaron guardados, los armamos con los items (peso/medidas de la orden)
+  const parcels: CarrierParcel[] =
+    Array.isArray(quote?.parcels) && quote.parcels.length ? quote.parcels : packParcels(items);
+
+  try {
+    const carrier = getCarrier(carrierId);
+    const shipment = await carrier.createShipment({
+      orderNumber: String(order.orderNumber || order.documentId),
+      // Regalo: el correo le entrega (y llama) a quien recibe, no a quien compró
+      recipient: {
+        name: String(order.gift?.recipientName || order.name || ""),
+        email: order.email,
+        phone: order.gift?.recipientPhone || order.phone,
+      },
+      address: {
+        street: String(addr?.street ?? ""),
+        number: String(addr?.number ?? ""),
+        city: String(addr?.city ?? ""),
+        province: String(addr?.province ?? ""),
+        postalCode: String(addr?.postalCode ?? ""),
+        notes: addr?.notes ?? null,
+      },
+      parcels,
+      declaredValue: Math.max(0, Math.round(Number(order.total ?? 0) - Number(order.shippingCost ?? 0))),
+    });
+
+    await updateOrderInStrapi({
+      strapiBase,
+      token,
+      orderDocumentId: order.documentId,
+      payload: {
+        data: {
+          shippingCarrier: shipment.carrierId,
+          shipmentId: shipment.shipmentId,
+          trackingNumber: shipment.trackingNumber,
+          trackingUrl: shipment.trackingUrl,
+          shipmentCreatedAt: new Date().toISOString(),
+        },
+      },
+    });
+
+    try {
+      await recordOrderEvent({
+        order: { documentId: order.documentId, orderNumber: order.orderNumber },
+        type: "preparing",
+        source: "system",
+        description: `Estamos preparando tu pedido para despacharlo por ${carrier.name}`,
+        carrierId: shipment.carrierId,
+        trackingNumber: shipment.trackingNumber,
+        trackingUrl: shipment.trackingUrl,
+        externalKey: `preparing:${order.documentId}`,
+      });
+    } catch (e: any) {
+      console.error("[Webhook] no pude registrar el evento preparing:", e?.message || e);
+    }
+
+    return stepOk({ carrierId: shipment.carrierId, trackingNumber: shipment.trackingNumber });
+  } catch (e: any) {
+    console.error("[Webhook] shipment failed:", e?.message || e);
+    return stepFailed(e, { carrierId });
+  }
+}
+
+/** Email de confirmación con el comprobante adjunto */
+async function confirmationEmailStep(params: {
+  siteUrl: string;
+  strapiBase: string;
+  token: string;
+  order: PipelineOrder;
+  invoiceStep: WebhookStepResult | null;
+  paymentReference: string | null;
+}): Promise<WebhookStepResult> {
+  const { siteUrl, strapiBase, token, order, invoiceStep, paymentReference } = params;
+
+  if (!order.email) {
+    console.warn("[Webhook] Order paid pero sin email en order:", { documentId: order.documentId });
+    return stepSkipped("no_email");
+  }
+
+  const inv = invoiceStep?.data ?? null;
+
+  // 1) Preferimos lo que devuelve /invoices/generate (ya trae invoiceNumber + pdfUrl)
+  let invoiceNumber: string | null = inv?.invoiceNumber ? String(inv.invoiceNumber).trim() : null;
+  let invoicePdfUrl: string | null = inv?.pdfUrl
+    ? ensureAbsoluteUrl(String(inv.pdfUrl).trim(), strapiBase)
+    : null;
+
+  // 2) Fallback: si no vino pdfUrl, intentamos buscar en Strapi por orderNumber (si existe ese campo)
+  if ((!invoicePdfUrl || !invoiceNumber) && order.orderNumber) {
+    try {
+      const invRes = await findInvoiceByOrderNumber({
+        strapiBase,
+        token,
+        orderNumber: order.orderNumber,
+      });
+
+      if (invRes.ok && invRes.data) {
+        if (!invoiceNumber && invRes.data.invoiceNumber) invoiceNumber = invRes.data.invoiceNumber;
+        if (!invoicePdfUrl && invRes.data.pdfUrl) invoicePdfUrl = ensureAbsoluteUrl(invRes.data.pdfUrl, strapiBase);
+      }
+    } catch (e: any) {
+      console.error("[Webhook] Error buscando invoice fallback:", e?.message || e);
+    }
+  }
+
+  const invoiceFilename = invoiceNumber ? `${sanitizeFileBaseName(invoiceNumber)}.pdf` : null;
+
+  try {
+    await sendOrderConfirmationEmail({
+      siteUrl,
+      email: order.email,
+      name: order.name,
+      orderNumber: order.orderNumber ?? undefined,
+      total: order.total ?? undefined,
+      items: order.items,
+      phone: order.phone ?? undefined,
+      shippingAddress: order.shippingAddress,
+      deliveryDate: order.deliveryDate,
+      gift: order.gift,
+      mpPaymentId: paymentReference,
+
+      invoiceNumber,
+      invoicePdfUrl,
+      invoiceFilename,
+    });
+
+    console.log("[Webhook] Email de confirmación enviado:", {
+      to: order.email,
+      orderNumber: order.orderNumber,
+      invoiceNumber,
+      hasPdf: !!invoicePdfUrl,
+      attachedName: invoiceFilename,
+    });
+
+    return stepOk({ to: order.email, invoiceNumber, hasPdf: !!invoicePdfUrl });
+  } catch (e: any) {
+    console.error("[Webhook] Error enviando email:", e?.message || e);
+    return stepFailed(e, { to: order.email });
+  }
+}
+
+/**
+ * Ejecuta el pipeline para una notificación (topic + data.id).
+ * - `only`: pasos a ejecutar (payment siempre corre porque da el contexto). null = todos.
+ * - `previous`: pasos de una ejecución anterior (replay): lo que no se re-ejecuta se conserva.
+ */
+export async function runWebhookPipeline(params: {
+  topic?: string | null;
+  dataId: string;
+  siteUrl: string;
+  only?: WebhookStepName[] | null;
+  previous?: WebhookSteps | null;
+}): Promise<WebhookPipelineResult> {
+  const { topic, dataId, siteUrl, only = null, previous = null } = params;
+
+  const steps: WebhookSteps = { ...(previous ?? {}) };
+  const shouldRun = (s: WebhookStepName) => !only || only.includes(s);
+
+  const result: WebhookPipelineResult = {
+    ok: false,
+    steps,
+    paymentId: null,
+    mpStatus: null,
+    mpExternalReference: null,
+    orderDocumentId: null,
+    becamePaid: false,
+    skipped: null,
+    lastError: null,
+  };
+
+  const finish = (skipped: string | null = null) => {
+    const failed = WEBHOOK_STEPS.map((s) => steps[s]).find((r) => r && !r.ok);
+    result.ok = !failed;
+    result.lastError = failed?.error ?? null;
+    result.skipped = skipped;
+    return result;
+  };
+
+  /* ---------- payment ---------- */
+
+  const accessToken = process.env.MP_ACCESS_TOKEN;
+  if (!accessToken) {
+    console.error("[Webhook] falta MP_ACCESS_TOKEN");
+    steps.payment = stepFailed("Falta MP_ACCESS_TOKEN");
+    return finish();
+  }
+
+  const strapiBase = normalizeStrapiBase(
+    process.env.STRAPI_URL || process.env.NEXT_PUBLIC_STRAPI_URL || "http://localhost:1337"
+  );
+
+  const token = process.env.STRAPI_TOKEN || process.env.STRAPI_API_TOKEN;
+  if (!token) {
+    console.error("[Webhook] falta STRAPI_API_TOKEN / STRAPI_TOKEN");
+    steps.payment = stepFailed("Falta STRAPI_API_TOKEN / STRAPI_TOKEN");
+    return finish();
+  }
+
+  // Solo notificaciones de pago (webhooks firmados); merchant_order / IPN no llegan acá
+  if (topic && !topic.includes("payment")) {
+    steps.payment = stepSkipped("unsupported_topic");
+    return finish("unsupported_topic");
+  }
+
+  const paymentId = dataId;
+
+  result.paymentId = paymentId;
+
+  let payment: any;
+  try {
+    payment = await fetchMpPayment(accessToken, paymentId);
+  } catch (e: any) {
+    console.error("[Webhook] MP payment fetch failed:", e?.message || e);
+    steps.payment = stepFailed(e, { paymentId });
+    return finish();
+  }
+
+  const mpStatus: string | undefined = payment?.status;
+  const mpStatusDetail: string | undefined = payment?.status_detail;
+  result.mpStatus = mpStatus ? String(mpStatus) : null;
+
+  const mpExternalReferenceRaw =
+    payment?.external_reference ??
+    payment?.metadata?.mpExternalReference ??
+    payment?.metadata?.external_reference;
+
+  if (!mpExternalReferenceRaw) {
+    console.warn("[Webhook] pago sin external_reference/mpExternalReference", { paymentId, mpStatus });
+    steps.payment = stepSkipped("missing_external_reference", { paymentId, mpStatus });
+    return finish("missing_external_reference");
+  }
+
+  const mpExternalReference = String(mpExternalReferenceRaw);
+  result.mpExternalReference = mpExternalReference;
+
+  let order: Awaited<ReturnType<typeof findOrderByMpExternalReference>> = null;
+  try {
+    order = await findOrderByMpExternalReference(strapiBase, token, mpExternalReference);
+  } catch (e: any) {
+    console.error("[Webhook] no pude buscar order por mpExternalReference:", e?.message || e);
+    steps.payment = stepFailed(e, { paymentId, mpStatus, mpExternalReference });
+    return finish();
+  }
+
+  if (!order) {
+    console.warn("[Webhook] order NO encontrada para mpExternalReference:", mpExternalReference);
+    steps.payment = stepSkipped("order_not_found", { paymentId, mpStatus, mpExternalReference });
+    return finish("order_not_found");
+  }
+
+  result.orderDocumentId = order.documentId;
+  steps.payment = stepOk({ paymentId, mpStatus, mpStatusDetail: mpStatusDetail ?? null, mpExternalReference });
+
+  const prevStatus = order.orderStatus || "pending";
+  const nextStatus = mapMpToOrderStatus(payment, prevStatus);
+
+  // ⚠️ Pago aprobado de una orden ya cancelada (la canceló la conciliación o el cliente y la reserva se liberó):
+  // nunca pasa a "paid" callada; queda cancelada y se reembolsa entero (ver paso status)
+  const approvedAfterCancel = mpStatus === "approved" && String(prevStatus).toLowerCase() === "cancelled";
+  if (approvedAfterCancel) {
+    console.error("[Webhook] pago aprobado sobre una orden cancelada:", { paymentId, orderDocumentId: order.documentId });
+  }
+
+  const refunds = mergeRefunds(payment, order.refunds);
+  const refundedAmount = refunds.reduce((acc, r) => acc + r.amount, 0);
+  const fullRefund = nextStatus === "refunded";
+
+  console.log("[Webhook] order ids:", { documentId: order.documentId, numericId: order.numericId });
+  console.log("[Webhook] prevStatus -> nextStatus:", prevStatus, "->", nextStatus);
+  console.log("[Webhook] stockAdjusted:", order.stockAdjusted);
+
+  /* ---------- stock ---------- */
+
+  if (shouldRun("stock")) {
+    try {
+      if (nextStatus === "paid" && !order.stockAdjusted) {
+        // ✅ al aprobarse descontamos lo reservado (una sola vez, ver stockAdjusted)
+        const r = await commitReservation(mpExternalReference, order.items ?? []);
+        if (r.shortages.length) console.error("[Webhook] stock insuficiente al aprobar:", r.shortages);
+        steps.stock = stepOk({
+          committed: true,
+          alreadyCommitted: r.alreadyCommitted,
+          ...(r.shortages.length ? { shortages: r.shortages } : {}),
+        });
+      } else if (nextStatus === "cancelled" && !order.stockAdjusted) {
+        // ✅ pago cancelado: liberamos la reserva. Un rechazo ("failed") no: el cliente puede reintentar el pago;
+        // la reserva se libera cuando vence o cuando la conciliación cancela la orden
+        const r = await releaseReservation(mpExternalReference);
+        steps.stock = stepOk({ released: r.released });
+      } else if (fullRefund) {
+        // ✅ reembolso total: la mercadería vuelve al stock (parcial/contracargo no)
+        const r = await restockReservation(mpExternalReference);
+        steps.stock = stepOk({ restocked: r.restocked });
+      } else {
+        steps.stock = stepSkipped("no_change");
+      }
+    } catch (e: any) {
+      console.error("[Webhook] error de stock:", e?.message || e);
+      steps.stock = stepFailed(e);
+    }
+  }
+
+  const stockCommitted = Boolean(steps.stock?.ok && steps.stock?.data?.committed);
+  const stockShortages: any[] = Array.isArray(steps.stock?.data?.shortages) ? steps.stock.data.shortages : [];
+
+  // ✅ Pago tardío de una orden cancelada: reembolso total (la idempotency key por pago evita un segundo
+  // reembolso en un reenvío). El webhook del reembolso llega con "refunded" y la deja cancelada.
+  let lateRefunded = false;
+  if (approvedAfterCancel && shouldRun("status")) {
+    const r = await refundMpPayment({
+      accessToken,
+      paymentId: String(paymentId),
+      idempotencyKey: `late-payment/${paymentId}`,
+    });
+    if (r.ok) lateRefunded = true;
+    else console.error("[Webhook] no se pudo reembolsar el pago tardío:", r.error, r.details ?? "");
+  }
+
+  // Para revisar a mano (se filtra en Strapi): no se pisa con null para no perder la marca en un reenvío
+  const paymentReview = approvedAfterCancel
+    ? lateRefunded
+      ? "refunded_after_cancel"
+      : "approved_after_cancel"
+    : stockShortages.length
+    ? "stock_shortage"
+    : null;
+
+  /* ---------- status ---------- */
+
+  if (shouldRun("status")) {
+    const updatePayload = {
+      data: {
+        ...(stockCommitted && !order.stockAdjusted ? { stockAdjusted: true } : {}),
+        ...(paymentReview ? { paymentReview } : {}),
+        orderStatus: nextStatus,
+        mpPaymentId: String(paymentId),
+        mpStatus: mpStatus ? String(mpStatus) : null,
+        mpStatusDetail: mpStatusDetail ? String(mpStatusDetail) : null,
+        mpMerchantOrderId: payment?.order?.id ? String(payment.order.id) : null,
+        mpPaymentTypeId: payment?.payment_type_id ? String(payment.payment_type_id) : null,
+        mpInstallments: Number(payment?.installments) > 0 ? Number(payment.installments) : null,
+        mpExternalReference,
+        ...(refunds.length
+          ? {
+              refunds,
+              refundedAmount,
+              refundedAt: refunds[refunds.length - 1]?.date ?? null,
+            }
+          : {}),
+      },
+    };
+
+    try {
+      await updateOrderInStrapi({
+        strapiBase,
+        token,
+        orderDocumentId: order.documentId,
+        payload: updatePayload,
+      });
+      steps.status = stepOk({ prevStatus, nextStatus, refundedAmount });
+      result.becamePaid = !PAID_LIKE_STATUSES.includes(prevStatus) && nextStatus === "paid";
+      if (result.becamePaid) await paidEvent(order, "Mercado Pago");
+    } catch (e: any) {
+      console.error("[Webhook] Strapi update failed:", e?.message || e);
+      steps.status = stepFailed(e, { prevStatus, nextStatus });
+      // Sin estado actualizado no seguimos: factura/email dependen de "paid"
+      return finish();
+    }
+  }
+
+  /* ---------- invoice ---------- */
+
+  // ✅ Generar invoice cuando queda paid, y CAPTURAR response
+  if (shouldRun("invoice")) {
+    if (nextStatus === "paid") {
+      steps.invoice = await receiptStep({ siteUrl, orderDocumentId: order.documentId });
+    } else if (nextStatus === "refunded" || nextStatus === "partially_refunded") {
+      // ✅ Una nota de crédito por reembolso (al lado del comprobante original)
+      const pending = refunds.filter((r) => !r.creditNoteNumber);
+      const errors: string[] = [];
+
+      for (const r of pending) {
+        try {
+          const cn = await tryGenerateCreditNote({ siteUrl, orderId: order.documentId, refundId: r.id });
+          r.creditNoteNumber = cn.invoiceNumber;
+          r.creditNotePdfUrl = cn.pdfUrl ? ensureAbsoluteUrl(cn.pdfUrl, strapiBase) : null;
+        } catch (e: any) {
+          console.error("[Webhook] credit note failed:", e?.message || e);
+          errors.push(e?.message || String(e));
+        }
+      }
+
+      if (pending.length) {
+        try {
+          await updateOrderInStrapi({ strapiBase, token, orderDocumentId: order.documentId, payload: { data: { refunds } } });
+        } catch (e: any) {
+          errors.push(e?.message || String(e));
+        }
+      }
+
+      const creditNotes = refunds.map((r) => r.creditNoteNumber).filter(Boolean);
+      steps.invoice = errors.length
+        ? stepFailed(errors.join(" | "), { creditNotes })
+        : pending.length
+        ? stepOk({ creditNotes })
+        : stepSkipped("no_new_refunds", { creditNotes });
+    } else {
+      steps.invoice = stepSkipped("not_paid");
+    }
+  }
+
+  /* ---------- giftcards ---------- */
+
+  if (shouldRun("giftcards")) {
+    try {
+      if (nextStatus === "paid") {
+        steps.giftcards = await giftCardsStep({ siteUrl, order });
+      } else if ((nextStatus === "cancelled" && !order.stockAdjusted) || fullRefund) {
+        // ✅ Pago cancelado o reembolso total: lo usado de la gift card vuelve al saldo (rechazado no, igual que la
+        // reserva: lo devuelve la conciliación al cancelar la orden)
+        const r = await releaseGiftCardRedemption(mpExternalReference);
+        steps.giftcards = r.released ? stepOk({ released: r.released }) : stepSkipped("nothing_to_release");
+      } else {
+        steps.giftcards = stepSkipped("no_change");
+      }
+    } catch (e: any) {
+      console.error("[Webhook] error de gift card:", e?.message || e);
+      steps.giftcards = stepFailed(e);
+    }
+  }
+
+  /* ---------- shipment ---------- */
+
+  if (shouldRun("shipment")) {
+    steps.shipment =
+      nextStatus === "paid"
+        ? await shipmentStep({ strapiBase, token, order })
+        : stepSkipped("not_paid");
+  }
+
+  /* ---------- email ---------- */
+
+  // ✅ Email cuando recién pasa a paid (una sola vez), o en replay si el envío había fallado
+  const retryEmail = Boolean(previous?.email && !previous.email.ok && nextStatus === "paid");
+
+  const refundsToNotify = refunds.filter((r) => !r.notifiedAt);
+
+  if (shouldRun("email") && refundsToNotify.length && nextStatus !== "paid") {
+    if (!order.email) {
+      steps.email = stepSkipped("no_email");
+    } else {
+      const errors: string[] = [];
+
+      for (const r of refundsToNotify) {
+        try {
+          await sendRefundEmail({
+            siteUrl,
+            email: order.email,
+            name: order.name,
+            orderNumber: order.orderNumber,
+            refundId: r.id,
+            refundAmount: r.amount,
+            refundedAt: r.date,
+            fullRefund: fullRefund && r === refunds[refunds.length - 1],
+            creditNoteNumber: r.creditNoteNumber ?? null,
+            creditNotePdfUrl: r.creditNotePdfUrl ?? null,
+          });
+          r.notifiedAt = new Date().toISOString();
+        } catch (e: any) {
+          console.error("[Webhook] Error enviando email de reembolso:", e?.message || e);
+          errors.push(e?.message || String(e));
+        }
+      }
+
+      try {
+        await updateOrderInStrapi({ strapiBase, token, orderDocumentId: order.documentId, payload: { data: { refunds } } });
+      } catch (e: any) {
+        errors.push(e?.message || String(e));
+      }
+
+      steps.email = errors.length
+        ? stepFailed(errors.join(" | "), { to: order.email })
+        : stepOk({ to: order.email, refunds: refundsToNotify.map((r) => r.id) });
+    }
+  } else if (shouldRun("email")) {
+    if (!result.becamePaid && !retryEmail) {
+      steps.email = stepSkipped(nextStatus === "paid" ? "already_paid" : "not_paid");
+    } else {
+      steps.email = await confirmationEmailStep({
+        siteUrl,
+        strapiBase,
+        token,
+        order,
+        invoiceStep: steps.invoice ?? null,
+        paymentReference: String(paymentId),
+      });
+    }
+  }
+
+  return finish();
+}
+
+/* ======================= PAGOS OFFLINE ======================= */
+
+export type OfflineConfirmation = {
+  confirmedBy?: string | null;
+  reference?: string | null;
+  note?: string | null;
+};
+
+/**
+ * Staff confirma un pago offline (transferencia / efectivo al retirar):
+ * mismos pasos que el webhook cuando MP aprueba (stock → paid → comprobante → gift cards → envío → email).
+ * - Solo órdenes awaiting_payment (o paid con pasos pendientes, para reintentar con `previous`).
+ * - También la usa orders/create cuando la gift card cubre todo el total (no hay pago que esperar).
+ */
+export async function runOfflinePaymentPipeline(params: {
+  orderDocumentId: string;
+  siteUrl: string;
+  confirmation?: OfflineConfirmation;
+  only?: WebhookStepName[] | null;
+  previous?: WebhookSteps | null;
+}): Promise<WebhookPipelineResult> {
+  const { orderDocumentId, siteUrl, confirmation = {}, only = null, previous = null } = params;
+
+  const steps: WebhookSteps = { ...(previous ?? {}) };
+  const shouldRun = (s: WebhookStepName) => !only || only.includes(s);
+
+  const result: WebhookPipelineResult = {
+    ok: false,
+    steps,
+    paymentId: null,
+    mpStatus: null,
+    mpExternalReference: null,
+    orderDocumentId,
+    becamePaid: false,
+    skipped: null,
+    lastError: null,
+  };
+
+  const finish = (skipped: string | null = null) => {
+    const failed = WEBHOOK_STEPS.map((s) => steps[s]).find((r) => r && !r.ok);
+    result.ok = !failed;
+    result.lastError = failed?.error ?? null;
+    result.skipped = skipped;
+    return result;
+  };
+
+  /* ---------- payment (orden + validación) ---------- */
+
+  const strapiBase = normalizeStrapiBase(
+    process.env.STRAPI_URL || process.env.NEXT_PUBLIC_STRAPI_URL || "http://localhost:1337"
+  );
+
+  const token = process.env.STRAPI_TOKEN || process.env.STRAPI_API_TOKEN;
+  if (!token) {
+    steps.payment = stepFailed("Falta STRAPI_API_TOKEN / STRAPI_TOKEN");
+    return finish();
+  }
+
+  let order: Awaited<ReturnType<typeof findOrderBy>> = null;
+  try {
+    order = await findOrderBy(strapiBase, token, { field: "documentId", value: orderDocumentId });
+  } catch (e: any) {
+    steps.payment = stepFailed(e);
+    return finish();
+  }
+
+  if (!order) {
+    steps.payment = stepSkipped("order_not_found");
+    return finish("order_not_found");
+  }
+
+  const paidWithGiftCard = order.giftCardAmount > 0 && order.giftCardAmount >= Math.round(Number(order.total ?? 0));
+  const provider = paidWithGiftCard ? "gift_card" : String(order.paymentMethod?.provider ?? "").trim();
+  const prevStatus = order.orderStatus || "pending";
+  const retrying = prevStatus === "paid" && Boolean(previous);
+
+  if (!["transfer", "cash", "gift_card"].includes(provider) || (prevStatus !== "awaiting_payment" && !retrying)) {
+    steps.payment = stepSkipped("not_awaiting_offline_payment", { provider, orderStatus: prevStatus });
+    return finish("not_awaiting_offline_payment");
+  }
+
+  const mpExternalReference = String(order.mpExternalReference ?? "").trim();
+  const paymentReference = `offline-${provider}`;
+  result.paymentId = paymentReference;
+  result.mpExternalReference = mpExternalReference || null;
+  steps.payment = stepOk({ provider, reference: confirmation.reference ?? null });
+
+  /* ---------- stock ---------- */
+
+  if (shouldRun("stock")) {
+    try {
+      if (order.stockAdjusted) {
+        steps.stock = stepSkipped("no_change");
+      } else if (!mpExternalReference) {
+        steps.stock = stepFailed("La orden no tiene mpExternalReference (ref de la reserva)");
+      } else {
+        const r = await commitReservation(mpExternalReference, order.items ?? []);
+        steps.stock = stepOk({ committed: true, alreadyCommitted: r.alreadyCommitted });
+      }
+    } catch (e: any) {
+      console.error("[offline] error de stock:", e?.message || e);
+      steps.stock = stepFailed(e);
+    }
+  }
+
+  const stockCommitted = Boolean(steps.stock?.ok && steps.stock?.data?.committed);
+
+  /* ---------- status ---------- */
+
+  if (shouldRun("status")) {
+    try {
+      await updateOrderInStrapi({
+        strapiBase,
+        token,
+        orderDocumentId: order.documentId,
+        payload: {
+          data: {
+            ...(stockCommitted && !order.stockAdjusted ? { stockAdjusted: true } : {}),
+            orderStatus: "paid",
+            ...(prevStatus === "awaiting_payment"
+              ? {
+                  paidAt: new Date().toISOString(),
+                  offlinePaymentConfirmedBy: confirmation.confirmedBy ?? null,
+                  offlinePaymentReference: confirmation.reference ?? null,
+                  offlinePaymentNote: confirmation.note ?? null,
+                }
+              : {}),
+          },
+        },
+      });
+      steps.status = stepOk({ prevStatus, nextStatus: "paid" });
+      result.becamePaid = prevStatus === "awaiting_payment";
+      if (result.becamePaid) {
+        await paidEvent(order, provider === "gift_card" ? "Gift card" : provider === "cash" ? "Efectivo" : "Transferencia");
+      }
+    } catch (e: any) {
+      console.error("[offline] Strapi update failed:", e?.message || e);
+      steps.status = stepFailed(e, { prevStatus, nextStatus: "paid" });
+      return finish();
+    }
+  }
+
+  /* ---------- invoice ---------- */
+
+  if (shouldRun("invoice")) {
+    steps.invoice = await receiptStep({ siteUrl, orderDocumentId: order.documentId });
+  }
+
+  /* ---------- giftcards ---------- */
+
+  if (shouldRun("giftcards")) {
+    steps.giftcards = await giftCardsStep({ siteUrl, order });
+  }
+
+  /* ---------- shipment ---------- */
+
+  if (shouldRun("shipment")) {
+    steps.shipment = await shipmentStep({ strapiBase, token, order });
+  }
+
+  /* ---------- email ---------- */
+
+  const retryEmail = Boolean(previous?.email && !previous.email.ok);
+
+  if (shouldRun("email")) {
+    steps.email =
+      result.becamePaid || retryEmail
+        ? await confirmationEmailStep({
+            siteUrl,
+            strapiBase,
+            token,
+            order,
+            invoiceStep: steps.invoice ?? null,
+            paymentReference,
+          })
+        : stepSkipped("already_paid");
+  }
+
+  return finish();
+}
@@ -0,0 +1,137 @@
+// src/lib/mp/webhook-signature.ts
+import crypto from "crypto";
+
+/**
+ * Verificación de firma de webhooks de Mercado Pago.
+ *
+ * MP manda:
+ * - x-signature: "ts=1704908010,v1=<hmac hex>"
+ * - x-request-id: id único de la notificación
+ *
+ * La firma es HMAC-SHA256 (clave = secreto del webhook en el panel de MP) sobre:
+ *   "id:<data.id>;request-id:<x-request-id>;ts:<ts>;"
+ * Para verificar, data.id y x-request-id son obligatorios: el anti-replay usa el x-request-id,
+ * así que tiene que ser uno firmado (sin ellos la notificación se rechaza).
+ */
+
+export type SignatureRejectReason =
+  | "missing_secret"
+  | "missing_signature"
+  | "missing_signed_fields"
+  | "malformed_signature"
+  | "stale_timestamp"
+  | "invalid_signature";
+
+export type SignatureCheck =
+  | { ok: true; ts: number; requestId: string }
+  | { ok: false; reason: SignatureRejectReason; ts?: number | null };
+
+/** Tolerancia por defecto para `ts` (MP_WEBHOOK_TOLERANCE_SECONDS, default 300s) */
+export function webhookToleranceSeconds() {
+  const n = Number(process.env.MP_WEBHOOK_TOLERANCE_SECONDS);
+  return Number.isFinite(n) && n > 0 ? n : 300;
+}
+
+export function parseSignatureHeader(header: string | null | undefined) {
+  const out: { ts: string | null; v1: string | null } = { ts: null, v1: null };
+
+  for (const part of String(header ?? "").split(",")) {
+    const [k, ...rest] = part.split("=");
+    const key = String(k ?? "").trim().toLowerCase();
+    const value = rest.join("=").trim();
+    if (key === "ts") out.ts = value || null;
+    if (key === "v1") out.v1 = value || null;
+  }
+
+  return out;
+}
+
+/** MP pide el data.id en minúsculas cuando es alfanumérico */
+function normalizeDataId(dataId: string | null | undefined) {
+  const s = String(dataId ?? "").trim();
+  return /^[a-z0-9]+$/i.test(s) ? s.toLowerCase() : s;
+}
+
+export function buildSignatureManifest(params: {
+  dataId?: string | null;
+  requestId?: string | null;
+  ts: string | number;
+}) {
+  const dataId = normalizeDataId(params.dataId);
+  const requestId = String(params.requestId ?? "").trim();
+
+  let manifest = "";
+  if (dataId) manifest += `id:${dataId};`;
+  if (requestId) manifest += `request-id:${requestId};`;
+  manifest += `ts:${params.ts};`;
+  return manifest;
+}
+
+/**
+ * Firma un manifest igual que MP.
+ * Sirve para probar el webhook en local (ver README: "Probar el webhook de MP").
+ */
+export function signWebhook(params: {
+  secret: string;
+  dataId?: string | null;
+  requestId?: string | null;
+  ts: string | number;
+}) {
+  const manifest = buildSignatureManifest(params);
+  const v1 = crypto.createHmac("sha256", params.secret).update(manifest).digest("hex");
+  return { v1, header: `ts=${params.ts},v1=${v1}` };
+}
+
+/** `ts` llega en segundos o en milisegundos según la versión de la notificación */
+function tsToMs(ts: number) {
+  return ts > 1e12 ? ts : ts * 1000;
+}
+
+function safeEqualHex(a: string, b: string) {
+  const ba = Buffer.from(a, "hex");
+  const bb = Buffer.from(b, "hex");
+  if (!ba.length || ba.length !== bb.length) return false;
+  return crypto.timingSafeEqual(ba, bb);
+}
+
+export function verifyWebhookSignature(params: {
+  secret: string | null | undefined;
+  signatureHeader: string | null | undefined;
+  requestId: string | null | undefined;
+  dataId: string | null | undefined;
+  now?: number;
+  toleranceSeconds?: number;
+}): SignatureCheck {
+  const secret = String(params.secret ?? "").trim();
+  if (!secret) return { ok: false, reason: "missing_secret" };
+
+  if (!params.signatureHeader) return { ok: false, reason: "missing_signature" };
+
+  const requestId = String(params.requestId ?? "").trim();
+  if (!requestId || !String(params.dataId ?? "").trim()) return { ok: false, reason: "missing_signed_fields" };
+
+  const { ts, v1 } = parseSignatureHeader(params.signatureHeader);
+  const tsNum = Number(ts);
+  if (!ts || !v1 || !Number.isFinite(tsNum) || !/^[0-9a-f]+$/i.test(v1)) {
+    return { ok: false, reason: "malformed_signature" };
+  }
+
+  const now = params.now ?? Date.now();
+  const toleranceMs = (params.toleranceSeconds ?? webhookToleranceSeconds()) * 1000;
+  if (Math.abs(now - tsToMs(tsNum)) > toleranceMs) {
+    return { ok: false, reason: "stale_timestamp", ts: tsNum };
+  }
+
+  const expected = signWebhook({
+    secret,
+    dataId: params.dataId,
+    requestId,
+    ts,
+  }).v1;
+
+  if (!safeEqualHex(expected, v1.toLowerCase())) {
+    return { ok: false, reason: "invalid_signature", ts: tsNum };
+  }
+
+  return { ok: true, ts: tsNum, requestId };
+}
@@ -0,0 +1,68 @@
+// src/lib/offline-payments.ts
+
+/**
+ * Pagos fuera de Mercado Pago: transferencia bancaria y efectivo al retirar.
+ * La orden queda "awaiting_payment" hasta que el staff confirma el pago
+ * (POST /api/admin/orders/:id/confirm-payment).
+ *
+ * Los datos de la cuenta son públicos (se muestran en el checkout), por eso van en NEXT_PUBLIC_*.
+ */
+
+export type OfflineProvider = "transfer" | "cash";
+
+export type TransferDetails = {
+  cbu: string | null;
+  alias: string | null;
+  holder: string | null;
+  bank: string | null;
+  cuit: string | null;
+};
+
+export const OFFLINE_PROVIDERS: OfflineProvider[] = ["transfer", "cash"];
+
+export const OFFLINE_PROVIDER_LABELS: Record<OfflineProvider, string> = {
+  transfer: "Transferencia bancaria",
+  cash: "Efectivo al retirar",
+};
+
+function clean(v: string | undefined) {
+  const s = String(v ?? "").trim();
+  return s ? s : null;
+}
+
+export function isOfflineProvider(v: any): v is OfflineProvider {
+  return OFFLINE_PROVIDERS.includes(v);
+}
+
+/** Datos para transferir; null si no hay CBU ni alias (transferencia deshabilitada) */
+export function transferDetails(): TransferDetails | null {
+  const details: TransferDetails = {
+    cbu: clean(process.env.NEXT_PUBLIC_TRANSFER_CBU),
+    alias: clean(process.env.NEXT_PUBLIC_TRANSFER_ALIAS),
+    holder: clean(process.env.NEXT_PUBLIC_TRANSFER_HOLDER),
+    bank: clean(process.env.NEXT_PUBLIC_TRANSFER_BANK),
+    cuit: clean(process.env.NEXT_PUBLIC_TRANSFER_CUIT),
+  };
+  return details.cbu || details.alias ? details : null;
+}
+
+/** Efectivo al retirar (NEXT_PUBLIC_CASH_ON_PICKUP, habilitado salvo "0"/"false") */
+export function cashOnPickupEnabled() {
+  const v = String(process.env.NEXT_PUBLIC_CASH_ON_PICKUP ?? "").trim().toLowerCase();
+  return v !== "0" && v !== "false";
+}
+
+export function offlineProviderEnabled(provider: OfflineProvider) {
+  return provider === "transfer" ? Boolean(transferDetails()) : cashOnPickupEnabled();
+}
+
+/** Reserva de stock mientras se espera el pago offline (OFFLINE_PAYMENT_HOLD_HOURS, default 72) */
+export function offlineHoldTtlMs() {
+  const n = Number(process.env.OFFLINE_PAYMENT_HOLD_HOURS);
+  const hours = Number.isFinite(n) && n > 0 ? n : 72;
+  return Math.round(hours * 3_600_000);
+}
+
+/** Comprobante de transferencia: imágenes o PDF, hasta 5 MB */
+export const RECEIPT_MAX_BYTES = 5 * 1024 * 1024;
+export const RECEIPT_MIME_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic", "application/pdf"];
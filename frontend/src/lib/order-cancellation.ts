@@ -0,0 +1,77 @@
+// src/lib/order-cancellation.ts
+
+/**
+ * Cancelación del pedido por el cliente (Mis pedidos → "Cancelar pedido", ver /api/orders/:id/cancel).
+ *
+ * - Se puede mientras la orden está pending / awaiting_payment (todavía sin pago) o paid (sin despachar).
+ * - Pagada con Mercado Pago: reembolso total por MP + stock de vuelta + nota de crédito.
+ * - Con gift card (parcial o total): lo usado vuelve al saldo de la tarjeta (ver lib/gift-cards).
+ * - Pagada por transferencia / efectivo: el reintegro es manual, así que el cliente nos escribe.
+ * - Con el envío ya generado en el correo (trackingNumber / shipmentId): no se cancela sola, el cliente nos escribe
+ *   (la etiqueta se anula a mano en el panel del correo).
+ * - Cancelada con el reembolso de MP pendiente (`cancelRefundPending`, falló MP): se puede reintentar.
+ *
+ * `cancelReason` guarda el código del motivo (el sistema usa "payment_timeout", ver lib/mp/reconcile).
+ * Sin dependencias de server: lo usan la página del pedido, el timeline y el email.
+ */
+
+export type CustomerCancelReason =
+  | "changed_mind"
+  | "wrong_items"
+  | "wrong_address"
+  | "delivery_too_late"
+  | "found_cheaper"
+  | "other";
+
+export const CUSTOMER_CANCEL_REASONS: Array<{ code: CustomerCancelReason; label: string }> = [
+  { code: "changed_mind", label: "Me arrepentí de la compra" },
+  { code: "wrong_items", label: "Me equivoqué de productos o cantidades" },
+  { code: "wrong_address", label: "Me equivoqué de dirección o de forma de entrega" },
+  { code: "delivery_too_late", label: "La entrega tarda demasiado" },
+  { code: "found_cheaper", label: "Lo conseguí en otro lado" },
+  { code: "other", label: "Otro motivo" },
+];
+
+/** Estados desde los que el cliente puede cancelar (shipped / delivered ya salieron del depósito) */
+export const CUSTOMER_CANCELLABLE_STATUSES = ["pending", "awaiting_payment", "paid"];
+
+export const CANCEL_COMMENT_MAX = 500;
+
+export function isCustomerCancelReason(v: any): v is CustomerCancelReason {
+  return CUSTOMER_CANCEL_REASONS.some((r) => r.code === v);
+}
+
+export function cancelReasonLabel(code?: string | null) {
+  if (code === "payment_timeout") return "No recibimos el pago a tiempo";
+  return CUSTOMER_CANCEL_REASONS.find((r) => r.code === code)?.label ?? null;
+}
+
+/**
+ * ¿El cliente puede cancelar solo? `manual_refund` = pagada fuera de MP, `shipment_created` = el correo ya tiene
+ * el envío (en los dos casos nos tiene que escribir).
+ * Es la misma regla que aplica /api/orders/:id/cancel (que además re-chequea con la orden de Strapi).
+ */
+export function customerCancelState(order: {
+  orderStatus?: string | null;
+  paymentMethod?: { provider?: string | null } | null;
+  total?: number | string | null;
+  giftCardAmount?: number | string | null;
+  trackingNumber?: string | null;
+  shipmentId?: string | null;
+  cancelRefundPending?: boolean | null;
+}): "allowed" | "manual_refund" | "shipment_created" | "not_allowed" {
+  const status = String(order?.orderStatus ?? "").trim().toLowerCase();
+
+  // Reintento: quedó cancelada pero MP no hizo el reembolso
+  if (status === "cancelled" && order?.cancelRefundPending === true) return "allowed";
+  if (!CUSTOMER_CANCELLABLE_STATUSES.includes(status)) return "not_allowed";
+  if (String(order?.trackingNumber ?? "").trim() || String(order?.shipmentId ?? "").trim()) return "shipment_created";
+
+  // Pagada toda con gift card: no hubo plata de por medio, el saldo vuelve a la tarjeta
+  const giftCardAmount = Number(order?.giftCardAmount ?? 0) || 0;
+  if (giftCardAmount > 0 && giftCardAmount >= (Number(order?.total ?? 0) || 0)) return "allowed";
+
+  const provider = String(order?.paymentMethod?.provider ?? "mercadopago").trim() || "mercadopago";
+  if (status === "paid" && provider !== "mercadopago") return "manual_refund";
+  return "allowed";
+}
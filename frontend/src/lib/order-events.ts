@@ -0,0 +1,266 @@
+// src/lib/order-events.ts
+import { fetcher } from "@/lib/fetcher";
+import { getCarrier, type TrackingEventKind } from "@/lib/carriers";
+
+/**
+ * Timeline del pedido (colección `order-events` en Strapi).
+ *
+ * Cada evento: orderDocumentId, orderNumber, type, occurredAt, location, description,
+ * source (system | staff | carrier), carrierId, trackingNumber, trackingUrl, externalKey.
+ *
+ * Lo alimentan:
+ * - el pipeline de pago (paid, preparing al crear el envío)
+ * - el staff (POST /api/admin/orders/:id/events, o /ready-for-pickup que además avisa por email)
+ * - los webhooks de los correos (POST /api/carriers/:carrier/webhook → track() del correo)
+ *
+ * `externalKey` evita duplicados cuando el mismo evento llega dos veces (replays, webhooks repetidos).
+ */
+
+const EVENTS_PATH = "/api/order-events";
+
+export type OrderEventType =
+  | "paid"
+  | "preparing"
+  | "ready_for_pickup"
+  | "handed_to_carrier"
+  | "in_transit"
+  | "out_for_delivery"
+  | "delivered"
+  | "exception";
+
+export type OrderEventSource = "system" | "staff" | "carrier";
+
+export const ORDER_EVENT_TYPES: OrderEventType[] = [
+  "paid",
+  "preparing",
+  "ready_for_pickup",
+  "handed_to_carrier",
+  "in_transit",
+  "out_for_delivery",
+  "delivered",
+  "exception",
+];
+
+export const ORDER_EVENT_LABELS: Record<OrderEventType, string> = {
+  paid: "Pago confirmado",
+  preparing: "Preparando tu pedido",
+  ready_for_pickup: "Listo para retirar",
+  handed_to_carrier: "Entregado al correo",
+  in_transit: "En camino",
+  out_for_delivery: "En reparto",
+  delivered: "Entregado",
+  exception: "Problema con la entrega",
+};
+
+export type OrderEvent = {
+  id: string;
+  type: OrderEventType;
+  label: string;
+  occurredAt: string | null;
+  location: string | null;
+  description: string | null;
+  source: OrderEventSource;
+  carrierId: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+};
+
+export function isOrderEventType(v: any): v is OrderEventType {
+  return ORDER_EVENT_TYPES.includes(v);
+}
+
+function pickAttr(row: any) {
+  return row?.attributes ?? row ?? {};
+}
+
+function textOrNull(v: any, max = 300) {
+  const s = String(v ?? "").trim();
+  return s ? s.slice(0, max) : null;
+}
+
+export function readOrderEvent(row: any): OrderEvent | null {
+  const attr = pickAttr(row);
+  const type = String(attr?.type ?? "").trim();
+  if (!isOrderEventType(type)) return null;
+
+  const source = String(attr?.source ?? "system");
+
+  return {
+    id: String(row?.documentId ?? attr?.documentId ?? row?.id ?? ""),
+    type,
+    label: ORDER_EVENT_LABELS[type],
+    occurredAt: attr?.occurredAt ?? attr?.createdAt ?? null,
+    location: textOrNull(attr?.location),
+    description: textOrNull(attr?.description),
+    source: source === "staff" || source === "carrier" ? source : "system",
+    carrierId: textOrNull(attr?.carrierId),
+    trackingNumber: textOrNull(attr?.trackingNumber),
+    trackingUrl: textOrNull(attr?.trackingUrl, 500),
+  };
+}
+
+/** Eventos de una orden, del más viejo al más nuevo */
+export async function listOrderEvents(orderDocumentId: string) {
+  const sp = new URLSearchParams();
+  sp.set("filters[orderDocumentId][$eq]", orderDocumentId);
+  sp.set("sort[0]", "occurredAt:asc");
+  sp.set("pagination[pageSize]", "100");
+
+  const res = await fetcher<any>(`${EVENTS_PATH}?${sp.toString()}`, { auth: true });
+  const rows = Array.isArray(res?.data) ? res.data : [];
+  return rows.map(readOrderEvent).filter(Boolean) as OrderEvent[];
+}
+
+/** Igual que listOrderEvents pero sin cortar la página si Strapi falla (timeline vacío) */
+export async function listOrderEventsSafe(orderDocumentId: string | null | undefined) {
+  if (!orderDocumentId) return [] as OrderEvent[];
+  try {
+    return await listOrderEvents(orderDocumentId);
+  } catch (e: any) {
+    console.error("[order-events] no pude leer eventos:", e?.message || e);
+    return [] as OrderEvent[];
+  }
+}
+
+async function findByExternalKey(externalKey: string) {
+  const sp = new URLSearchParams();
+  sp.set("filters[externalKey][$eq]", externalKey);
+  sp.set("pagination[pageSize]", "1");
+
+  const res = await fetcher<any>(`${EVENTS_PATH}?${sp.toString()}`, { auth: true });
+  const row = Array.isArray(res?.data) ? res.data[0] : null;
+  return row ? readOrderEvent(row) : null;
+}
+
+// Estados de la orden que el timeline puede mover (nunca toca pagos/reembolsos)
+const SHIPPED_TYPES: OrderEventType[] = ["handed_to_carrier", "in_transit", "out_for_delivery"];
+
+function nextOrderStatus(current: string, type: OrderEventType) {
+  const s = current.trim().toLowerCase();
+  if (type === "delivered" && (s === "paid" || s === "shipped")) return "delivered";
+  if (SHIPPED_TYPES.includes(type) && s === "paid") return "shipped";
+  return null;
+}
+
+/**
+ * Registra un evento (idempotente por externalKey) y, si corresponde,
+ * pasa la orden a shipped / delivered.
+ */
+export async function recordOrderEvent(params: {
+  order: { documentId: string; orderNumber?: string | null; orderStatus?: string | null };
+  type: OrderEventType;
+  source: OrderEventSource;
+  occurredAt?: string | null;
+  location?: string | null;
+  description?: string | null;
+  carrierId?: string | null;
+  trackingNumber?: string | null;
+  trackingUrl?: string | null;
+  externalKey?: string | null;
+}) {
+  const { order, type } = params;
+  const externalKey = textOrNull(params.externalKey, 200);
+
+  if (externalKey) {
+    const existing = await findByExternalKey(externalKey);
+    if (existing) return { event: existing, created: false, orderStatus: null as string | null };
+  }
+
+  const occurredAt =
+    params.occurredAt && Number.isFinite(Date.parse(params.occurredAt))
+      ? new Date(params.occurredAt).toISOString()
+      : new Date().toISOString();
+
+  const created = await fetcher<any>(EVENTS_PATH, {
+    method: "POST",
+    auth: true,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      data: {
+        orderDocumentId: order.documentId,
+        orderNumber: order.orderNumber ?? null,
+        type,
+        source: params.source,
+        occurredAt,
+        location: textOrNull(params.location),
+        description: textOrNull(params.description),
+        carrierId: textOrNull(params.carrierId),
+        trackingNumber: textOrNull(params.trackingNumber),
+        trackingUrl: textOrNull(params.trackingUrl, 500),
+        externalKey,
+      },
+    }),
+  });
+
+  let orderStatus: string | null = null;
+  const next = nextOrderStatus(String(order.orderStatus ?? ""), type);
+  if (next) {
+    await fetcher<any>(`/api/orders/${encodeURIComponent(order.documentId)}`, {
+      method: "PUT",
+      auth: true,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        data: { orderStatus: next, ...(next === "delivered" ? { deliveredAt: occurredAt } : {}) },
+      }),
+    });
+    orderStatus = next;
+  }
+
+  return { event: readOrderEvent(created?.data), created: true, orderStatus };
+}
+
+const KIND_TO_TYPE: Record<TrackingEventKind, OrderEventType> = {
+  handed_to_carrier: "handed_to_carrier",
+  in_transit: "in_transit",
+  out_for_delivery: "out_for_delivery",
+  delivered: "delivered",
+  exception: "exception",
+};
+
+/**
+ * Trae las trazas del correo y registra las que faltan (webhook del correo o sync manual del staff).
+ * Se consulta al correo en vez de confiar en el body del webhook.
+ */
+export async function syncCarrierEvents(order: {
+  documentId: string;
+  orderNumber?: string | null;
+  orderStatus?: string | null;
+  shippingCarrier?: string | null;
+  trackingNumber?: string | null;
+  trackingUrl?: string | null;
+}) {
+  const trackingNumber = String(order.trackingNumber ?? "").trim();
+  if (!trackingNumber) {
+    const err: any = new Error("NO_SHIPMENT");
+    err.code = "NO_SHIPMENT";
+    throw err;
+  }
+
+  const carrier = getCarrier(order.shippingCarrier);
+  const tracking = await carrier.track(trackingNumber);
+
+  let orderStatus = order.orderStatus ?? null;
+  let recorded = 0;
+
+  for (const ev of tracking.events) {
+    if (!ev.kind) continue;
+
+    const res = await recordOrderEvent({
+      order: { documentId: order.documentId, orderNumber: order.orderNumber, orderStatus },
+      type: KIND_TO_TYPE[ev.kind],
+      source: "carrier",
+      occurredAt: ev.at,
+      location: ev.location,
+      description: ev.description,
+      carrierId: carrier.id,
+      trackingNumber,
+      trackingUrl: order.trackingUrl || carrier.trackingUrl(trackingNumber),
+      externalKey: `${carrier.id}:${trackingNumber}:${ev.status}:${ev.at ?? ""}`,
+    });
+
+    if (res.created) recorded++;
+    if (res.orderStatus) orderStatus = res.orderStatus;
+  }
+
+  return { recorded, orderStatus, delivered: tracking.delivered };
+}
@@ -0,0 +1,249 @@
+// src/lib/packing.ts
+import type { CarrierParcel } from "@/lib/carriers";
+
+/**
+ * Armado de bultos: agrupa las unidades del pedido en cajas según el peso y las medidas de cada producto
+ * (`weightGrams`, `lengthCm`, `widthCm`, `heightCm` en Strapi).
+ *
+ * - Cajas: SHIPPING_BOXES (JSON, ver README) o DEFAULT_BOXES.
+ * - Primero las unidades más grandes; cada una va al primer bulto abierto donde entra (medidas, volumen útil
+ *   y peso), si no abre uno nuevo. Al final cada bulto pasa a la caja más chica que lo contiene.
+ * - Un producto que no entra en ninguna caja viaja solo, con sus medidas (`boxId: null`).
+ * - Sin peso: `defaultItemWeightGrams` (el de la zona); sin medidas: DEFAULT_ITEM_SIZE_CM.
+ *
+ * ⚠️ Es una aproximación por volumen (no acomoda piezas): alcanza para cotizar y para que el depósito
+ * sepa qué caja usar. Lo usa lib/shipping; el resultado queda en `shippingQuote.parcels` de la orden.
+ */
+
+export type ProductDimensions = {
+  weightGrams: number | null;
+  lengthCm: number | null;
+  widthCm: number | null;
+  heightCm: number | null;
+};
+
+export type PackingLine = Partial<ProductDimensions> & {
+  qty: number;
+  productId?: number | null;
+  productDocumentId?: string | null;
+  title?: string | null;
+};
+
+export type PackingBox = {
+  id: string;
+  name: string;
+  lengthCm: number;
+  widthCm: number;
+  heightCm: number;
+  maxWeightGrams: number; // con la caja
+  tareGrams: number; // peso de la caja vacía
+};
+
+export type PackedParcelItem = {
+  productId: number | null;
+  productDocumentId: string | null;
+  title: string;
+  qty: number;
+};
+
+export type PackedParcel = CarrierParcel & {
+  boxId: string | null; // null = viaja en su propio embalaje
+  boxName: string | null;
+  items: PackedParcelItem[];
+};
+
+const DEFAULT_BOXES: PackingBox[] = [
+  { id: "S", name: "Caja chica", lengthCm: 20, widthCm: 15, heightCm: 10, maxWeightGrams: 2000, tareGrams: 100 },
+  { id: "M", name: "Caja mediana", lengthCm: 30, widthCm: 25, heightCm: 15, maxWeightGrams: 5000, tareGrams: 200 },
+  { id: "L", name: "Caja grande", lengthCm: 40, widthCm: 30, heightCm: 25, maxWeightGrams: 10000, tareGrams: 350 },
+  { id: "XL", name: "Caja extra grande", lengthCm: 60, widthCm: 40, heightCm: 40, maxWeightGrams: 20000, tareGrams: 600 },
+];
+
+/** Medida de un producto sin medidas cargadas (cubo) */
+const DEFAULT_ITEM_SIZE_CM = 10;
+
+/** Parte del volumen de la caja que se puede llenar (el resto es relleno / forma de los productos) */
+const FILL_RATIO = 0.85;
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+function positiveOrNull(v: any) {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+function readJson(v: any) {
+  if (typeof v !== "string") return v;
+  try {
+    return JSON.parse(v);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Peso y medidas de un producto de Strapi (v4/v5). Acepta los campos sueltos
+ * (`weightGrams`, `lengthCm`, ...) o un componente `dimensions` con los mismos nombres.
+ */
+export function readProductDimensions(product: any): ProductDimensions {
+  const attr = product?.attributes ?? product ?? {};
+  const dims = readJson(attr?.dimensions) ?? {};
+
+  const weight = positiveOrNull(attr?.weightGrams ?? attr?.weight_grams ?? dims?.weightGrams ?? dims?.weight_grams);
+  const pick = (a: string, b: string) => positiveOrNull(attr?.[a] ?? attr?.[b] ?? dims?.[a] ?? dims?.[b]);
+
+  return {
+    weightGrams: weight != null ? Math.round(weight) : null,
+    lengthCm: pick("lengthCm", "length_cm"),
+    widthCm: pick("widthCm", "width_cm"),
+    heightCm: pick("heightCm", "height_cm"),
+  };
+}
+
+export function hasDimensions(line: Partial<ProductDimensions>) {
+  return positiveOrNull(line.lengthCm) != null && positiveOrNull(line.widthCm) != null && positiveOrNull(line.heightCm) != null;
+}
+
+function readBox(raw: any, i: number): PackingBox | null {
+  const lengthCm = positiveOrNull(raw?.lengthCm ?? raw?.length_cm);
+  const widthCm = positiveOrNull(raw?.widthCm ?? raw?.width_cm);
+  const heightCm = positiveOrNull(raw?.heightCm ?? raw?.height_cm);
+  const maxWeightGrams = positiveOrNull(raw?.maxWeightGrams ?? raw?.max_weight_grams);
+  if (!lengthCm || !widthCm || !heightCm || !maxWeightGrams) return null;
+
+  const id = String(raw?.id ?? "").trim() || `box-${i + 1}`;
+  return {
+    id,
+    name: String(raw?.name ?? "").trim() || id,
+    lengthCm,
+    widthCm,
+    heightCm,
+    maxWeightGrams,
+    tareGrams: Math.max(0, toNum(raw?.tareGrams ?? raw?.tare_grams, 0)),
+  };
+}
+
+function boxVolume(b: { lengthCm: number; widthCm: number; heightCm: number }) {
+  return b.lengthCm * b.widthCm * b.heightCm;
+}
+
+/** Cajas disponibles, de la más chica a la más grande (SHIPPING_BOXES o las default) */
+export function readPackingBoxes(): PackingBox[] {
+  const raw = readJson(process.env.SHIPPING_BOXES);
+  const boxes = Array.isArray(raw) ? (raw.map(readBox).filter(Boolean) as PackingBox[]) : [];
+  return (boxes.length ? boxes : DEFAULT_BOXES).slice().sort((a, b) => boxVolume(a) - boxVolume(b));
+}
+
+type Unit = {
+  key: string;
+  item: Omit<PackedParcelItem, "qty">;
+  weight: number;
+  size: [number, number, number]; // de mayor a menor
+  volume: number;
+};
+
+type OpenParcel = {
+  box: PackingBox | null;
+  units: Unit[];
+  volume: number;
+  weight: number;
+};
+
+/** Entra si cada medida (ordenadas de mayor a menor) entra en la de la caja: se puede rotar */
+function fitsIn(size: [number, number, number], box: PackingBox) {
+  const inner = [box.lengthCm, box.widthCm, box.heightCm].sort((a, b) => b - a);
+  return size[0] <= inner[0] && size[1] <= inner[1] && size[2] <= inner[2];
+}
+
+function canHold(box: PackingBox, units: Unit[], volume: number, weight: number) {
+  return (
+    units.every((u) => fitsIn(u.size, box)) &&
+    volume <= boxVolume(box) * FILL_RATIO &&
+    weight + box.tareGrams <= box.maxWeightGrams
+  );
+}
+
+function toParcel(p: OpenParcel): PackedParcel {
+  const items = new Map<string, PackedParcelItem>();
+  for (const u of p.units) {
+    const prev = items.get(u.key);
+    if (prev) prev.qty += 1;
+    else items.set(u.key, { ...u.item, qty: 1 });
+  }
+
+  const weightGrams = Math.max(1, Math.round(p.weight + (p.box?.tareGrams ?? 0)));
+  const size = p.box ? [p.box.lengthCm, p.box.widthCm, p.box.heightCm] : p.units[0].size;
+
+  return {
+    weightGrams,
+    lengthCm: size[0],
+    widthCm: size[1],
+    heightCm: size[2],
+    boxId: p.box?.id ?? null,
+    boxName: p.box?.name ?? null,
+    items: Array.from(items.values()),
+  };
+}
+
+/** Arma los bultos del pedido (vacío si no hay unidades) */
+export function packParcels(
+  lines: PackingLine[],
+  opts: { defaultItemWeightGrams?: number; boxes?: PackingBox[] } = {}
+): PackedParcel[] {
+  const boxes = opts.boxes ?? readPackingBoxes();
+  const defaultWeight = Math.max(0, toNum(opts.defaultItemWeightGrams, 500));
+
+  const units: Unit[] = [];
+  lines.forEach((l, i) => {
+    const qty = Math.max(0, Math.floor(toNum(l.qty, 0)));
+    if (!qty) return;
+
+    const weight = positiveOrNull(l.weightGrams) ?? defaultWeight;
+    const size = (
+      hasDimensions(l)
+        ? [Number(l.lengthCm), Number(l.widthCm), Number(l.heightCm)]
+        : [DEFAULT_ITEM_SIZE_CM, DEFAULT_ITEM_SIZE_CM, DEFAULT_ITEM_SIZE_CM]
+    ).sort((a, b) => b - a) as [number, number, number];
+
+    const item = {
+      productId: l.productId ?? null,
+      productDocumentId: l.productDocumentId ?? null,
+      title: String(l.title ?? "").trim() || "Producto",
+    };
+    const key = l.productDocumentId || (l.productId ? String(l.productId) : `line-${i}`);
+
+    for (let n = 0; n < qty; n++) units.push({ key, item, weight, size, volume: size[0] * size[1] * size[2] });
+  });
+
+  units.sort((a, b) => b.volume - a.volume || b.weight - a.weight);
+
+  const largest = boxes[boxes.length - 1] ?? null;
+  const open: OpenParcel[] = [];
+
+  for (const u of units) {
+    const target = open.find(
+      (p) => p.box && canHold(p.box, [...p.units, u], p.volume + u.volume, p.weight + u.weight)
+    );
+    if (target) {
+      target.units.push(u);
+      target.volume += u.volume;
+      target.weight += u.weight;
+      continue;
+    }
+
+    // Bulto nuevo en la caja más grande (se achica al final); si no entra, viaja solo
+    const box = largest && canHold(largest, [u], u.volume, u.weight) ? largest : null;
+    open.push({ box, units: [u], volume: u.volume, weight: u.weight });
+  }
+
+  for (const p of open) {
+    if (!p.box) continue;
+    p.box = boxes.find((b) => canHold(b, p.units, p.volume, p.weight)) ?? p.box;
+  }
+
+  return open.map(toParcel);
+}
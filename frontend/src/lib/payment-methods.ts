@@ -0,0 +1,355 @@
+// src/lib/payment-methods.ts
+import { fetcher } from "@/lib/fetcher";
+import type { AppliedPromotion } from "@/lib/promotion-quote";
+import {
+  OFFLINE_PROVIDER_LABELS,
+  isOfflineProvider,
+  offlineProviderEnabled,
+  type OfflineProvider,
+} from "@/lib/offline-payments";
+
+/**
+ * Medios de pago y cuotas.
+ *
+ * Una promoción puede declarar en Strapi un campo json `payment_methods`:
+ *
+ *   {
+ *     "excluded_payment_types": ["credit_card", "debit_card"],
+ *     "max_installments": 6,
+ *     "default_installments": 3,
+ *     "adjustments": { "bank_transfer": -10, "credit_card": 5 }
+ *   }
+ *
+ * - excluded_payment_types: tipos de pago de MP que la promo no acepta (ej: promo solo efectivo/transferencia)
+ * - max_installments / default_installments: tope y cuotas sugeridas con tarjeta de crédito
+ * - adjustments: % de recargo (+) o descuento (-) sobre el total con promociones (sin envío)
+ *
+ * Si hay varias promociones aplicadas se combinan: exclusiones sumadas, el tope de cuotas más bajo
+ * y los ajustes sumados por tipo.
+ *
+ * Los pagos offline (lib/offline-payments) usan las reglas del tipo equivalente:
+ * transferencia = bank_transfer, efectivo al retirar = ticket.
+ */
+
+export const PAYMENT_TYPES = ["credit_card", "debit_card", "account_money", "ticket", "bank_transfer"] as const;
+
+export type PaymentType = (typeof PAYMENT_TYPES)[number];
+
+export const PAYMENT_TYPE_LABELS: Record<PaymentType, string> = {
+  credit_card: "Tarjeta de crédito",
+  debit_card: "Tarjeta de débito",
+  account_money: "Dinero en cuenta de Mercado Pago",
+  ticket: "Efectivo (Rapipago / Pago Fácil)",
+  bank_transfer: "Transferencia bancaria",
+};
+
+export type PaymentConstraints = {
+  excludedPaymentTypes: PaymentType[];
+  maxInstallments: number;
+  defaultInstallments: number | null;
+  adjustments: Partial<Record<PaymentType, number>>;
+};
+
+export type PaymentOption = {
+  type: PaymentType;
+  label: string;
+  adjustmentPct: number;
+  installments: number[];
+};
+
+export type PaymentProvider = "mercadopago" | OfflineProvider;
+
+const OFFLINE_PROVIDER_TYPE: Record<OfflineProvider, PaymentType> = {
+  transfer: "bank_transfer",
+  cash: "ticket",
+};
+
+/** Lo que se guarda en la orden (`paymentMethod`) */
+export type OrderPaymentMethod = {
+  provider: PaymentProvider;
+  type: PaymentType;
+  label: string;
+  installments: number;
+  adjustmentPct: number;
+  adjustmentAmount: number;
+};
+
+const INSTALLMENT_STEPS = [1, 3, 6, 9, 12, 18, 24];
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+/** Tope general de cuotas de la tienda (MP_MAX_INSTALLMENTS, default 12) */
+export function storeMaxInstallments() {
+  const n = Math.floor(toNum(process.env.MP_MAX_INSTALLMENTS, 12));
+  return n >= 1 ? Math.min(n, 24) : 12;
+}
+
+export function isPaymentType(v: any): v is PaymentType {
+  return (PAYMENT_TYPES as readonly string[]).includes(String(v));
+}
+
+export function emptyPaymentConstraints(): PaymentConstraints {
+  return {
+    excludedPaymentTypes: [],
+    maxInstallments: storeMaxInstallments(),
+    defaultInstallments: null,
+    adjustments: {},
+  };
+}
+
+/** Acepta ["ticket"] o [{ id: "ticket" }] (formato de MP) */
+function readTypeList(v: any): PaymentType[] {
+  const list = Array.isArray(v) ? v : [];
+  const out: PaymentType[] = [];
+  for (const x of list) {
+    const id = typeof x === "object" && x ? x.id : x;
+    const s = String(id ?? "").trim().toLowerCase();
+    if (isPaymentType(s) && !out.includes(s)) out.push(s);
+  }
+  return out;
+}
+
+function readInstallments(v: any): number | null {
+  const n = Math.floor(toNum(v, 0));
+  return n >= 1 ? n : null;
+}
+
+/**
+ * Lee `payment_methods` de una promoción (snake_case o camelCase, o string json).
+ * Devuelve null si la promoción no declara restricciones.
+ */
+export function readPaymentMethodsField(raw: any): Partial<PaymentConstraints> | null {
+  let pm = raw;
+  if (typeof pm === "string") {
+    try {
+      pm = JSON.parse(pm);
+    } catch {
+      return null;
+    }
+  }
+  if (!pm || typeof pm !== "object") return null;
+
+  const adjustments: Partial<Record<PaymentType, number>> = {};
+  const rawAdj = pm.adjustments ?? pm.surcharges ?? null;
+  if (rawAdj && typeof rawAdj === "object") {
+    for (const [k, v] of Object.entries(rawAdj)) {
+      const pct = toNum(v, 0);
+      if (isPaymentType(k) && pct !== 0) adjustments[k] = pct;
+    }
+  }
+
+  return {
+    excludedPaymentTypes: readTypeList(pm.excluded_payment_types ?? pm.excludedPaymentTypes),
+    maxInstallments: readInstallments(pm.max_installments ?? pm.maxInstallments ?? pm.installments) ?? undefined,
+    defaultInstallments: readInstallments(pm.default_installments ?? pm.defaultInstallments),
+    adjustments,
+  };
+}
+
+export function mergePaymentConstraints(list: Array<Partial<PaymentConstraints> | null>): PaymentConstraints {
+  const out = emptyPaymentConstraints();
+
+  for (const c of list) {
+    if (!c) continue;
+
+    for (const t of c.excludedPaymentTypes ?? []) {
+      if (!out.excludedPaymentTypes.includes(t)) out.excludedPaymentTypes.push(t);
+    }
+
+    if (c.maxInstallments) out.maxInstallments = Math.min(out.maxInstallments, c.maxInstallments);
+
+    // La primera promo (mayor prioridad en el quote) define las cuotas sugeridas
+    if (c.defaultInstallments && out.defaultInstallments == null) {
+      out.defaultInstallments = c.defaultInstallments;
+    }
+
+    for (const [k, v] of Object.entries(c.adjustments ?? {})) {
+      const t = k as PaymentType;
+      out.adjustments[t] = (out.adjustments[t] ?? 0) + toNum(v, 0);
+    }
+  }
+
+  // ⚠️ Un ajuste no puede dejar el total negativo ni duplicarlo
+  for (const [k, v] of Object.entries(out.adjustments)) {
+    out.adjustments[k as PaymentType] = Math.max(-100, Math.min(100, toNum(v, 0)));
+  }
+
+  if (out.defaultInstallments != null) {
+    out.defaultInstallments = Math.min(out.defaultInstallments, out.maxInstallments);
+  }
+
+  return out;
+}
+
+/** Opciones para el checkout (tipos permitidos, % de ajuste y cuotas con crédito) */
+export function paymentOptions(constraints: PaymentConstraints): PaymentOption[] {
+  return PAYMENT_TYPES.filter((t) => !constraints.excludedPaymentTypes.includes(t)).map((type) => ({
+    type,
+    label: PAYMENT_TYPE_LABELS[type],
+    adjustmentPct: toNum(constraints.adjustments[type], 0),
+    installments:
+      type === "credit_card"
+        ? Array.from(
+            new Set([
+              ...INSTALLMENT_STEPS.filter((n) => n <= constraints.maxInstallments),
+              constraints.maxInstallments,
+            ])
+          ).sort((a, b) => a - b)
+        : [1],
+  }));
+}
+
+export function paymentAdjustmentAmount(base: number, pct: number) {
+  if (!pct) return 0;
+  return Math.round((Math.max(0, base) * pct) / 100);
+}
+
+/** Si algún medio tiene recargo/descuento, el precio depende del medio elegido */
+export function hasPaymentAdjustments(constraints: PaymentConstraints) {
+  return Object.values(constraints.adjustments).some((v) => toNum(v, 0) !== 0);
+}
+
+function paymentNotAllowed(reason: string, extra: Record<string, any> = {}) {
+  const err: any = new Error("PAYMENT_METHOD_NOT_ALLOWED");
+  err.code = "PAYMENT_METHOD_NOT_ALLOWED";
+  err.reason = reason;
+  Object.assign(err, extra);
+  return err;
+}
+
+/**
+ * Valida el medio elegido contra las restricciones.
+ * - Sin elección: primer medio permitido con las cuotas sugeridas
+ * - Medio excluido o cuotas por encima del tope: error PAYMENT_METHOD_NOT_ALLOWED
+ * - Efectivo solo con retiro en sucursal
+ */
+export function resolvePaymentChoice(
+  raw: any,
+  constraints: PaymentConstraints,
+  base: number,
+  opts: { shippingMethod?: string | null } = {}
+): OrderPaymentMethod {
+  const options = paymentOptions(constraints);
+
+  if (!options.length) throw paymentNotAllowed("no_methods");
+
+  // ✅ Offline: transferencia / efectivo al retirar
+  const provider = String(raw?.provider ?? "").trim().toLowerCase();
+  if (isOfflineProvider(provider)) {
+    if (!offlineProviderEnabled(provider)) throw paymentNotAllowed("provider_disabled", { provider });
+    if (provider === "cash" && opts.shippingMethod !== "pickup") {
+      throw paymentNotAllowed("cash_requires_pickup", { provider });
+    }
+
+    const offlineOption = options.find((o) => o.type === OFFLINE_PROVIDER_TYPE[provider]);
+    if (!offlineOption) throw paymentNotAllowed("excluded_type", { type: OFFLINE_PROVIDER_TYPE[provider] });
+
+    return {
+      provider,
+      type: offlineOption.type,
+      label: OFFLINE_PROVIDER_LABELS[provider],
+      installments: 1,
+      adjustmentPct: offlineOption.adjustmentPct,
+      adjustmentAmount: paymentAdjustmentAmount(base, offlineOption.adjustmentPct),
+    };
+  }
+
+  const wanted = String((typeof raw === "string" ? raw : raw?.type) ?? "").trim().toLowerCase();
+  const option = wanted ? options.find((o) => o.type === wanted) : options[0];
+
+  if (!option) throw paymentNotAllowed("excluded_type", { type: wanted });
+
+  let installments = readInstallments(raw?.installments) ?? constraints.defaultInstallments ?? 1;
+  if (option.type !== "credit_card") installments = 1;
+
+  if (installments > constraints.maxInstallments) {
+    throw paymentNotAllowed("max_installments", { maxInstallments: constraints.maxInstallments });
+  }
+
+  return {
+    provider: "mercadopago",
+    type: option.type,
+    label: option.label,
+    installments,
+    adjustmentPct: option.adjustmentPct,
+    adjustmentAmount: paymentAdjustmentAmount(base, option.adjustmentPct),
+  };
+}
+
+/**
+ * Restricciones de las promociones aplicadas.
+ * Usamos `meta.payment_methods` si el quote ya lo trae; si no, lo leemos de Strapi.
+ */
+export async function resolvePaymentConstraints(applied: AppliedPromotion[]): Promise<PaymentConstraints> {
+  const list: Array<Partial<PaymentConstraints> | null> = [];
+  const toFetch: number[] = [];
+
+  for (const p of applied ?? []) {
+    const fromMeta = p?.meta?.payment_methods ?? p?.meta?.paymentMethods;
+    if (fromMeta) list.push(readPaymentMethodsField(fromMeta));
+    else if (Number(p?.id) > 0) toFetch.push(Number(p.id));
+  }
+
+  if (toFetch.length) {
+    const qs = new URLSearchParams();
+    toFetch.forEach((id) => qs.append("filters[id][$in]", String(id)));
+    qs.set("pagination[pageSize]", String(Math.min(100, toFetch.length)));
+
+    const res = await fetcher<any>(`/promotions?${qs.toString()}`, { auth: true });
+    const rows = Array.isArray(res?.data) ? res.data : [];
+
+    // Respetamos el orden del quote (prioridad)
+    for (const id of toFetch) {
+      const row = rows.find((r: any) => Number(r?.id) === id);
+      const attr = row?.attributes ?? row ?? {};
+      list.push(readPaymentMethodsField(attr?.payment_methods ?? attr?.paymentMethods));
+    }
+  }
+
+  return mergePaymentConstraints(list);
+}
+
+/** Lee `paymentConstraints` guardado en la orden (tolerante a datos viejos) */
+export function readOrderPaymentConstraints(raw: any): PaymentConstraints {
+  return mergePaymentConstraints([readPaymentMethodsField(raw)]);
+}
+
+/**
+ * Bloque `payment_methods` de la preferencia de MP.
+ * Si el precio depende del medio (recargo/descuento), se deja solo el medio elegido.
+ */
+export function buildMpPaymentMethods(constraints: PaymentConstraints, chosen: OrderPaymentMethod | null) {
+  let excluded = [...constraints.excludedPaymentTypes];
+
+  if (chosen && hasPaymentAdjustments(constraints)) {
+    excluded = PAYMENT_TYPES.filter((t) => t !== chosen.type);
+  }
+
+  const maxInstallments = constraints.maxInstallments;
+  const defaultInstallments =
+    chosen?.type === "credit_card" ? chosen.installments : constraints.defaultInstallments ?? null;
+
+  return {
+    excluded_payment_types: excluded.map((id) => ({ id })),
+    installments: maxInstallments,
+    ...(defaultInstallments ? { default_installments: Math.min(defaultInstallments, maxInstallments) } : {}),
+  };
+}
+
+/** Lee `paymentMethod` guardado en la orden */
+export function readOrderPaymentMethod(raw: any): OrderPaymentMethod | null {
+  const type = String(raw?.type ?? "").trim();
+  if (!isPaymentType(type)) return null;
+  const provider = String(raw?.provider ?? "").trim();
+  return {
+    provider: isOfflineProvider(provider) ? provider : "mercadopago",
+    type,
+    label: String(raw?.label ?? PAYMENT_TYPE_LABELS[type]),
+    installments: readInstallments(raw?.installments) ?? 1,
+    adjustmentPct: toNum(raw?.adjustmentPct, 0),
+    adjustmentAmount: Math.round(toNum(raw?.adjustmentAmount, 0)),
+  };
+}
@@ -0,0 +1,37 @@
+// src/lib/pdf-fonts.ts
+import path from "path";
+import fs from "fs";
+
+/**
+ * Fuente de los PDF (comprobantes, remitos, gift cards): DejaVu Sans de public/fonts,
+ * que tiene acentos, ñ y símbolos que Helvetica no trae.
+ * Si el archivo falta o no es una TTF/OTF válida, queda Helvetica (el PDF sale igual).
+ */
+
+export const PDF_FONTS_DIR = path.join(process.cwd(), "public", "fonts");
+
+export function applyPdfFont(doc: any, logTag = "pdf") {
+  const fontPath = path.join(PDF_FONTS_DIR, "DejaVuSans.ttf");
+
+  try {
+    const buf = fs.readFileSync(fontPath);
+    const size = buf.length;
+    const headHex = buf.slice(0, 4).toString("hex");
+    const headAscii = buf.slice(0, 4).toString("ascii");
+
+    const isTtf = headHex === "00010000";
+    const isOtf = headAscii === "OTTO";
+
+    if (!size || size < 1000 || (!isTtf && !isOtf)) {
+      console.warn(`[${logTag}] Font inválida, uso Helvetica:`, { fontPath, size, headHex, headAscii });
+      doc.font("Helvetica");
+      return;
+    }
+
+    doc.registerFont("DejaVu", fontPath);
+    doc.font("DejaVu");
+  } catch (e: any) {
+    console.warn(`[${logTag}] No pude aplicar fuente (uso Helvetica):`, e?.message || e);
+    doc.font("Helvetica");
+  }
+}
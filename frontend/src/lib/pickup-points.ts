@@ -0,0 +1,421 @@
+// src/lib/pickup-points.ts
+import { fetcher } from "@/lib/fetcher";
+
+/**
+ * Puntos de retiro (colección `pickup-points` en Strapi) y turnos de retiro.
+ *
+ * Cada punto:
+ * - name, address, city, province, lat/lng (mapa), instructions, active, sortOrder
+ * - hours: horario semanal `{ "mon": "09:00-13:00, 17:00-20:30", "sat": "09:00-13:00" }`
+ *   (también acepta días en castellano: lun, mar, mie, jue, vie, sab, dom)
+ * - closures: feriados / cierres ("YYYY-MM-DD" o { from, to, reason }), como los blackouts de las zonas
+ * - slotMinutes (default 60), slotCapacity (pedidos por turno, default 5)
+ * - prepHours: anticipación mínima para preparar el pedido (default 24)
+ * - bookingDays: cuántos días hacia adelante se ofrecen turnos (default 14)
+ *
+ * La capacidad ocupada sale de las órdenes (`pickupPointId` + `pickupSlotStart`) que no se cancelaron.
+ * ⚠️ Chequeo best-effort al crear la orden: dos compras simultáneas del último lugar pueden pasar las dos.
+ */
+
+export type PickupClosure = {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD (inclusive)
+  reason: string | null;
+};
+
+export type PickupRange = { open: string; close: string }; // "HH:MM"
+
+/** 0 = domingo ... 6 = sábado */
+export type WeeklyHours = Record<number, PickupRange[]>;
+
+export type PickupPoint = {
+  id: string;
+  name: string;
+  address: string;
+  city: string | null;
+  province: string | null;
+  lat: number | null;
+  lng: number | null;
+  instructions: string | null;
+  hours: WeeklyHours;
+  closures: PickupClosure[];
+  slotMinutes: number;
+  slotCapacity: number;
+  prepHours: number;
+  bookingDays: number;
+  sortOrder: number;
+};
+
+export type PickupSlot = {
+  start: string; // ISO
+  end: string; // ISO
+  date: string; // YYYY-MM-DD (hora de Argentina)
+  label: string; // "10:00 a 11:00"
+  capacity: number;
+  remaining: number;
+};
+
+/** Referencia que se guarda en la orden (`pickup`) */
+export type PickupSelection = {
+  pointId: string;
+  name: string;
+  address: string;
+  city: string | null;
+  lat: number | null;
+  lng: number | null;
+  mapUrl: string;
+  slotStart: string;
+  slotEnd: string;
+  slotLabel: string;
+};
+
+const POINTS_PATH = "/api/pickup-points";
+const POINTS_CACHE_MS = 60_000;
+
+// Argentina no tiene horario de verano: los turnos se arman en -03:00 fijo
+const AR_OFFSET = "-03:00";
+
+// Órdenes que ya no ocupan lugar en el turno
+const RELEASED_STATUSES = ["cancelled", "failed", "refunded"];
+
+// Índice = día de la semana (0 = domingo); claves en inglés o castellano
+const DAY_KEYS = [
+  ["sun", "dom"],
+  ["mon", "lun"],
+  ["tue", "mar"],
+  ["wed", "mie"],
+  ["thu", "jue"],
+  ["fri", "vie"],
+  ["sat", "sab"],
+];
+
+const DAY_LABELS = ["Dom", "Lun", "Mar", "Mié", "Jue", "Vie", "Sáb"];
+
+let pointsCache: { at: number; points: PickupPoint[] } | null = null;
+
+function pickAttr(row: any) {
+  return row?.attributes ?? row ?? {};
+}
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+function readJson(v: any) {
+  if (typeof v !== "string") return v;
+  try {
+    return JSON.parse(v);
+  } catch {
+    return v;
+  }
+}
+
+function textOrNull(v: any) {
+  const s = String(v ?? "").trim();
+  return s || null;
+}
+
+function isIsoDate(s: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(s);
+}
+
+function pickupError(code: string, extra: Record<string, any> = {}): never {
+  const err: any = new Error(code);
+  err.code = code;
+  Object.assign(err, extra);
+  throw err;
+}
+
+/** "9:00" / "09:00" → "09:00"; null si no es una hora válida */
+function readTime(v: any) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(String(v ?? "").trim());
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2]);
+  if (h > 23 || min > 59) return null;
+  return `${String(h).padStart(2, "0")}:${m[2]}`;
+}
+
+function readRanges(v: any): PickupRange[] {
+  const list = Array.isArray(v) ? v : typeof v === "string" ? v.split(/[,;]/) : [];
+
+  return list
+    .map((r: any) => {
+      const [a, b] = typeof r === "string" ? r.split("-") : [r?.open, r?.close];
+      const open = readTime(a);
+      const close = readTime(b);
+      return open && close && open < close ? { open, close } : null;
+    })
+    .filter(Boolean) as PickupRange[];
+}
+
+function readHours(v: any): WeeklyHours {
+  const raw = readJson(v);
+  const out: WeeklyHours = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return out;
+
+  for (const [k, ranges] of Object.entries(raw)) {
+    const key = k
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .slice(0, 3);
+    const day = DAY_KEYS.findIndex((keys) => keys.includes(key));
+    if (day < 0) continue;
+    const list = readRanges(ranges);
+    if (list.length) out[day] = [...(out[day] ?? []), ...list].sort((a, b) => a.open.localeCompare(b.open));
+  }
+  return out;
+}
+
+function readClosures(v: any): PickupClosure[] {
+  const raw = readJson(v);
+  const list = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(/[,;\n]/) : [];
+
+  return list
+    .map((c: any) => {
+      if (typeof c === "string") {
+        const d = c.trim();
+        return isIsoDate(d) ? { from: d, to: d, reason: null } : null;
+      }
+      const from = String(c?.from ?? c?.date ?? "").trim();
+      const to = String(c?.to ?? from).trim();
+      if (!isIsoDate(from) || !isIsoDate(to)) return null;
+      return { from, to, reason: c?.reason ? String(c.reason) : null };
+    })
+    .filter(Boolean) as PickupClosure[];
+}
+
+export function readPickupPoint(row: any): PickupPoint | null {
+  const attr = pickAttr(row);
+  if (attr?.active === false) return null;
+
+  const name = String(attr?.name ?? "").trim();
+  const address = String(attr?.address ?? "").trim();
+  if (!name || !address) return null;
+
+  const lat = toNum(attr?.lat ?? attr?.latitude, NaN);
+  const lng = toNum(attr?.lng ?? attr?.longitude, NaN);
+
+  return {
+    id: String(row?.documentId ?? attr?.documentId ?? row?.id ?? ""),
+    name,
+    address,
+    city: textOrNull(attr?.city),
+    province: textOrNull(attr?.province),
+    lat: Number.isFinite(lat) ? lat : null,
+    lng: Number.isFinite(lng) ? lng : null,
+    instructions: textOrNull(attr?.instructions),
+    hours: readHours(attr?.hours),
+    closures: readClosures(attr?.closures ?? attr?.closedDates),
+    slotMinutes: Math.min(240, Math.max(15, Math.round(toNum(attr?.slotMinutes, 60)))),
+    slotCapacity: Math.max(1, Math.floor(toNum(attr?.slotCapacity, 5))),
+    prepHours: Math.max(0, toNum(attr?.prepHours, 24)),
+    bookingDays: Math.min(60, Math.max(1, Math.floor(toNum(attr?.bookingDays, 14)))),
+    sortOrder: toNum(attr?.sortOrder, 0),
+  };
+}
+
+/** Puntos activos desde Strapi (cache en memoria de 1 minuto). Error PICKUP_UNAVAILABLE si Strapi falla. */
+export async function loadPickupPoints(opts: { fresh?: boolean } = {}) {
+  const now = Date.now();
+  if (!opts.fresh && pointsCache && now - pointsCache.at < POINTS_CACHE_MS) return pointsCache.points;
+
+  let rows: any[] = [];
+  try {
+    const res = await fetcher<any>(`${POINTS_PATH}?pagination[pageSize]=100`, { auth: true });
+    rows = Array.isArray(res?.data) ? res.data : [];
+  } catch (e: any) {
+    pickupError("PICKUP_UNAVAILABLE", { details: e?.message || String(e) });
+  }
+
+  const points = (rows.map(readPickupPoint).filter(Boolean) as PickupPoint[]).sort(
+    (a, b) => a.sortOrder - b.sortOrder || a.name.localeCompare(b.name)
+  );
+  pointsCache = { at: now, points };
+  return points;
+}
+
+export function pickupMapUrl(point: Pick<PickupPoint, "name" | "address" | "city" | "lat" | "lng">) {
+  const q =
+    point.lat != null && point.lng != null
+      ? `${point.lat},${point.lng}`
+      : [point.address, point.city, "Argentina"].filter(Boolean).join(", ");
+  return `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(q)}`;
+}
+
+/** "Lun a Vie 09:00-13:00, 17:00-20:30 · Sáb 09:00-13:00" */
+export function describeHours(hours: WeeklyHours) {
+  const text = (d: number) => (hours[d] ?? []).map((r) => `${r.open}-${r.close}`).join(", ");
+  const order = [1, 2, 3, 4, 5, 6, 0];
+
+  const groups: Array<{ from: number; to: number; text: string }> = [];
+  for (const d of order) {
+    const t = text(d);
+    if (!t) continue;
+    const last = groups[groups.length - 1];
+    if (last && last.text === t && order.indexOf(d) === order.indexOf(last.to) + 1) last.to = d;
+    else groups.push({ from: d, to: d, text: t });
+  }
+
+  return groups
+    .map((g) => `${DAY_LABELS[g.from]}${g.to !== g.from ? ` a ${DAY_LABELS[g.to]}` : ""} ${g.text}`)
+    .join(" · ");
+}
+
+/** Fecha local de Argentina (YYYY-MM-DD) */
+function argentinaDateKey(date: Date) {
+  return date.toLocaleDateString("en-CA", { timeZone: "America/Argentina/Buenos_Aires" });
+}
+
+function addDays(dateKey: string, days: number) {
+  const d = new Date(`${dateKey}T12:00:00${AR_OFFSET}`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return argentinaDateKey(d);
+}
+
+function weekday(dateKey: string) {
+  return new Date(`${dateKey}T12:00:00${AR_OFFSET}`).getUTCDay();
+}
+
+function atLocal(dateKey: string, time: string) {
+  return new Date(`${dateKey}T${time}:00${AR_OFFSET}`);
+}
+
+function localTime(d: Date) {
+  return d.toLocaleTimeString("es-AR", {
+    timeZone: "America/Argentina/Buenos_Aires",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+}
+
+export function activeClosure(point: PickupPoint, dateKey: string) {
+  return point.closures.find((c) => dateKey >= c.from && dateKey <= c.to) ?? null;
+}
+
+/**
+ * Turnos de un punto desde `now + prepHours` hasta `bookingDays` días.
+ * `booked`: pedidos por turno (clave = ISO de inicio), ver countBookedSlots.
+ */
+export function buildPickupSlots(point: PickupPoint, booked: Map<string, number>, now: Date = new Date()) {
+  const earliest = now.getTime() + point.prepHours * 3_600_000;
+  const today = argentinaDateKey(now);
+  const step = point.slotMinutes * 60_000;
+
+  const slots: PickupSlot[] = [];
+  for (let i = 0; i < point.bookingDays; i++) {
+    const date = addDays(today, i);
+    if (activeClosure(point, date)) continue;
+
+    for (const range of point.hours[weekday(date)] ?? []) {
+      const close = atLocal(date, range.close).getTime();
+
+      for (let t = atLocal(date, range.open).getTime(); t + step <= close; t += step) {
+        if (t < earliest) continue;
+        const start = new Date(t);
+        const end = new Date(t + step);
+        const used = booked.get(start.toISOString()) ?? 0;
+
+        slots.push({
+          start: start.toISOString(),
+          end: end.toISOString(),
+          date,
+          label: `${localTime(start)} a ${localTime(end)}`,
+          capacity: point.slotCapacity,
+          remaining: Math.max(0, point.slotCapacity - used),
+        });
+      }
+    }
+  }
+  return slots;
+}
+
+/** Pedidos que ocupan cada turno de un punto (desde `from`) */
+export async function countBookedSlots(pointId: string, from: Date = new Date()) {
+  const sp = new URLSearchParams();
+  sp.set("filters[pickupPointId][$eq]", pointId);
+  sp.set("filters[pickupSlotStart][$gte]", from.toISOString());
+  RELEASED_STATUSES.forEach((s, i) => sp.set(`filters[orderStatus][$notIn][${i}]`, s));
+  sp.set("fields[0]", "pickupSlotStart");
+  sp.set("pagination[pageSize]", "500");
+
+  const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+  const rows = Array.isArray(res?.data) ? res.data : [];
+
+  const booked = new Map<string, number>();
+  for (const row of rows) {
+    const raw = pickAttr(row)?.pickupSlotStart;
+    const t = Date.parse(String(raw ?? ""));
+    if (!Number.isFinite(t)) continue;
+    const key = new Date(t).toISOString();
+    booked.set(key, (booked.get(key) ?? 0) + 1);
+  }
+  return booked;
+}
+
+/** Puntos con sus turnos disponibles (GET /api/pickup-points) */
+export async function listPickupAvailability(now: Date = new Date()) {
+  const points = await loadPickupPoints();
+
+  return Promise.all(
+    points.map(async (point) => {
+      const booked = await countBookedSlots(point.id, now);
+      return { point, slots: buildPickupSlots(point, booked, now) };
+    })
+  );
+}
+
+/**
+ * Valida punto + turno elegidos y devuelve la referencia para la orden.
+ * Errores: PICKUP_POINT_NOT_FOUND, PICKUP_SLOT_UNAVAILABLE (reason: "invalid" | "full").
+ */
+export async function resolvePickupSelection(params: { pointId: string; slotStart: string; now?: Date }) {
+  const now = params.now ?? new Date();
+  const points = await loadPickupPoints();
+  const point = points.find((p) => p.id === params.pointId);
+  if (!point) pickupError("PICKUP_POINT_NOT_FOUND", { pointId: params.pointId });
+
+  const t = Date.parse(String(params.slotStart ?? ""));
+  const wanted = Number.isFinite(t) ? new Date(t).toISOString() : "";
+
+  const booked = await countBookedSlots(point.id, now);
+  const slot = buildPickupSlots(point, booked, now).find((s) => s.start === wanted);
+  if (!slot) pickupError("PICKUP_SLOT_UNAVAILABLE", { reason: "invalid", pointId: point.id });
+  if (slot.remaining <= 0) pickupError("PICKUP_SLOT_UNAVAILABLE", { reason: "full", pointId: point.id });
+
+  const selection: PickupSelection = {
+    pointId: point.id,
+    name: point.name,
+    address: point.address,
+    city: point.city,
+    lat: point.lat,
+    lng: point.lng,
+    mapUrl: pickupMapUrl(point),
+    slotStart: slot.start,
+    slotEnd: slot.end,
+    slotLabel: describePickupSlot(slot.start, slot.end),
+  };
+  return { point, slot, selection };
+}
+
+/** "sáb 12/10, 10:00 a 11:00" */
+export function describePickupSlot(start: string | null | undefined, end?: string | null) {
+  const s = new Date(String(start ?? ""));
+  if (Number.isNaN(s.getTime())) return "";
+
+  const key = argentinaDateKey(s);
+  const [, month, dd] = key.split("-");
+  const day = `${DAY_LABELS[weekday(key)].toLowerCase()} ${dd}/${month}`;
+  const e = end ? new Date(end) : null;
+  return `${day}, ${localTime(s)}${e && !Number.isNaN(e.getTime()) ? ` a ${localTime(e)}` : ""}`;
+}
+
+/** Mensaje para el comprador (orders/create) */
+export function pickupUnavailableMessage(e: any) {
+  if (e?.code === "PICKUP_POINT_NOT_FOUND") return "La sucursal elegida ya no está disponible. Elegí otra.";
+  if (e?.reason === "full") return "El horario de retiro elegido se completó. Elegí otro.";
+  return "El horario de retiro elegido ya no está disponible. Elegí otro.";
+}
@@ -0,0 +1,518 @@
+// src/lib/pricing.ts
+import { fetcher } from "@/lib/fetcher";
+import {
+  quoteShipping,
+  type ShippingDestination,
+  type ShippingLine,
+  type ShippingMethod,
+  type ShippingQuote,
+} from "@/lib/shipping";
+import { readProductDimensions } from "@/lib/packing";
+import { readHeatSensitive } from "@/lib/heat-rules";
+import { getStrapiImageUrlFromAttributes } from "@/lib/strapi-mappers";
+import {
+  normalizePromotionQuote,
+  requestPromotionQuote,
+  type AppliedPromotion,
+} from "@/lib/promotion-quote";
+import { allocateByWeight, type CouponRejection } from "@/lib/promotion-engine";
+import {
+  resolvePaymentChoice,
+  resolvePaymentConstraints,
+  emptyPaymentConstraints,
+  type OrderPaymentMethod,
+  type PaymentConstraints,
+} from "@/lib/payment-methods";
+import { giftWrapPrice } from "@/lib/gift-options";
+import { applyFlashSale, fetchFlashSales, type FlashSale } from "@/lib/flash-sales";
+import { readGiftCardFlag } from "@/lib/gift-cards";
+
+/**
+ * Item tal como lo manda el checkout (lo que NO confiamos: unit_price/price/off).
+ */
+export type ClientOrderItem = {
+  productId?: number | string | null;
+  productDocumentId?: string | null;
+  slug?: string | null;
+  title?: string | null;
+  qty?: number | string | null;
+  unit_price?: number | string | null;
+  price?: number | string | null;
+  off?: number | string | null;
+};
+
+/**
+ * Item recalculado con datos de Strapi (esto es lo que se persiste en la orden).
+ */
+export type PricedOrderItem = {
+  productId: number;
+  productDocumentId: string | null;
+  slug: string;
+  title: string;
+  qty: number;
+  unit_price: number;
+  price: number;
+  off: number | null;
+  imageUrl: string | null;
+  category: string | null;
+  // ✅ peso y medidas de Strapi (armado de bultos / depósito); null si no están cargados
+  weightGrams: number | null;
+  lengthCm: number | null;
+  widthCm: number | null;
+  heightCm: number | null;
+  heatSensitive: boolean; // reglas de calor de la zona (ver lib/heat-rules)
+  giftCard: boolean; // gift card digital: no se envía, se emite al pagar (ver lib/gift-cards)
+  // ✅ descuento de promos que cae en esta línea (bogo, combos, % repartido; ver lib/promotion-engine)
+  discount: number;
+  discountPromotions: Array<{ id: number; name: string; amount: number }>;
+};
+
+export type ServerOrderTotals = {
+  items: PricedOrderItem[];
+  subtotal: number;
+  discountTotal: number;
+  shippingCost: number;
+  shippingQuote: ShippingQuote;
+  paymentAdjustment: number;
+  giftWrapCost: number;
+  total: number;
+  appliedPromotions: AppliedPromotion[];
+  couponApplied: string | null;
+  couponRejection: CouponRejection | null; // cupón que mandó el cliente y no aplica (ver lib/promotion-engine)
+  paymentMethod: OrderPaymentMethod;
+  paymentConstraints: PaymentConstraints;
+};
+
+export type PriceMismatchLine = {
+  productDocumentId: string | null;
+  productId: number | null;
+  title: string;
+  reason: "price_changed" | "not_found";
+  clientUnitPrice: number | null;
+  serverUnitPrice: number | null;
+  price: number | null;
+  off: number | null;
+};
+
+export type PriceMismatchTotal = {
+  field: "subtotal" | "discountTotal" | "shippingCost" | "paymentAdjustment" | "giftWrapCost" | "total";
+  client: number;
+  server: number;
+};
+
+function pickAttr(row: any) {
+  return row?.attributes ?? row ?? {};
+}
+
+function pickDocumentId(row: any): string | null {
+  const attr = pickAttr(row);
+  const v =
+    row?.documentId ??
+    row?.attributes?.documentId ??
+    row?.attributes?.document_id ??
+    attr?.documentId ??
+    attr?.document_id ??
+    null;
+
+  const s = v != null ? String(v).trim() : "";
+  return s ? s : null;
+}
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+function toOffOrNull(v: any): number | null {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  if (!Number.isFinite(n)) return null;
+  const off = Math.trunc(n);
+  return off > 0 ? off : null;
+}
+
+function readQty(v: any) {
+  const n = Math.floor(toNum(v, 0));
+  return n > 0 ? n : 0;
+}
+
+function readMoneyOrNull(v: any) {
+  if (v === null || v === undefined || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? Math.round(n) : null;
+}
+
+/** Mismo criterio que carrito/checkout/ProductCard */
+export function priceWithOff(price: number, off?: number | null) {
+  return typeof off === "number" && off > 0 ? Math.round(price * (1 - off / 100)) : price;
+}
+
+/** `off` fijo del producto o el de la oferta relámpago vigente, el mayor (ver lib/flash-sales) */
+function productFlashSale(row: any, sales: FlashSale[], now: Date) {
+  const attr = pickAttr(row);
+  return applyFlashSale(
+    {
+      id: Math.trunc(toNum(row?.id ?? attr?.id, 0)),
+      documentId: pickDocumentId(row),
+      slug: attr?.slug ? String(attr.slug) : null,
+      category: attr?.category ? String(attr.category) : null,
+    },
+    toOffOrNull(attr?.off ?? row?.off),
+    sales,
+    now
+  );
+}
+
+/**
+ * Trae los productos del carrito desde Strapi (por documentId o id numérico).
+ */
+async function fetchProductsForItems(items: ClientOrderItem[]) {
+  const docIds = new Set<string>();
+  const numericIds = new Set<number>();
+
+  for (const it of items) {
+    const doc = String(it?.productDocumentId ?? "").trim();
+    if (doc) docIds.add(doc);
+    else {
+      const id = Math.trunc(toNum(it?.productId, 0));
+      if (id > 0) numericIds.add(id);
+    }
+  }
+
+  const sp = new URLSearchParams();
+  sp.set("pagination[pageSize]", String(Math.min(Math.max(docIds.size + numericIds.size, 1), 100)));
+  sp.set("populate", "*");
+
+  let i = 0;
+  docIds.forEach((doc) => sp.set(`filters[$or][${i++}][documentId][$eq]`, doc));
+  numericIds.forEach((id) => sp.set(`filters[$or][${i++}][id][$eq]`, String(id)));
+
+  if (i === 0) return { byDoc: new Map<string, any>(), byId: new Map<number, any>() };
+
+  const res = await fetcher<{ data: any[] }>(`/api/products?${sp.toString()}`, { auth: true });
+  const rows = Array.isArray(res?.data) ? res.data : [];
+
+  const byDoc = new Map<string, any>();
+  const byId = new Map<number, any>();
+  for (const r of rows) {
+    const doc = pickDocumentId(r);
+    if (doc) byDoc.set(doc, r);
+    const id = Math.trunc(toNum(r?.id ?? r?.attributes?.id, 0));
+    if (id > 0) byId.set(id, r);
+  }
+
+  return { byDoc, byId };
+}
+
+function toShippingLine(it: PricedOrderItem): ShippingLine {
+  return {
+    qty: it.qty,
+    productId: it.productId,
+    productDocumentId: it.productDocumentId,
+    title: it.title,
+    weightGrams: it.weightGrams,
+    lengthCm: it.lengthCm,
+    widthCm: it.widthCm,
+    heightCm: it.heightCm,
+    heatSensitive: it.heatSensitive,
+  };
+}
+
+/**
+ * Líneas para cotizar el envío con peso, medidas y "sensible al calor" de Strapi (carrito/checkout vía /api/shipping/quote),
+ * las mismas que usa computeOrderTotals. Los productos que no existen (y las gift cards) se ignoran.
+ */
+export async function resolveShippingLines(items: ClientOrderItem[]): Promise<ShippingLine[]> {
+  const { byDoc, byId } = await fetchProductsForItems(items);
+
+  const lines: ShippingLine[] = [];
+  for (const it of items) {
+    const qty = readQty(it?.qty);
+    if (!qty) continue;
+
+    const doc = String(it?.productDocumentId ?? "").trim();
+    const idNum = Math.trunc(toNum(it?.productId, 0));
+    const row = (doc ? byDoc.get(doc) : null) ?? (idNum > 0 ? byId.get(idNum) : null);
+    if (!row) continue;
+
+    // Gift cards: van por email, no suman peso ni bultos
+    if (readGiftCardFlag(row)) continue;
+
+    const attr = pickAttr(row);
+    lines.push({
+      qty,
+      productId: Math.trunc(toNum(row?.id ?? attr?.id, 0)),
+      productDocumentId: pickDocumentId(row),
+      title: String(attr?.title ?? it?.title ?? "Producto"),
+      ...readProductDimensions(row),
+      heatSensitive: readHeatSensitive(row),
+    });
+  }
+  return lines;
+}
+
+/** Precio vigente de un producto del carrito (lo que mostraría hoy la card) */
+export type CurrentPrice = {
+  productId: number;
+  productDocumentId: string | null;
+  price: number;
+  off: number | null;
+  saleName: string | null;
+  saleEndsAt: string | null;
+};
+
+/**
+ * Precios de Strapi con las ofertas relámpago vigentes para los productos del carrito (vía /api/products/prices),
+ * los mismos que usa computeOrderTotals. Los productos que no existen se ignoran.
+ */
+export async function resolveCurrentPrices(items: ClientOrderItem[]): Promise<CurrentPrice[]> {
+  const [{ byDoc, byId }, sales] = await Promise.all([fetchProductsForItems(items), fetchFlashSales()]);
+  const now = new Date();
+
+  const prices: CurrentPrice[] = [];
+  for (const it of items) {
+    const doc = String(it?.productDocumentId ?? "").trim();
+    const idNum = Math.trunc(toNum(it?.productId, 0));
+    const row = (doc ? byDoc.get(doc) : null) ?? (idNum > 0 ? byId.get(idNum) : null);
+    if (!row) continue;
+
+    const attr = pickAttr(row);
+    const flash = productFlashSale(row, sales, now);
+
+    prices.push({
+      productId: Math.trunc(toNum(row?.id ?? attr?.id, 0)),
+      productDocumentId: pickDocumentId(row),
+      price: Math.round(toNum(attr?.price ?? row?.price, 0)),
+      off: flash.off,
+      saleName: flash.sale?.name ?? null,
+      saleEndsAt: flash.sale?.endsAt ?? null,
+    });
+  }
+  return prices;
+}
+
+/**
+ * Recalcula precios (price/off de Strapi + ofertas relámpago vigentes), promociones (quote), medio de pago y envío en el server.
+ * - Productos inexistentes vuelven en `missing` (no se pueden cobrar).
+ * - Si el quote falla, usamos el subtotal sin descuentos (mismo fallback que el checkout).
+ * - Cupón que no aplica: se cotiza sin él y vuelve en `couponRejection` (el caller decide si corta).
+ * - Medio de pago excluido por una promo: error PAYMENT_METHOD_NOT_ALLOWED (ver lib/payment-methods).
+ * - Envío por zona del destino: SHIPPING_NOT_AVAILABLE / SHIPPING_UNAVAILABLE (ver lib/shipping).
+ * - Papel de regalo: se suma al total como su propio cargo (ver lib/gift-options).
+ */
+export async function computeOrderTotals(params: {
+  items: ClientOrderItem[];
+  coupon?: string | null;
+  shippingMethod: ShippingMethod;
+  destination?: ShippingDestination | null;
+  carrierId?: string | null;
+  paymentMethod?: {
+    provider?: string | null;
+    type?: string | null;
+    installments?: number | string | null;
+  } | null;
+  giftWrap?: boolean;
+  customerEmail?: string | null; // límite de usos del cupón por cliente
+  excludeOrderDocumentId?: string | null; // reintento: la orden ya tiene el cupón y no cuenta como uso
+}): Promise<ServerOrderTotals & { missing: PriceMismatchLine[] }> {
+  const { items, shippingMethod } = params;
+  const coupon = String(params.coupon ?? "").trim();
+
+  const [{ byDoc, byId }, sales] = await Promise.all([fetchProductsForItems(items), fetchFlashSales()]);
+  const now = new Date();
+
+  const priced: PricedOrderItem[] = [];
+  const missing: PriceMismatchLine[] = [];
+
+  for (const it of items) {
+    const qty = readQty(it?.qty);
+    if (!qty) continue;
+
+    const doc = String(it?.productDocumentId ?? "").trim();
+    const idNum = Math.trunc(toNum(it?.productId, 0));
+    const row = (doc ? byDoc.get(doc) : null) ?? (idNum > 0 ? byId.get(idNum) : null);
+
+    if (!row) {
+      missing.push({
+        productDocumentId: doc || null,
+        productId: idNum > 0 ? idNum : null,
+        title: String(it?.title ?? "Producto"),
+        reason: "not_found",
+        clientUnitPrice: readMoneyOrNull(it?.unit_price),
+        serverUnitPrice: null,
+        price: null,
+        off: null,
+      });
+      continue;
+    }
+
+    const attr = pickAttr(row);
+    const price = Math.round(toNum(attr?.price ?? row?.price, 0));
+    const off = productFlashSale(row, sales, now).off;
+
+    priced.push({
+      productId: Math.trunc(toNum(row?.id ?? attr?.id, 0)),
+      productDocumentId: pickDocumentId(row),
+      slug: String(attr?.slug ?? it?.slug ?? "").trim(),
+      title: String(attr?.title ?? it?.title ?? "Producto"),
+      qty,
+      unit_price: priceWithOff(price, off),
+      price,
+      off,
+      imageUrl: getStrapiImageUrlFromAttributes(attr) ?? null,
+      category: attr?.category ? String(attr.category) : null,
+      ...readProductDimensions(row),
+      heatSensitive: readHeatSensitive(row),
+      giftCard: readGiftCardFlag(row),
+      discount: 0,
+      discountPromotions: [],
+    });
+  }
+
+  const rawSubtotal = priced.reduce((acc, it) => acc + it.unit_price * it.qty, 0);
+
+  let quote = normalizePromotionQuote(null, rawSubtotal);
+  let couponApplied: string | null = null;
+  let couponRejection: CouponRejection | null = null;
+
+  const quoteItems = priced
+    .filter((it) => it.productId > 0)
+    .map((it) => ({ id: it.productId, qty: it.qty }));
+
+  if (quoteItems.length) {
+    try {
+      const result = await requestPromotionQuote(
+        { items: quoteItems, coupon: coupon || "", shipping: 0 },
+        { customerEmail: params.customerEmail ?? null, excludeOrderDocumentId: params.excludeOrderDocumentId ?? null }
+      );
+      quote = normalizePromotionQuote(result.data, rawSubtotal);
+      couponRejection = result.couponRejection;
+      couponApplied = coupon && !couponRejection ? coupon : null;
+    } catch (e: any) {
+      console.error("[pricing] quote failed, sin descuentos:", e?.message || e);
+    }
+  }
+
+  // ✅ Descuento por línea (para los items de la orden y el comprobante). Si el producto viene en más de una
+  // línea, el descuento (y cada promo) se reparte entre todas según lo que cobra cada una
+  for (const ld of quote.lineDiscounts) {
+    const lines = priced.filter((p) => p.productId === ld.id);
+    if (!lines.length) continue;
+
+    const weights = lines.map((it) => it.unit_price * it.qty);
+    const shares = allocateByWeight(ld.discount, weights);
+    const promoShares = ld.promotions.map((p) => allocateByWeight(toNum(p?.amount, 0), weights));
+
+    lines.forEach((it, i) => {
+      it.discount = shares[i];
+      it.discountPromotions = ld.promotions
+        .map((p, k) => ({ ...p, amount: promoShares[k][i] }))
+        .filter((p) => p.amount > 0);
+    });
+  }
+
+  // ✅ Restricciones de medios de pago de las promos aplicadas
+  let paymentConstraints = emptyPaymentConstraints();
+  if (quote.appliedPromotions.length) {
+    try {
+      paymentConstraints = await resolvePaymentConstraints(quote.appliedPromotions);
+    } catch (e: any) {
+      // ⚠️ Sin restricciones no podemos cobrar recargos/descuentos por medio: mejor cortar
+      const err: any = new Error("PAYMENT_CONSTRAINTS_UNAVAILABLE");
+      err.code = "PAYMENT_CONSTRAINTS_UNAVAILABLE";
+      err.details = e?.message || String(e);
+      throw err;
+    }
+  }
+
+  const paymentMethod = resolvePaymentChoice(params.paymentMethod ?? null, paymentConstraints, quote.total, {
+    shippingMethod,
+  });
+
+  // ✅ Envío sobre el total con descuentos (igual que checkout); el ajuste por medio de pago no lo mueve
+  const shippingQuote = await quoteShipping({
+    method: shippingMethod,
+    destination: params.destination ?? null,
+    carrierId: params.carrierId ?? null,
+    subtotal: quote.total,
+    lines: priced.filter((it) => !it.giftCard).map(toShippingLine),
+  });
+  const shippingCost = shippingQuote.cost;
+  const giftWrapCost = params.giftWrap ? giftWrapPrice() ?? 0 : 0;
+  const total = Math.max(0, quote.total + paymentMethod.adjustmentAmount + shippingCost + giftWrapCost);
+
+  return {
+    items: priced,
+    subtotal: quote.subtotal,
+    discountTotal: quote.discountTotal,
+    shippingCost,
+    shippingQuote,
+    paymentAdjustment: paymentMethod.adjustmentAmount,
+    giftWrapCost,
+    total,
+    appliedPromotions: quote.appliedPromotions,
+    couponApplied,
+    couponRejection,
+    paymentMethod,
+    paymentConstraints,
+    missing,
+  };
+}
+
+/**
+ * Compara lo que mandó el cliente contra lo recalculado.
+ * Devuelve las líneas y totales que no coinciden (vacío = ok).
+ */
+export function findPriceMismatches(params: {
+  clientItems: ClientOrderItem[];
+  clientTotals: Partial<Record<PriceMismatchTotal["field"], any>>;
+  server: ServerOrderTotals & { missing: PriceMismatchLine[] };
+}) {
+  const { clientItems, clientTotals, server } = params;
+
+  const lines: PriceMismatchLine[] = [...server.missing];
+
+  for (const it of clientItems) {
+    if (!readQty(it?.qty)) continue;
+
+    const doc = String(it?.productDocumentId ?? "").trim();
+    const idNum = Math.trunc(toNum(it?.productId, 0));
+
+    const match = server.items.find((p) =>
+      doc ? p.productDocumentId === doc : idNum > 0 && p.productId === idNum
+    );
+    if (!match) continue;
+
+    const clientUnit = readMoneyOrNull(it?.unit_price);
+    if (clientUnit !== match.unit_price) {
+      lines.push({
+        productDocumentId: match.productDocumentId,
+        productId: match.productId,
+        title: match.title,
+        reason: "price_changed",
+        clientUnitPrice: clientUnit,
+        serverUnitPrice: match.unit_price,
+        price: match.price,
+        off: match.off,
+      });
+    }
+  }
+
+  const totals: PriceMismatchTotal[] = [];
+  const fields: PriceMismatchTotal["field"][] = [
+    "subtotal",
+    "discountTotal",
+    "shippingCost",
+    "paymentAdjustment",
+    "giftWrapCost",
+    "total",
+  ];
+
+  for (const field of fields) {
+    const client = Math.round(toNum(clientTotals?.[field], 0));
+    const srv = server[field];
+    if (client !== srv) totals.push({ field, client, server: srv });
+  }
+
+  return { lines, totals };
+}
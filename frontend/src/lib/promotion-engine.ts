@@ -0,0 +1,766 @@
+// src/lib/promotion-engine.ts
+import type { AppliedPromotion, LineDiscount, PromotionLineAllocation, PromotionQuote } from "@/lib/promotion-quote";
+
+/**
+ * Motor de promociones local: mismo contrato que el controller custom de Strapi (`POST /promotions/quote`),
+ * pero determinístico y sin red (recibe precios, promos y usos del cupón ya leídos). Lo usa lib/promotion-quote
+ * para validar cupones y cuando Strapi no responde (o con PROMOTIONS_ENGINE=local).
+ *
+ * Reglas (campos de la colección `promotions`, los mismos que muestra /promociones):
+ * - `enabled` y publicada; `requiresCoupon` + `code`: solo con ese cupón (sin distinguir mayúsculas).
+ * - Mínimos: `minSubtotal` ($, sobre el subtotal con `off`), `minBoxes` (unidades: cada unidad es una caja)
+ *   y `minItems` (productos distintos).
+ * - `discountType`: `percent` (% sobre lo que queda) o `fixed` / `amount` ($ fijo, hasta lo que queda), y por unidades:
+ *   - `bogo` ("llevá 3, pagá 2"): cada `buyQty` + `getQty` unidades, las `getQty` más baratas con `discountValue`%
+ *     de descuento (vacío = gratis).
+ *   - `bundle` (combo a precio fijo): `bundleItems` = [{ product (id, documentId o slug) o category, qty }];
+ *     cada combo completo se cobra `bundlePrice`.
+ *   Una unidad entra en un solo bogo / combo.
+ * - `allowedProducts` / `deniedProducts` / `allowedCategories` / `deniedCategories`: productos que participan
+ *   (sin listas, todo el carrito).
+ * - Orden: `priority` ascendente (después id). Cada descuento se calcula sobre lo que queda de cada línea.
+ * - `combinable: false`: solo si es la primera que aplica; corta las que siguen.
+ * - Cupón: no se combina con otras promos. Además:
+ *   - `couponPolicy`: qué hacer con los productos con `off` (ver CouponPolicy; default `block`, la regla de siempre).
+ *   - `startsAt` / `endsAt` (ISO) y `maxUses` / `maxUsesPerUser` (órdenes no canceladas con ese cupón).
+ *   Los mínimos y el descuento del cupón se calculan sobre los productos a los que aplica.
+ *
+ * Cada promo aplicada trae `lines` (cuánto descontó en cada producto) y el quote `lineDiscounts` (total por producto),
+ * para guardarlo en los items de la orden y mostrarlo en el comprobante.
+ * Devuelve además `explanation` (una línea por promo con si aplicó, cuánto y por qué no)
+ * y `couponRejection` (código + mensaje) si el cupón no se pudo usar.
+ */
+
+export type PromotionDiscountType = "percent" | "fixed" | "bogo" | "bundle";
+
+/**
+ * Cupón y productos que ya tienen `off`:
+ * - `block`: si el carrito tiene alguno, el cupón no se puede usar.
+ * - `exclude_discounted`: el cupón aplica solo a los productos sin `off`.
+ * - `full_cart`: aplica a todo el carrito (también sobre lo que ya tiene `off`).
+ */
+export type CouponPolicy = "block" | "exclude_discounted" | "full_cart";
+
+/** Strapi v4 (attributes) / v5 (plano): los mismos campos que `promociones/page.tsx` + los del cupón */
+export type PromotionAttributes = {
+  name?: string;
+  enabled?: boolean;
+  publishedAt?: string | null;
+  requiresCoupon?: boolean;
+  code?: string | null;
+  discountType?: string;
+  discountValue?: number;
+  minSubtotal?: number | null;
+  minBoxes?: number | null;
+  minItems?: number | null;
+  combinable?: boolean;
+  priority?: number;
+  couponPolicy?: string | null;
+  allowedProducts?: Array<string | number> | string | null;
+  deniedProducts?: Array<string | number> | string | null;
+  allowedCategories?: string[] | string | null;
+  deniedCategories?: string[] | string | null;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  maxUses?: number | null;
+  maxUsesPerUser?: number | null;
+  buyQty?: number | null;
+  getQty?: number | null;
+  bundleItems?: any;
+  bundlePrice?: number | null;
+};
+
+/** Componente del combo: un producto (id, documentId o slug) o cualquiera de una categoría */
+export type BundleComponent = {
+  products: string[]; // en minúscula
+  category: string | null; // en minúscula
+  qty: number;
+};
+
+export type PromotionRule = {
+  id: number;
+  name: string;
+  enabled: boolean;
+  requiresCoupon: boolean;
+  code: string | null;
+  discountType: PromotionDiscountType | null; // null = tipo que no conocemos
+  rawDiscountType: string;
+  discountValue: number;
+  minSubtotal: number;
+  minBoxes: number;
+  minItems: number;
+  combinable: boolean;
+  priority: number;
+  couponPolicy: CouponPolicy;
+  allowedProducts: string[]; // en minúscula (id, documentId o slug)
+  deniedProducts: string[];
+  allowedCategories: string[]; // en minúscula
+  deniedCategories: string[];
+  startsAt: string | null;
+  endsAt: string | null;
+  maxUses: number | null;
+  maxUsesPerUser: number | null;
+  buyQty: number; // bogo: unidades que se pagan
+  getQty: number; // bogo: unidades con descuento
+  bundleItems: BundleComponent[];
+  bundlePrice: number;
+};
+
+export type PromotionLine = {
+  id: number;
+  documentId?: string | null;
+  slug?: string | null;
+  category?: string | null;
+  qty: number;
+  unitPrice: number; // con `off` aplicado
+  off?: number | null;
+  flashSale?: boolean; // `off` de una oferta relámpago vigente (Strapi no la conoce)
+};
+
+/** Usos del cupón (órdenes no canceladas); `byUser` null = no sabemos quién compra */
+export type CouponUsage = { total: number; byUser: number | null };
+
+export type CouponRejectionCode =
+  | "COUPON_NOT_FOUND"
+  | "COUPON_NOT_STARTED"
+  | "COUPON_EXPIRED"
+  | "COUPON_USAGE_LIMIT"
+  | "COUPON_USER_LIMIT"
+  | "COUPON_UNAVAILABLE"
+  | "DISCOUNTED_ITEMS"
+  | "NO_ELIGIBLE_ITEMS"
+  | "MIN_NOT_MET";
+
+export type CouponRejection = {
+  code: CouponRejectionCode;
+  message: string; // para mostrar tal cual en carrito / checkout
+  promotionId: number | null;
+};
+
+export type PromotionSkipReason =
+  | "disabled"
+  | "unknown_type"
+  | "coupon_required"
+  | "coupon_mismatch"
+  | "coupon_rejected"
+  | "coupon_exclusive"
+  | "min_subtotal"
+  | "min_boxes"
+  | "min_items"
+  | "not_combinable"
+  | "blocked_by_exclusive"
+  | "missing_units"
+  | "no_discount";
+
+export type PromotionExplanation = {
+  id: number;
+  name: string;
+  code: string | null;
+  applied: boolean;
+  amount: number;
+  reason: PromotionSkipReason | null;
+  message: string;
+};
+
+export type PromotionEngineQuote = PromotionQuote & {
+  explanation: PromotionExplanation[];
+  couponRejection: CouponRejection | null;
+};
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+function formatARS(n: number) {
+  return n.toLocaleString("es-AR", { style: "currency", currency: "ARS" });
+}
+
+/** Array JSON (campo json de Strapi) o texto separado por comas → strings en minúscula */
+function readList(v: any): string[] {
+  let raw = v;
+  if (typeof v === "string") {
+    try {
+      raw = v.trim().startsWith("[") ? JSON.parse(v) : v.split(",");
+    } catch {
+      raw = [];
+    }
+  }
+  if (!Array.isArray(raw)) return [];
+  return raw.map((x) => String(x ?? "").trim().toLowerCase()).filter(Boolean);
+}
+
+function readLimit(v: any) {
+  const n = Math.floor(toNum(v, 0));
+  return n > 0 ? n : null;
+}
+
+function readDate(v: any) {
+  const s = String(v ?? "").trim();
+  const t = s ? Date.parse(s) : NaN;
+  return Number.isFinite(t) ? new Date(t).toISOString() : null;
+}
+
+function readDiscountType(v: any): PromotionDiscountType | null {
+  const s = String(v ?? "").trim().toLowerCase();
+  if (s === "percent" || s === "percentage") return "percent";
+  if (s === "fixed" || s === "amount" || s === "fixed_amount") return "fixed";
+  if (s === "bogo" || s === "buy_x_get_y" || s === "nxm") return "bogo";
+  if (s === "bundle" || s === "combo") return "bundle";
+  return null;
+}
+
+function readBundleItems(v: any): BundleComponent[] {
+  let raw = v;
+  if (typeof v === "string") {
+    try {
+      raw = JSON.parse(v);
+    } catch {
+      raw = [];
+    }
+  }
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((c: any) => {
+      const products = readList(
+        Array.isArray(c?.products) ? c.products : [c?.product ?? c?.slug ?? c?.documentId ?? c?.id].filter((x) => x != null)
+      );
+      const category = String(c?.category ?? "").trim().toLowerCase() || null;
+      return { products, category, qty: Math.max(1, Math.floor(toNum(c?.qty, 1))) };
+    })
+    .filter((c) => c.products.length > 0 || c.category);
+}
+
+function readCouponPolicy(v: any): CouponPolicy {
+  const s = String(v ?? "").trim().toLowerCase();
+  return s === "exclude_discounted" || s === "full_cart" ? s : "block";
+}
+
+/** Promo de Strapi (v4/v5) → regla tipada; null si no tiene id */
+export function readPromotionRule(row: any): PromotionRule | null {
+  if (!row) return null;
+  const a: PromotionAttributes = row?.attributes ?? row;
+  const id = Math.trunc(toNum(row?.id ?? (a as any)?.id, 0));
+  if (id <= 0) return null;
+
+  const code = String(a?.code ?? "").trim() || null;
+  // camelCase o snake_case según cómo se haya creado el campo en Strapi
+  const pick = (camel: string, snake: string) => (a as any)?.[camel] ?? (a as any)?.[snake];
+
+  return {
+    id,
+    name: String(a?.name ?? "").trim() || "Promoción",
+    enabled: a?.enabled !== false && a?.publishedAt !== null,
+    requiresCoupon: Boolean(a?.requiresCoupon),
+    code,
+    discountType: readDiscountType(a?.discountType),
+    rawDiscountType: String(a?.discountType ?? ""),
+    discountValue: Math.max(0, toNum(a?.discountValue, 0)),
+    minSubtotal: Math.max(0, toNum(a?.minSubtotal, 0)),
+    minBoxes: Math.max(0, Math.floor(toNum(a?.minBoxes, 0))),
+    minItems: Math.max(0, Math.floor(toNum(a?.minItems, 0))),
+    combinable: Boolean(a?.combinable),
+    priority: toNum(a?.priority, 0),
+    couponPolicy: readCouponPolicy(pick("couponPolicy", "coupon_policy")),
+    allowedProducts: readList(pick("allowedProducts", "allowed_products")),
+    deniedProducts: readList(pick("deniedProducts", "denied_products")),
+    allowedCategories: readList(pick("allowedCategories", "allowed_categories")),
+    deniedCategories: readList(pick("deniedCategories", "denied_categories")),
+    startsAt: readDate(pick("startsAt", "starts_at")),
+    endsAt: readDate(pick("endsAt", "ends_at")),
+    maxUses: readLimit(pick("maxUses", "max_uses")),
+    maxUsesPerUser: readLimit(pick("maxUsesPerUser", "max_uses_per_user")),
+    buyQty: Math.max(1, Math.floor(toNum(pick("buyQty", "buy_qty"), 1))),
+    getQty: Math.max(1, Math.floor(toNum(pick("getQty", "get_qty"), 1))),
+    bundleItems: readBundleItems(pick("bundleItems", "bundle_items")),
+    bundlePrice: Math.max(0, Math.round(toNum(pick("bundlePrice", "bundle_price") ?? a?.discountValue, 0))),
+  };
+}
+
+/** Promo activa que corresponde al cupón (sin distinguir mayúsculas) */
+export function findCouponRule(promotions: PromotionRule[], coupon?: string | null) {
+  const code = String(coupon ?? "").trim().toLowerCase();
+  if (!code) return null;
+  return promotions.find((r) => r.enabled && r.requiresCoupon && r.code?.toLowerCase() === code) ?? null;
+}
+
+/** ¿Hay que contar usos del cupón? (así no consultamos órdenes si no tiene límites) */
+export function couponHasUsageLimits(rule: PromotionRule) {
+  return rule.maxUses != null || rule.maxUsesPerUser != null;
+}
+
+function dateLabel(iso: string) {
+  return new Date(iso).toLocaleDateString("es-AR", { timeZone: "America/Argentina/Buenos_Aires" });
+}
+
+export function couponRejectionMessage(code: CouponRejectionCode, rule?: PromotionRule | null) {
+  switch (code) {
+    case "COUPON_NOT_FOUND":
+      return "El cupón no existe o ya no está activo.";
+    case "COUPON_NOT_STARTED":
+      return rule?.startsAt
+        ? `El cupón se puede usar desde el ${dateLabel(rule.startsAt)}.`
+        : "El cupón todavía no está vigente.";
+    case "COUPON_EXPIRED":
+      return rule?.endsAt ? `El cupón venció el ${dateLabel(rule.endsAt)}.` : "El cupón venció.";
+    case "COUPON_USAGE_LIMIT":
+      return "El cupón ya se usó la cantidad máxima de veces.";
+    case "COUPON_USER_LIMIT":
+      return "Ya usaste este cupón la cantidad máxima de veces.";
+    case "COUPON_UNAVAILABLE":
+      return "No pudimos validar el cupón. Probá de nuevo en unos minutos.";
+    case "DISCOUNTED_ITEMS":
+      return rule?.couponPolicy === "exclude_discounted"
+        ? "El cupón aplica solo a productos sin descuento."
+        : "El cupón no se puede usar con productos que ya tienen descuento.";
+    case "NO_ELIGIBLE_ITEMS":
+      return "El cupón no aplica a ninguno de los productos del carrito.";
+    case "MIN_NOT_MET":
+      return rule?.minSubtotal
+        ? `El cupón pide una compra mínima de ${formatARS(rule.minSubtotal)} en los productos que participan.`
+        : "El carrito no llega al mínimo del cupón.";
+  }
+}
+
+function lineKeys(l: PromotionLine) {
+  return [String(l.id), l.documentId, l.slug].map((k) => String(k ?? "").trim().toLowerCase()).filter(Boolean);
+}
+
+/** Productos que participan del cupón según las listas (sin mirar la política con `off`) */
+function listedLines(rule: PromotionRule, lines: PromotionLine[]) {
+  const restricted = rule.allowedProducts.length > 0 || rule.allowedCategories.length > 0;
+
+  return lines.filter((l) => {
+    const keys = lineKeys(l);
+    const category = String(l.category ?? "").trim().toLowerCase();
+
+    if (rule.deniedProducts.some((k) => keys.includes(k))) return false;
+    if (category && rule.deniedCategories.includes(category)) return false;
+    if (!restricted) return true;
+    return rule.allowedProducts.some((k) => keys.includes(k)) || (!!category && rule.allowedCategories.includes(category));
+  });
+}
+
+function measure(lines: PromotionLine[]) {
+  return {
+    subtotal: Math.round(
+      lines.reduce((acc, l) => acc + Math.max(0, toNum(l.unitPrice, 0)) * Math.floor(toNum(l.qty, 0)), 0)
+    ),
+    boxes: lines.reduce((acc, l) => acc + Math.floor(toNum(l.qty, 0)), 0),
+    items: new Set(lines.map((l) => l.id)).size,
+  };
+}
+
+type CartMeasure = ReturnType<typeof measure>;
+
+function unmetMinimum(rule: PromotionRule, m: CartMeasure): "min_subtotal" | "min_boxes" | "min_items" | null {
+  if (rule.minSubtotal > 0 && m.subtotal < rule.minSubtotal) return "min_subtotal";
+  if (rule.minBoxes > 0 && m.boxes < rule.minBoxes) return "min_boxes";
+  if (rule.minItems > 0 && m.items < rule.minItems) return "min_items";
+  return null;
+}
+
+/** Vigencia, usos, productos que participan y política con `off`: líneas del cupón o el motivo del rechazo */
+function checkCoupon(
+  rule: PromotionRule,
+  lines: PromotionLine[],
+  usage: CouponUsage | null,
+  now: Date
+): { lines: PromotionLine[]; rejection: null } | { lines: null; rejection: CouponRejectionCode } {
+  const reject = (rejection: CouponRejectionCode) => ({ lines: null, rejection });
+
+  const t = now.getTime();
+  if (rule.startsAt && t < Date.parse(rule.startsAt)) return reject("COUPON_NOT_STARTED");
+  if (rule.endsAt && t > Date.parse(rule.endsAt)) return reject("COUPON_EXPIRED");
+
+  if (couponHasUsageLimits(rule)) {
+    if (!usage) return reject("COUPON_UNAVAILABLE");
+    if (rule.maxUses != null && usage.total >= rule.maxUses) return reject("COUPON_USAGE_LIMIT");
+    if (rule.maxUsesPerUser != null && usage.byUser != null && usage.byUser >= rule.maxUsesPerUser) {
+      return reject("COUPON_USER_LIMIT");
+    }
+  }
+
+  const listed = listedLines(rule, lines);
+  if (!listed.length) return reject("NO_ELIGIBLE_ITEMS");
+
+  const hasOff = (l: PromotionLine) => toNum(l.off, 0) > 0;
+  if (rule.couponPolicy === "block" && listed.some(hasOff)) return reject("DISCOUNTED_ITEMS");
+
+  const eligible = rule.couponPolicy === "exclude_discounted" ? listed.filter((l) => !hasOff(l)) : listed;
+  if (!eligible.length) return reject("DISCOUNTED_ITEMS");
+  if (unmetMinimum(rule, measure(eligible))) return reject("MIN_NOT_MET");
+
+  return { lines: eligible, rejection: null };
+}
+
+/** Reparte `amount` según `weights` (resto mayor): enteros, y ninguna línea recibe más que su peso */
+export function allocateByWeight(amount: number, weights: number[]): number[] {
+  const w = weights.map((x) => Math.max(0, Math.floor(x)));
+  const total = w.reduce((acc, x) => acc + x, 0);
+  const capped = Math.min(Math.max(0, Math.round(amount)), total);
+  if (capped <= 0) return w.map(() => 0);
+
+  const raw = w.map((x) => (capped * x) / total);
+  const out = raw.map((r) => Math.floor(r));
+  let left = capped - out.reduce((acc, n) => acc + n, 0);
+
+  const byFraction = raw.map((r, i) => ({ i, frac: r - out[i] })).sort((a, b) => b.frac - a.frac || a.i - b.i);
+  for (const { i } of byFraction) {
+    if (left <= 0) break;
+    if (out[i] < w[i]) {
+      out[i] += 1;
+      left -= 1;
+    }
+  }
+  return out;
+}
+
+/** Estado por línea mientras se aplican las promos: lo que queda por cobrar y las unidades libres para bogo / combos */
+type LineState = { rest: number[]; units: number[]; qty: number[] };
+
+function unitValue(state: LineState, i: number) {
+  return state.qty[i] > 0 ? state.rest[i] / state.qty[i] : 0;
+}
+
+// `count`: grupos de bogo / combos aplicados; `incomplete`: no alcanzan las unidades para uno solo
+type RuleResult = { perLine: number[]; units: number[]; count: number; incomplete: boolean };
+
+/** percent / fixed sobre lo que queda de las líneas `idxs` */
+function amountDiscount(rule: PromotionRule, idxs: number[], state: LineState): RuleResult {
+  const perLine = state.rest.map(() => 0);
+  const base = idxs.reduce((acc, i) => acc + state.rest[i], 0);
+  const amount =
+    rule.discountType === "percent"
+      ? Math.round((base * Math.min(100, rule.discountValue)) / 100)
+      : Math.round(Math.min(base, rule.discountValue));
+
+  allocateByWeight(amount, idxs.map((i) => state.rest[i])).forEach((a, k) => (perLine[idxs[k]] = a));
+  return { perLine, units: state.rest.map(() => 0), count: 0, incomplete: false };
+}
+
+/** "Llevá buyQty + getQty, pagá buyQty": de más cara a más barata, en cada grupo las últimas `getQty` */
+function bogoDiscount(rule: PromotionRule, idxs: number[], state: LineState): RuleResult {
+  const perLine = state.rest.map(() => 0);
+  const units = state.rest.map(() => 0);
+  const group = rule.buyQty + rule.getQty;
+  const pct = rule.discountValue > 0 ? Math.min(100, rule.discountValue) : 100;
+
+  const list = idxs
+    .flatMap((i) => Array.from({ length: state.units[i] }, () => ({ i, value: unitValue(state, i) })))
+    .sort((a, b) => b.value - a.value || a.i - b.i);
+  const groups = Math.floor(list.length / group);
+
+  const raw = state.rest.map(() => 0);
+  list.slice(0, groups * group).forEach((u, pos) => {
+    units[u.i] += 1;
+    if (pos % group >= rule.buyQty) raw[u.i] += (u.value * pct) / 100;
+  });
+  raw.forEach((r, i) => (perLine[i] = Math.min(state.rest[i], Math.round(r))));
+
+  return { perLine, units, count: groups, incomplete: groups === 0 };
+}
+
+function matchesComponent(c: BundleComponent, l: PromotionLine) {
+  const category = String(l.category ?? "").trim().toLowerCase();
+  return c.products.some((k) => lineKeys(l).includes(k)) || (!!c.category && c.category === category);
+}
+
+/** Combos a `bundlePrice`: arma todos los que puede (con las unidades más caras, lo más conveniente para el cliente) */
+function bundleDiscount(rule: PromotionRule, idxs: number[], lines: PromotionLine[], state: LineState): RuleResult {
+  const perLine = state.rest.map(() => 0);
+  const units = state.rest.map(() => 0);
+  const byValue = [...idxs].sort((a, b) => unitValue(state, b) - unitValue(state, a) || a - b);
+  let count = 0;
+  let incomplete = true;
+
+  while (rule.bundleItems.length) {
+    const picked = state.rest.map(() => 0);
+    const free = (i: number) => state.units[i] - units[i] - picked[i];
+
+    const complete = rule.bundleItems.every((c) => {
+      for (let n = 0; n < c.qty; n++) {
+        const i = byValue.find((i) => free(i) > 0 && matchesComponent(c, lines[i]));
+        if (i == null) return false;
+        picked[i] += 1;
+      }
+      return true;
+    });
+    if (!complete) break;
+    incomplete = false;
+
+    // Valor de las unidades del combo, con tope en lo que queda de cada línea (combos anteriores incluidos)
+    const room = picked.map((n, i) => Math.min(Math.floor(n * unitValue(state, i)), state.rest[i] - perLine[i]));
+    const discount = room.reduce((acc, x) => acc + x, 0) - rule.bundlePrice;
+    if (discount <= 0) break;
+
+    allocateByWeight(discount, room).forEach((a, i) => (perLine[i] += a));
+    picked.forEach((n, i) => (units[i] += n));
+    count += 1;
+  }
+
+  return { perLine, units, count, incomplete };
+}
+
+function skipMessage(rule: PromotionRule, reason: PromotionSkipReason, ctx: CartMeasure) {
+  switch (reason) {
+    case "disabled":
+      return "No está activa.";
+    case "unknown_type":
+      return `Tipo de descuento desconocido (${rule.rawDiscountType || "vacío"}).`;
+    case "coupon_required":
+      return `Requiere el cupón ${rule.code ?? ""}.`.replace(" .", ".");
+    case "coupon_mismatch":
+      return "El cupón ingresado es otro.";
+    case "coupon_rejected":
+      return "El cupón no se pudo usar.";
+    case "coupon_exclusive":
+      return "Con cupón no se combinan otras promos.";
+    case "min_subtotal":
+      return `Mínimo de compra ${formatARS(rule.minSubtotal)} (tenés ${formatARS(ctx.subtotal)}).`;
+    case "min_boxes":
+      return `Mínimo ${rule.minBoxes} cajas (tenés ${ctx.boxes}).`;
+    case "min_items":
+      return `Mínimo ${rule.minItems} productos distintos (tenés ${ctx.items}).`;
+    case "not_combinable":
+      return "No se combina con las promos que ya aplicaron.";
+    case "blocked_by_exclusive":
+      return "Ya aplicó una promo que no se combina.";
+    case "missing_units":
+      return rule.discountType === "bogo"
+        ? `Llevá ${rule.buyQty + rule.getQty} unidades de los productos que participan.`
+        : "Faltan productos para armar el combo.";
+    case "no_discount":
+      return "No genera descuento en este carrito.";
+  }
+}
+
+function appliedMessage(rule: PromotionRule, amount: number, count: number) {
+  switch (rule.discountType) {
+    case "percent":
+      return `${rule.discountValue}% OFF: -${formatARS(amount)}.`;
+    case "bogo":
+      return `Llevá ${rule.buyQty + rule.getQty}, pagá ${rule.buyQty} (x${count}): -${formatARS(amount)}.`;
+    case "bundle":
+      return `${count} combo${count === 1 ? "" : "s"} a ${formatARS(rule.bundlePrice)}: -${formatARS(amount)}.`;
+    default:
+      return `-${formatARS(amount)}.`;
+  }
+}
+
+/** Total por producto (con el detalle por promo) a partir de `lines` de cada promo aplicada */
+export function summarizeLineDiscounts(applied: AppliedPromotion[]): LineDiscount[] {
+  const byId = new Map<number, LineDiscount>();
+  for (const p of applied) {
+    for (const l of p.lines ?? []) {
+      if (!(l.amount > 0)) continue;
+      const row = byId.get(l.id) ?? { id: l.id, discount: 0, promotions: [] };
+      row.discount += l.amount;
+      row.promotions.push({ id: p.id, name: p.name, amount: l.amount });
+      byId.set(l.id, row);
+    }
+  }
+  return Array.from(byId.values());
+}
+
+/**
+ * Para quotes que no traen el detalle por línea (controller de Strapi): reparte cada promo entre los productos
+ * en proporción a lo que queda de cada uno, en el orden en que vienen.
+ */
+export function allocateQuoteLines(lines: PromotionLine[], applied: AppliedPromotion[]) {
+  const live = lines.filter((l) => toNum(l.qty, 0) > 0);
+  const rest = live.map((l) => Math.round(Math.max(0, toNum(l.unitPrice, 0)) * Math.floor(toNum(l.qty, 0))));
+
+  const appliedPromotions = applied.map((p) => {
+    if (Array.isArray(p.lines) && p.lines.length) return p;
+    const perLine = allocateByWeight(toNum(p.amount, 0), rest);
+    perLine.forEach((a, i) => (rest[i] -= a));
+    return { ...p, lines: toAllocations(live, perLine, null) };
+  });
+
+  return { appliedPromotions, lineDiscounts: summarizeLineDiscounts(appliedPromotions) };
+}
+
+function toAllocations(lines: PromotionLine[], perLine: number[], units: number[] | null): PromotionLineAllocation[] {
+  return perLine
+    .map((amount, i) => ({ id: lines[i].id, amount, ...(units && units[i] ? { units: units[i] } : {}) }))
+    .filter((a) => a.amount > 0);
+}
+
+/**
+ * El controller de Strapi (/promotions/quote) solo sabe de percent / fixed con los precios de Strapi:
+ * con promos `bogo` / `bundle` activas o alguna línea en oferta relámpago, el quote lo hace el motor local.
+ */
+export function needsLocalQuote(lines: PromotionLine[], promotions: PromotionRule[]) {
+  return (
+    lines.some((l) => l.flashSale === true) ||
+    promotions.some((r) => r.discountType === "bogo" || r.discountType === "bundle")
+  );
+}
+
+/**
+ * Calcula el quote. Mismo resultado para la misma entrada (sin red; `now` solo cuenta para la vigencia del cupón).
+ * `couponUsage` hace falta si el cupón tiene `maxUses` / `maxUsesPerUser`: sin él se rechaza (COUPON_UNAVAILABLE).
+ */
+export function evaluatePromotions(input: {
+  lines: PromotionLine[];
+  promotions: PromotionRule[];
+  coupon?: string | null;
+  couponUsage?: CouponUsage | null;
+  now?: Date;
+}): PromotionEngineQuote {
+  const lines = input.lines.filter((l) => toNum(l.qty, 0) > 0);
+  const ctx = measure(lines);
+
+  const coupon = String(input.coupon ?? "").trim();
+  const rules = [...input.promotions].sort((a, b) => a.priority - b.priority || a.id - b.id);
+
+  // El cupón (si corresponde a una promo y puede usarse) gana y va solo
+  const couponRule = findCouponRule(rules, coupon);
+  const couponCheck =
+    couponRule?.discountType ? checkCoupon(couponRule, lines, input.couponUsage ?? null, input.now ?? new Date()) : null;
+
+  const rejectionCode: CouponRejectionCode | null = !coupon
+    ? null
+    : !couponRule?.discountType
+    ? "COUPON_NOT_FOUND"
+    : couponCheck?.rejection ?? null;
+  const couponRejection: CouponRejection | null = rejectionCode
+    ? {
+        code: rejectionCode,
+        message: couponRejectionMessage(rejectionCode, couponRule),
+        promotionId: couponRule?.id ?? null,
+      }
+    : null;
+
+  // Con un cupón que aplica, las promos automáticas no van; si el cupón se rechaza, siguen valiendo
+  const couponLines = couponCheck?.lines ?? null;
+
+  const state: LineState = {
+    rest: lines.map((l) => Math.round(Math.max(0, toNum(l.unitPrice, 0)) * Math.floor(toNum(l.qty, 0)))),
+    units: lines.map((l) => Math.floor(toNum(l.qty, 0))),
+    qty: lines.map((l) => Math.floor(toNum(l.qty, 0))),
+  };
+
+  const explanation: PromotionExplanation[] = [];
+  const appliedPromotions: AppliedPromotion[] = [];
+  let exclusive: PromotionRule | null = null;
+
+  for (const rule of rules) {
+    const skip = (reason: PromotionSkipReason, message?: string) =>
+      explanation.push({
+        id: rule.id,
+        name: rule.name,
+        code: rule.code,
+        applied: false,
+        amount: 0,
+        reason,
+        message: message ?? skipMessage(rule, reason, ctx),
+      });
+
+    if (!rule.enabled) {
+      skip("disabled");
+      continue;
+    }
+    if (!rule.discountType) {
+      skip("unknown_type");
+      continue;
+    }
+
+    // Líneas que participan: las del cupón o las de las listas de la promo
+    let idxs: number[];
+
+    if (rule.requiresCoupon) {
+      if (!coupon) {
+        skip("coupon_required");
+        continue;
+      }
+      if (rule !== couponRule) {
+        skip("coupon_mismatch");
+        continue;
+      }
+      if (!couponLines) {
+        skip("coupon_rejected", couponRejection?.message);
+        continue;
+      }
+      idxs = couponLines.map((l) => lines.indexOf(l));
+    } else {
+      if (couponLines) {
+        skip("coupon_exclusive");
+        continue;
+      }
+      const missing = unmetMinimum(rule, ctx);
+      if (missing) {
+        skip(missing);
+        continue;
+      }
+      idxs = listedLines(rule, lines).map((l) => lines.indexOf(l));
+    }
+
+    if (exclusive) {
+      skip("blocked_by_exclusive");
+      continue;
+    }
+    if (!rule.combinable && appliedPromotions.length) {
+      skip("not_combinable");
+      continue;
+    }
+
+    const result =
+      rule.discountType === "bogo"
+        ? bogoDiscount(rule, idxs, state)
+        : rule.discountType === "bundle"
+        ? bundleDiscount(rule, idxs, lines, state)
+        : amountDiscount(rule, idxs, state);
+
+    const amount = result.perLine.reduce((acc, a) => acc + a, 0);
+    if (amount <= 0) {
+      skip(result.incomplete ? "missing_units" : "no_discount");
+      continue;
+    }
+
+    result.perLine.forEach((a, i) => (state.rest[i] -= a));
+    result.units.forEach((n, i) => (state.units[i] -= n));
+    if (!rule.combinable) exclusive = rule;
+
+    appliedPromotions.push({
+      id: rule.id,
+      name: rule.name,
+      code: rule.code,
+      amount,
+      lines: toAllocations(lines, result.perLine, result.units),
+      meta: {
+        discountType: rule.discountType,
+        discountValue: rule.discountValue,
+        priority: rule.priority,
+        ...(rule.discountType === "bogo" ? { buyQty: rule.buyQty, getQty: rule.getQty, groups: result.count } : {}),
+        ...(rule.discountType === "bundle" ? { bundlePrice: rule.bundlePrice, bundles: result.count } : {}),
+        ...(rule.requiresCoupon
+          ? { couponPolicy: rule.couponPolicy, eligibleSubtotal: measure(couponLines ?? []).subtotal }
+          : {}),
+      },
+    });
+    explanation.push({
+      id: rule.id,
+      name: rule.name,
+      code: rule.code,
+      applied: true,
+      amount,
+      reason: null,
+      message: appliedMessage(rule, amount, result.count),
+    });
+  }
+
+  const discountTotal = appliedPromotions.reduce((acc, p) => acc + p.amount, 0);
+
+  return {
+    subtotal: ctx.subtotal,
+    discountTotal,
+    total: Math.max(0, ctx.subtotal - discountTotal),
+    appliedPromotions,
+    lineDiscounts: summarizeLineDiscounts(appliedPromotions),
+    explanation,
+    couponRejection,
+  };
+}
@@ -0,0 +1,327 @@
+// src/lib/promotion-quote.ts
+import { fetcher } from "@/lib/fetcher";
+import { applyFlashSale, fetchFlashSales } from "@/lib/flash-sales";
+import {
+  allocateQuoteLines,
+  couponHasUsageLimits,
+  couponRejectionMessage,
+  evaluatePromotions,
+  findCouponRule,
+  needsLocalQuote,
+  readPromotionRule,
+  type CouponRejection,
+  type CouponUsage,
+  type PromotionLine,
+  type PromotionRule,
+} from "@/lib/promotion-engine";
+
+export type QuoteItem = { id: number; qty: number };
+
+export type QuoteBody = {
+  items?: QuoteItem[];
+  coupon?: string | null;
+  shipping?: number;
+  [k: string]: any;
+};
+
+export type QuoteOptions = {
+  customerEmail?: string | null; // para `maxUsesPerUser` (sin email se vuelve a chequear al crear la orden)
+  excludeOrderDocumentId?: string | null; // la orden que se recotiza (reintento de pago) no cuenta como uso
+};
+
+export type PromotionQuoteResult = { data: any; couponRejection: CouponRejection | null };
+
+/** Parte de una promo que cae en un producto (`units`: unidades usadas por un bogo / combo) */
+export type PromotionLineAllocation = { id: number; amount: number; units?: number };
+
+export type AppliedPromotion = {
+  id: number;
+  name: string;
+  code?: string | null;
+  amount: number;
+  lines?: PromotionLineAllocation[];
+  meta?: any;
+};
+
+/** Descuento total de un producto del carrito (`id` = id de Strapi) y de qué promos viene */
+export type LineDiscount = {
+  id: number;
+  discount: number;
+  promotions: Array<{ id: number; name: string; amount: number }>;
+};
+
+export type PromotionQuote = {
+  subtotal: number;
+  discountTotal: number;
+  total: number;
+  appliedPromotions: AppliedPromotion[];
+  lineDiscounts: LineDiscount[];
+};
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+function getOffFromProduct(p: any): number {
+  // Strapi v4: { id, attributes: { off } }
+  // Strapi v5 (a veces): { id, off } o { id, attributes: { off } }
+  const off =
+    p?.off ??
+    p?.attributes?.off ??
+    p?.data?.off ??
+    p?.data?.attributes?.off ??
+    0;
+
+  return Math.max(0, toNum(off, 0));
+}
+
+/** "strapi" (default: controller custom, con el motor local de respaldo) o "local" (solo el motor local) */
+function promotionsEngineMode() {
+  return String(process.env.PROMOTIONS_ENGINE ?? "").trim().toLowerCase() === "local" ? "local" : "strapi";
+}
+
+async function fetchActivePromotions(): Promise<PromotionRule[]> {
+  const qs = new URLSearchParams();
+  qs.set("pagination[pageSize]", "100");
+  qs.set("sort[0]", "priority:asc");
+  qs.set("filters[enabled][$eq]", "true");
+  qs.set("filters[publishedAt][$notNull]", "true");
+
+  const res = await fetcher<any>(`/promotions?${qs.toString()}`, { cache: "no-store" });
+  const list = Array.isArray(res?.data) ? res.data : [];
+  return list.map(readPromotionRule).filter(Boolean) as PromotionRule[];
+}
+
+async function fetchQuoteLines(items: QuoteItem[]): Promise<PromotionLine[]> {
+  const qty = new Map<number, number>();
+  for (const it of items) {
+    const id = Math.trunc(toNum(it?.id, 0));
+    const n = Math.floor(toNum(it?.qty, 0));
+    if (id > 0 && n > 0) qty.set(id, (qty.get(id) ?? 0) + n);
+  }
+  if (!qty.size) return [];
+
+  const qs = new URLSearchParams();
+  for (const id of Array.from(qty.keys())) qs.append("filters[id][$in]", String(id));
+  qs.append("fields[0]", "price");
+  qs.append("fields[1]", "off");
+  // slug / category: listas de productos y categorías de los cupones
+  qs.append("fields[2]", "slug");
+  qs.append("fields[3]", "category");
+  qs.append("pagination[pageSize]", String(Math.min(100, qty.size)));
+
+  const [res, sales] = await Promise.all([
+    fetcher<any>(`/products?${qs.toString()}`, { method: "GET", cache: "no-store" }),
+    fetchFlashSales(),
+  ]);
+  const list = Array.isArray(res?.data) ? res.data : Array.isArray(res) ? res : [];
+  const now = new Date();
+
+  return list
+    .map((p: any) => {
+      const id = Math.trunc(toNum(p?.id, 0));
+      const price = Math.round(toNum(p?.price ?? p?.attributes?.price, 0));
+      const attr = p?.attributes ?? p;
+      const documentId = p?.documentId ? String(p.documentId) : null;
+      const slug = attr?.slug ? String(attr.slug) : null;
+      const category = attr?.category ? String(attr.category) : null;
+      // ✅ oferta relámpago vigente (mismo `off` que lib/pricing): cuenta como producto con descuento para los cupones
+      const flash = applyFlashSale({ id, documentId, slug, category }, getOffFromProduct(p), sales, now);
+      const off = flash.off ?? 0;
+      return {
+        id,
+        documentId,
+        slug,
+        category,
+        qty: qty.get(id) ?? 0,
+        // Mismo redondeo que priceWithOff (lib/pricing)
+        unitPrice: off > 0 ? Math.round(price * (1 - off / 100)) : price,
+        off,
+        flashSale: Boolean(flash.sale),
+      };
+    })
+    .filter((l: PromotionLine) => l.id > 0 && l.qty > 0);
+}
+
+/** Órdenes que no cuentan como uso del cupón (mismo criterio que los cupos de lib/delivery-dates) */
+const COUPON_RELEASED_STATUSES = ["cancelled", "failed", "refunded"];
+
+async function countCouponOrders(code: string, extra: Record<string, string>) {
+  const sp = new URLSearchParams();
+  sp.set("filters[coupon][$eqi]", code);
+  COUPON_RELEASED_STATUSES.forEach((s, i) => sp.set(`filters[orderStatus][$notIn][${i}]`, s));
+  for (const [k, v] of Object.entries(extra)) sp.set(k, v);
+  sp.set("fields[0]", "coupon");
+  sp.set("pagination[pageSize]", "1");
+
+  const res = await fetcher<any>(`/api/orders?${sp.toString()}`, { auth: true });
+  const total = Number(res?.meta?.pagination?.total);
+  if (!Number.isFinite(total)) throw new Error("Strapi no devolvió meta.pagination.total");
+  return total;
+}
+
+/**
+ * Usos del cupón (total y de este email). null si no se pudo leer: el motor lo rechaza (COUPON_UNAVAILABLE)
+ * en vez de dejar pasar un cupón agotado.
+ */
+async function fetchCouponUsage(rule: PromotionRule, opts: QuoteOptions): Promise<CouponUsage | null> {
+  const code = String(rule.code ?? "").trim();
+  const email = String(opts.customerEmail ?? "").trim().toLowerCase();
+  const exclude: Record<string, string> = opts.excludeOrderDocumentId
+    ? { "filters[documentId][$ne]": opts.excludeOrderDocumentId }
+    : {};
+
+  try {
+    const [total, byUser] = await Promise.all([
+      rule.maxUses != null ? countCouponOrders(code, exclude) : Promise.resolve(0),
+      rule.maxUsesPerUser != null && email.includes("@")
+        ? countCouponOrders(code, { ...exclude, "filters[email][$eqi]": email })
+        : Promise.resolve(null),
+    ]);
+    return { total, byUser };
+  } catch (e: any) {
+    console.error("[quote] no pude contar usos del cupón:", e?.message || e);
+    return null;
+  }
+}
+
+/**
+ * Segundo chequeo de usos, con la orden ya creada (`orderId` = id numérico de Strapi).
+ * Igual que las reservas de stock: cuentan solo las órdenes con el cupón creadas ANTES (id menor),
+ * así de dos checkouts simultáneos por el último uso pasa el primero y el segundo recibe el rechazo
+ * (orders/create borra su orden). null = el cupón sigue valiendo.
+ */
+export async function recheckCouponUsage(params: {
+  coupon: string;
+  orderId: number;
+  email?: string | null;
+}): Promise<CouponRejection | null> {
+  const rule = findCouponRule(await fetchActivePromotions(), params.coupon);
+  if (!rule || !couponHasUsageLimits(rule)) return null;
+
+  const reject = (code: CouponRejection["code"]): CouponRejection => ({
+    code,
+    message: couponRejectionMessage(code, rule),
+    promotionId: rule.id ?? null,
+  });
+
+  const code = String(rule.code ?? "").trim();
+  const email = String(params.email ?? "").trim().toLowerCase();
+  const before = { "filters[id][$lt]": String(params.orderId) };
+
+  try {
+    if (rule.maxUses != null && (await countCouponOrders(code, before)) >= rule.maxUses) {
+      return reject("COUPON_USAGE_LIMIT");
+    }
+    if (
+      rule.maxUsesPerUser != null &&
+      email.includes("@") &&
+      (await countCouponOrders(code, { ...before, "filters[email][$eqi]": email })) >= rule.maxUsesPerUser
+    ) {
+      return reject("COUPON_USER_LIMIT");
+    }
+  } catch (e: any) {
+    console.error("[quote] no pude volver a contar usos del cupón:", e?.message || e);
+    return reject("COUPON_UNAVAILABLE");
+  }
+
+  return null;
+}
+
+async function quoteLocally(
+  lines: PromotionLine[],
+  promotions: PromotionRule[],
+  input: QuoteBody,
+  opts: QuoteOptions
+): Promise<PromotionQuoteResult> {
+  const coupon = String(input?.coupon ?? "").trim();
+  const couponRule = findCouponRule(promotions, coupon);
+  const couponUsage = couponRule && couponHasUsageLimits(couponRule) ? await fetchCouponUsage(couponRule, opts) : null;
+
+  const quote = evaluatePromotions({ lines, promotions, coupon, couponUsage });
+  return { data: { ...quote, engine: "local" }, couponRejection: quote.couponRejection };
+}
+
+/**
+ * Quote con el motor local (lib/promotion-engine): trae precios, promos y usos del cupón de Strapi y calcula acá.
+ * Misma forma que la respuesta de /promotions/quote + `lineDiscounts`, `explanation`, `couponRejection`
+ * y `engine: "local"`.
+ */
+export async function requestLocalPromotionQuote(
+  input: QuoteBody,
+  opts: QuoteOptions = {}
+): Promise<PromotionQuoteResult> {
+  const items = Array.isArray(input?.items) ? input.items : [];
+  const [lines, promotions] = await Promise.all([fetchQuoteLines(items), fetchActivePromotions()]);
+  return quoteLocally(lines, promotions, input, opts);
+}
+
+/**
+ * Quote de promociones (lo usan /api/promotions/quote y lib/pricing).
+ * - Con cupón: lo valida el motor local (política con `off`, listas, vigencia y usos; ver lib/promotion-engine).
+ *   Si aplica, ese es el quote; si no, se cotiza sin cupón y la respuesta lleva `couponRejection`.
+ * - Con promos `bogo` / `bundle` activas o productos en oferta relámpago: motor local (el controller de Strapi
+ *   solo conoce percent / fixed y cobraría el precio sin la oferta; ver needsLocalQuote).
+ * - Si no: proxy a Strapi (/promotions/quote) con el descuento repartido por producto (`lineDiscounts`);
+ *   si Strapi falla (o PROMOTIONS_ENGINE=local), motor local.
+ */
+export async function requestPromotionQuote(input: QuoteBody, opts: QuoteOptions = {}): Promise<PromotionQuoteResult> {
+  const coupon = String(input?.coupon ?? "").trim();
+
+  if (coupon) {
+    const local = await requestLocalPromotionQuote(input, opts);
+    if (!local.couponRejection) return local;
+
+    const { data } = await requestPromotionQuote({ ...input, coupon: null }, opts);
+    return { data: { ...data, couponRejection: local.couponRejection }, couponRejection: local.couponRejection };
+  }
+
+  const items = Array.isArray(input?.items) ? input.items : [];
+  const [lines, promotions] = await Promise.all([fetchQuoteLines(items), fetchActivePromotions()]);
+
+  if (promotionsEngineMode() === "local" || needsLocalQuote(lines, promotions)) {
+    return quoteLocally(lines, promotions, input, opts);
+  }
+
+  try {
+    const data = await fetcher<any>("/promotions/quote", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...input, coupon: null }),
+      cache: "no-store",
+    });
+
+    if (Array.isArray(data?.lineDiscounts)) return { data, couponRejection: null };
+    const applied = Array.isArray(data?.appliedPromotions) ? data.appliedPromotions : [];
+    return { data: { ...data, ...allocateQuoteLines(lines, applied) }, couponRejection: null };
+  } catch (e: any) {
+    console.error("[quote] Strapi /promotions/quote falló, uso el motor local:", e?.message || e);
+    return quoteLocally(lines, promotions, input, opts);
+  }
+}
+
+/**
+ * Normaliza un quote (mismo criterio que checkout): montos redondeados
+ * y fallback al subtotal sin descuentos si algo viene vacío.
+ */
+export function normalizePromotionQuote(data: any, fallbackSubtotal: number): PromotionQuote {
+  const s = Math.round(toNum(data?.subtotal, fallbackSubtotal));
+  const d = Math.round(toNum(data?.discountTotal, 0));
+  const tot = Math.round(toNum(data?.total, Math.max(0, s - d)));
+  return {
+    subtotal: s,
+    discountTotal: d,
+    total: tot,
+    appliedPromotions: Array.isArray(data?.appliedPromotions) ? data.appliedPromotions : [],
+    lineDiscounts: Array.isArray(data?.lineDiscounts)
+      ? data.lineDiscounts
+          .map((l: any) => ({
+            id: Math.trunc(toNum(l?.id, 0)),
+            discount: Math.round(toNum(l?.discount, 0)),
+            promotions: Array.isArray(l?.promotions) ? l.promotions : [],
+          }))
+          .filter((l: LineDiscount) => l.id > 0 && l.discount > 0)
+      : [],
+  };
+}
@@ -0,0 +1,43 @@
+// src/lib/server-auth.ts
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+
+/**
+ * Auth para endpoints internos (admin / staff).
+ * No hay roles en el front: usamos una API key compartida (ADMIN_API_KEY)
+ * que se manda en `x-admin-key` o `Authorization: Bearer <key>`.
+ */
+
+function safeEqual(a: string, b: string) {
+  const ba = Buffer.from(a);
+  const bb = Buffer.from(b);
+  if (ba.length !== bb.length) return false;
+  return crypto.timingSafeEqual(ba, bb);
+}
+
+function readKey(req: Request) {
+  const header = req.headers.get("x-admin-key");
+  if (header) return header.trim();
+
+  const auth = req.headers.get("authorization") || "";
+  return auth.replace(/^bearer\s+/i, "").trim();
+}
+
+export function isAdminRequest(req: Request) {
+  const expected = String(process.env.ADMIN_API_KEY ?? "").trim();
+  if (expected.length < 16) return false;
+
+  const got = readKey(req);
+  return !!got && safeEqual(got, expected);
+}
+
+/** Devuelve un 401 si el request no trae la API key (o null si está ok). */
+export function requireAdmin(req: Request) {
+  if (isAdminRequest(req)) return null;
+
+  if (String(process.env.ADMIN_API_KEY ?? "").trim().length < 16) {
+    console.error("[admin] falta ADMIN_API_KEY (o es muy corta)");
+  }
+
+  return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+}
@@ -1,10 +1,526 @@
+// src/lib/shipping.ts
+import { fetcher } from "@/lib/fetcher";
+import { enabledCarrierIds, quoteCarriers, type CarrierEta, type CarrierId } from "@/lib/carriers";
+import { describePickupSlot } from "@/lib/pickup-points";
+import { hasDimensions, packParcels, type PackedParcel, type PackingLine } from "@/lib/packing";
+import { activeHeatRule, heatRuleUntil, readHeatRules, type HeatRule } from "@/lib/heat-rules";
+
+/**
+ * Motor de envíos por zonas (colección `shipping-zones` en Strapi).
+ *
+ * Cada zona:
+ * - se asigna por rangos de código postal (prioridad) o por provincia; `isDefault` = resto del país
+ * - cobra por tramos de peso (gramos) o de cantidad de cajas (`tierBasis`; las cajas salen de lib/packing
+ *   si los productos tienen medidas, si no de `itemsPerBox`)
+ * - puede tener envío gratis desde un monto (`freeShippingThreshold`, sobre el total con descuentos)
+ * - puede tener fechas sin envíos (`blackoutDates`: "YYYY-MM-DD" o { from, to, reason })
+ * - puede bloquear o cobrar envío refrigerado para productos sensibles al calor (`heatRules`, ver lib/heat-rules)
+ *
+ * Con correos habilitados (lib/carriers) la zona sigue decidiendo si se envía (blackouts, envío gratis)
+ * pero el costo y la demora los da cada correo: el comprador elige entre esas opciones.
+ *
+ * Lo usan el checkout/carrito (vía /api/shipping/quote), orders/create (lib/pricing) y la factura.
+ */
+
 export type ShippingMethod = "delivery" | "pickup";
 
-export function calcShippingARS(subtotal: number, method: ShippingMethod) {
-  if (method === "pickup") return 0;
+export type ShippingTierBasis = "weight" | "boxes";
+
+export type ShippingTier = {
+  upTo: number; // gramos o cajas (inclusive)
+  cost: number;
+};
+
+export type PostalRange = { from: number; to: number };
+
+export type BlackoutWindow = {
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD (inclusive)
+  reason: string | null;
+};
+
+export type ShippingZone = {
+  id: string;
+  name: string;
+  provinces: string[]; // normalizadas (ver normalizeProvince)
+  postalRanges: PostalRange[];
+  tierBasis: ShippingTierBasis;
+  tiers: ShippingTier[];
+  baseCost: number; // si no hay tramos
+  freeShippingThreshold: number | null;
+  blackouts: BlackoutWindow[];
+  heatRules: HeatRule[];
+  itemsPerBox: number;
+  defaultItemWeightGrams: number;
+  priority: number;
+  isDefault: boolean;
+};
+
+export type ShippingDestination = {
+  province?: string | null;
+  postalCode?: string | null;
+};
+
+/** Unidades del pedido con peso y medidas del producto (ver lib/packing) */
+export type ShippingLine = PackingLine & { heatSensitive?: boolean | null };
+
+/** Snapshot que se guarda en la orden (`shippingQuote`) */
+export type ShippingQuote = {
+  method: ShippingMethod;
+  cost: number;
+  zoneId: string | null;
+  zoneName: string | null;
+  basis: ShippingTierBasis | null;
+  measure: number | null; // gramos o cajas, según basis
+  freeShippingThreshold: number | null;
+  freeShippingApplied: boolean;
+  missingForFreeShipping: number | null;
+  refrigeratedSurcharge: number; // envío refrigerado obligatorio (ya incluido en `cost`)
+  carrierId: CarrierId | null;
+  carrierName: string | null;
+  service: string | null;
+  etaDays: CarrierEta | null;
+  parcels: PackedParcel[] | null; // bultos armados (lib/packing), para el correo y el depósito
+};
+
+export type ShippingUnavailableReason =
+  | "no_destination"
+  | "no_zone"
+  | "blackout"
+  | "heat_sensitive"
+  | "carrier_unavailable";
+
+const ZONES_CACHE_MS = 60_000;
+
+let zonesCache: { at: number; zones: ShippingZone[] } | null = null;
+
+function pickAttr(row: any) {
+  return row?.attributes ?? row ?? {};
+}
+
+function toNum(v: any, def = 0) {
+  const n = typeof v === "number" ? v : Number(v);
+  return Number.isFinite(n) ? n : def;
+}
+
+function readJson(v: any) {
+  if (typeof v !== "string") return v;
+  try {
+    return JSON.parse(v);
+  } catch {
+    return v;
+  }
+}
+
+function shippingNotAvailable(reason: ShippingUnavailableReason, extra: Record<string, any> = {}): never {
+  const err: any = new Error("SHIPPING_NOT_AVAILABLE");
+  err.code = "SHIPPING_NOT_AVAILABLE";
+  err.reason = reason;
+  Object.assign(err, extra);
+  throw err;
+}
+
+/** "Ciudad Autónoma de Buenos Aires" / "CABA" / "capital federal" → "caba" */
+export function normalizeProvince(v: any) {
+  const s = String(v ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z ]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  if (!s) return "";
+  if (s === "caba" || s.includes("ciudad autonoma") || s.includes("capital federal")) return "caba";
+  return s.replace(/^provincia de /, "");
+}
+
+/** CPA ("E3260ABC") o CP viejo ("3260") → 3260; null si no hay 4 dígitos */
+export function normalizePostalCode(v: any): number | null {
+  const m = /(\d{4})/.exec(String(v ?? ""));
+  return m ? Number(m[1]) : null;
+}
+
+function readList(v: any): string[] {
+  const raw = readJson(v);
+  if (Array.isArray(raw)) return raw.map((x) => String(x ?? "")).filter(Boolean);
+  if (typeof raw === "string") return raw.split(/[,;\n]/).map((x) => x.trim()).filter(Boolean);
+  return [];
+}
+
+function readPostalRanges(v: any): PostalRange[] {
+  const raw = readJson(v);
+  const list = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(/[,;\n]/) : [];
+
+  return list
+    .map((r: any) => {
+      if (typeof r === "string" || typeof r === "number") {
+        const [a, b] = String(r).split("-").map((x) => normalizePostalCode(x));
+        return a != null ? { from: a, to: b ?? a } : null;
+      }
+      const from = normalizePostalCode(r?.from);
+      const to = normalizePostalCode(r?.to ?? r?.from);
+      return from != null && to != null ? { from: Math.min(from, to), to: Math.max(from, to) } : null;
+    })
+    .filter(Boolean) as PostalRange[];
+}
+
+function readTiers(v: any): ShippingTier[] {
+  const raw = readJson(v);
+  if (!Array.isArray(raw)) return [];
+
+  return raw
+    .map((t: any) => ({
+      upTo: toNum(t?.upTo ?? t?.up_to ?? t?.max, NaN),
+      cost: Math.round(toNum(t?.cost ?? t?.price, NaN)),
+    }))
+    .filter((t) => Number.isFinite(t.upTo) && t.upTo > 0 && Number.isFinite(t.cost) && t.cost >= 0)
+    .sort((a, b) => a.upTo - b.upTo);
+}
+
+function isIsoDate(s: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(s);
+}
+
+function readBlackouts(v: any): BlackoutWindow[] {
+  const raw = readJson(v);
+  const list = Array.isArray(raw) ? raw : typeof raw === "string" ? raw.split(/[,;\n]/) : [];
+
+  return list
+    .map((b: any) => {
+      if (typeof b === "string") {
+        const d = b.trim();
+        return isIsoDate(d) ? { from: d, to: d, reason: null } : null;
+      }
+      const from = String(b?.from ?? b?.date ?? "").trim();
+      const to = String(b?.to ?? from).trim();
+      if (!isIsoDate(from) || !isIsoDate(to)) return null;
+      return { from, to, reason: b?.reason ? String(b.reason) : null };
+    })
+    .filter(Boolean) as BlackoutWindow[];
+}
+
+export function readShippingZone(row: any): ShippingZone | null {
+  const attr = pickAttr(row);
+  if (attr?.active === false) return null;
+
+  const basis = String(attr?.tierBasis ?? attr?.tier_basis ?? "weight").trim().toLowerCase();
+  const threshold = toNum(attr?.freeShippingThreshold ?? attr?.free_shipping_threshold, NaN);
+
+  return {
+    id: String(row?.documentId ?? attr?.documentId ?? row?.id ?? ""),
+    name: String(attr?.name ?? "Envío"),
+    provinces: readList(attr?.provinces).map(normalizeProvince).filter(Boolean),
+    postalRanges: readPostalRanges(attr?.postalRanges ?? attr?.postal_ranges),
+    tierBasis: basis === "boxes" ? "boxes" : "weight",
+    tiers: readTiers(attr?.tiers),
+    baseCost: Math.max(0, Math.round(toNum(attr?.baseCost ?? attr?.base_cost, 0))),
+    freeShippingThreshold: Number.isFinite(threshold) && threshold > 0 ? Math.round(threshold) : null,
+    blackouts: readBlackouts(attr?.blackoutDates ?? attr?.blackout_dates),
+    heatRules: readHeatRules(attr?.heatRules ?? attr?.heat_rules),
+    itemsPerBox: Math.max(1, Math.floor(toNum(attr?.itemsPerBox ?? attr?.items_per_box, 6))),
+    defaultItemWeightGrams: Math.max(0, toNum(attr?.defaultItemWeightGrams ?? attr?.default_item_weight_grams, 500)),
+    priority: toNum(attr?.priority, 0),
+    isDefault: Boolean(attr?.isDefault ?? attr?.is_default),
+  };
+}
+
+/** Zonas activas desde Strapi (cache en memoria de 1 minuto). Error SHIPPING_UNAVAILABLE si Strapi falla. */
+export async function loadShippingZones(opts: { fresh?: boolean } = {}) {
+  const now = Date.now();
+  if (!opts.fresh && zonesCache && now - zonesCache.at < ZONES_CACHE_MS) return zonesCache.zones;
+
+  let rows: any[] = [];
+  try {
+    const res = await fetcher<any>(`/api/shipping-zones?pagination[pageSize]=100`, { auth: true });
+    rows = Array.isArray(res?.data) ? res.data : [];
+  } catch (e: any) {
+    const err: any = new Error("SHIPPING_UNAVAILABLE");
+    err.code = "SHIPPING_UNAVAILABLE";
+    err.details = e?.message || String(e);
+    throw err;
+  }
+
+  const zones = rows.map(readShippingZone).filter(Boolean) as ShippingZone[];
+  zonesCache = { at: now, zones };
+  return zones;
+}
+
+/**
+ * Zona para un destino: rango de CP > provincia > default.
+ * Entre zonas del mismo nivel gana la de mayor `priority`.
+ */
+export function findShippingZone(zones: ShippingZone[], destination: ShippingDestination) {
+  const cp = normalizePostalCode(destination.postalCode);
+  const province = normalizeProvince(destination.province);
+
+  const score = (z: ShippingZone) => {
+    if (cp != null && z.postalRanges.some((r) => cp >= r.from && cp <= r.to)) return 3;
+    if (province && z.provinces.includes(province)) return 2;
+    if (z.isDefault) return 1;
+    return 0;
+  };
+
+  let best: ShippingZone | null = null;
+  let bestScore = 0;
+  for (const z of zones) {
+    const s = score(z);
+    if (s > bestScore || (s === bestScore && s > 0 && best && z.priority > best.priority)) {
+      best = z;
+      bestScore = s;
+    }
+  }
+  return best;
+}
+
+/** Fecha local de Argentina (YYYY-MM-DD) */
+export function argentinaDateKey(date: Date = new Date()) {
+  return date.toLocaleDateString("en-CA", { timeZone: "America/Argentina/Buenos_Aires" });
+}
+
+export function activeBlackout(zone: ShippingZone, date: Date = new Date()) {
+  const key = argentinaDateKey(date);
+  return zone.blackouts.find((b) => key >= b.from && key <= b.to) ?? null;
+}
+
+/** Gramos o cajas del pedido, según la zona */
+export function shippingMeasure(zone: ShippingZone, lines: ShippingLine[]) {
+  if (zone.tierBasis === "boxes") {
+    // ✅ Con medidas cargadas contamos los bultos armados; si no, `itemsPerBox` como antes
+    if (lines.some((l) => hasDimensions(l))) return Math.max(1, shippingParcels(zone, lines).length);
+
+    const units = lines.reduce((acc, l) => acc + Math.max(0, Math.floor(toNum(l.qty, 0))), 0);
+    return Math.max(1, Math.ceil(units / zone.itemsPerBox));
+  }
+
+  return lines.reduce((acc, l) => {
+    const qty = Math.max(0, Math.floor(toNum(l.qty, 0)));
+    const w = toNum(l.weightGrams, NaN);
+    return acc + qty * (Number.isFinite(w) && w > 0 ? w : zone.defaultItemWeightGrams);
+  }, 0);
+}
+
+/** Costo de la zona: envío gratis > tramo que cubre la medida > último tramo > baseCost */
+export function calcZoneCost(zone: ShippingZone, subtotal: number, lines: ShippingLine[]) {
+  const measure = shippingMeasure(zone, lines);
+  const threshold = zone.freeShippingThreshold;
+
+  if (threshold != null && subtotal >= threshold) {
+    return { cost: 0, measure, freeShippingApplied: true, missingForFreeShipping: 0 };
+  }
+
+  const tier = zone.tiers.find((t) => measure <= t.upTo) ?? zone.tiers[zone.tiers.length - 1] ?? null;
+  const cost = tier ? tier.cost : zone.baseCost;
+
+  return {
+    cost,
+    measure,
+    freeShippingApplied: false,
+    missingForFreeShipping: threshold != null ? Math.max(0, threshold - Math.round(subtotal)) : null,
+  };
+}
+
+/** Bultos del pedido (cajas de lib/packing; peso default de la zona para productos sin peso) */
+export function shippingParcels(zone: ShippingZone, lines: ShippingLine[]): PackedParcel[] {
+  return packParcels(lines, { defaultItemWeightGrams: zone.defaultItemWeightGrams });
+}
+
+const NO_CARRIER = { carrierId: null, carrierName: null, service: null, etaDays: null, parcels: null };
+
+/**
+ * Opciones de envío de un pedido (la más barata primero).
+ * - pickup: siempre gratis (no necesita zona)
+ * - delivery: SHIPPING_NOT_AVAILABLE (no_destination | no_zone | blackout) si no se puede enviar
+ * - sin correos habilitados: una sola opción con la tarifa de la zona
+ * - con correos: una opción por correo que cotizó (SHIPPING_UNAVAILABLE si no cotizó ninguno)
+ */
+export async function quoteShippingOptions(params: {
+  method: ShippingMethod;
+  destination?: ShippingDestination | null;
+  subtotal: number;
+  lines: ShippingLine[];
+  date?: Date;
+}): Promise<ShippingQuote[]> {
+  const { method, subtotal, lines } = params;
+
+  if (method === "pickup") {
+    return [
+      {
+        method,
+        cost: 0,
+        zoneId: null,
+        zoneName: null,
+        basis: null,
+        measure: null,
+        freeShippingThreshold: null,
+        freeShippingApplied: false,
+        missingForFreeShipping: null,
+        refrigeratedSurcharge: 0,
+        ...NO_CARRIER,
+      },
+    ];
+  }
+
+  const destination = params.destination ?? {};
+  if (!normalizeProvince(destination.province) && normalizePostalCode(destination.postalCode) == null) {
+    shippingNotAvailable("no_destination");
+  }
+
+  const zones = await loadShippingZones();
+  const zone = findShippingZone(zones, destination);
+  if (!zone) shippingNotAvailable("no_zone");
+
+  const blackout = activeBlackout(zone, params.date);
+  if (blackout) {
+    shippingNotAvailable("blackout", { zoneName: zone.name, until: blackout.to, blackoutReason: blackout.reason });
+  }
+
+  // ✅ Productos sensibles al calor: la regla de la zona para hoy puede bloquear o sumar envío refrigerado
+  const heatProducts = lines.filter((l) => l.heatSensitive).map((l) => String(l.title ?? "").trim() || "Producto");
+  const heatRule = heatProducts.length ? activeHeatRule(zone.heatRules, params.date) : null;
+  if (heatRule?.action === "block") {
+    shippingNotAvailable("heat_sensitive", { zoneName: zone.name, until: heatRuleUntil(heatRule), products: heatProducts });
+  }
+  const refrigeratedSurcharge = heatRule?.surcharge ?? 0;
+
+  const calc = calcZoneCost(zone, subtotal, lines);
+  const parcels = shippingParcels(zone, lines);
+
+  const base: ShippingQuote = {
+    method,
+    cost: calc.cost + refrigeratedSurcharge,
+    zoneId: zone.id || null,
+    zoneName: zone.name,
+    basis: zone.tierBasis,
+    measure: calc.measure,
+    freeShippingThreshold: zone.freeShippingThreshold,
+    freeShippingApplied: calc.freeShippingApplied,
+    missingForFreeShipping: calc.missingForFreeShipping,
+    refrigeratedSurcharge,
+    ...NO_CARRIER,
+    parcels,
+  };
+
+  if (!enabledCarrierIds().length) return [base];
+
+  const { quotes, failed } = await quoteCarriers({
+    destination,
+    parcels,
+    declaredValue: Math.max(0, Math.round(subtotal)),
+  });
+
+  if (failed.length) console.error("[shipping] carrier quote failed:", failed);
+
+  if (!quotes.length) {
+    const err: any = new Error("SHIPPING_UNAVAILABLE");
+    err.code = "SHIPPING_UNAVAILABLE";
+    err.details = failed;
+    throw err;
+  }
+
+  // ✅ El envío gratis de la zona también vale con correo (el refrigerado se cobra igual)
+  return quotes
+    .map((q) => ({
+      ...base,
+      cost: (calc.freeShippingApplied ? 0 : q.cost) + refrigeratedSurcharge,
+      carrierId: q.carrierId,
+      carrierName: q.carrierName,
+      service: q.service,
+      etaDays: q.etaDays,
+    }))
+    .sort((a, b) => a.cost - b.cost || (a.etaDays?.max ?? 99) - (b.etaDays?.max ?? 99));
+}
+
+/**
+ * Cotiza el envío de un pedido con el correo elegido (`carrierId`).
+ * Sin correo elegido se toma la opción más barata; si el correo no cotizó: SHIPPING_NOT_AVAILABLE (carrier_unavailable).
+ */
+export async function quoteShipping(params: {
+  method: ShippingMethod;
+  destination?: ShippingDestination | null;
+  subtotal: number;
+  lines: ShippingLine[];
+  carrierId?: string | null;
+  date?: Date;
+}): Promise<ShippingQuote> {
+  const options = await quoteShippingOptions(params);
+  const wanted = String(params.carrierId ?? "").trim().toLowerCase();
+
+  if (!wanted || params.method === "pickup" || options.every((o) => !o.carrierId)) return options[0];
+
+  const chosen = options.find((o) => o.carrierId === wanted);
+  if (!chosen) shippingNotAvailable("carrier_unavailable", { carrierId: wanted });
+  return chosen;
+}
+
+export type HeatRestriction = {
+  zoneName: string;
+  action: HeatRule["action"];
+  surcharge: number;
+  until: string; // "15/03"
+};
+
+/** Zonas con regla de calor vigente (página de producto: avisar antes de agregar al carrito) */
+export async function activeHeatRestrictions(date: Date = new Date()): Promise<HeatRestriction[]> {
+  const zones = await loadShippingZones();
+  const list: HeatRestriction[] = [];
+  for (const z of zones) {
+    const rule = activeHeatRule(z.heatRules, date);
+    if (rule) list.push({ zoneName: z.name, action: rule.action, surcharge: rule.surcharge, until: heatRuleUntil(rule) });
+  }
+  return list;
+}
+
+/** "3 a 5 días hábiles" */
+export function describeEta(eta: CarrierEta | null | undefined) {
+  if (!eta) return null;
+  const min = Math.max(0, Math.round(eta.min));
+  const max = Math.max(min, Math.round(eta.max));
+  if (max <= 1) return "1 día hábil";
+  return min === max ? `${max} días hábiles` : `${min} a ${max} días hábiles`;
+}
+
+/** Mensaje para el comprador (orders/create, /api/shipping/quote) */
+export function shippingUnavailableMessage(e: any) {
+  if (e?.reason === "no_destination") return "Completá provincia y código postal para calcular el envío.";
+  if (e?.reason === "heat_sensitive") {
+    const products: string[] = Array.isArray(e?.products) ? Array.from(new Set(e.products)) : [];
+    const what =
+      products.length === 1
+        ? `"${products[0]}" es sensible`
+        : products.length
+        ? `${products.slice(0, 3).map((p) => `"${p}"`).join(", ")} son sensibles`
+        : "Tu carrito tiene productos sensibles";
+    const until = e?.until ? ` hasta el ${e.until}` : " por ahora";
+    return `${what} al calor: no hacemos ese envío a ${e?.zoneName || "tu zona"}${until}. Podés elegir retiro en sucursal o sacarlos del carrito.`;
+  }
+  if (e?.reason === "carrier_unavailable") return "El correo elegido no está disponible para esa dirección. Elegí otra opción de envío.";
+  if (e?.reason === "blackout") {
+    const [y, m, d] = String(e?.until ?? "").split("-");
+    const until = y && m && d ? `${d}/${m}` : "";
+    return `No hacemos envíos a ${e?.zoneName || "tu zona"}${until ? ` hasta el ${until}` : " por ahora"}${
+      e?.blackoutReason ? ` (${e.blackoutReason})` : ""
+    }. Podés elegir retiro en sucursal.`;
+  }
+  return "Todavía no hacemos envíos a esa dirección. Podés elegir retiro en sucursal.";
+}
+
+/** Línea de entrega para comprobantes (usa el snapshot guardado en la orden) */
+export function describeShipping(order: any, formatMoney: (n: number) => string) {
+  const method = order?.shippingMethod === "pickup" ? "pickup" : "delivery";
+  if (method === "pickup") {
+    const slot = describePickupSlot(order?.pickupSlotStart, order?.pickupSlotEnd);
+    return `Retiro en sucursal${order?.pickupPoint ? ` (${order.pickupPoint})` : ""}${slot ? ` · ${slot}` : ""} — GRATIS`;
+  }
 
-  // delivery
-  if (subtotal > 65000) return 0;
-  if (subtotal > 40000) return 4500;
-  return 9000;
+  const quote = readJson(order?.shippingQuote);
+  const cost = Math.round(toNum(order?.shippingCost, 0));
+  const zone = quote?.carrierName
+    ? ` (${quote.carrierName}${quote?.zoneName ? ` · ${quote.zoneName}` : ""})`
+    : quote?.zoneName
+    ? ` (${quote.zoneName})`
+    : "";
+  const price = cost === 0 ? (quote?.freeShippingApplied ? "GRATIS (envío bonificado)" : "GRATIS") : formatMoney(cost);
+  const cold = toNum(quote?.refrigeratedSurcharge, 0) > 0 ? ` (incluye envío refrigerado ${formatMoney(toNum(quote.refrigeratedSurcharge, 0))})` : "";
+  return `Envío a domicilio${zone} — ${price}${cold}`;
 }
@@ -0,0 +1,387 @@
+// src/lib/stock-reservations.ts
+import { fetcher } from "@/lib/fetcher";
+import {
+  aggregateStockNeeds,
+  fetchProductStocks,
+  outOfStockError,
+  validateStockOrThrow,
+  type StockProblem,
+} from "@/lib/stock";
+
+/**
+ * Reservas de stock ("holds") entre la creación de la orden y el pago.
+ *
+ * Colección Strapi `stock-holds`:
+ * - ref: mpExternalReference de la orden
+ * - productDocumentId, qty
+ * - holdStatus: "active" | "committed" | "released" | "restocked"
+ * - expiresAt: vencida => ya no cuenta como reservada
+ *
+ * Disponible = stock del producto - holds activos no vencidos.
+ * Para que dos compras simultáneas del último item no pasen las dos:
+ * primero creamos el hold y después verificamos contra los holds con id menor
+ * (creados antes). El que llegó segundo libera su hold y recibe OUT_OF_STOCK.
+ */
+
+type OrderItemLike = {
+  qty?: number | string | null;
+  quantity?: number | string | null;
+  title?: string | null;
+  productDocumentId?: string | null;
+};
+
+export type HoldStatus = "active" | "committed" | "released" | "restocked";
+
+export type StockHold = {
+  id: number;
+  documentId: string;
+  ref: string;
+  productDocumentId: string;
+  qty: number;
+  holdStatus: HoldStatus;
+  expiresAt: string | null;
+};
+
+const HOLDS_PATH = "/api/stock-holds";
+
+/** TTL de la reserva (STOCK_HOLD_TTL_MINUTES, default 30 min) */
+export function holdTtlMs() {
+  const n = Number(process.env.STOCK_HOLD_TTL_MINUTES);
+  const minutes = Number.isFinite(n) && n > 0 ? n : 30;
+  return Math.round(minutes * 60_000);
+}
+
+function flattenHold(row: any): StockHold | null {
+  if (!row) return null;
+  const flat = row?.attributes ? { id: row.id, documentId: row.documentId, ...row.attributes } : row;
+
+  const qty = Math.floor(Number(flat?.qty ?? 0));
+  const doc = String(flat?.productDocumentId ?? "").trim();
+  // qty 0: committed sin unidades (el stock ya estaba en 0), queda como marca de idempotencia
+  if (!doc || !Number.isFinite(qty) || qty < 0) return null;
+
+  return {
+    id: Number(flat?.id ?? 0),
+    documentId: String(flat?.documentId ?? flat?.id ?? ""),
+    ref: String(flat?.ref ?? ""),
+    productDocumentId: doc,
+    qty,
+    holdStatus: (flat?.holdStatus ?? "active") as HoldStatus,
+    expiresAt: flat?.expiresAt ?? null,
+  };
+}
+
+function normalizeItems(items: OrderItemLike[]) {
+  return (Array.isArray(items) ? items : []).map((it) => ({
+    qty: Number(it?.qty ?? it?.quantity ?? 0),
+    title: it?.title ?? undefined,
+    productDocumentId: it?.productDocumentId ?? null,
+  }));
+}
+
+/* ===================== QUERIES ===================== */
+
+/** Todas las páginas: con muchos holds activos, cortar en 100 subestima lo reservado */
+async function listHolds(filters: Record<string, string>) {
+  const holds: StockHold[] = [];
+
+  for (let page = 1; ; page++) {
+    const sp = new URLSearchParams();
+    sp.set("pagination[page]", String(page));
+    sp.set("pagination[pageSize]", "100");
+    sp.set("sort[0]", "id:asc");
+    for (const [k, v] of Object.entries(filters)) sp.set(k, v);
+
+    const res = await fetcher<{ data: any[]; meta?: any }>(`${HOLDS_PATH}?${sp.toString()}`, { auth: true });
+    const rows = Array.isArray(res?.data) ? res.data : [];
+    holds.push(...(rows.map(flattenHold).filter(Boolean) as StockHold[]));
+
+    const pageCount = Number(res?.meta?.pagination?.pageCount ?? page);
+    if (!rows.length || !Number.isFinite(pageCount) || page >= pageCount) break;
+  }
+
+  return holds;
+}
+
+async function listHoldsByRef(ref: string) {
+  return listHolds({ "filters[ref][$eq]": ref });
+}
+
+/** Holds activos (no vencidos) para esos productos, ordenados por id asc */
+async function listActiveHoldsForProducts(docIds: string[]) {
+  if (!docIds.length) return [];
+
+  const filters: Record<string, string> = {
+    "filters[holdStatus][$eq]": "active",
+    "filters[expiresAt][$gt]": new Date().toISOString(),
+  };
+  docIds.forEach((doc, i) => {
+    filters[`filters[$or][${i}][productDocumentId][$eq]`] = doc;
+  });
+
+  return listHolds(filters);
+}
+
+async function createHold(data: Omit<StockHold, "id" | "documentId">) {
+  const created = await fetcher<{ data: any }>(HOLDS_PATH, {
+    method: "POST",
+    auth: true,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ data }),
+  });
+  return flattenHold(created?.data);
+}
+
+async function updateHold(hold: StockHold, data: Partial<Pick<StockHold, "holdStatus" | "qty">>) {
+  await fetcher(`${HOLDS_PATH}/${encodeURIComponent(hold.documentId)}`, {
+    method: "PUT",
+    auth: true,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ data }),
+  });
+}
+
+async function setHoldStatus(hold: StockHold, holdStatus: HoldStatus) {
+  await updateHold(hold, { holdStatus });
+}
+
+/**
+ * Unidades retenidas por OTRAS órdenes (para validar sin reservar).
+ */
+export async function getHeldByOthers(docIds: string[], excludeRef?: string | null) {
+  const held = new Map<string, number>();
+  const holds = await listActiveHoldsForProducts(docIds);
+  for (const h of holds) {
+    if (excludeRef && h.ref === excludeRef) continue;
+    held.set(h.productDocumentId, (held.get(h.productDocumentId) ?? 0) + h.qty);
+  }
+  return held;
+}
+
+/* ===================== LOCK (por proceso) ===================== */
+
+// Serializa read-modify-write del stock de un producto dentro de este runtime.
+// Las reservas en sí no dependen de esto (se resuelven por orden de creación).
+const productLocks = new Map<string, Promise<unknown>>();
+
+async function withProductLock<T>(doc: string, fn: () => Promise<T>) {
+  const prev = productLocks.get(doc) ?? Promise.resolve();
+  const run = prev.catch(() => null).then(fn);
+  productLocks.set(doc, run);
+  try {
+    return await run;
+  } finally {
+    if (productLocks.get(doc) === run) productLocks.delete(doc);
+  }
+}
+
+/* ===================== API ===================== */
+
+/**
+ * Reserva stock para una orden (idempotente por ref: libera holds previos de esa ref).
+ * Tira OUT_OF_STOCK (mismo shape que validateStockOrThrow) si no alcanza.
+ */
+export async function reserveStockOrThrow(
+  ref: string,
+  items: OrderItemLike[],
+  opts: { ttlMs?: number } = {}
+) {
+  const cleanRef = String(ref ?? "").trim();
+  if (!cleanRef) throw new Error("reserveStockOrThrow: falta ref");
+
+  const need = aggregateStockNeeds(normalizeItems(items));
+  const docIds = Array.from(need.keys());
+  if (!docIds.length) return { holds: [] as StockHold[], expiresAt: null as string | null };
+
+  await releaseExpiredHolds().catch((e: any) =>
+    console.error("[stock] no pude liberar holds vencidos:", e?.message || e)
+  );
+  await releaseReservation(cleanRef);
+
+  // Pre-chequeo barato (evita crear holds si ya sabemos que no alcanza)
+  const held = await getHeldByOthers(docIds, cleanRef);
+  await validateStockOrThrow(normalizeItems(items), { held });
+
+  const stocks = await fetchProductStocks(docIds);
+  const expiresAt = new Date(Date.now() + (opts.ttlMs ?? holdTtlMs())).toISOString();
+
+  // 1) Crear holds (solo para productos con stock controlado)
+  const mine: StockHold[] = [];
+  for (const doc of docIds) {
+    const row = stocks.get(doc);
+    if (!row || row.stock === null) continue;
+
+    const hold = await createHold({
+      ref: cleanRef,
+      productDocumentId: doc,
+      qty: need.get(doc)!.requested,
+      holdStatus: "active",
+      expiresAt,
+    });
+    if (hold) mine.push(hold);
+  }
+
+  // 2) Verificar contra holds creados ANTES que los míos
+  const active = await listActiveHoldsForProducts(mine.map((h) => h.productDocumentId));
+  const problems: StockProblem[] = [];
+
+  for (const h of mine) {
+    const stock = stocks.get(h.productDocumentId)?.stock ?? 0;
+    const before = active
+      .filter((x) => x.productDocumentId === h.productDocumentId && x.ref !== cleanRef && x.id < h.id)
+      .reduce((acc, x) => acc + x.qty, 0);
+
+    const available = Math.max(0, stock - before);
+    if (available < h.qty) {
+      problems.push({
+        documentId: h.productDocumentId,
+        title: stocks.get(h.productDocumentId)?.title || need.get(h.productDocumentId)?.title || "Producto",
+        requested: h.qty,
+        available,
+      });
+    }
+  }
+
+  if (problems.length) {
+    await Promise.all(mine.map((h) => setHoldStatus(h, "released").catch(() => null)));
+    throw outOfStockError(problems);
+  }
+
+  return { holds: mine, expiresAt };
+}
+
+// Reserva que vence antes de esto se renueva al pagar (si no, la preferencia de MP duraría segundos)
+const MIN_HOLD_LEFT_MS = 5 * 60_000;
+
+/**
+ * Antes de pagar: si la orden ya tiene holds activos y vigentes, ok.
+ * Si vencieron, están por vencer (o nunca existieron), intenta reservar de nuevo.
+ * `expiresAt`: hasta cuándo vale la reserva; la preferencia de MP vence ahí (ver createPreferenceForOrder),
+ * así no se puede pagar una orden cuyo stock ya se liberó.
+ */
+export async function ensureReservationOrThrow(ref: string, items: OrderItemLike[]) {
+  const need = aggregateStockNeeds(normalizeItems(items));
+  const now = Date.now();
+
+  const holds = (await listHoldsByRef(ref)).filter(
+    (h) => h.holdStatus === "active" && h.expiresAt && new Date(h.expiresAt).getTime() > now + MIN_HOLD_LEFT_MS
+  );
+
+  const covered = Array.from(need.entries()).every(([doc, n]) =>
+    holds.some((h) => h.productDocumentId === doc && h.qty >= n.requested)
+  );
+
+  if (covered && holds.length) {
+    const expiresAt = holds.map((h) => h.expiresAt!).sort()[0];
+    return { holds, renewed: false, expiresAt };
+  }
+
+  const res = await reserveStockOrThrow(ref, items);
+  // Sin productos con stock controlado no hay hold: la preferencia vence igual al TTL
+  return { holds: res.holds, renewed: true, expiresAt: res.expiresAt ?? new Date(now + holdTtlMs()).toISOString() };
+}
+
+/**
+ * Pago aprobado: descuenta stock definitivo y deja un hold committed por producto
+ * con lo que se descontó de verdad (restockReservation devuelve eso).
+ * Si el stock ya no alcanza (la reserva venció y se vendió), descuenta lo que hay y lo devuelve en `shortages`:
+ * el caller tiene que marcar la orden, no se puede entregar completa.
+ * Idempotente por producto: los que ya tienen hold committed (o restocked) de esta ref no se tocan,
+ * así un reintento después de un corte a mitad del loop no descuenta dos veces.
+ * Si el hold ya no estaba activo (venció o lo liberó releaseExpiredHolds), el committed se crea igual.
+ * (El webhook además usa `stockAdjusted` en la orden.)
+ */
+export async function commitReservation(ref: string, items: OrderItemLike[]) {
+  const cleanRef = String(ref ?? "").trim();
+  if (!cleanRef) throw new Error("commitReservation: falta ref");
+
+  const holds = await listHoldsByRef(cleanRef);
+  const need = aggregateStockNeeds(normalizeItems(items));
+
+  let committed = 0;
+  let skipped = 0;
+  const shortages: Array<{ productDocumentId: string; requested: number; taken: number }> = [];
+
+  for (const [doc, n] of Array.from(need.entries())) {
+    const own = holds.filter((h) => h.productDocumentId === doc);
+    if (own.some((h) => h.holdStatus === "committed" || h.holdStatus === "restocked")) {
+      skipped++;
+      continue;
+    }
+
+    await withProductLock(doc, async () => {
+      const current = (await fetchProductStocks([doc])).get(doc);
+      const active = own.filter((h) => h.holdStatus === "active");
+
+      // Sin stock controlado: no hay nada que descontar ni devolver
+      if (!current || current.stock === null) {
+        await Promise.all(active.map((h) => setHoldStatus(h, "released")));
+        return;
+      }
+
+      const taken = Math.max(0, Math.min(current.stock, n.requested));
+      if (taken < n.requested) shortages.push({ productDocumentId: doc, requested: n.requested, taken });
+      await fetcher(`/api/products/${encodeURIComponent(doc)}`, {
+        method: "PUT",
+        auth: true,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ data: { stock: current.stock - taken } }),
+      });
+
+      // Primero descontamos y después cerramos el hold: en el medio se cuenta doble (conservador).
+      const [keep, ...extra] = active;
+      if (keep) {
+        await updateHold(keep, { holdStatus: "committed", qty: taken });
+      } else {
+        await createHold({ ref: cleanRef, productDocumentId: doc, qty: taken, holdStatus: "committed", expiresAt: null });
+      }
+      await Promise.all(extra.map((h) => setHoldStatus(h, "released")));
+      committed++;
+    });
+  }
+
+  return { committed: committed > 0, alreadyCommitted: committed === 0 && skipped > 0, shortages };
+}
+
+/** Pago rechazado/cancelado: libera los holds activos de la orden. */
+export async function releaseReservation(ref: string) {
+  const holds = await listHoldsByRef(ref);
+  const active = holds.filter((h) => h.holdStatus === "active");
+  await Promise.all(active.map((h) => setHoldStatus(h, "released")));
+  return { released: active.length };
+}
+
+/** Marca como released los holds activos ya vencidos (limpieza). */
+export async function releaseExpiredHolds() {
+  const expired = await listHolds({
+    "filters[holdStatus][$eq]": "active",
+    "filters[expiresAt][$lte]": new Date().toISOString(),
+  });
+  await Promise.all(expired.map((h) => setHoldStatus(h, "released")));
+  return { released: expired.length };
+}
+
+/**
+ * Reembolso total: devuelve al stock lo que se descontó al aprobarse el pago.
+ * Idempotente: solo toca holds committed y los pasa a restocked.
+ */
+export async function restockReservation(ref: string) {
+  const committed = (await listHoldsByRef(ref)).filter((h) => h.holdStatus === "committed");
+
+  for (const h of committed) {
+    await withProductLock(h.productDocumentId, async () => {
+      const current = (await fetchProductStocks([h.productDocumentId])).get(h.productDocumentId);
+      if (current && current.stock !== null) {
+        await fetcher(`/api/products/${encodeURIComponent(h.productDocumentId)}`, {
+          method: "PUT",
+          auth: true,
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ data: { stock: current.stock + h.qty } }),
+        });
+      }
+      await setHoldStatus(h, "restocked");
+    });
+  }
+
+  return { restocked: committed.length };
+}
@@ -54,13 +54,13 @@ function pickStock(row: any): number | null {
   return Number.isFinite(n) ? n : 0;
 }
 
+export type StockNeed = { requested: number; title?: string };
+
 /**
- * Valida stock por documentId (Strapi v5).
- * - stock null/undefined => sin control (ilimitado)
- * - si no existe producto => available 0
+ * Agrupa items del carrito/orden por documentId (suma qty repetidas).
  */
-export async function validateStockOrThrow(items: CartItem[]) {
-  const need = new Map<string, { requested: number; title?: string }>();
+export function aggregateStockNeeds(items: CartItem[]) {
+  const need = new Map<string, StockNeed>();
 
   for (const it of Array.isArray(items) ? items : []) {
     const doc = String(it?.productDocumentId ?? "").trim();
@@ -74,8 +74,17 @@ export async function validateStockOrThrow(items: CartItem[]) {
     });
   }
 
-  const docIds = Array.from(need.keys());
-  if (!docIds.length) return;
+  return need;
+}
+
+/**
+ * Trae stock actual de Strapi para una lista de documentId.
+ * - stock null => sin control (ilimitado)
+ * - si el producto no vuelve en la respuesta, no aparece en el Map
+ */
+export async function fetchProductStocks(docIds: string[]) {
+  const byDoc = new Map<string, { title: string; stock: number | null }>();
+  if (!docIds.length) return byDoc;
 
   // ⚠️ En Strapi, $in no se manda como "a,b,c" en un solo string de forma confiable.
   // Armamos filters[$or][i][documentId][$eq]=... (funciona bien en v4/v5).
@@ -95,12 +104,38 @@ export async function validateStockOrThrow(items: CartItem[]) {
 
   const rows = Array.isArray(res?.data) ? res.data : [];
 
-  const byDoc = new Map<string, any>();
   for (const r of rows) {
     const doc = pickDocumentId(r);
-    if (doc) byDoc.set(doc, r);
+    if (doc) byDoc.set(doc, { title: pickTitle(r), stock: pickStock(r) });
   }
 
+  return byDoc;
+}
+
+export function outOfStockError(problems: StockProblem[]) {
+  const err: any = new Error("OUT_OF_STOCK");
+  err.code = "OUT_OF_STOCK";
+  err.problems = problems;
+  return err;
+}
+
+/**
+ * Valida stock por documentId (Strapi v5).
+ * - stock null/undefined => sin control (ilimitado)
+ * - si no existe producto => available 0
+ * - `held`: unidades reservadas por otras órdenes (ver lib/stock-reservations)
+ */
+export async function validateStockOrThrow(
+  items: CartItem[],
+  opts: { held?: Map<string, number> } = {}
+) {
+  const need = aggregateStockNeeds(items);
+
+  const docIds = Array.from(need.keys());
+  if (!docIds.length) return;
+
+  const byDoc = await fetchProductStocks(docIds);
+
   const problems: StockProblem[] = [];
 
   for (const doc of docIds) {
@@ -117,24 +152,20 @@ export async function validateStockOrThrow(items: CartItem[]) {
       continue;
     }
 
-    const stock = pickStock(row);
     // stock null => sin control
-    if (stock === null) continue;
+    if (row.stock === null) continue;
+
+    const available = Math.max(0, row.stock - (opts.held?.get(doc) ?? 0));
 
-    if (stock < requested) {
+    if (available < requested) {
       problems.push({
         documentId: doc,
-        title: pickTitle(row) || need.get(doc)?.title || "Producto",
+        title: row.title || need.get(doc)?.title || "Producto",
         requested,
-        available: stock,
+        available,
       });
     }
   }
 
-  if (problems.length) {
-    const err: any = new Error("OUT_OF_STOCK");
-    err.code = "OUT_OF_STOCK";
-    err.problems = problems;
-    throw err;
-  }
+  if (problems.length) throw outOfStockError(problems);
 }
@@ -1,5 +1,8 @@
 // src/lib/strapi-mappers.ts
 import type { ProductCardItem } from "@/components/products/ProductCard";
+import { readProductDimensions } from "@/lib/packing";
+import { readHeatSensitive } from "@/lib/heat-rules";
+import { applyFlashSale, type FlashSale } from "@/lib/flash-sales";
 
 const STRAPI_URL = String(
   process.env.NEXT_PUBLIC_STRAPI_URL ??
@@ -112,8 +115,9 @@ function pickStock(product: any, attr: any): number | null {
 /**
  * Mapper para cards de producto
  * Soporta Strapi v4 (data: {id, attributes}) y v5 (data: {id, documentId, ...})
+ * Con `sales` (fetchFlashSales) el `off` es el de la oferta relámpago vigente, si es mayor.
  */
-export function toCardItem(product: any): ProductCardItem {
+export function toCardItem(product: any, sales: FlashSale[] = [], now: Date = new Date()): ProductCardItem {
   const attr = product?.attributes ?? product ?? {};
 
   const documentId =
@@ -132,10 +136,18 @@ export function toCardItem(product: any): ProductCardItem {
   const title = toStrOrNull(attr?.title) ?? "Producto";
   const description = String(attr?.description ?? "");
   const price = toNum(attr?.price ?? product?.price, 0);
-  const off = toOffOrUndef(attr?.off ?? product?.off);
+  const category = toStrOrNull(attr?.category);
+  const flash = applyFlashSale(
+    { id, documentId, slug, category },
+    toOffOrUndef(attr?.off ?? product?.off),
+    sales,
+    now
+  );
+  const off = flash.off ?? undefined;
 
   const stock = pickStock(product, attr);
   const imageUrl = getStrapiImageUrlFromAttributes(attr);
+  const { weightGrams, lengthCm, widthCm, heightCm } = readProductDimensions(attr);
 
   return {
     id,
@@ -145,10 +157,18 @@ export function toCardItem(product: any): ProductCardItem {
     description,
     price,
     off,
-    category: toStrOrNull(attr?.category),
+    category,
     imageUrl,
+    ...(flash.sale ? { saleName: flash.sale.name, saleEndsAt: flash.sale.endsAt } : {}),
 
     // ✅ stock para clamp en carrito / add-to-cart
     ...(stock !== null ? { stock } : {}),
+
+    // ✅ peso y medidas (envío por bultos)
+    weightGrams,
+    lengthCm,
+    widthCm,
+    heightCm,
+    heatSensitive: readHeatSensitive(attr),
   } as ProductCardItem;
 }
@@ -9,6 +9,16 @@ export type CartItem = ProductCardItem & {
   stock?: number | null;
 };
 
+export type PriceUpdate = {
+  productDocumentId?: string | null;
+  productId?: number | null;
+  price: number;
+  off?: number | null;
+  // ✅ oferta relámpago vigente (solo viene de /api/products/prices; sin el campo no se toca)
+  saleName?: string | null;
+  saleEndsAt?: string | null;
+};
+
 type CartState = {
   items: CartItem[];
 
@@ -22,6 +32,13 @@ type CartState = {
   dec: (slug: string) => void;
   clear: () => void;
 
+  // ✅ cupón del carrito (lo carga /carrito y lo usa el checkout; se valida en /api/promotions/quote)
+  coupon: string;
+  setCoupon: (v: string) => void;
+
+  // ✅ aplica precios recalculados por el server (ej: PRICE_MISMATCH)
+  syncPrices: (updates: PriceUpdate[]) => void;
+
   totalItems: () => number;
   totalPrice: () => number;
 };
@@ -189,7 +206,31 @@ export const useCartStore = create<CartState>()(
             .filter((i) => normalizeQty(i.qty) > 0),
         })),
 
-      clear: () => set({ items: [] }),
+      clear: () => set({ items: [], coupon: "" }),
+
+      coupon: "",
+      setCoupon: (v) => set({ coupon: String(v ?? "").slice(0, 64) }),
+
+      syncPrices: (updates) =>
+        set((state) => ({
+          items: state.items.map((i: any) => {
+            const u = updates.find((x) =>
+              x.productDocumentId
+                ? x.productDocumentId === i.documentId
+                : x.productId != null && Number(x.productId) === Number(i.id)
+            );
+            if (!u) return i;
+
+            const price = Number(u.price);
+            const off = Number(u.off);
+            return {
+              ...i,
+              price: Number.isFinite(price) ? price : i.price,
+              off: Number.isFinite(off) && off > 0 ? off : undefined,
+              ...(u.saleEndsAt !== undefined ? { saleName: u.saleName ?? null, saleEndsAt: u.saleEndsAt } : {}),
+            };
+          }),
+        })),
 
       // ✅ totalItems: no forzamos mínimo 1; sumamos qty real (0 no debería existir igual)
       totalItems: () => get().items.reduce((acc, i) => acc + normalizeQty(i.qty), 0),
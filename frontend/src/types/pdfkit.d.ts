@@ -0,0 +1,3 @@
+// src/types/pdfkit.d.ts
+// pdfkit no trae tipos (y no usamos @types/pdfkit): comprobantes y gift cards lo importan como `any`
+declare module "pdfkit";